@@ -1,5 +1,7 @@
+import { useEffect } from "react";
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
+import { startSyncQueue } from "./lib/syncQueue";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -13,10 +15,18 @@ import WorkoutDetail from "@/pages/workout-detail";
 import WorkoutRunner from "@/pages/workout-runner";
 import WorkoutComplete from "@/pages/workout-complete";
 import Profile from "@/pages/profile";
+import Favorites from "@/pages/favorites";
+import History from "@/pages/history";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
 
+  // Retry sessions logged while offline once a user is signed in
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return startSyncQueue();
+  }, [isAuthenticated]);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-screen bg-black">
@@ -40,9 +50,12 @@ function Router() {
       <Route path="/onboarding" component={Onboarding} />
       <Route path="/workout-lab" component={WorkoutLab} />
       <Route path="/workout" component={WorkoutDetail} />
-      <Route path="/workout/runner" component={WorkoutRunner} />
-      <Route path="/workout/complete" component={WorkoutComplete} />
+      <Route path="/workout/runner/:id" component={WorkoutRunner} />
+      <Route path="/workout/complete/:id" component={WorkoutComplete} />
+      <Route path="/workout/:id" component={WorkoutDetail} />
       <Route path="/profile" component={Profile} />
+      <Route path="/favorites" component={Favorites} />
+      <Route path="/history" component={History} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,128 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Created CalendarFeedCard for subscribing to planned workouts from the profile screen.
+// - Creates, resets and turns off the private ICS feed via /api/calendar/feed.
+// - Planned sessions land in the user's optimal time block; see server/utils/calendarFeed.
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarPlus, Copy, RefreshCw, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+type CalendarFeedResponse = { url: string | null };
+
+/**
+ * Profile card for the calendar subscription. The feed URL is the only credential,
+ * so resetting it is how a user cuts off a calendar they no longer trust.
+ */
+export function CalendarFeedCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<CalendarFeedResponse | null>({
+    queryKey: ["/api/calendar/feed"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+  const feedUrl = data?.url ?? null;
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/calendar/feed");
+      return res.json() as Promise<CalendarFeedResponse>;
+    },
+    onSuccess: (response) => {
+      queryClient.setQueryData(["/api/calendar/feed"], response);
+      toast({
+        title: feedUrl ? "Calendar link reset" : "Calendar feed ready",
+        description: feedUrl ? "Calendars using the old link will stop updating." : "Subscribe to it from any calendar app.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/calendar/feed");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/calendar/feed"], { url: null });
+      toast({ title: "Calendar feed turned off" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Link copied", description: "Paste it into your calendar's \"subscribe by URL\" option." });
+    } catch {
+      toast({ title: "Copy failed", description: feedUrl, variant: "destructive" });
+    }
+  };
+
+  const isBusy = createMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Card className="p-5 bg-card/40 border-border/40">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarPlus className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-bold text-white">Training Calendar</h2>
+      </div>
+
+      {!feedUrl ? (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Put your planned sessions in your calendar, scheduled in the time of day you train best.
+          </p>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => createMutation.mutate()}
+            disabled={isBusy}
+            data-testid="button-create-calendar-feed"
+          >
+            <CalendarPlus size={16} className="mr-2" /> Add to Calendar
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <Button asChild className="w-full" data-testid="link-subscribe-calendar">
+            <a href={feedUrl.replace(/^https?:/, "webcal:")}>
+              <CalendarPlus size={16} className="mr-2" /> Subscribe
+            </a>
+          </Button>
+          <div className="grid grid-cols-3 gap-2">
+            <Button variant="outline" size="sm" onClick={handleCopy} data-testid="button-copy-calendar-feed">
+              <Copy size={14} className="mr-1" /> Copy
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => createMutation.mutate()}
+              disabled={isBusy}
+              data-testid="button-reset-calendar-feed"
+            >
+              <RefreshCw size={14} className="mr-1" /> Reset
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              onClick={() => deleteMutation.mutate()}
+              disabled={isBusy}
+              data-testid="button-delete-calendar-feed"
+            >
+              <X size={14} className="mr-1" /> Turn off
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,303 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Created CustomExercisesCard for managing user-defined exercises from the profile screen.
+// - Lists, creates and deletes custom exercises via /api/exercises/custom.
+// - Custom exercises are merged into every generator's candidate pool server-side.
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2, Dumbbell } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { EquipmentSelector } from "@/components/equipment-selector";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { getEquipmentLabel, type EquipmentId } from "@shared/equipment";
+import { EXERCISE_CATEGORIES, MUSCLE_GROUPS, type ExerciseCategory, type ExerciseDifficulty } from "@shared/exercises";
+import type { CustomExercise } from "@shared/schema";
+
+const DIFFICULTIES: ExerciseDifficulty[] = ["beginner", "intermediate", "advanced"];
+
+interface CustomExerciseDraft {
+  name: string;
+  muscleGroup: string;
+  difficulty: ExerciseDifficulty;
+  equipment: EquipmentId[];
+  reps: Record<ExerciseDifficulty, number>;
+  categories: Record<ExerciseCategory, boolean>;
+  isHold: boolean;
+  alternatesSides: boolean;
+}
+
+const EMPTY_DRAFT: CustomExerciseDraft = {
+  name: "",
+  muscleGroup: MUSCLE_GROUPS[0] ?? "full body",
+  difficulty: "beginner",
+  equipment: ["bodyweight"],
+  reps: { beginner: 8, intermediate: 12, advanced: 15 },
+  categories: { compound: false, cardio: false, plyometric: false, mobility: false },
+  isHold: false,
+  alternatesSides: false,
+};
+
+/**
+ * Profile card listing the user's custom exercises with a create dialog.
+ * Rep targets are per difficulty level, mirroring the built-in catalog.
+ */
+export function CustomExercisesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [draft, setDraft] = useState<CustomExerciseDraft>(EMPTY_DRAFT);
+
+  const { data: customExercises = [] } = useQuery<CustomExercise[]>({
+    queryKey: ["/api/exercises/custom"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const invalidateExercises = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/exercises/custom"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/exercises"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (exercise: CustomExerciseDraft) => {
+      const res = await apiRequest("POST", "/api/exercises/custom", exercise);
+      return res.json() as Promise<CustomExercise>;
+    },
+    onSuccess: (exercise) => {
+      invalidateExercises();
+      toast({ title: "Exercise Added", description: `${exercise.name} can now appear in your workouts.` });
+      setIsCreateOpen(false);
+      setDraft(EMPTY_DRAFT);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (exerciseId: string) => {
+      await apiRequest("DELETE", `/api/exercises/custom/${exerciseId}`);
+    },
+    onSuccess: () => {
+      invalidateExercises();
+      toast({ title: "Exercise Removed", description: "It will no longer be used in generated workouts." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleCategory = (category: ExerciseCategory) => {
+    setDraft((prev) => ({
+      ...prev,
+      categories: { ...prev.categories, [category]: !prev.categories[category] },
+    }));
+  };
+
+  const setRepTarget = (level: ExerciseDifficulty, value: string) => {
+    const parsed = parseInt(value, 10);
+    setDraft((prev) => ({
+      ...prev,
+      reps: { ...prev.reps, [level]: Number.isNaN(parsed) ? 0 : parsed },
+    }));
+  };
+
+  const canSave = draft.name.trim().length >= 2 && DIFFICULTIES.every((level) => draft.reps[level] > 0);
+
+  return (
+    <Card className="p-5 bg-card/40 border-border/40">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Dumbbell className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-bold text-white">Custom Exercises</h2>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-primary hover:text-primary/80"
+          onClick={() => setIsCreateOpen(true)}
+          data-testid="button-add-custom-exercise"
+        >
+          <Plus size={14} />
+        </Button>
+      </div>
+
+      {customExercises.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Add movements that aren't in the library and they'll be mixed into your generated workouts.
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {customExercises.map((exercise) => (
+            <div
+              key={exercise.id}
+              className="flex items-center justify-between p-2 bg-secondary/30 rounded"
+              data-testid={`custom-exercise-${exercise.id}`}
+            >
+              <div>
+                <p className="font-bold text-white text-sm">{exercise.name}</p>
+                <p className="text-xs text-muted-foreground capitalize">
+                  {exercise.muscleGroup} • {exercise.difficulty} • {exercise.equipment.map(getEquipmentLabel).join(", ")}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {exercise.isHold && (
+                  <Badge variant="secondary" className="text-xs">
+                    Hold
+                  </Badge>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-muted-foreground hover:text-destructive"
+                  onClick={() => deleteMutation.mutate(exercise.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create Custom Exercise Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-[90vw] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Custom Exercise</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-5 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="custom-exercise-name">Name</Label>
+              <Input
+                id="custom-exercise-name"
+                value={draft.name}
+                placeholder="e.g. Sandbag Cleans"
+                maxLength={64}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Muscle Group</Label>
+              <div className="flex flex-wrap gap-2">
+                {MUSCLE_GROUPS.map((group) => (
+                  <Badge
+                    key={group}
+                    variant={draft.muscleGroup === group ? "default" : "outline"}
+                    className="cursor-pointer capitalize"
+                    onClick={() => setDraft((prev) => ({ ...prev, muscleGroup: group }))}
+                  >
+                    {group}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {DIFFICULTIES.map((level) => (
+                  <Button
+                    key={level}
+                    type="button"
+                    variant={draft.difficulty === level ? "default" : "outline"}
+                    size="sm"
+                    className="capitalize"
+                    onClick={() => setDraft((prev) => ({ ...prev, difficulty: level }))}
+                  >
+                    {level}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{draft.isHold ? "Hold Seconds" : "Reps"} per Level</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {DIFFICULTIES.map((level) => (
+                  <div key={level} className="space-y-1">
+                    <span className="text-xs text-muted-foreground capitalize">{level}</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={600}
+                      value={draft.reps[level] || ""}
+                      onChange={(e) => setRepTarget(level, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Categories</Label>
+              <div className="flex flex-wrap gap-2">
+                {EXERCISE_CATEGORIES.map((category) => (
+                  <Badge
+                    key={category}
+                    variant={draft.categories[category] ? "default" : "outline"}
+                    className="cursor-pointer capitalize"
+                    onClick={() => toggleCategory(category)}
+                  >
+                    {category}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="custom-exercise-hold">Timed hold</Label>
+                <Switch
+                  id="custom-exercise-hold"
+                  checked={draft.isHold}
+                  onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, isHold: checked }))}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="custom-exercise-sides">Alternates sides</Label>
+                <Switch
+                  id="custom-exercise-sides"
+                  checked={draft.alternatesSides}
+                  onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, alternatesSides: checked }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Required Equipment</Label>
+              <EquipmentSelector
+                value={draft.equipment}
+                onChange={(equipment) => setDraft((prev) => ({ ...prev, equipment }))}
+                mode="settings"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsCreateOpen(false)}
+              disabled={createMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate({ ...draft, name: draft.name.trim() })}
+              disabled={!canSave || createMutation.isPending}
+            >
+              {createMutation.isPending ? "Saving..." : "Add Exercise"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
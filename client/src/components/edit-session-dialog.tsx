@@ -0,0 +1,175 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Created EditSessionDialog to correct RPE, notes and per-round actuals of a logged session.
+
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { UpdateWorkoutSession, WorkoutRound, WorkoutSession } from "@shared/schema";
+
+export type EditableSession = WorkoutSession & { rounds: WorkoutRound[] };
+
+type RoundEdit = Pick<WorkoutRound, "actualReps" | "actualSeconds" | "skipped">;
+
+interface EditSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  session: EditableSession;
+  onSaved: (session: EditableSession) => void;
+}
+
+// Keys whose data is derived from session history and is recomputed on every edit
+export const SESSION_DERIVED_QUERY_KEYS = [
+  ["/api/workout/history"],
+  ["/api/profile"],
+  ["/api/personal-records"],
+  ["/api/mastery"],
+  ["/api/recovery"],
+];
+
+/**
+ * Corrects a logged session; the server replays history so records and scores follow.
+ */
+export function EditSessionDialog({ open, onOpenChange, session, onSaved }: EditSessionDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rpe, setRpe] = useState<number | null>(session.perceivedExertion);
+  const [notes, setNotes] = useState(session.notes ?? "");
+  const [roundEdits, setRoundEdits] = useState<Record<string, RoundEdit>>({});
+
+  useEffect(() => {
+    if (open) {
+      setRpe(session.perceivedExertion);
+      setNotes(session.notes ?? "");
+      setRoundEdits({});
+    }
+  }, [open, session]);
+
+  const getRound = (round: WorkoutRound): RoundEdit =>
+    roundEdits[round.id] ?? { actualReps: round.actualReps, actualSeconds: round.actualSeconds, skipped: round.skipped };
+
+  const updateRound = (round: WorkoutRound, changes: Partial<RoundEdit>) => {
+    setRoundEdits((previous) => ({ ...previous, [round.id]: { ...getRound(round), ...changes } }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const update: UpdateWorkoutSession = {
+        notes: notes.trim() ? notes.trim() : null,
+        rounds: Object.entries(roundEdits).map(([id, edit]) => ({ id, ...edit })),
+      };
+      if (rpe) update.perceivedExertion = rpe;
+      const res = await apiRequest("PATCH", `/api/workout/session/${session.id}`, update);
+      return res.json() as Promise<EditableSession>;
+    },
+    onSuccess: (updated) => {
+      SESSION_DERIVED_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      toast({ title: "Workout updated", description: "Your records and scores were recalculated." });
+      onSaved(updated);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[90vw] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Workout</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6 py-4">
+          <div className="space-y-2">
+            <Label>Perceived exertion</Label>
+            <div className="grid grid-cols-5 gap-2">
+              {[1, 2, 3, 4, 5].map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setRpe(value)}
+                  className={cn(
+                    "rounded-xl border-2 py-2 flex flex-col items-center justify-center gap-1 transition-all",
+                    rpe === value ? "border-primary bg-primary/10" : "border-border/50 bg-card/50 hover:border-primary/50"
+                  )}
+                  data-testid={`edit-rpe-${value}`}
+                >
+                  <Star className={cn("w-4 h-4", rpe === value ? "text-primary fill-primary" : "text-muted-foreground")} />
+                  <span className={cn("font-display font-bold", rpe === value ? "text-primary" : "text-muted-foreground")}>
+                    {value}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-session-notes">Notes</Label>
+            <Textarea
+              id="edit-session-notes"
+              value={notes}
+              maxLength={1000}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Rounds</Label>
+            {session.rounds.map((round) => {
+              const current = getRound(round);
+              return (
+                <div key={round.id} className="space-y-2 rounded-xl border border-border/40 bg-muted/5 p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-semibold text-white">{round.exerciseName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Target: {round.reps} {round.isHold ? "seconds" : "reps"}
+                      </p>
+                    </div>
+                    <Button
+                      variant={current.skipped ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => updateRound(round, { skipped: !current.skipped })}
+                    >
+                      {current.skipped ? "Skipped" : "Mark Skip"}
+                    </Button>
+                  </div>
+                  {!current.skipped ? (
+                    <div className="flex items-center gap-3">
+                      <Label className="text-xs text-muted-foreground whitespace-nowrap">
+                        Actual {round.isHold ? "seconds" : "reps"}
+                      </Label>
+                      <input
+                        type="number"
+                        min={0}
+                        className="w-24 rounded-lg border border-border/50 bg-card px-3 py-1.5 text-white"
+                        value={(round.isHold ? current.actualSeconds : current.actualReps) ?? round.reps}
+                        onChange={(event) => {
+                          const value = Math.max(0, Number(event.target.value));
+                          updateRound(round, round.isHold ? { actualSeconds: value } : { actualReps: value });
+                        }}
+                      />
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-session">
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
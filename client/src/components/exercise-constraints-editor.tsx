@@ -0,0 +1,123 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Created ExerciseConstraintsEditor for the profile's injury/exclusion settings.
+// - Toggles for no-plyometric, low-impact and limited overhead mode.
+// - Multi-select for avoided muscle groups and banned exercises (built-in + custom).
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { ExerciseConstraints } from "@shared/constraints";
+import { MUSCLE_GROUPS, type ExerciseDefinition } from "@shared/exercises";
+
+interface ExerciseConstraintsEditorProps {
+  value: ExerciseConstraints;
+  onChange: (value: ExerciseConstraints) => void;
+  exercises: ExerciseDefinition[]; // Pool the user can ban from (library + custom)
+}
+
+const MODE_TOGGLES: Array<{ key: "noPlyometric" | "lowImpact" | "limitedOverhead"; label: string; description: string }> = [
+  { key: "noPlyometric", label: "No jumping", description: "Skip plyometric and explosive moves" },
+  { key: "lowImpact", label: "Low impact", description: "No jumping, skipping or running impact" },
+  { key: "limitedOverhead", label: "Limited overhead mobility", description: "No pressing, hanging or throwing overhead" },
+];
+
+const toggleItem = (items: string[], item: string): string[] =>
+  items.includes(item) ? items.filter((x) => x !== item) : [...items, item];
+
+/**
+ * Controlled editor for profile exercise constraints.
+ * Every option here is a hard filter in the workout generators.
+ */
+export function ExerciseConstraintsEditor({ value, onChange, exercises }: ExerciseConstraintsEditorProps) {
+  const [search, setSearch] = useState("");
+
+  const searchTerm = search.trim().toLowerCase();
+  const bannedExercises = exercises.filter((exercise) => value.bannedExerciseIds.includes(exercise.id));
+  const searchResults = searchTerm
+    ? exercises
+        .filter((exercise) => !value.bannedExerciseIds.includes(exercise.id))
+        .filter((exercise) => exercise.name.toLowerCase().includes(searchTerm))
+        .slice(0, 8)
+    : [];
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-3">
+        {MODE_TOGGLES.map((toggle) => (
+          <div key={toggle.key} className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor={`constraint-${toggle.key}`}>{toggle.label}</Label>
+              <p className="text-xs text-muted-foreground">{toggle.description}</p>
+            </div>
+            <Switch
+              id={`constraint-${toggle.key}`}
+              checked={value[toggle.key]}
+              onCheckedChange={(checked) => onChange({ ...value, [toggle.key]: checked })}
+              data-testid={`switch-constraint-${toggle.key}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Avoid muscle groups</Label>
+        <div className="flex flex-wrap gap-2">
+          {MUSCLE_GROUPS.map((group) => (
+            <Badge
+              key={group}
+              variant={value.avoidedMuscleGroups.includes(group) ? "destructive" : "outline"}
+              className="cursor-pointer capitalize"
+              onClick={() => onChange({ ...value, avoidedMuscleGroups: toggleItem(value.avoidedMuscleGroups, group) })}
+            >
+              {group}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="constraint-ban-search">Never give me</Label>
+        {bannedExercises.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {bannedExercises.map((exercise) => (
+              <Badge
+                key={exercise.id}
+                variant="destructive"
+                className="cursor-pointer"
+                onClick={() => onChange({ ...value, bannedExerciseIds: toggleItem(value.bannedExerciseIds, exercise.id) })}
+              >
+                {exercise.name} ✕
+              </Badge>
+            ))}
+          </div>
+        )}
+        <Input
+          id="constraint-ban-search"
+          value={search}
+          placeholder="Search exercises to ban"
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        {searchResults.length > 0 && (
+          <div className="space-y-1">
+            {searchResults.map((exercise) => (
+              <button
+                key={exercise.id}
+                type="button"
+                className="w-full text-left text-sm p-2 rounded bg-secondary/30 hover:bg-secondary/60 text-white"
+                onClick={() => {
+                  onChange({ ...value, bannedExerciseIds: [...value.bannedExerciseIds, exercise.id] });
+                  setSearch("");
+                }}
+              >
+                {exercise.name}
+                <span className="text-xs text-muted-foreground capitalize"> • {exercise.muscleGroup}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,11 +10,15 @@ export default function BottomNav() {
 
   const handleNavigation = (path: string) => {
     if (path === "/workout") {
-      const cachedWorkout = queryClient.getQueryData<GeneratedWorkout>([
-        "/api/workout/generate",
-      ]);
+      // Return to the most recently loaded persisted workout, if any
+      const latestQuery = queryClient
+        .getQueryCache()
+        .findAll({ queryKey: ["/api/workout"] })
+        .filter((query) => (query.state.data as GeneratedWorkout | undefined)?.id)
+        .sort((a, b) => b.state.dataUpdatedAt - a.state.dataUpdatedAt)[0];
+      const cachedWorkout = latestQuery?.state.data as GeneratedWorkout | undefined;
 
-      setLocation(cachedWorkout ? "/workout" : "/workout-lab");
+      setLocation(cachedWorkout ? `/workout/${cachedWorkout.id}` : "/workout-lab");
       return;
     }
 
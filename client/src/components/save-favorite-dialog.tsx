@@ -0,0 +1,100 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Created SaveFavoriteDialog to save a workout into the personal favorites library.
+// - Works from a persisted workout (preview/runner) or a past session (workout detail).
+
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { FavoriteWorkout } from "@shared/schema";
+
+interface SaveFavoriteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  source: { workoutId?: string; sessionId?: string };
+  defaultName: string;
+}
+
+/**
+ * Name + tags dialog that snapshots a workout into the favorites library.
+ */
+export function SaveFavoriteDialog({ open, onOpenChange, source, defaultName }: SaveFavoriteDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(defaultName);
+  const [tagsInput, setTagsInput] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+      setTagsInput("");
+    }
+  }, [open, defaultName]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const tags = tagsInput
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+      const res = await apiRequest("POST", "/api/favorites", { ...source, name: name.trim(), tags });
+      return res.json() as Promise<FavoriteWorkout>;
+    },
+    onSuccess: (favorite) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+      toast({ title: "Saved to Library", description: `${favorite.name} is ready to run again anytime.` });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[90vw]">
+        <DialogHeader>
+          <DialogTitle>Save to Library</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="favorite-name">Name</Label>
+            <Input
+              id="favorite-name"
+              value={name}
+              maxLength={64}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-favorite-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="favorite-tags">Tags</Label>
+            <Input
+              id="favorite-tags"
+              value={tagsInput}
+              placeholder="e.g. legs, quick, travel"
+              onChange={(e) => setTagsInput(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Separate tags with commas.</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!name.trim() || saveMutation.isPending}
+            data-testid="button-save-favorite"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Created TrainingProgramCard for starting, following and leaving multi-week programs.
+// - Shows the current week and session, and the framework and intensity planned for today.
+// - Enrolling or leaving regenerates the Daily WOD, which follows the active program day.
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarRange, Flag, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { FRAMEWORK_CONFIGS } from "@shared/frameworks";
+import type { PrimaryGoalId } from "@shared/goals";
+import { getProgramLength, TRAINING_PROGRAMS, type ProgramDay, type ProgramId } from "@shared/programs";
+import type { ProgramEnrollment } from "@shared/schema";
+
+type ProgramStatus = { enrollment: ProgramEnrollment; today: ProgramDay | null };
+
+/**
+ * Home card for training programs. Programs count sessions, not calendar days, so the
+ * progress bar only moves when a program workout is completed.
+ */
+export function TrainingProgramCard({ primaryGoal }: { primaryGoal?: PrimaryGoalId | null }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery<ProgramStatus | null>({
+    queryKey: ["/api/programs/enrollment"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onProgramChange = (next: ProgramStatus | null) => {
+    queryClient.setQueryData(["/api/programs/enrollment"], next);
+    queryClient.invalidateQueries({ queryKey: ["/api/workout/generate"] });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async (programId: ProgramId) => {
+      const res = await apiRequest("POST", "/api/programs/enrollment", { programId });
+      return res.json() as Promise<ProgramStatus>;
+    },
+    onSuccess: (next) => {
+      onProgramChange(next);
+      toast({ title: "Program started", description: "Today's workout now follows your program." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/programs/enrollment");
+    },
+    onSuccess: () => onProgramChange(null),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) return null;
+
+  const isBusy = startMutation.isPending || leaveMutation.isPending;
+  const today = status?.today ?? null;
+
+  return (
+    <Card className="p-5 bg-card/40 border-border/40">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-bold text-white">
+            {status ? TRAINING_PROGRAMS.find((program) => program.id === status.enrollment.programId)?.name : "Training Programs"}
+          </h2>
+        </div>
+        {today && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground hover:text-destructive"
+            onClick={() => leaveMutation.mutate()}
+            disabled={isBusy}
+            data-testid="button-leave-program"
+          >
+            <X size={14} className="mr-1" /> Leave
+          </Button>
+        )}
+      </div>
+
+      {today ? (
+        <div className="space-y-3">
+          <div className="flex justify-between text-xs text-muted-foreground uppercase tracking-wider font-bold">
+            <span>Week {today.week} of {today.totalWeeks}</span>
+            <span>Session {today.session} of {today.sessionsInWeek}</span>
+          </div>
+          <Progress value={(today.dayIndex / today.totalDays) * 100} data-testid="progress-program" />
+          <p className="text-sm text-gray-300">
+            Today: <span className="text-primary font-bold">{FRAMEWORK_CONFIGS[today.framework].name}</span> at{" "}
+            {today.intensity} intensity, {Math.round(today.volume * 100)}% volume
+          </p>
+        </div>
+      ) : status ? (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-sm text-gray-300">
+            <Flag className="w-4 h-4 text-primary" /> Program complete. Nice work.
+          </div>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => leaveMutation.mutate()}
+            disabled={isBusy}
+            data-testid="button-choose-program"
+          >
+            Choose your next program
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {TRAINING_PROGRAMS.map((program) => (
+            <div
+              key={program.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/30 border border-border/40"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-white">
+                  {program.name}
+                  {program.primaryGoal === primaryGoal && (
+                    <span className="ml-2 text-[10px] uppercase tracking-wider text-primary">For your goal</span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {program.subtitle} · {getProgramLength(program)} sessions
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => startMutation.mutate(program.id)}
+                disabled={isBusy}
+                data-testid={`button-start-program-${program.id}`}
+              >
+                Start
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
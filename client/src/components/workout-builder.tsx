@@ -0,0 +1,394 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Created WorkoutBuilder for the Workout Lab manual builder mode.
+// - Pick framework, duration and work/rest seconds, then drag (or tap) catalog exercises into ordered slots.
+// - Saves through POST /api/workout/build and opens the persisted workout like a generated one.
+// - Ladder builds pick a rep scheme; slot reps are the peak rung.
+
+import { useMemo, useState, type DragEvent } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, GripVertical, Plus, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { FRAMEWORK_CONFIGS, getAllFrameworks, LADDER_SCHEMES, type Framework, type LadderScheme } from "@shared/frameworks";
+import type { ExerciseDefinition } from "@shared/exercises";
+import type { GeneratedWorkout, ManualWorkoutRequest } from "@shared/schema";
+
+interface BuilderSlot {
+  key: string;
+  exerciseId: string;
+  reps: number;
+}
+
+// Frameworks where the user controls the work/rest split
+const TIMED_FRAMEWORKS: Framework[] = ["Tabata", "Circuit"];
+
+const DEFAULT_TIMING: Record<Framework, { workSeconds: number; restSeconds: number }> = {
+  EMOM: { workSeconds: 60, restSeconds: 0 },
+  Tabata: { workSeconds: 20, restSeconds: 10 },
+  AMRAP: { workSeconds: 60, restSeconds: 0 },
+  Circuit: { workSeconds: 45, restSeconds: 60 },
+  Ladder: { workSeconds: 60, restSeconds: 0 },
+  ForTime: { workSeconds: 60, restSeconds: 0 },
+};
+
+const DRAG_EXERCISE = "application/x-exercise-id";
+const DRAG_SLOT = "application/x-slot-index";
+
+let slotCounter = 0;
+const nextSlotKey = () => `slot-${++slotCounter}`;
+
+/**
+ * Manual workout builder used by Workout Lab.
+ * Produces a persisted GeneratedWorkout that runs in workout-runner.tsx.
+ */
+export function WorkoutBuilder({ difficulty }: { difficulty: "beginner" | "intermediate" | "advanced" }) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [framework, setFramework] = useState<Framework>("EMOM");
+  const [durationMinutes, setDurationMinutes] = useState(FRAMEWORK_CONFIGS.EMOM.defaultDuration);
+  const [workSeconds, setWorkSeconds] = useState(DEFAULT_TIMING.EMOM.workSeconds);
+  const [restSeconds, setRestSeconds] = useState(DEFAULT_TIMING.EMOM.restSeconds);
+  const [focusLabel, setFocusLabel] = useState("");
+  const [ladderScheme, setLadderScheme] = useState<LadderScheme>("pyramid");
+  const [slots, setSlots] = useState<BuilderSlot[]>([]);
+  const [search, setSearch] = useState("");
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const { data: exercises = [] } = useQuery<ExerciseDefinition[]>({
+    queryKey: ["/api/exercises"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const exercisesById = useMemo(
+    () => new Map((exercises ?? []).map((exercise) => [exercise.id, exercise])),
+    [exercises]
+  );
+
+  const searchTerm = search.trim().toLowerCase();
+  const catalog = (exercises ?? []).filter(
+    (exercise) =>
+      !searchTerm ||
+      exercise.name.toLowerCase().includes(searchTerm) ||
+      exercise.muscleGroup.toLowerCase().includes(searchTerm)
+  );
+
+  const buildMutation = useMutation({
+    mutationFn: async (request: ManualWorkoutRequest) => {
+      const res = await apiRequest("POST", "/api/workout/build", request);
+      return res.json() as Promise<GeneratedWorkout>;
+    },
+    onSuccess: (workout) => {
+      queryClient.setQueryData(["/api/workout", workout.id], workout);
+      toast({
+        title: "Workout Built!",
+        description: `${workout.durationMinutes} min ${workout.framework} • ${workout.rounds.length} intervals`,
+      });
+      setLocation(`/workout/${workout.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Build Failed",
+        description: error instanceof Error ? error.message : "Could not build workout",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFrameworkChange = (next: Framework) => {
+    setFramework(next);
+    setDurationMinutes(FRAMEWORK_CONFIGS[next].defaultDuration);
+    setWorkSeconds(DEFAULT_TIMING[next].workSeconds);
+    setRestSeconds(DEFAULT_TIMING[next].restSeconds);
+  };
+
+  const addSlot = (exerciseId: string, index = slots.length) => {
+    const exercise = exercisesById.get(exerciseId);
+    if (!exercise) return;
+    const slot = { key: nextSlotKey(), exerciseId, reps: exercise.reps[difficulty] };
+    setSlots((prev) => [...prev.slice(0, index), slot, ...prev.slice(index)]);
+  };
+
+  const moveSlot = (from: number, to: number) => {
+    if (to < 0 || to >= slots.length || from === to) return;
+    setSlots((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const updateSlotReps = (key: string, value: string) => {
+    const parsed = parseInt(value, 10);
+    setSlots((prev) =>
+      prev.map((slot) => (slot.key === key ? { ...slot, reps: Number.isNaN(parsed) ? 0 : parsed } : slot))
+    );
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>, index: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDropTarget(false);
+
+    const exerciseId = event.dataTransfer.getData(DRAG_EXERCISE);
+    if (exerciseId) {
+      addSlot(exerciseId, index);
+      return;
+    }
+
+    const fromIndex = event.dataTransfer.getData(DRAG_SLOT);
+    if (fromIndex !== "") {
+      const from = Number(fromIndex);
+      moveSlot(from, from < index ? index - 1 : index);
+    }
+  };
+
+  const handleBuild = () => {
+    buildMutation.mutate({
+      framework,
+      durationMinutes,
+      workSeconds: TIMED_FRAMEWORKS.includes(framework) ? workSeconds : undefined,
+      restSeconds: TIMED_FRAMEWORKS.includes(framework) ? restSeconds : undefined,
+      ladderScheme: framework === "Ladder" ? ladderScheme : undefined,
+      focusLabel: focusLabel.trim() || undefined,
+      slots: slots.map(({ exerciseId, reps }) => ({ exerciseId, reps })),
+    });
+  };
+
+  const [minDuration, maxDuration] = FRAMEWORK_CONFIGS[framework].durationRange;
+  const canBuild =
+    slots.length > 0 &&
+    slots.every((slot) => slot.reps > 0) &&
+    durationMinutes >= 4 &&
+    (!TIMED_FRAMEWORKS.includes(framework) || workSeconds >= 10);
+
+  return (
+    <div className="space-y-4">
+      {/* Framework + timing */}
+      <Card className="p-4 bg-card/40 border-border/40 space-y-4">
+        <div className="grid grid-cols-3 gap-2">
+          {getAllFrameworks().map((frameworkId) => (
+            <Button
+              key={frameworkId}
+              type="button"
+              size="sm"
+              variant={framework === frameworkId ? "default" : "outline"}
+              className={cn("px-1 text-xs", framework === frameworkId && "bg-primary text-black")}
+              onClick={() => handleFrameworkChange(frameworkId)}
+              data-testid={`builder-framework-${frameworkId}`}
+            >
+              {FRAMEWORK_CONFIGS[frameworkId].name}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="builder-duration" className="text-xs">Minutes</Label>
+            <Input
+              id="builder-duration"
+              type="number"
+              min={4}
+              max={60}
+              value={durationMinutes || ""}
+              onChange={(e) => setDurationMinutes(parseInt(e.target.value, 10) || 0)}
+            />
+          </div>
+          {TIMED_FRAMEWORKS.includes(framework) && (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="builder-work" className="text-xs">Work (s)</Label>
+                <Input
+                  id="builder-work"
+                  type="number"
+                  min={10}
+                  max={300}
+                  value={workSeconds || ""}
+                  onChange={(e) => setWorkSeconds(parseInt(e.target.value, 10) || 0)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="builder-rest" className="text-xs">
+                  {framework === "Circuit" ? "Round rest (s)" : "Rest (s)"}
+                </Label>
+                <Input
+                  id="builder-rest"
+                  type="number"
+                  min={0}
+                  max={300}
+                  value={restSeconds}
+                  onChange={(e) => setRestSeconds(parseInt(e.target.value, 10) || 0)}
+                />
+              </div>
+            </>
+          )}
+        </div>
+        {framework === "Ladder" && (
+          <div className="grid grid-cols-3 gap-2">
+            {LADDER_SCHEMES.map((scheme) => (
+              <Button
+                key={scheme}
+                type="button"
+                size="sm"
+                variant={ladderScheme === scheme ? "default" : "outline"}
+                className={cn("capitalize", ladderScheme === scheme && "bg-primary text-black")}
+                onClick={() => setLadderScheme(scheme)}
+                data-testid={`builder-ladder-${scheme}`}
+              >
+                {scheme}
+              </Button>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Typical {framework}: {minDuration}-{maxDuration} min.
+          {framework === "EMOM" && " Slots repeat in order, one per minute."}
+          {framework === "AMRAP" && " Slots form the circuit you repeat until time is up."}
+          {framework === "Tabata" && " Each slot gets as many intervals as fit the duration."}
+          {framework === "Circuit" && " Slots repeat for as many rounds as fit the duration."}
+          {framework === "Ladder" && " Slot reps set the peak rung; minutes is the time cap."}
+          {framework === "ForTime" && " Slot reps are totals, done once in order; minutes is the time cap."}
+        </p>
+
+        <div className="space-y-1">
+          <Label htmlFor="builder-focus" className="text-xs">Name (optional)</Label>
+          <Input
+            id="builder-focus"
+            value={focusLabel}
+            maxLength={48}
+            placeholder="e.g. Leg Day Ladder"
+            onChange={(e) => setFocusLabel(e.target.value)}
+          />
+        </div>
+      </Card>
+
+      {/* Ordered slots (drop zone) */}
+      <Card
+        className={cn(
+          "p-4 bg-card/40 border-2 border-dashed transition-colors space-y-2",
+          isDropTarget ? "border-primary bg-primary/10" : "border-border/40"
+        )}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDropTarget(true);
+        }}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={(event) => handleDrop(event, slots.length)}
+        data-testid="builder-slots"
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-bold text-white uppercase tracking-wider">Your Workout</h3>
+          <Badge variant="outline" className="text-[10px]">{slots.length} slots</Badge>
+        </div>
+
+        {slots.length === 0 ? (
+          <p className="text-xs text-muted-foreground py-6 text-center">
+            Drag exercises here, or tap + in the catalog below.
+          </p>
+        ) : (
+          slots.map((slot, index) => {
+            const exercise = exercisesById.get(slot.exerciseId);
+            return (
+              <div
+                key={slot.key}
+                draggable
+                onDragStart={(event) => event.dataTransfer.setData(DRAG_SLOT, String(index))}
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={(event) => handleDrop(event, index)}
+                className="flex items-center gap-2 p-2 bg-secondary/30 rounded"
+              >
+                <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab flex-shrink-0" />
+                <span className="text-xs text-primary font-bold w-5">{index + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-white truncate">{exercise?.name ?? slot.exerciseId}</p>
+                  <p className="text-[10px] text-muted-foreground capitalize">{exercise?.muscleGroup}</p>
+                </div>
+                <Input
+                  type="number"
+                  min={1}
+                  max={600}
+                  value={slot.reps || ""}
+                  onChange={(e) => updateSlotReps(slot.key, e.target.value)}
+                  className="w-16 h-8 text-sm"
+                  aria-label="Reps"
+                />
+                <span className="text-[10px] text-muted-foreground w-6">{exercise?.isHold ? "sec" : "reps"}</span>
+                <div className="flex flex-col">
+                  <button type="button" onClick={() => moveSlot(index, index - 1)} className="text-muted-foreground hover:text-primary">
+                    <ArrowUp size={12} />
+                  </button>
+                  <button type="button" onClick={() => moveSlot(index, index + 1)} className="text-muted-foreground hover:text-primary">
+                    <ArrowDown size={12} />
+                  </button>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setSlots((prev) => prev.filter((s) => s.key !== slot.key))}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })
+        )}
+      </Card>
+
+      <Button
+        className="w-full bg-primary text-black hover:bg-primary/90 font-bold uppercase tracking-wider"
+        onClick={handleBuild}
+        disabled={!canBuild || buildMutation.isPending}
+        data-testid="button-build-workout"
+      >
+        {buildMutation.isPending ? "Building..." : "Build Workout"}
+      </Button>
+
+      {/* Exercise catalog */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-bold text-white uppercase tracking-wider">Exercise Catalog</h3>
+        <Input
+          value={search}
+          placeholder="Search by name or muscle group"
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <div className="space-y-1 max-h-80 overflow-y-auto">
+          {catalog.map((exercise) => (
+            <div
+              key={exercise.id}
+              draggable
+              onDragStart={(event) => event.dataTransfer.setData(DRAG_EXERCISE, exercise.id)}
+              className="flex items-center justify-between p-2 bg-card/40 border border-border/40 rounded cursor-grab"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate">
+                  {exercise.name}
+                  {exercise.isCustom && <span className="text-[10px] text-primary ml-1">custom</span>}
+                </p>
+                <p className="text-[10px] text-muted-foreground capitalize">
+                  {exercise.muscleGroup} • {exercise.difficulty}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-primary hover:text-primary/80"
+                onClick={() => addSlot(exercise.id)}
+              >
+                <Plus size={14} />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Created WorkoutImporter for the Workout Lab import mode.
+// - Paste or upload a workout in the hiit-lab-workout interchange format (docs/workout-interchange-format.md).
+// - Imports through POST /api/workout/import, reports exercise substitutions, then opens the runner.
+
+import { useState, type ChangeEvent } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { FileUp, Play } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { WORKOUT_INTERCHANGE_FORMAT, WORKOUT_INTERCHANGE_VERSION, type WorkoutImportResult } from "@shared/schema";
+
+const EXAMPLE = JSON.stringify(
+  {
+    format: WORKOUT_INTERCHANGE_FORMAT,
+    version: WORKOUT_INTERCHANGE_VERSION,
+    name: "Leg Burner",
+    framework: "EMOM",
+    durationMinutes: 12,
+    exercises: [
+      { name: "Air Squats", reps: 20 },
+      { name: "Lunges", reps: 16 },
+      { name: "Plank Hold", seconds: 40 },
+    ],
+  },
+  null,
+  2
+);
+
+export function WorkoutImporter() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [text, setText] = useState("");
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (document: unknown) => {
+      const res = await apiRequest("POST", "/api/workout/import", document);
+      return res.json() as Promise<WorkoutImportResult>;
+    },
+    onSuccess: ({ workout, warnings }) => {
+      queryClient.setQueryData(["/api/workout", workout.id], workout);
+      toast({
+        title: "Workout Imported",
+        description: warnings.length
+          ? warnings.join(" • ")
+          : `${workout.durationMinutes} min ${workout.framework} • ${workout.rounds.length} intervals`,
+      });
+      setLocation(`/workout/runner/${workout.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Could not import workout",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Let the same file be picked again after edits
+    if (!file) return;
+    setText(await file.text());
+    setParseError(null);
+  };
+
+  const handleImport = () => {
+    let document: unknown;
+    try {
+      document = JSON.parse(text);
+    } catch {
+      setParseError("That isn't valid JSON.");
+      return;
+    }
+    setParseError(null);
+    importMutation.mutate(document);
+  };
+
+  return (
+    <Card className="p-4 bg-card/40 border-border/40 space-y-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="workout-import-text" className="text-xs uppercase tracking-wider text-muted-foreground">
+          Workout file
+        </Label>
+        <label className="inline-flex items-center gap-1 text-xs text-primary cursor-pointer">
+          <FileUp className="w-3 h-3" /> Upload .json
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFile}
+            data-testid="input-workout-import-file"
+          />
+        </label>
+      </div>
+      <Textarea
+        id="workout-import-text"
+        value={text}
+        placeholder={EXAMPLE}
+        rows={12}
+        className="font-mono text-xs"
+        onChange={(e) => setText(e.target.value)}
+        data-testid="input-workout-import-text"
+      />
+      {parseError && <p className="text-xs text-destructive">{parseError}</p>}
+      <Button
+        className="w-full font-bold"
+        onClick={handleImport}
+        disabled={!text.trim() || importMutation.isPending}
+        data-testid="button-workout-import"
+      >
+        <Play className="w-4 h-4 mr-2" />
+        {importMutation.isPending ? "Importing..." : "Import & Start"}
+      </Button>
+    </Card>
+  );
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import type { WorkoutHistoryPage, WorkoutSessionSummary } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+const SUMMARY_LIMIT = 100;
+
+/**
+ * The user's most recent sessions without rounds, plus totals across all of history.
+ * Shared by the dashboards; the history page pages through the full records itself.
+ */
+export function useHistorySummary(enabled = true) {
+  return useQuery<WorkoutHistoryPage<WorkoutSessionSummary>>({
+    queryKey: ["/api/workout/history", "summary"],
+    enabled,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/workout/history?view=summary&limit=${SUMMARY_LIMIT}`);
+      return res.json();
+    },
+  });
+}
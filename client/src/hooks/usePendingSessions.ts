@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import { loadSyncQueue, SYNC_QUEUE_EVENT, type PendingSession } from "@/lib/syncQueue";
+
+/**
+ * Sessions for the user still waiting in the offline sync queue, kept current as the queue changes
+ */
+export function usePendingSessions(userId: string | undefined): PendingSession[] {
+  const [queue, setQueue] = useState<PendingSession[]>(() => loadSyncQueue());
+
+  useEffect(() => {
+    const refresh = () => setQueue(loadSyncQueue());
+    refresh();
+    window.addEventListener(SYNC_QUEUE_EVENT, refresh);
+    window.addEventListener("storage", refresh); // Other tabs
+    return () => {
+      window.removeEventListener(SYNC_QUEUE_EVENT, refresh);
+      window.removeEventListener("storage", refresh);
+    };
+  }, []);
+
+  return userId ? queue.filter((entry) => entry.userId === userId) : [];
+}
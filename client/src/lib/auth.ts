@@ -0,0 +1,28 @@
+import { createLocalAuthClient } from "./localAuth";
+import { createSupabaseAuthClient } from "./supabase";
+
+export type AuthUser = {
+  id: string;
+  email: string | null;
+};
+
+export type AuthSession = {
+  accessToken: string;
+  user: AuthUser;
+};
+
+export interface AuthClient {
+  getSession(): Promise<AuthSession | null>;
+  // Returns an unsubscribe function
+  onAuthStateChange(listener: (session: AuthSession | null) => void): () => void;
+  // devLink is set when the provider hands the link back instead of emailing it
+  sendMagicLink(email: string, redirectTo: string): Promise<{ devLink?: string }>;
+  // Signs in from a magic-link callback URL; false when the URL carries no credentials
+  completeMagicLink(url: URL): Promise<boolean>;
+  signOut(): Promise<void>;
+}
+
+// VITE_AUTH_PROVIDER=local pairs with AUTH_PROVIDER=local on the server and needs no Supabase keys
+export const authProviderName = import.meta.env.VITE_AUTH_PROVIDER === "local" ? "local" : "supabase";
+
+export const auth: AuthClient = authProviderName === "local" ? createLocalAuthClient() : createSupabaseAuthClient();
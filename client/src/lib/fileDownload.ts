@@ -0,0 +1,45 @@
+// Export endpoints need the auth header, so their files are fetched and saved from a blob
+// rather than opened as plain links.
+
+function responseFilename(res: Response, fallback: string): string {
+  return res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? fallback;
+}
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function saveResponseAsFile(res: Response, fallbackName: string): Promise<void> {
+  saveBlob(await res.blob(), responseFilename(res, fallbackName));
+}
+
+/**
+ * Opens the share sheet with the file where the browser can share files (mobile),
+ * otherwise downloads it. "cancelled" when the user dismisses the share sheet.
+ */
+export async function shareResponseAsFile(
+  res: Response,
+  fallbackName: string,
+  title: string
+): Promise<"shared" | "saved" | "cancelled"> {
+  const blob = await res.blob();
+  const file = new File([blob], responseFilename(res, fallbackName), { type: blob.type });
+
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return "shared";
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") return "cancelled";
+      throw error;
+    }
+  }
+
+  saveBlob(file, file.name);
+  return "saved";
+}
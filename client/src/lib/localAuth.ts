@@ -0,0 +1,77 @@
+import type { AuthClient, AuthSession } from "./auth";
+
+// Sessions issued by the server's local auth provider (AUTH_PROVIDER=local). Tokens
+// are not refreshed; an expired session simply signs the user out.
+const SESSION_KEY = "local-auth-session";
+const SESSION_EVENT = "local-auth-change";
+
+type StoredSession = AuthSession & { expiresAt: number }; // Unix seconds
+
+function loadSession(): StoredSession | null {
+  try {
+    const raw = window.localStorage.getItem(SESSION_KEY);
+    const session = raw ? (JSON.parse(raw) as StoredSession) : null;
+    return session && session.expiresAt > Date.now() / 1000 ? session : null;
+  } catch (error) {
+    console.warn("Unable to load local auth session", error);
+    return null;
+  }
+}
+
+function saveSession(session: StoredSession | null) {
+  if (session) {
+    window.localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    window.localStorage.removeItem(SESSION_KEY);
+  }
+  window.dispatchEvent(new Event(SESSION_EVENT));
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "same-origin",
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.message || res.statusText);
+  return data as T;
+}
+
+export function createLocalAuthClient(): AuthClient {
+  return {
+    async getSession() {
+      return loadSession();
+    },
+
+    onAuthStateChange(listener) {
+      const notify = () => listener(loadSession());
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === SESSION_KEY) notify(); // Signed in or out in another tab
+      };
+      window.addEventListener(SESSION_EVENT, notify);
+      window.addEventListener("storage", onStorage);
+      return () => {
+        window.removeEventListener(SESSION_EVENT, notify);
+        window.removeEventListener("storage", onStorage);
+      };
+    },
+
+    async sendMagicLink(email, redirectTo) {
+      const { link } = await postJson<{ link: string }>("/api/auth/local/magic-link", { email, redirectTo });
+      return { devLink: link };
+    },
+
+    async completeMagicLink(url) {
+      const token = new URLSearchParams(url.hash.substring(1)).get("magic_token");
+      if (!token) return false;
+      saveSession(await postJson<StoredSession>("/api/auth/local/session", { token }));
+      return true;
+    },
+
+    async signOut() {
+      saveSession(null);
+    },
+  };
+}
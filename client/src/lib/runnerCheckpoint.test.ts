@@ -0,0 +1,111 @@
+import { test, describe, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import type { GeneratedWorkout } from "@shared/schema";
+import { IDLE_CLOCK, compileWorkoutTimeline, getClockElapsedMs, getTimelinePosition, pauseClock, startClock } from "@shared/intervalEngine";
+import {
+  getCheckpointRoundIndex,
+  loadRunnerCheckpoint,
+  saveRunnerCheckpoint,
+  type RunnerCheckpoint,
+} from "./runnerCheckpoint";
+
+// The checkpoint lives in localStorage; a Map-backed stand-in keeps the round trip through JSON
+const store = new Map<string, string>();
+Object.assign(globalThis, {
+  window: {
+    localStorage: {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key),
+    },
+  },
+});
+
+const START = 1_700_000_000_000;
+
+function buildWorkout(overrides: Partial<GeneratedWorkout> = {}): GeneratedWorkout & { id: string } {
+  return {
+    id: "9b1c6f5e-2f7a-4c39-8d0e-0d5a3f1b2c4d",
+    framework: "Tabata",
+    durationMinutes: 4,
+    difficultyTag: "intermediate",
+    focusLabel: "Test",
+    workSeconds: 20,
+    restSeconds: 10,
+    rounds: ["Burpees", "Air Squats", "Push-ups", "Mountain Climbers"].map((exerciseName, minuteIndex) => ({
+      minuteIndex,
+      exerciseName,
+      targetMuscleGroup: "full_body",
+      difficulty: "moderate",
+      reps: 10,
+    })),
+    ...overrides,
+  };
+}
+
+function buildCheckpoint(overrides: Partial<RunnerCheckpoint> = {}): RunnerCheckpoint {
+  return {
+    workout: buildWorkout(),
+    clock: startClock(IDLE_CLOCK, START),
+    timelineOptions: { prestartSeconds: 10 },
+    manualRoundIndex: 0,
+    amrapRounds: 0,
+    roundActuals: { 0: { actualReps: 8 } },
+    savedAt: START + 15_000,
+    ...overrides,
+  };
+}
+
+describe("runner checkpoint restore", () => {
+  beforeEach(() => store.clear());
+
+  test("a running workout resumes where the wall clock says it is", () => {
+    saveRunnerCheckpoint(buildCheckpoint());
+
+    // Reloaded 72 seconds after the start: 10s prestart, then work/rest pairs of 30s
+    const now = START + 72_000;
+    const restored = loadRunnerCheckpoint(now);
+    assert.ok(restored);
+    assert.deepEqual(restored.roundActuals, { 0: { actualReps: 8 } });
+    assert.equal(getCheckpointRoundIndex(restored, now), 2);
+
+    const timeline = compileWorkoutTimeline(restored.workout, restored.timelineOptions);
+    const position = getTimelinePosition(timeline, getClockElapsedMs(restored.clock, now));
+    assert.equal(position.phase.kind, "work");
+    assert.equal(position.secondsLeft, 18);
+  });
+
+  test("a paused workout restores at the moment it was paused", () => {
+    const pausedAt = START + 35_000;
+    saveRunnerCheckpoint(buildCheckpoint({ clock: pauseClock(startClock(IDLE_CLOCK, START), pausedAt), savedAt: pausedAt }));
+
+    const now = pausedAt + 45 * 60_000;
+    const restored = loadRunnerCheckpoint(now);
+    assert.ok(restored);
+    assert.equal(getClockElapsedMs(restored.clock, now), 35_000);
+    assert.equal(getCheckpointRoundIndex(restored, now), 1); // In the rest before round 1
+
+    // Resuming continues from the paused offset
+    const resumed = startClock(restored.clock, now);
+    assert.equal(getClockElapsedMs(resumed, now + 5_000), 40_000);
+  });
+
+  test("tap-to-advance frameworks restore the saved exercise", () => {
+    saveRunnerCheckpoint(buildCheckpoint({ workout: buildWorkout({ framework: "AMRAP", durationMinutes: 12 }), manualRoundIndex: 3 }));
+    const restored = loadRunnerCheckpoint(START + 60_000);
+    assert.ok(restored);
+    assert.equal(getCheckpointRoundIndex(restored, START + 60_000), 3);
+  });
+
+  test("checkpoints older than six hours are discarded", () => {
+    saveRunnerCheckpoint(buildCheckpoint());
+    assert.equal(loadRunnerCheckpoint(START + 15_000 + 6 * 60 * 60_000 + 1), null);
+    assert.equal(store.size, 0);
+  });
+
+  test("malformed checkpoints are discarded", () => {
+    store.set("workout-runner-checkpoint", JSON.stringify({ workout: {}, savedAt: START }));
+    assert.equal(loadRunnerCheckpoint(START), null);
+    assert.equal(store.size, 0);
+  });
+});
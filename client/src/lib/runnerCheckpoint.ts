@@ -0,0 +1,77 @@
+import type { GeneratedWorkout } from "@shared/schema";
+import {
+  compileWorkoutTimeline,
+  getClockElapsedMs,
+  getTimelinePosition,
+  type TimelineClock,
+  type TimelineOptions,
+} from "@shared/intervalEngine";
+
+// Durable runner state so a reload, tab kill or OS backgrounding can resume the workout
+const CHECKPOINT_KEY = "workout-runner-checkpoint";
+const CHECKPOINT_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+export type RoundActual = {
+  actualReps?: number;
+  actualSeconds?: number;
+  skipped?: boolean;
+};
+
+export type RunnerCheckpoint = {
+  workout: GeneratedWorkout & { id: string };
+  clock: TimelineClock; // Wall-clock anchor, so a running workout catches up on its own
+  timelineOptions: TimelineOptions;
+  manualRoundIndex: number; // Current exercise for tap-to-advance frameworks
+  amrapRounds: number;
+  roundActuals: Record<number, RoundActual>;
+  savedAt: number;
+};
+
+export function saveRunnerCheckpoint(checkpoint: RunnerCheckpoint) {
+  try {
+    window.localStorage.setItem(CHECKPOINT_KEY, JSON.stringify(checkpoint));
+  } catch (error) {
+    console.warn("Unable to save workout checkpoint", error);
+  }
+}
+
+export function clearRunnerCheckpoint() {
+  try {
+    window.localStorage.removeItem(CHECKPOINT_KEY);
+  } catch (error) {
+    console.warn("Unable to clear workout checkpoint", error);
+  }
+}
+
+/**
+ * Last saved runner checkpoint, or null when there is none or it is too old to resume
+ */
+export function loadRunnerCheckpoint(now = Date.now()): RunnerCheckpoint | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.localStorage.getItem(CHECKPOINT_KEY);
+    if (!raw) return null;
+    const checkpoint = JSON.parse(raw) as RunnerCheckpoint;
+    if (!checkpoint?.workout?.id || !checkpoint.clock || typeof checkpoint.savedAt !== "number") {
+      clearRunnerCheckpoint();
+      return null;
+    }
+    if (now - checkpoint.savedAt > CHECKPOINT_MAX_AGE_MS) {
+      clearRunnerCheckpoint();
+      return null;
+    }
+    return checkpoint;
+  } catch (error) {
+    console.warn("Unable to load workout checkpoint", error);
+    return null;
+  }
+}
+
+/**
+ * Exercise the checkpointed workout is on right now
+ */
+export function getCheckpointRoundIndex(checkpoint: RunnerCheckpoint, now = Date.now()): number {
+  const timeline = compileWorkoutTimeline(checkpoint.workout, checkpoint.timelineOptions);
+  if (timeline.manualAdvance) return checkpoint.manualRoundIndex;
+  return getTimelinePosition(timeline, getClockElapsedMs(checkpoint.clock, now)).phase.roundIndex;
+}
@@ -1,18 +1,81 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type Session } from '@supabase/supabase-js'
+import type { AuthClient, AuthSession } from './auth'
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables')
+function toAuthSession(session: Session | null): AuthSession | null {
+  if (!session) return null
+  return {
+    accessToken: session.access_token,
+    user: { id: session.user.id, email: session.user.email ?? null },
+  }
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    storage: window.localStorage,
-    autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: false, // We handle this manually
-    flowType: 'pkce',
-  },
-})
+// Created on first use so the local auth provider runs without Supabase keys
+export function createSupabaseAuthClient(): AuthClient {
+  let client: ReturnType<typeof createClient> | null = null
+
+  const getClient = () => {
+    if (client) return client
+
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
+    const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    client = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: {
+        storage: window.localStorage,
+        autoRefreshToken: true,
+        persistSession: true,
+        detectSessionInUrl: false, // We handle this manually
+        flowType: 'pkce',
+      },
+    })
+    return client
+  }
+
+  return {
+    async getSession() {
+      const { data: { session } } = await getClient().auth.getSession()
+      return toAuthSession(session)
+    },
+
+    onAuthStateChange(listener) {
+      const { data: { subscription } } = getClient().auth.onAuthStateChange((_event, session) => {
+        listener(toAuthSession(session))
+      })
+      return () => subscription.unsubscribe()
+    },
+
+    async sendMagicLink(email, redirectTo) {
+      const { error } = await getClient().auth.signInWithOtp({
+        email,
+        options: {
+          emailRedirectTo: redirectTo,
+        },
+      })
+      if (error) throw error
+      return {}
+    },
+
+    async completeMagicLink(url) {
+      const params = new URLSearchParams(url.hash.substring(1)) // Remove '#'
+      const accessToken = params.get('access_token')
+      const refreshToken = params.get('refresh_token')
+      if (!accessToken || !refreshToken) return false
+
+      // Set session from deep link tokens
+      const { error } = await getClient().auth.setSession({
+        access_token: accessToken,
+        refresh_token: refreshToken,
+      })
+      if (error) throw error
+      return true
+    },
+
+    async signOut() {
+      await getClient().auth.signOut()
+    },
+  }
+}
@@ -0,0 +1,195 @@
+import type { Framework } from "@shared/frameworks";
+import type { GeneratedWorkout, SessionSaveSummary } from "@shared/schema";
+import { getAuthHeaders, queryClient } from "./queryClient";
+import { auth } from "./auth";
+
+// Completed sessions are queued locally before they are sent, so a workout logged
+// without signal survives until connectivity returns. Every entry carries an
+// idempotency key; the server returns the existing session for a retried key.
+const QUEUE_KEY = "workout-session-sync-queue";
+const RETRY_INTERVAL_MS = 60 * 1000;
+export const SYNC_QUEUE_EVENT = "workout-sync-queue-change";
+
+export type WorkoutSessionSubmission = {
+  generatedWorkoutId?: string;
+  framework: Framework;
+  durationMinutes: number;
+  difficultyTag: string;
+  focusLabel: string;
+  perceivedExertion: number;
+  rounds: Array<
+    GeneratedWorkout["rounds"][number] & { actualReps?: number; actualSeconds?: number; skipped: boolean }
+  >;
+  notes?: string;
+  finishSeconds: number | null;
+  repsAtCap: number | null;
+  amrapRounds: number | null;
+  amrapReps: number | null;
+  completedAt: string; // ISO time the workout finished; the session is dated by this, not by sync time
+};
+
+export type PendingSession = {
+  idempotencyKey: string;
+  userId: string; // Only flushed while the same user is signed in
+  payload: WorkoutSessionSubmission;
+  queuedAt: number;
+  attempts: number;
+  lastError: string | null;
+  rejected: boolean; // The server refused the payload; retrying will not help
+};
+
+export type SyncResult = {
+  synced: string[]; // Idempotency keys saved on the server during this pass
+  summaries: Record<string, SessionSaveSummary>; // What each synced save changed, by idempotency key
+  rejected: string[];
+  pending: number;
+};
+
+function createIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function loadSyncQueue(): PendingSession[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(QUEUE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as PendingSession[]) : [];
+  } catch (error) {
+    console.warn("Unable to load sync queue", error);
+    return [];
+  }
+}
+
+function saveSyncQueue(queue: PendingSession[]) {
+  try {
+    window.localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.warn("Unable to save sync queue", error);
+  }
+  window.dispatchEvent(new Event(SYNC_QUEUE_EVENT));
+}
+
+function updateSyncQueue(update: (queue: PendingSession[]) => PendingSession[]) {
+  saveSyncQueue(update(loadSyncQueue()));
+}
+
+export function enqueueWorkoutSession(userId: string, payload: WorkoutSessionSubmission): PendingSession {
+  const entry: PendingSession = {
+    idempotencyKey: createIdempotencyKey(),
+    userId,
+    payload,
+    queuedAt: Date.now(),
+    attempts: 0,
+    lastError: null,
+    rejected: false,
+  };
+  updateSyncQueue((queue) => [...queue, entry]);
+  return entry;
+}
+
+export function discardPendingSession(idempotencyKey: string) {
+  updateSyncQueue((queue) => queue.filter((entry) => entry.idempotencyKey !== idempotencyKey));
+}
+
+// Client errors other than auth/timeout/rate limiting mean the payload itself is bad
+function isPermanentFailure(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 401 && status !== 408 && status !== 429;
+}
+
+async function flushOnce(): Promise<SyncResult> {
+  const result: SyncResult = { synced: [], summaries: {}, rejected: [], pending: 0 };
+  const session = await auth.getSession();
+  const userId = session?.user?.id;
+  const entries = loadSyncQueue().filter((entry) => entry.userId === userId && !entry.rejected);
+  if (!userId || !entries.length) return result;
+
+  const authHeaders = await getAuthHeaders();
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    if (typeof navigator !== "undefined" && navigator.onLine === false) break;
+
+    let res: Response;
+    try {
+      res = await fetch("/api/workout/session", {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json", "Idempotency-Key": entry.idempotencyKey },
+        body: JSON.stringify({
+          ...entry.payload,
+          // Entries queued before completedAt existed fall back to their queue time
+          completedAt: entry.payload.completedAt ?? new Date(entry.queuedAt).toISOString(),
+        }),
+        credentials: "same-origin",
+      });
+    } catch (error) {
+      // Still offline; keep everything for the next attempt
+      break;
+    }
+
+    if (res.ok) {
+      result.synced.push(entry.idempotencyKey);
+      try {
+        result.summaries[entry.idempotencyKey] = (await res.json()) as SessionSaveSummary;
+      } catch (error) {
+        console.warn("Unable to read session save summary", error);
+      }
+      discardPendingSession(entry.idempotencyKey);
+      continue;
+    }
+
+    const message = `${res.status}: ${(await res.text()) || res.statusText}`;
+    const rejected = isPermanentFailure(res.status);
+    if (rejected) result.rejected.push(entry.idempotencyKey);
+    updateSyncQueue((queue) =>
+      queue.map((queued) =>
+        queued.idempotencyKey === entry.idempotencyKey
+          ? { ...queued, attempts: queued.attempts + 1, lastError: message, rejected }
+          : queued
+      )
+    );
+    if (res.status === 401) break;
+  }
+
+  result.pending = loadSyncQueue().filter((entry) => entry.userId === userId && !entry.rejected).length;
+  if (result.synced.length) {
+    queryClient.invalidateQueries({ queryKey: ["/api/workout/history"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/personal-records"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/mastery"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/programs/enrollment"] });
+  }
+  return result;
+}
+
+// Passes run one after another so two triggers never send the same entry concurrently
+let flushChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Send every queued session for the signed-in user. Entries that fail for
+ * connectivity or server errors stay queued; rejected payloads are flagged.
+ */
+export function flushSyncQueue(): Promise<SyncResult> {
+  const run = flushChain.then(flushOnce, flushOnce);
+  flushChain = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Retry the queue on startup, whenever the browser comes back online and on a
+ * fixed interval. Returns a cleanup function.
+ */
+export function startSyncQueue(): () => void {
+  const flush = () => {
+    flushSyncQueue().catch((error) => console.warn("Unable to sync queued sessions", error));
+  };
+  flush();
+  window.addEventListener("online", flush);
+  const intervalId = window.setInterval(flush, RETRY_INTERVAL_MS);
+  return () => {
+    window.removeEventListener("online", flush);
+    window.clearInterval(intervalId);
+  };
+}
@@ -0,0 +1,187 @@
+import { useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Play, Search, Trash2, Zap, Flame, Infinity, Repeat, BarChart3, Timer } from "lucide-react";
+import MobileLayout from "@/components/layout/mobile-layout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Framework } from "@shared/frameworks";
+import type { FavoriteWorkout, GeneratedWorkout } from "@shared/schema";
+
+// Icon mapping for frameworks
+const FRAMEWORK_ICONS: Record<Framework, typeof Zap> = {
+  EMOM: Zap,
+  Tabata: Flame,
+  AMRAP: Infinity,
+  Circuit: Repeat,
+  Ladder: BarChart3,
+  ForTime: Timer,
+};
+
+export default function Favorites() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+
+  // Full library drives the tag chips; the filtered query drives the list
+  const { data: allFavorites = [] } = useQuery<FavoriteWorkout[]>({
+    queryKey: ["/api/favorites"],
+  });
+
+  const searchTerm = search.trim();
+  const { data: favorites = [], isLoading } = useQuery<FavoriteWorkout[]>({
+    queryKey: ["/api/favorites", "search", searchTerm, activeTag],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (searchTerm) params.set("q", searchTerm);
+      if (activeTag) params.set("tag", activeTag);
+      const res = await apiRequest("GET", `/api/favorites?${params.toString()}`);
+      return res.json();
+    },
+  });
+
+  const allTags = useMemo(
+    () => Array.from(new Set(allFavorites.flatMap((favorite) => favorite.tags))).sort(),
+    [allFavorites]
+  );
+
+  const runAgainMutation = useMutation({
+    mutationFn: async (favoriteId: string) => {
+      const res = await apiRequest("POST", `/api/favorites/${favoriteId}/run`);
+      return res.json() as Promise<GeneratedWorkout>;
+    },
+    onSuccess: (workout) => {
+      queryClient.setQueryData(["/api/workout", workout.id], workout);
+      setLocation(`/workout/runner/${workout.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (favoriteId: string) => {
+      await apiRequest("DELETE", `/api/favorites/${favoriteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+      toast({ title: "Removed", description: "Workout removed from your library." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <MobileLayout>
+      <div className="p-6 pb-24 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => setLocation("/workout-lab")} data-testid="button-back">
+            <ArrowLeft />
+          </Button>
+          <div>
+            <p className="text-muted-foreground font-medium uppercase tracking-wider text-sm">Library</p>
+            <h1 className="text-3xl font-bold text-white leading-tight">FAVORITES</h1>
+          </div>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            placeholder="Search saved workouts"
+            className="pl-9"
+            onChange={(e) => setSearch(e.target.value)}
+            data-testid="input-favorites-search"
+          />
+        </div>
+
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {allTags.map((tag) => (
+              <Badge
+                key={tag}
+                variant={activeTag === tag ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              >
+                #{tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-muted-foreground text-sm">Loading...</div>
+        ) : favorites.length === 0 ? (
+          <Card className="p-6 bg-card/40 border-border/40 text-center">
+            <p className="text-muted-foreground">
+              {allFavorites.length === 0
+                ? "No saved workouts yet. Save one from a preview, the runner or a past session."
+                : "No saved workouts match your search."}
+            </p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {favorites.map((favorite) => {
+              const Icon = FRAMEWORK_ICONS[favorite.framework as Framework] ?? Zap;
+              const isStarting = runAgainMutation.isPending && runAgainMutation.variables === favorite.id;
+              return (
+                <Card key={favorite.id} className="p-4 bg-card/40 border-border/40 space-y-3" data-testid={`favorite-${favorite.id}`}>
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex gap-3 items-center min-w-0">
+                      <div className="h-10 w-10 rounded-lg bg-primary/20 flex items-center justify-center flex-shrink-0">
+                        <Icon className="text-primary w-5 h-5" />
+                      </div>
+                      <div className="min-w-0">
+                        <h3 className="font-bold text-white truncate">{favorite.name}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          {favorite.framework} • {favorite.workout.durationMinutes} min • {favorite.workout.difficultyTag}
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteMutation.mutate(favorite.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+
+                  {favorite.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {favorite.tags.map((tag) => (
+                        <Badge key={tag} variant="secondary" className="text-[10px]">
+                          #{tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  <Button
+                    className="w-full bg-primary text-black hover:bg-primary/90 font-bold uppercase tracking-wider"
+                    onClick={() => runAgainMutation.mutate(favorite.id)}
+                    disabled={runAgainMutation.isPending}
+                    data-testid={`button-run-again-${favorite.id}`}
+                  >
+                    <Play className="w-4 h-4 mr-2 fill-current" />
+                    {isStarting ? "Starting..." : "Run Again"}
+                  </Button>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </MobileLayout>
+  );
+}
@@ -1,24 +1,115 @@
-import { useEffect } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import MobileLayout from "@/components/layout/mobile-layout";
 import { Card } from "@/components/ui/card";
-import { Award } from "lucide-react";
-import type { WorkoutRound, WorkoutSession } from "@/../../shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Award, CloudOff, X } from "lucide-react";
+import {
+  workoutFrameworks,
+  type WorkoutFramework,
+  type WorkoutHistoryPage,
+  type WorkoutSession,
+} from "@/../../shared/schema";
+import { formatAmrapScore, formatClockTime } from "@shared/frameworks";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/useAuth";
+import { useHistorySummary } from "@/hooks/useHistorySummary";
+import { usePendingSessions } from "@/hooks/usePendingSessions";
+import { discardPendingSession, flushSyncQueue } from "@/lib/syncQueue";
 
-type HistorySession = WorkoutSession & { rounds: WorkoutRound[] };
+const PAGE_SIZE = 20;
+
+type HistoryFilters = {
+  framework: WorkoutFramework | null;
+  focusLabel: string | null;
+  completed: boolean | null;
+  from: string; // yyyy-mm-dd from the date input, empty when unset
+  to: string;
+};
+
+const NO_FILTERS: HistoryFilters = { framework: null, focusLabel: null, completed: null, from: "", to: "" };
+
+// Date inputs are local calendar days; the range covers the whole of both days
+function historyParams(filters: HistoryFilters, cursor: string | null): URLSearchParams {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (cursor) params.set("cursor", cursor);
+  if (filters.framework) params.set("framework", filters.framework);
+  if (filters.focusLabel) params.set("focusLabel", filters.focusLabel);
+  if (filters.completed !== null) params.set("completed", String(filters.completed));
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+type SessionScore = Pick<
+  WorkoutSession,
+  "framework" | "durationMinutes" | "finishSeconds" | "repsAtCap" | "amrapRounds" | "amrapReps"
+>;
+
+function describeSessionResult(session: SessionScore): string {
+  if (session.framework === "ForTime") {
+    return session.finishSeconds
+      ? `Finished in ${formatClockTime(session.finishSeconds)}`
+      : `${session.repsAtCap ?? 0} reps at ${session.durationMinutes} min cap`;
+  }
+  if (session.framework === "AMRAP" && session.amrapRounds != null) {
+    return `${formatAmrapScore(session.amrapRounds, session.amrapReps ?? 0)} in ${session.durationMinutes} min`;
+  }
+  return `${session.durationMinutes} min`;
+}
 
 export default function History() {
   const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const pendingSessions = usePendingSessions(user?.id);
+
+  const [filters, setFilters] = useState<HistoryFilters>(NO_FILTERS);
+  const hasFilters =
+    filters.framework !== null || filters.focusLabel !== null || filters.completed !== null || !!filters.from || !!filters.to;
+  const updateFilters = (changes: Partial<HistoryFilters>) => setFilters((current) => ({ ...current, ...changes }));
+
+  // Same summary list home and profile load; only used for the focus chips
+  const { data: summary } = useHistorySummary();
+  const focusLabels = useMemo(
+    () => Array.from(new Set((summary?.sessions ?? []).map((session) => session.focusLabel))).sort(),
+    [summary]
+  );
 
-  const { data: history, isLoading, refetch } = useQuery<HistorySession[]>({
-    queryKey: ["/api/workout/history"],
-    queryFn: async () => {
-      const res = await fetch("/api/workout/history", { credentials: "include" });
-      if (!res.ok) throw new Error("Failed to load history");
+  const {
+    data,
+    isLoading,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/workout/history", filters],
+    queryFn: async ({ pageParam }): Promise<WorkoutHistoryPage> => {
+      const res = await apiRequest("GET", `/api/workout/history?${historyParams(filters, pageParam).toString()}`);
       return res.json();
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
+  const history = useMemo(() => data?.pages.flatMap((page) => page.sessions), [data]);
+  const totalCount = data?.pages[0]?.totals.count ?? 0; // Every session matching the filters, across all pages
+  // Queued sessions have not been filtered server-side, so they only show in the unfiltered list
+  const visiblePending = hasFilters ? [] : pendingSessions;
+
+  // Load the next page once the end of the list scrolls into view
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   useEffect(() => {
     if (history && history.length) {
@@ -40,8 +131,12 @@ export default function History() {
         {/* Summary Cards */}
         <div className="grid grid-cols-2 gap-3 mb-6">
           <Card className="p-4 bg-primary/10 border-primary/20 flex flex-col items-center justify-center py-6">
-            <span className="text-4xl font-display font-bold text-primary neon-text">{history?.length ?? 0}</span>
-            <span className="text-xs uppercase font-bold tracking-wider text-muted-foreground">This Week</span>
+            <span className="text-4xl font-display font-bold text-primary neon-text">
+              {totalCount + visiblePending.length}
+            </span>
+            <span className="text-xs uppercase font-bold tracking-wider text-muted-foreground">
+              {hasFilters ? "Matching" : "Sessions"}
+            </span>
           </Card>
           <Card className="p-4 bg-card/50 border-border/50 flex flex-col items-center justify-center py-6">
             <span className="text-4xl font-display font-bold text-white">12</span>
@@ -52,7 +147,10 @@ export default function History() {
         <div className="flex items-center justify-between mb-2">
           <h2 className="text-sm font-bold text-muted-foreground uppercase tracking-wider">Recent Workouts</h2>
           <button
-            onClick={() => refetch()}
+            onClick={() => {
+              flushSyncQueue().catch(() => undefined);
+              refetch();
+            }}
             className="text-xs text-primary underline underline-offset-4"
             disabled={isLoading}
           >
@@ -60,22 +158,138 @@ export default function History() {
           </button>
         </div>
 
+        <div className="space-y-3" data-testid="history-filters">
+          <div className="flex flex-wrap gap-2">
+            {workoutFrameworks.map((framework) => (
+              <Badge
+                key={framework}
+                variant={filters.framework === framework ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => updateFilters({ framework: filters.framework === framework ? null : framework })}
+              >
+                {framework}
+              </Badge>
+            ))}
+          </div>
+          {focusLabels.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {focusLabels.map((label) => (
+                <Badge
+                  key={label}
+                  variant={filters.focusLabel === label ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => updateFilters({ focusLabel: filters.focusLabel === label ? null : label })}
+                >
+                  {label}
+                </Badge>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {([
+              [null, "All"],
+              [true, "Completed"],
+              [false, "Unfinished"],
+            ] as const).map(([value, label]) => (
+              <Badge
+                key={label}
+                variant={filters.completed === value ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => updateFilters({ completed: value })}
+              >
+                {label}
+              </Badge>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              aria-label="From date"
+              data-testid="input-history-from"
+            />
+            <Input
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              aria-label="To date"
+              data-testid="input-history-to"
+            />
+          </div>
+          {hasFilters && (
+            <button
+              onClick={() => setFilters(NO_FILTERS)}
+              className="text-xs text-muted-foreground underline underline-offset-4"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
         <div className="space-y-3">
           {isLoading && (
             <Card className="p-4 bg-card/40 border-border/40 text-center text-muted-foreground">Loading...</Card>
           )}
-          {!isLoading && (!history || history.length === 0) && (
+          {!isLoading && (!history || history.length === 0) && !visiblePending.length && (
             <Card className="p-4 bg-card/40 border-border/40 text-center text-muted-foreground">
-              Log a workout to see your history here.
+              {hasFilters ? "No workouts match these filters." : "Log a workout to see your history here."}
             </Card>
           )}
+          {visiblePending.map((entry) => (
+            <Card
+              key={entry.idempotencyKey}
+              className="p-4 bg-card/40 border-dashed border-border/60 flex flex-col gap-2"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex gap-4 items-start">
+                  <div className="h-12 w-12 rounded-lg bg-secondary flex items-center justify-center">
+                    <CloudOff className="text-muted-foreground w-6 h-6" />
+                  </div>
+                  <div>
+                    <h3 className="font-bold text-white">{entry.payload.focusLabel}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(new Date(entry.queuedAt).toISOString())} •{" "}
+                      {describeSessionResult({
+                        framework: entry.payload.framework,
+                        durationMinutes: entry.payload.durationMinutes,
+                        finishSeconds: entry.payload.finishSeconds,
+                        repsAtCap: entry.payload.repsAtCap,
+                        amrapRounds: entry.payload.amrapRounds,
+                        amrapReps: entry.payload.amrapReps,
+                      })}
+                    </p>
+                    {entry.rejected ? (
+                      <p className="text-xs text-destructive">Sync failed: {entry.lastError}</p>
+                    ) : null}
+                  </div>
+                </div>
+                <div className="text-right text-xs text-muted-foreground space-y-1">
+                  <p className={cn("font-bold uppercase", entry.rejected ? "text-destructive" : "text-yellow-500")}>
+                    {entry.rejected ? "Sync failed" : "Pending sync"}
+                  </p>
+                  <p>RPE: {entry.payload.perceivedExertion}</p>
+                  {entry.rejected ? (
+                    <button
+                      onClick={() => discardPendingSession(entry.idempotencyKey)}
+                      className="inline-flex items-center gap-1 text-muted-foreground hover:text-white"
+                    >
+                      <X className="w-3 h-3" /> Discard
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            </Card>
+          ))}
           {history?.map((session) => (
             <Card
               key={session.id}
               className="p-4 bg-card/40 border-border/40 flex flex-col gap-2 cursor-pointer hover:border-primary/40"
               onClick={() => {
                 window.sessionStorage.setItem("selectedHistorySession", JSON.stringify(session));
-                setLocation("/workout/detail");
+                setLocation("/workout");
               }}
             >
               <div className="flex items-start justify-between gap-4">
@@ -86,7 +300,8 @@ export default function History() {
                   <div>
                     <h3 className="font-bold text-white">{session.focusLabel}</h3>
                     <p className="text-xs text-muted-foreground">
-                      {formatDate(session.createdAt as unknown as string)} • {session.durationMinutes} min
+                      {formatDate(session.createdAt as unknown as string)} •{" "}
+                      {describeSessionResult(session)}
                     </p>
                     {session.notes ? (
                       <p className="text-xs text-muted-foreground italic">“{session.notes}”</p>
@@ -101,6 +316,10 @@ export default function History() {
               </div>
             </Card>
           ))}
+          <div ref={sentinelRef} />
+          {isFetchingNextPage && (
+            <Card className="p-4 bg-card/40 border-border/40 text-center text-muted-foreground">Loading more...</Card>
+          )}
         </div>
       </div>
     </MobileLayout>
@@ -1,23 +1,36 @@
 import { useEffect, useMemo, useState } from "react";
-import { Link } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
-import { Play, TrendingUp, Flame, Clock, ArrowRight, RotateCw, Beaker, Flame as FlameIcon, Zap, Trophy, Target, Activity } from "lucide-react";
+import { useHistorySummary } from "@/hooks/useHistorySummary";
+import { Play, Pause, X, TrendingUp, Flame, Clock, ArrowRight, RotateCw, Beaker, Flame as FlameIcon, Zap, Trophy, Target, Activity } from "lucide-react";
 import MobileLayout from "@/components/layout/mobile-layout";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { TrainingProgramCard } from "@/components/training-program-card";
 import { useToast } from "@/hooks/use-toast";
 import type {
   GeneratedWorkout,
+  MesocyclePhase,
+  MesocycleStatus,
   Profile as ProfileModel,
+  ProgramEnrollment,
   TimeBlock,
-  WorkoutSession,
 } from "@/../../shared/schema";
-import { getQueryFn } from "@/lib/queryClient";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { clearRunnerCheckpoint, getCheckpointRoundIndex, loadRunnerCheckpoint } from "@/lib/runnerCheckpoint";
+import { isClockRunning } from "@shared/intervalEngine";
+import type { ProgramDay } from "@shared/programs";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis } from "recharts";
 
+const MESOCYCLE_PHASE_LABELS: Record<MesocyclePhase, string> = {
+  accumulation: "Accumulation",
+  intensification: "Intensification",
+  deload: "Deload",
+};
+
 function getTimeGreeting(): string {
   const hour = new Date().getHours();
   if (hour < 12) return "Good Morning";
@@ -40,7 +53,11 @@ function formatTimeBlockLabel(block?: TimeBlock | null): string {
 export default function Home() {
   const { user, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
   const [isStreakModalOpen, setIsStreakModalOpen] = useState(false);
+  // Interrupted runner session (reload, tab kill, backgrounding) that can be picked back up
+  const [resumeCheckpoint, setResumeCheckpoint] = useState(() => loadRunnerCheckpoint());
   const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
   const [sessionIntent, setSessionIntent] = useState<{
     energyLevel?: "low" | "moderate" | "high";
@@ -68,26 +85,34 @@ export default function Home() {
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
-  const workoutUrl = useMemo(() => {
-    const params = new URLSearchParams();
-    if (sessionIntent?.energyLevel) params.set("energyLevel", sessionIntent.energyLevel);
-    if (sessionIntent?.focusToday) params.set("focusToday", sessionIntent.focusToday);
-    if (sessionIntent?.intentNote) params.set("intentNote", sessionIntent.intentNote);
-    const query = params.toString();
-    return `/api/workout/generate${query ? `?${query}` : ""}`;
-  }, [sessionIntent]);
-
+  // Each generation is persisted server-side; the returned ID is what the preview, runner and save bind to
   const { data: workout, isLoading: workoutLoading, refetch: regenerateWorkout } = useQuery<GeneratedWorkout>({
-    queryKey: [workoutUrl],
+    queryKey: ["/api/workout/generate", sessionIntent],
     enabled: !!profile,
     retry: false,
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/workout/generate", sessionIntent ?? {});
+      const generated = (await res.json()) as GeneratedWorkout;
+      queryClient.setQueryData(["/api/workout", generated.id], generated);
+      return generated;
+    },
   });
 
-  const { data: history = [] } = useQuery<WorkoutSession[] | null>({
-    queryKey: ["/api/workout/history"],
-    enabled: !!user,
+  const { data: historySummary } = useHistorySummary(!!user);
+
+  const { data: mesocycle } = useQuery<MesocycleStatus | null>({
+    queryKey: ["/api/mesocycle"],
+    enabled: !!profile,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Shared with TrainingProgramCard; an active program replaces the mesocycle's weekly loading
+  const { data: programStatus } = useQuery<{ enrollment: ProgramEnrollment; today: ProgramDay | null } | null>({
+    queryKey: ["/api/programs/enrollment"],
+    enabled: !!profile,
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
+  const programActive = !!programStatus?.today;
 
   const { data: personalRecords = [] } = useQuery<any[]>({
     queryKey: ["/api/personal-records"],
@@ -107,7 +132,7 @@ export default function Home() {
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
-  const historyData = history ?? [];
+  const historyData = historySummary?.sessions ?? [];
 
   const sortedHistory = [...historyData].sort(
     (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
@@ -201,8 +226,8 @@ export default function Home() {
 
   const recentActivity = weeklySessions.length > 0 ? weeklySessions : sortedHistory.slice(0, 5);
 
-  const totalWorkouts = historyData.length;
-  const totalMinutes = historyData.reduce((sum, session) => sum + session.durationMinutes, 0);
+  const totalWorkouts = historySummary?.totals.count ?? 0;
+  const totalMinutes = historySummary?.totals.minutes ?? 0;
 
   const daysSinceLastWorkout = useMemo(() => {
     if (!sortedHistory[0]) return Infinity;
@@ -335,6 +360,51 @@ export default function Home() {
           </div>
         </div>
 
+        {/* Resume Interrupted Workout */}
+        {resumeCheckpoint && (
+          <Card className="p-4 bg-primary/10 border-primary/40 space-y-3" data-testid="card-resume-workout">
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <div className="h-10 w-10 rounded-lg bg-primary/20 flex items-center justify-center">
+                  <Pause className="text-primary w-5 h-5" />
+                </div>
+                <div>
+                  <p className="text-[10px] uppercase font-bold text-primary tracking-wider">Workout in progress</p>
+                  <h3 className="font-bold text-white">
+                    {resumeCheckpoint.workout.focusLabel} • {resumeCheckpoint.workout.framework}
+                  </h3>
+                  <p className="text-xs text-muted-foreground">
+                    Exercise {getCheckpointRoundIndex(resumeCheckpoint) + 1}/{resumeCheckpoint.workout.rounds.length}
+                    {isClockRunning(resumeCheckpoint.clock) ? " • timer still running" : " • paused"}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground"
+                onClick={() => {
+                  clearRunnerCheckpoint();
+                  setResumeCheckpoint(null);
+                }}
+                data-testid="button-discard-resume"
+              >
+                <X size={16} />
+              </Button>
+            </div>
+            <Button
+              className="w-full bg-primary text-black hover:bg-primary/90 font-bold uppercase tracking-wider"
+              onClick={() => {
+                queryClient.setQueryData(["/api/workout", resumeCheckpoint.workout.id], resumeCheckpoint.workout);
+                setLocation(`/workout/runner/${resumeCheckpoint.workout.id}`);
+              }}
+              data-testid="button-resume-workout"
+            >
+              <Play className="w-4 h-4 mr-2 fill-current" /> Resume Workout
+            </Button>
+          </Card>
+        )}
+
         {/* Main Action Card - Daily WOD */}
         {workoutLoading ? (
           <Card className="p-6 bg-card/50 border-border/50 h-48 flex items-center justify-center">
@@ -419,7 +489,7 @@ export default function Home() {
 
               {/* Start Button - Always visible at bottom */}
               <div className="mt-6">
-                <Link href="/workout">
+                <Link href={`/workout/${workout.id}`}>
                   <Button
                     className="w-full h-14 bg-primary text-black hover:bg-primary/90 font-bold uppercase tracking-wider text-lg shadow-lg shadow-primary/20 transition-all hover:shadow-xl hover:shadow-primary/30"
                     data-testid="button-start-workout"
@@ -432,6 +502,27 @@ export default function Home() {
           </Card>
         ) : null}
 
+        {/* Training Phase */}
+        {mesocycle && (
+          <Card className="p-4 bg-card/50 border-border/50" data-testid="card-training-phase">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="text-xs uppercase font-bold text-primary tracking-wider">Training Phase</p>
+                <h3 className="text-lg font-bold text-white">{MESOCYCLE_PHASE_LABELS[mesocycle.phase]}</h3>
+                <p className="text-sm text-muted-foreground">
+                  {programActive ? "On hold while your program sets each week's load." : mesocycle.explanation}
+                </p>
+              </div>
+              <span className="px-3 py-1 rounded-full bg-secondary/40 text-xs font-bold uppercase text-gray-200 whitespace-nowrap">
+                Week {mesocycle.cycleWeek}/{mesocycle.cycleLength}
+              </span>
+            </div>
+          </Card>
+        )}
+
+        {/* Training Program */}
+        {profile && <TrainingProgramCard primaryGoal={profile.primaryGoal} />}
+
         {/* Workout Lab CTA */}
         <Link href="/workout-lab">
           <Card className="p-5 bg-gradient-to-r from-secondary/50 to-secondary/30 border-border/50 cursor-pointer hover:border-primary/50 transition-all hover:shadow-lg hover:shadow-primary/10">
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import MobileLayout from "@/components/layout/mobile-layout";
 import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabase";
+import { auth } from "@/lib/auth";
 import { App as CapacitorApp } from "@capacitor/app";
 import { Capacitor } from "@capacitor/core";
 import { Input } from "@/components/ui/input";
@@ -14,62 +14,60 @@ export default function Landing() {
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState("");
   const [showEmailForm, setShowEmailForm] = useState(false);
+  const [devLink, setDevLink] = useState<string | null>(null);
+
+  // Sign in from magic link credentials; App.tsx route protection takes over once the session is set
+  const completeSignIn = async (url: URL) => {
+    try {
+      return await auth.completeMagicLink(url);
+    } catch (error: any) {
+      setShowEmailForm(true);
+      setMessage(error.message || "Failed to sign in");
+      return false;
+    }
+  };
 
   // Listen for deep link (magic link callback)
   useEffect(() => {
-    if (Capacitor.isNativePlatform()) {
-      let listenerHandle: any;
-
-      CapacitorApp.addListener("appUrlOpen", async (event) => {
-        const url = new URL(event.url);
-        const hash = url.hash.substring(1); // Remove '#'
+    if (!Capacitor.isNativePlatform()) {
+      // Web callback: credentials arrive in the URL fragment
+      completeSignIn(new URL(window.location.href)).then((signedIn) => {
+        if (signedIn) window.history.replaceState(null, "", window.location.pathname + window.location.search);
+      });
+      return;
+    }
 
-        if (hash) {
-          const params = new URLSearchParams(hash);
-          const accessToken = params.get("access_token");
-          const refreshToken = params.get("refresh_token");
+    let listenerHandle: any;
 
-          if (accessToken && refreshToken) {
-            // Set session from deep link tokens
-            await supabase.auth.setSession({
-              access_token: accessToken,
-              refresh_token: refreshToken,
-            });
-            // User will be redirected by App.tsx route protection
-          }
-        }
-      }).then(handle => {
-        listenerHandle = handle;
-      });
+    CapacitorApp.addListener("appUrlOpen", async (event) => {
+      await completeSignIn(new URL(event.url));
+    }).then(handle => {
+      listenerHandle = handle;
+    });
 
-      return () => {
-        if (listenerHandle) {
-          listenerHandle.remove();
-        }
-      };
-    }
+    return () => {
+      if (listenerHandle) {
+        listenerHandle.remove();
+      }
+    };
   }, []);
 
   const handleMagicLink = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setMessage("");
+    setDevLink(null);
 
     try {
       const redirectTo = Capacitor.isNativePlatform()
         ? "com.myhiitlab.app://auth/callback"
         : `${window.location.origin}`;
 
-      const { error } = await supabase.auth.signInWithOtp({
-        email,
-        options: {
-          emailRedirectTo: redirectTo,
-        },
-      });
-
-      if (error) throw error;
+      const { devLink: link } = await auth.sendMagicLink(email, redirectTo);
 
-      setMessage("Check your email for the magic link!");
+      // The local auth provider hands the link back instead of emailing it
+      setDevLink(link ?? null);
+      setMessage(link ? "Check the sign-in link below (local auth, no email sent)." : "Check your email for the magic link!");
     } catch (error: any) {
       setMessage(error.message || "Failed to send magic link");
     } finally {
@@ -170,6 +168,19 @@ export default function Landing() {
                   {message}
                 </p>
               )}
+              {devLink && (
+                <a
+                  href={devLink}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    completeSignIn(new URL(devLink));
+                  }}
+                  className="block text-sm text-center text-primary underline break-all"
+                  data-testid="link-dev-magic-link"
+                >
+                  Open magic link
+                </a>
+              )}
               <Button
                 type="button"
                 onClick={() => setShowEmailForm(false)}
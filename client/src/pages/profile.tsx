@@ -5,12 +5,21 @@
 // - Ensures consistent equipment UX across onboarding and settings.
 // - Added goal viewing and editing with primary/secondary goal support.
 // - Displays user's training goals with visual badges and allows inline editing.
+// - Added Custom Exercises card (2026-10-18) for managing user-defined movements.
+// - Added exercise constraints (banned exercises, avoided muscles, impact/overhead limits) editing dialog.
+// - Recent Workouts links to the full history so past sessions can be opened and saved to the library.
+// - Personal Records list shows For Time benchmarks with their best finish time.
+// - Personal Records list shows AMRAP benchmarks with their best rounds + reps score.
+// - Account actions download the user's training data as JSON or CSV from GET /api/export.
+// - Training Calendar card manages the ICS subscription of planned workouts.
 
 import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useHistorySummary } from "@/hooks/useHistorySummary";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { supabase } from "@/lib/supabase";
+import { auth } from "@/lib/auth";
 import MobileLayout from "@/components/layout/mobile-layout";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -32,15 +41,28 @@ import {
   Heart,
   Zap,
   Trophy,
+  Download,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { EquipmentSelector } from "@/components/equipment-selector";
+import { CustomExercisesCard } from "@/components/custom-exercises-card";
+import { CalendarFeedCard } from "@/components/calendar-feed-card";
+import { ExerciseConstraintsEditor } from "@/components/exercise-constraints-editor";
 import { getEquipmentLabel, normalizeEquipment, migrateEquipment, type EquipmentId } from "@shared/equipment";
 import { PRIMARY_GOALS, buildGoalWeights, type PrimaryGoalId } from "@shared/goals";
-import type { Profile as ProfileModel, WorkoutRound, WorkoutSession } from "@shared/schema";
-import { getQueryFn } from "@/lib/queryClient";
+import {
+  DEFAULT_EXERCISE_CONSTRAINTS,
+  hasExerciseConstraints,
+  normalizeExerciseConstraints,
+  type ExerciseConstraints,
+} from "@shared/constraints";
+import { formatAmrapScore, formatClockTime } from "@shared/frameworks";
+import type { ExerciseDefinition } from "@shared/exercises";
+import type { Profile as ProfileModel } from "@shared/schema";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { saveResponseAsFile } from "@/lib/fileDownload";
 
 // Icon mapping for goals
 const GOAL_ICONS = {
@@ -55,15 +77,18 @@ const GOAL_ICONS = {
 
 export default function Profile() {
   const { user, isLoading: authLoading } = useAuth();
+  const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isEditEquipmentOpen, setIsEditEquipmentOpen] = useState(false);
   const [isEditGoalsOpen, setIsEditGoalsOpen] = useState(false);
   const [isEditLevelOpen, setIsEditLevelOpen] = useState(false);
+  const [isEditConstraintsOpen, setIsEditConstraintsOpen] = useState(false);
   const [editingEquipment, setEditingEquipment] = useState<EquipmentId[]>([]);
   const [editingPrimaryGoal, setEditingPrimaryGoal] = useState<PrimaryGoalId | null>(null);
   const [editingSecondaryGoals, setEditingSecondaryGoals] = useState<PrimaryGoalId[]>([]);
   const [editingLevel, setEditingLevel] = useState<"Beginner" | "Intermediate" | "Advanced">("Beginner");
+  const [editingConstraints, setEditingConstraints] = useState<ExerciseConstraints>(DEFAULT_EXERCISE_CONSTRAINTS);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -91,11 +116,8 @@ export default function Profile() {
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
-  const { data: history = [] } = useQuery<Array<WorkoutSession & { rounds: WorkoutRound[] }>>({
-    queryKey: ["/api/workout/history"],
-    enabled: !!user,
-    queryFn: getQueryFn({ on401: "returnNull" }),
-  });
+  const { data: historySummary } = useHistorySummary(!!user);
+  const history = historySummary?.sessions ?? [];
 
   const { data: personalRecords = [] } = useQuery<any[]>({
     queryKey: ["/api/personal-records"],
@@ -115,6 +137,12 @@ export default function Profile() {
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
+  const { data: exerciseLibrary = [] } = useQuery<ExerciseDefinition[]>({
+    queryKey: ["/api/exercises"],
+    enabled: !!user,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
   const updateProfileMutation = useMutation({
     mutationFn: async (updates: {
       equipment?: EquipmentId[];
@@ -123,6 +151,7 @@ export default function Profile() {
       goalWeights?: Record<PrimaryGoalId, number>;
       skillScore?: number;
       fitnessLevel?: string;
+      exerciseConstraints?: ExerciseConstraints;
     }) => {
       const res = await fetch("/api/profile", {
         method: "PATCH",
@@ -130,7 +159,10 @@ export default function Profile() {
         body: JSON.stringify(updates),
         credentials: "include",
       });
-      if (!res.ok) throw new Error("Failed to update profile");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message ?? "Failed to update profile");
+      }
       return res.json();
     },
     onSuccess: (_, variables) => {
@@ -139,10 +171,12 @@ export default function Profile() {
       if (variables.equipment) message = "Your equipment preferences have been saved.";
       else if (variables.primaryGoal) message = "Your training goals have been updated.";
       else if (variables.skillScore !== undefined) message = "Your training level has been updated.";
+      else if (variables.exerciseConstraints) message = "Your exercise constraints will apply to every new workout.";
       toast({ title: "Profile Updated", description: message });
       setIsEditEquipmentOpen(false);
       setIsEditGoalsOpen(false);
       setIsEditLevelOpen(false);
+      setIsEditConstraintsOpen(false);
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -167,8 +201,18 @@ export default function Profile() {
     },
   });
 
+  const exportMutation = useMutation({
+    mutationFn: async (format: "json" | "csv") => {
+      const res = await apiRequest("GET", `/api/export?format=${format}`);
+      await saveResponseAsFile(res, `hiit-lab-export.${format}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
+  });
+
   const handleLogout = async () => {
-    await supabase.auth.signOut();
+    await auth.signOut();
     window.location.href = "/landing";
   };
 
@@ -192,6 +236,27 @@ export default function Profile() {
     updateProfileMutation.mutate({ equipment: normalized });
   };
 
+  const handleEditConstraints = () => {
+    setEditingConstraints(normalizeExerciseConstraints(profile?.exerciseConstraints));
+    setIsEditConstraintsOpen(true);
+  };
+
+  const handleSaveConstraints = () => {
+    updateProfileMutation.mutate({ exerciseConstraints: editingConstraints });
+  };
+
+  const describeConstraints = (constraints: ExerciseConstraints): string[] => {
+    const labels: string[] = [];
+    if (constraints.lowImpact) labels.push("Low impact");
+    else if (constraints.noPlyometric) labels.push("No jumping");
+    if (constraints.limitedOverhead) labels.push("Limited overhead");
+    constraints.avoidedMuscleGroups.forEach((group) => labels.push(`No ${group}`));
+    constraints.bannedExerciseIds.forEach((id) => {
+      labels.push(`No ${exerciseLibrary.find((exercise) => exercise.id === id)?.name ?? id}`);
+    });
+    return labels;
+  };
+
   const handleEditGoals = () => {
     setEditingPrimaryGoal(profile?.primaryGoal ?? null);
     setEditingSecondaryGoals(profile?.secondaryGoals ?? []);
@@ -278,11 +343,8 @@ export default function Profile() {
     );
   }
 
-    const totalWorkouts = history.length;
-    const totalMinutes = history.reduce(
-      (sum, session) => sum + (session?.durationMinutes ?? 0),
-      0,
-    );
+    const totalWorkouts = historySummary?.totals.count ?? 0;
+    const totalMinutes = historySummary?.totals.minutes ?? 0;
   const currentStreak = 3; // Mock for now
 
   return (
@@ -412,8 +474,70 @@ export default function Profile() {
                   {migrateEquipment(profile.equipment as string[]).map(getEquipmentLabel).join(", ")}
                 </p>
               </div>
+
+              {/* Exercise Constraints Section */}
+              <div className="border-t border-border/50 pt-4">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-muted-foreground">Injuries & Exclusions</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-primary hover:text-primary/80"
+                    onClick={handleEditConstraints}
+                    data-testid="button-edit-constraints"
+                  >
+                    <Edit size={14} />
+                  </Button>
+                </div>
+                {(() => {
+                  const constraints = normalizeExerciseConstraints(profile.exerciseConstraints);
+                  if (!hasExerciseConstraints(constraints)) {
+                    return <p className="text-xs text-muted-foreground italic">No restrictions</p>;
+                  }
+                  return (
+                    <div className="flex flex-wrap gap-1.5">
+                      {describeConstraints(constraints).map((label) => (
+                        <Badge key={label} variant="secondary" className="text-xs capitalize">
+                          {label}
+                        </Badge>
+                      ))}
+                    </div>
+                  );
+                })()}
+              </div>
             </div>
 
+            {/* Exercise Constraints Edit Dialog */}
+            <Dialog open={isEditConstraintsOpen} onOpenChange={setIsEditConstraintsOpen}>
+              <DialogContent className="max-w-[90vw] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Injuries & Exclusions</DialogTitle>
+                </DialogHeader>
+                <div className="py-4">
+                  <ExerciseConstraintsEditor
+                    value={editingConstraints}
+                    onChange={setEditingConstraints}
+                    exercises={exerciseLibrary}
+                  />
+                </div>
+                <DialogFooter>
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsEditConstraintsOpen(false)}
+                    disabled={updateProfileMutation.isPending}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleSaveConstraints}
+                    disabled={updateProfileMutation.isPending}
+                  >
+                    {updateProfileMutation.isPending ? "Saving..." : "Save Changes"}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+
             {/* Equipment Edit Dialog */}
             <Dialog open={isEditEquipmentOpen} onOpenChange={setIsEditEquipmentOpen}>
               <DialogContent className="max-w-[90vw] max-h-[90vh] overflow-y-auto">
@@ -564,6 +688,12 @@ export default function Profile() {
           </Card>
         )}
 
+        {/* Custom Exercises */}
+        <CustomExercisesCard />
+
+        {/* Training Calendar */}
+        <CalendarFeedCard />
+
         {/* Personal Records */}
         {personalRecords && personalRecords.length > 0 && (
           <Card className="p-5 bg-card/40 border-border/40">
@@ -577,13 +707,23 @@ export default function Profile() {
                   <div>
                     <p className="font-bold text-white text-sm">{pr.exerciseName}</p>
                     <p className="text-xs text-muted-foreground">
-                      {pr.bestReps !== null && `${pr.bestReps} reps`}
-                      {pr.bestReps !== null && pr.bestSeconds !== null && " • "}
-                      {pr.bestSeconds !== null && `${pr.bestSeconds}s`}
+                      {pr.recordType === "benchmark" ? (
+                        pr.bestRounds !== null
+                          ? `Best score ${formatAmrapScore(pr.bestRounds, pr.bestReps ?? 0)}`
+                          : pr.bestSeconds !== null
+                          ? `Best finish ${formatClockTime(pr.bestSeconds)}`
+                          : `${pr.bestReps} reps at cap`
+                      ) : (
+                        <>
+                          {pr.bestReps !== null && `${pr.bestReps} reps`}
+                          {pr.bestReps !== null && pr.bestSeconds !== null && " • "}
+                          {pr.bestSeconds !== null && `${pr.bestSeconds}s`}
+                        </>
+                      )}
                     </p>
                   </div>
                   <Badge variant="secondary" className="text-xs">
-                    PR
+                    {pr.recordType === "benchmark" ? "Benchmark" : "PR"}
                   </Badge>
                 </div>
               ))}
@@ -663,7 +803,14 @@ export default function Profile() {
 
         {/* Workout History */}
         <div>
-          <h2 className="text-lg font-bold text-white mb-4">Recent Workouts</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold text-white">Recent Workouts</h2>
+            {history.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => setLocation("/history")} data-testid="button-view-history">
+                View All
+              </Button>
+            )}
+          </div>
           {history.length === 0 ? (
             <Card className="p-6 bg-card/40 border-border/40 text-center">
               <p className="text-muted-foreground">No workouts yet. Start your first session!</p>
@@ -694,6 +841,21 @@ export default function Profile() {
 
         {/* Account Actions */}
         <div className="space-y-3 pt-4">
+          <div className="grid grid-cols-2 gap-3">
+            {(["json", "csv"] as const).map((format) => (
+              <Button
+                key={format}
+                variant="outline"
+                className="border-border/50 hover:bg-secondary/50 hover:text-white"
+                onClick={() => exportMutation.mutate(format)}
+                disabled={exportMutation.isPending}
+                data-testid={`button-export-${format}`}
+              >
+                <Download size={18} />
+                Export {format.toUpperCase()}
+              </Button>
+            ))}
+          </div>
           <Button
             variant="outline"
             className="w-full justify-between border-border/50 hover:bg-secondary/50 hover:text-white"
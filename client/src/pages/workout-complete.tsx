@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useState } from "react";
-import { useLocation } from "wouter";
+import { useLocation, useParams } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Brain, CheckCircle2, Share2, Star, Trophy, Target, Activity } from "lucide-react";
 import { motion } from "framer-motion";
@@ -10,8 +10,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
-import type { GeneratedWorkout } from "@/../../shared/schema";
-import { getQueryFn, apiRequest } from "@/lib/queryClient";
+import type { GeneratedWorkout, SessionSaveSummary } from "@/../../shared/schema";
+import { formatAmrapScore, formatClockTime } from "@shared/frameworks";
+import { getQueryFn } from "@/lib/queryClient";
+import { discardPendingSession, enqueueWorkoutSession, flushSyncQueue, loadSyncQueue } from "@/lib/syncQueue";
 import { useAuth } from "@/hooks/useAuth";
 
 type RoundActual = {
@@ -20,8 +22,12 @@ type RoundActual = {
   skipped?: boolean;
 };
 
+// Queued saves have no summary until the sync queue delivers them
+type SaveOutcome = { queued: boolean; summary?: SessionSaveSummary };
+
 export default function WorkoutComplete() {
   const [, setLocation] = useLocation();
+  const { id: workoutId } = useParams<{ id: string }>();
   const { toast } = useToast();
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -31,6 +37,10 @@ export default function WorkoutComplete() {
   const [roundActuals, setRoundActuals] = useState<Record<number, RoundActual>>({});
   const [newPRs, setNewPRs] = useState<string[]>([]);
   const [intervalsExpanded, setIntervalsExpanded] = useState(false);
+  const [finishSeconds, setFinishSeconds] = useState<number | null>(null);
+  const [amrapRounds, setAmrapRounds] = useState(0);
+  const [amrapReps, setAmrapReps] = useState(0);
+  const [completedAt, setCompletedAt] = useState<string | null>(null);
 
   const updateRoundActual = (minuteIndex: number, data: RoundActual) => {
     setRoundActuals((previous: Record<number, RoundActual>) => ({ ...previous, [minuteIndex]: { ...previous[minuteIndex], ...data } }));
@@ -48,8 +58,8 @@ export default function WorkoutComplete() {
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
-  const { data: workout, isLoading: isFallbackLoading } = useQuery<GeneratedWorkout | null>({
-    queryKey: ["/api/workout/generate"],
+  const { data: workout, isLoading: isWorkoutLoading } = useQuery<GeneratedWorkout | null>({
+    queryKey: ["/api/workout", workoutId],
   });
 
   useEffect(() => {
@@ -58,19 +68,21 @@ export default function WorkoutComplete() {
       const raw = window.sessionStorage.getItem("latestWorkoutCompletion");
       if (!raw) return;
       const parsed = JSON.parse(raw);
-      if (parsed.roundActuals) {
+      // Only apply actuals recorded for this exact workout
+      if (parsed.workoutId === workoutId && parsed.roundActuals) {
         setRoundActuals(parsed.roundActuals as Record<number, RoundActual>);
-      }
-      if (!workout && parsed.workout) {
-        queryClient.setQueryData(["/api/workout/generate"], parsed.workout as GeneratedWorkout);
+        setFinishSeconds(typeof parsed.finishSeconds === "number" ? parsed.finishSeconds : null);
+        setAmrapRounds(typeof parsed.amrapRounds === "number" ? parsed.amrapRounds : 0);
+        setAmrapReps(typeof parsed.amrapReps === "number" ? parsed.amrapReps : 0);
+        setCompletedAt(typeof parsed.completedAt === "string" ? parsed.completedAt : null);
       }
     } catch (error) {
       console.warn("Unable to load completion snapshot", error);
     }
-  }, [queryClient, workout]);
+  }, [workoutId]);
 
   const saveWorkoutMutation = useMutation({
-    mutationFn: async ({ rpe, notes: sessionNotes }: { rpe: number; notes?: string }) => {
+    mutationFn: async ({ rpe, notes: sessionNotes }: { rpe: number; notes?: string }): Promise<SaveOutcome> => {
       if (!workout) throw new Error("No workout data");
 
       const payloadRounds = workout.rounds.map((round) => {
@@ -83,7 +95,21 @@ export default function WorkoutComplete() {
         };
       });
 
-      const res = await apiRequest("POST", "/api/workout/session", {
+      // For Time result: finish time, or the reps logged before the cap
+      const isForTime = workout.framework === "ForTime";
+      const repsAtCap =
+        isForTime && finishSeconds === null
+          ? payloadRounds.filter((round) => !round.skipped).reduce((sum, round) => sum + (round.actualReps ?? 0), 0)
+          : null;
+
+      // AMRAP score: the server derives per-exercise actuals from the completed rounds
+      const isAmrap = workout.framework === "AMRAP";
+
+      if (!user) throw new Error("Sign in to log this workout");
+
+      // Queue first so the session survives a dead connection; the queue retries it later
+      const entry = enqueueWorkoutSession(user.id, {
+        generatedWorkoutId: workout.id,
         framework: workout.framework,
         durationMinutes: workout.durationMinutes,
         difficultyTag: workout.difficultyTag,
@@ -91,39 +117,60 @@ export default function WorkoutComplete() {
         perceivedExertion: rpe,
         rounds: payloadRounds,
         notes,
+        finishSeconds: isForTime ? finishSeconds : null,
+        repsAtCap,
+        amrapRounds: isAmrap ? amrapRounds : null,
+        amrapReps: isAmrap ? amrapReps : null,
+        completedAt: completedAt ?? new Date().toISOString(),
       });
 
-      return await res.json();
+      const result = await flushSyncQueue();
+      if (result.synced.includes(entry.idempotencyKey)) {
+        return { queued: false, summary: result.summaries[entry.idempotencyKey] };
+      }
+
+      const failed = loadSyncQueue().find((queued) => queued.idempotencyKey === entry.idempotencyKey);
+      if (failed?.rejected) {
+        // Nothing was saved; let the user fix the entry and try again from here
+        discardPendingSession(entry.idempotencyKey);
+        throw new Error(failed.lastError ?? "Unable to save workout");
+      }
+      return { queued: true };
     },
-    onSuccess: async () => {
+    onSuccess: ({ queued, summary }) => {
       if (typeof window !== "undefined") {
         window.sessionStorage.removeItem("latestWorkoutCompletion");
       }
+      if (queued) {
+        queryClient.removeQueries({ queryKey: ["/api/workout/generate"] });
+        toast({
+          title: "Saved offline",
+          description: "Your workout will sync automatically when you're back online.",
+        });
+        setTimeout(() => setLocation("/"), 1000);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/workout/history"] });
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
       queryClient.invalidateQueries({ queryKey: ["/api/personal-records"] });
       queryClient.invalidateQueries({ queryKey: ["/api/mastery"] });
+      // A completed program session moves the program on, so today's workout is for the next day
+      if (workout?.program) {
+        queryClient.removeQueries({ queryKey: ["/api/workout/generate"] });
+      }
       
-      // Check for new PRs
-      const prRes = await apiRequest("GET", "/api/personal-records").catch(() => null);
-      const updatedPRs = prRes ? await prRes.json() : [];
+      // The save summary lists the records this session set
+      const newPRExercises = summary?.newPersonalRecords.map((record) => record.exerciseName) ?? [];
       
-      if (workout && updatedPRs.length > 0) {
-        const workoutExercises = new Set(workout.rounds.map((r: any) => r.exerciseName));
-        const newPRExercises = updatedPRs
-          .filter((pr: any) => workoutExercises.has(pr.exerciseName))
-          .map((pr: any) => pr.exerciseName);
-        
-        if (newPRExercises.length > 0) {
-          setNewPRs(newPRExercises);
-          toast({
-            title: "🎉 New Personal Records!",
-            description: `You set ${newPRExercises.length} new PR${newPRExercises.length > 1 ? 's' : ''}!`,
-          });
-          // Don't redirect immediately if PRs were set - let user see the celebration
-          setTimeout(() => setLocation("/"), 3000);
-          return;
-        }
+      if (newPRExercises.length > 0) {
+        setNewPRs(newPRExercises);
+        toast({
+          title: "🎉 New Personal Records!",
+          description: `You set ${newPRExercises.length} new PR${newPRExercises.length > 1 ? 's' : ''}!`,
+        });
+        // Don't redirect immediately if PRs were set - let user see the celebration
+        setTimeout(() => setLocation("/"), 3000);
+        return;
       }
       
       // Clear the workout cache completely so it doesn't show old workouts
@@ -150,19 +197,21 @@ export default function WorkoutComplete() {
       .join("\n");
 
     const noteLine = notes.trim() ? `\nNotes: ${notes.trim()}` : "";
+    const scoreLine = workout.framework === "AMRAP" ? `Score: ${formatAmrapScore(amrapRounds, amrapReps)}` : "";
 
     return [
       "Workout Complete!",
       `Focus: ${workout.focusLabel}`,
       `Framework: ${workout.framework}`,
       `Duration: ${workout.durationMinutes} minutes`,
+      scoreLine,
       "Rounds:",
       roundsSummary,
       noteLine,
     ]
       .filter(Boolean)
       .join("\n");
-  }, [notes, workout]);
+  }, [amrapReps, amrapRounds, notes, workout]);
 
   const handleSave = () => {
     if (selectedRPE) {
@@ -197,7 +246,7 @@ export default function WorkoutComplete() {
     }
   };
 
-  if (!workout && isFallbackLoading) {
+  if (!workout && isWorkoutLoading) {
     return (
       <MobileLayout hideNav>
         <div className="flex items-center justify-center h-full">
@@ -279,10 +328,29 @@ export default function WorkoutComplete() {
         })()}
 
         <div className="grid grid-cols-2 gap-4 w-full">
-          <Card className="p-4 bg-card border-border/50 text-center">
-            <span className="text-3xl font-display font-bold text-white">{workout.durationMinutes}</span>
-            <p className="text-xs uppercase text-muted-foreground">Minutes</p>
-          </Card>
+          {workout.framework === "ForTime" ? (
+            <Card className="p-4 bg-card border-border/50 text-center">
+              <span className="text-3xl font-display font-bold text-white">
+                {finishSeconds !== null ? formatClockTime(finishSeconds) : "CAP"}
+              </span>
+              <p className="text-xs uppercase text-muted-foreground">
+                {finishSeconds !== null ? "Finish Time" : `Capped at ${workout.durationMinutes} min`}
+              </p>
+            </Card>
+          ) : workout.framework === "AMRAP" ? (
+            <Card className="p-4 bg-card border-border/50 text-center">
+              <span className="text-3xl font-display font-bold text-white" data-testid="text-amrap-score">
+                {amrapRounds}
+                {amrapReps > 0 ? ` + ${amrapReps}` : ""}
+              </span>
+              <p className="text-xs uppercase text-muted-foreground">Rounds + Reps</p>
+            </Card>
+          ) : (
+            <Card className="p-4 bg-card border-border/50 text-center">
+              <span className="text-3xl font-display font-bold text-white">{workout.durationMinutes}</span>
+              <p className="text-xs uppercase text-muted-foreground">Minutes</p>
+            </Card>
+          )}
           <Card className="p-4 bg-card border-border/50 text-center">
             <span className="text-3xl font-display font-bold text-white">{workout.durationMinutes * 15}</span>
             <p className="text-xs uppercase text-muted-foreground">Est. Cals</p>
@@ -343,94 +411,139 @@ export default function WorkoutComplete() {
           </div>
         </div>
 
-        {/* Interval Logging Section */}
-        <div className="w-full space-y-4">
-          <div className="text-center">
-            <h3 className="text-lg font-bold text-white mb-1">Log Your Intervals</h3>
-            <p className="text-sm text-muted-foreground">Tell the coach how it actually went.</p>
-          </div>
+        {/* AMRAP Score Section */}
+        {workout.framework === "AMRAP" ? (
+          <div className="w-full space-y-4">
+            <div className="text-center">
+              <h3 className="text-lg font-bold text-white mb-1">Your Score</h3>
+              <p className="text-sm text-muted-foreground">
+                Full rounds completed, plus the reps you got into the next round.
+              </p>
+            </div>
 
-          <Card className="w-full bg-card border-border/50 p-4 space-y-3 text-left">
-            <div className="flex items-center justify-between gap-3">
-              <p className="text-xs uppercase text-muted-foreground">Adjust Actual Performance</p>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-8 px-3 text-xs text-primary hover:text-primary"
-                onClick={() => setIntervalsExpanded((previous) => !previous)}
-              >
-                {intervalsExpanded ? "Hide all" : "View all"}
-              </Button>
+            <Card className="w-full bg-card border-border/50 p-4 text-left">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="amrap-rounds" className="text-sm text-muted-foreground">Rounds</Label>
+                  <input
+                    id="amrap-rounds"
+                    type="number"
+                    min={0}
+                    className="w-full rounded-lg border border-border/50 bg-card px-3 py-2 text-white"
+                    value={amrapRounds}
+                    onChange={(event) => setAmrapRounds(Math.max(0, Math.floor(Number(event.target.value) || 0)))}
+                    data-testid="input-amrap-rounds"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="amrap-reps" className="text-sm text-muted-foreground">Extra reps</Label>
+                  <input
+                    id="amrap-reps"
+                    type="number"
+                    min={0}
+                    className="w-full rounded-lg border border-border/50 bg-card px-3 py-2 text-white"
+                    value={amrapReps}
+                    onChange={(event) => setAmrapReps(Math.max(0, Math.floor(Number(event.target.value) || 0)))}
+                    data-testid="input-amrap-reps"
+                  />
+                </div>
+              </div>
+            </Card>
+          </div>
+        ) : (
+          /* Interval Logging Section */
+          <div className="w-full space-y-4">
+            <div className="text-center">
+              <h3 className="text-lg font-bold text-white mb-1">Log Your Intervals</h3>
+              <p className="text-sm text-muted-foreground">
+                {workout.framework === "ForTime" && finishSeconds === null
+                  ? "Time cap hit - enter the reps you finished on your last movement."
+                  : "Tell the coach how it actually went."}
+              </p>
             </div>
 
-            <div className="space-y-2">
-              {(intervalsExpanded ? workout.rounds : workout.rounds.slice(0, 3)).map((round) => {
-                const currentActual = roundActuals[round.minuteIndex] || {};
-                return (
-                  <div
-                    key={`${round.minuteIndex}-${round.exerciseName}`}
-                    className="space-y-3 rounded-xl border border-border/40 bg-muted/5 p-4"
-                  >
-                    <div className="flex items-center justify-between gap-2">
-                      <div>
-                        <p className="text-sm font-semibold text-white">{round.exerciseName}</p>
-                        <p className="text-xs text-muted-foreground">
-                          Minute {round.minuteIndex} • Target: {round.reps} {(round as any).isHold ? "seconds" : "reps"}
-                        </p>
-                      </div>
-                      <Button
-                        variant={currentActual.skipped ? "default" : "outline"}
-                        size="sm"
-                        onClick={() =>
-                          updateRoundActual(round.minuteIndex, {
-                            skipped: !currentActual.skipped,
-                            actualReps: (round as any).isHold ? undefined : round.reps,
-                            actualSeconds: (round as any).isHold ? round.reps : undefined,
-                          })
-                        }
-                      >
-                        {currentActual.skipped ? "Skipped" : "Mark Skip"}
-                      </Button>
-                    </div>
+            <Card className="w-full bg-card border-border/50 p-4 space-y-3 text-left">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs uppercase text-muted-foreground">Adjust Actual Performance</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-3 text-xs text-primary hover:text-primary"
+                  onClick={() => setIntervalsExpanded((previous) => !previous)}
+                >
+                  {intervalsExpanded ? "Hide all" : "View all"}
+                </Button>
+              </div>
 
-                    {!currentActual.skipped ? (
-                      <div className="flex items-center gap-3">
-                        <Label className="text-sm text-muted-foreground whitespace-nowrap">
-                          Actual {(round as any).isHold ? "seconds" : "reps"}
-                        </Label>
-                        <input
-                          type="number"
-                          min={0}
-                          className="w-28 rounded-lg border border-border/50 bg-card px-3 py-2 text-white"
-                          value={
-                            (round as any).isHold
-                              ? currentActual.actualSeconds ?? round.reps
-                              : currentActual.actualReps ?? round.reps
-                          }
-                          onChange={(event) => {
-                            const value = Math.max(0, Number(event.target.value));
+              <div className="space-y-2">
+                {(intervalsExpanded ? workout.rounds : workout.rounds.slice(0, 3)).map((round) => {
+                  const currentActual = roundActuals[round.minuteIndex] || {};
+                  return (
+                    <div
+                      key={`${round.minuteIndex}-${round.exerciseName}`}
+                      className="space-y-3 rounded-xl border border-border/40 bg-muted/5 p-4"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <div>
+                          <p className="text-sm font-semibold text-white">{round.exerciseName}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Minute {round.minuteIndex} • Target: {round.reps} {(round as any).isHold ? "seconds" : "reps"}
+                          </p>
+                        </div>
+                        <Button
+                          variant={currentActual.skipped ? "default" : "outline"}
+                          size="sm"
+                          onClick={() =>
                             updateRoundActual(round.minuteIndex, {
-                              actualReps: (round as any).isHold ? currentActual.actualReps : value,
-                              actualSeconds: (round as any).isHold ? value : currentActual.actualSeconds,
-                              skipped: false,
-                            });
-                          }}
-                        />
+                              skipped: !currentActual.skipped,
+                              actualReps: (round as any).isHold ? undefined : round.reps,
+                              actualSeconds: (round as any).isHold ? round.reps : undefined,
+                            })
+                          }
+                        >
+                          {currentActual.skipped ? "Skipped" : "Mark Skip"}
+                        </Button>
                       </div>
+
+                      {!currentActual.skipped ? (
+                        <div className="flex items-center gap-3">
+                          <Label className="text-sm text-muted-foreground whitespace-nowrap">
+                            Actual {(round as any).isHold ? "seconds" : "reps"}
+                          </Label>
+                          <input
+                            type="number"
+                            min={0}
+                            className="w-28 rounded-lg border border-border/50 bg-card px-3 py-2 text-white"
+                            value={
+                              (round as any).isHold
+                                ? currentActual.actualSeconds ?? round.reps
+                                : currentActual.actualReps ?? round.reps
+                            }
+                            onChange={(event) => {
+                              const value = Math.max(0, Number(event.target.value));
+                              updateRoundActual(round.minuteIndex, {
+                                actualReps: (round as any).isHold ? currentActual.actualReps : value,
+                                actualSeconds: (round as any).isHold ? value : currentActual.actualSeconds,
+                                skipped: false,
+                              });
+                            }}
+                          />
+                        </div>
                     ) : (
-                      <p className="text-sm text-muted-foreground">We'll down-weight this move in future plans.</p>
-                    )}
-                  </div>
-                );
-              })}
-              {!intervalsExpanded && workout.rounds.length > 3 ? (
-                <p className="text-xs text-muted-foreground text-center">
-                  +{workout.rounds.length - 3} more intervals
-                </p>
-              ) : null}
-            </div>
-          </Card>
-        </div>
+                        <p className="text-sm text-muted-foreground">We'll down-weight this move in future plans.</p>
+                      )}
+                    </div>
+                  );
+                })}
+                {!intervalsExpanded && workout.rounds.length > 3 ? (
+                  <p className="text-xs text-muted-foreground text-center">
+                    +{workout.rounds.length - 3} more intervals
+                  </p>
+                ) : null}
+              </div>
+            </Card>
+          </div>
+        )}
 
         <Card className="w-full bg-card border-border/50 p-4 space-y-4 text-left">
           <div className="flex items-start justify-between gap-4">
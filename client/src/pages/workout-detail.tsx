@@ -1,15 +1,20 @@
 import { useEffect, useState } from "react";
-import { useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
-import { ArrowLeft, Play, RotateCw, Zap, Flame, Infinity, Repeat, Trophy, Target, Activity } from "lucide-react";
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Play, RotateCw, Zap, Flame, Infinity, Repeat, Trophy, Target, Activity, Bookmark, BarChart3, Timer, Pencil, Trash2, Share2 } from "lucide-react";
 import MobileLayout from "@/components/layout/mobile-layout";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { FRAMEWORK_CONFIGS, Framework } from "@/../../shared/frameworks";
 import type { GeneratedWorkout } from "@/../../shared/schema";
-import { getQueryFn } from "@/lib/queryClient";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { shareResponseAsFile } from "@/lib/fileDownload";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { SaveFavoriteDialog } from "@/components/save-favorite-dialog";
+import { EditSessionDialog, SESSION_DERIVED_QUERY_KEYS, type EditableSession } from "@/components/edit-session-dialog";
 
 type WorkoutDetailData = GeneratedWorkout & { notes?: string; perceivedExertion?: number; createdAt?: string };
 
@@ -19,15 +24,35 @@ const FRAMEWORK_ICONS: Record<Framework, typeof Zap> = {
   Tabata: Flame,
   AMRAP: Infinity,
   Circuit: Repeat,
+  Ladder: BarChart3,
+  ForTime: Timer,
 };
 
 export default function WorkoutDetail() {
   const [, setLocation] = useLocation();
+  const { id: workoutId } = useParams<{ id?: string }>();
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
   const [historyWorkout, setHistoryWorkout] = useState<WorkoutDetailData | null>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
 
-  const { data: workout, isLoading, refetch } = useQuery<GeneratedWorkout>({
-    queryKey: ["/api/workout/generate"],
+  const { data: workout, isLoading } = useQuery<GeneratedWorkout>({
+    queryKey: ["/api/workout", workoutId],
+    enabled: !!workoutId,
+  });
+
+  // Regenerating persists a new workout and moves the preview to its ID
+  const regenerateMutation = useMutation({
+    mutationFn: async (framework: Framework) => {
+      const res = await apiRequest("POST", "/api/workout/generate", { framework });
+      return res.json() as Promise<GeneratedWorkout>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/workout", data.id], data);
+      setLocation(`/workout/${data.id}`);
+    },
   });
 
   const { data: personalRecords = [] } = useQuery<any[]>({
@@ -49,7 +74,7 @@ export default function WorkoutDetail() {
   });
 
   useEffect(() => {
-    if (typeof window === "undefined") return;
+    if (typeof window === "undefined" || workoutId) return;
     try {
       const raw = window.sessionStorage.getItem("selectedHistorySession");
       if (raw) {
@@ -59,9 +84,54 @@ export default function WorkoutDetail() {
     } catch (error) {
       console.warn("Unable to load stored workout detail", error);
     }
-  }, []);
+  }, [workoutId]);
+
+  // Deleting a past session recomputes records and scores from the remaining history
+  const deleteSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiRequest("DELETE", `/api/workout/session/${sessionId}`);
+    },
+    onSuccess: () => {
+      SESSION_DERIVED_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      window.sessionStorage.removeItem("selectedHistorySession");
+      toast({ title: "Workout deleted", description: "Your records and scores were recalculated." });
+      setLocation("/history");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const activeWorkout = workoutId ? workout : historyWorkout;
+  // Past sessions opened from history can be corrected or deleted
+  const historySession = !workoutId && historyWorkout?.id ? (historyWorkout as unknown as EditableSession) : null;
 
-  const activeWorkout = historyWorkout ?? workout;
+  const handleSessionSaved = (updated: EditableSession) => {
+    window.sessionStorage.setItem("selectedHistorySession", JSON.stringify(updated));
+    setHistoryWorkout(updated as unknown as WorkoutDetailData);
+  };
+
+  // Activity file for other fitness platforms (Strava, Garmin Connect, ...)
+  const shareSessionMutation = useMutation({
+    mutationFn: async ({ sessionId, format }: { sessionId: string; format: "tcx" | "fit" }) => {
+      const res = await apiRequest("GET", `/api/workout/session/${sessionId}/export?format=${format}`);
+      return shareResponseAsFile(res, `hiit-lab-workout.${format}`, "HIIT Lab workout");
+    },
+    onSuccess: (outcome) => {
+      if (outcome === "saved") toast({ title: "Activity file downloaded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleDeleteSession = () => {
+    if (historySession && confirm("Delete this workout? Your records and scores will be recalculated without it.")) {
+      deleteSessionMutation.mutate(historySession.id);
+    }
+  };
+  // History entries are stored sessions, so they are saved by session ID
+  const favoriteSource = workoutId ? { workoutId } : { sessionId: historyWorkout?.id };
 
   // Get framework config if available
   const frameworkConfig = activeWorkout?.framework
@@ -71,7 +141,16 @@ export default function WorkoutDetail() {
     ? FRAMEWORK_ICONS[activeWorkout.framework as Framework]
     : null;
 
-  if (isLoading && !historyWorkout) {
+  // Ladder rep scheme of the first exercise, e.g. "2-4-6-8-10-8-6-4-2"
+  const ladderRepScheme =
+    activeWorkout?.framework === "Ladder" && activeWorkout.totalRounds
+      ? activeWorkout.rounds
+          .filter((_, index) => index % (activeWorkout.rounds.length / activeWorkout.totalRounds!) === 0)
+          .map((round) => round.reps)
+          .join("-")
+      : null;
+
+  if (workoutId && isLoading) {
     return (
       <MobileLayout hideNav>
         <div className="flex items-center justify-center h-full">
@@ -117,9 +196,66 @@ export default function WorkoutDetail() {
             <ArrowLeft />
           </Button>
           <h2 className="text-sm font-bold uppercase tracking-widest">Workout Preview</h2>
-          <Button variant="ghost" size="icon" onClick={() => refetch()} data-testid="button-regenerate">
-            <RotateCw size={20} />
-          </Button>
+          <div className="flex">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setSaveDialogOpen(true)}
+              disabled={!favoriteSource.workoutId && !favoriteSource.sessionId}
+              data-testid="button-save-to-library"
+            >
+              <Bookmark size={20} />
+            </Button>
+            {historySession ? (
+              <>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={shareSessionMutation.isPending}
+                      data-testid="button-share-session"
+                    >
+                      <Share2 size={20} />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {(["tcx", "fit"] as const).map((format) => (
+                      <DropdownMenuItem
+                        key={format}
+                        onClick={() => shareSessionMutation.mutate({ sessionId: historySession.id, format })}
+                        data-testid={`menu-share-session-${format}`}
+                      >
+                        Share as .{format.toUpperCase()}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button variant="ghost" size="icon" onClick={() => setEditDialogOpen(true)} data-testid="button-edit-session">
+                  <Pencil size={20} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleDeleteSession}
+                  disabled={deleteSessionMutation.isPending}
+                  data-testid="button-delete-session"
+                >
+                  <Trash2 size={20} />
+                </Button>
+              </>
+            ) : (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => regenerateMutation.mutate(activeWorkout.framework)}
+                disabled={!workoutId || regenerateMutation.isPending}
+                data-testid="button-regenerate"
+              >
+                <RotateCw size={20} />
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Content */}
@@ -169,12 +305,17 @@ export default function WorkoutDetail() {
             <p className="text-xl text-muted-foreground">
               {activeWorkout.durationMinutes} Min {frameworkConfig?.name ?? "HIIT"}
             </p>
+            {ladderRepScheme && (
+              <p className="text-sm text-muted-foreground capitalize">
+                {activeWorkout.ladderScheme ?? "Ladder"} • {ladderRepScheme}
+              </p>
+            )}
             <div className="inline-block px-4 py-1 rounded-full bg-primary/20 border border-primary/30 text-primary text-sm font-bold uppercase">
               {activeWorkout.difficultyTag}
             </div>
           </div>
 
-          {(activeWorkout as WorkoutDetailData)?.notes || (activeWorkout as WorkoutDetailData)?.perceivedExertion ? (
+          {historySession || (activeWorkout as WorkoutDetailData)?.notes || (activeWorkout as WorkoutDetailData)?.perceivedExertion ? (
             <Card className="p-4 bg-card/40 border-border/50 text-left space-y-2">
               <div className="flex items-center justify-between">
                 <p className="text-xs uppercase text-muted-foreground">Session feedback</p>
@@ -267,18 +408,36 @@ export default function WorkoutDetail() {
           </div>
         </div>
 
-        {/* CTA */}
-        <div className="p-6 border-t border-border/20">
-          <Button
-            className="w-full h-14 text-lg font-bold uppercase tracking-wider bg-primary text-black hover:bg-primary/90"
-            onClick={() => setLocation("/workout/runner")}
-            data-testid="button-start-workout"
-          >
-            <Play className="w-5 h-5 mr-2 fill-current" />
-            Start {activeWorkout.framework || "HIIT"}
-          </Button>
-        </div>
+        {/* CTA - only persisted workouts can be run so the saved session matches the preview */}
+        {workoutId && (
+          <div className="p-6 border-t border-border/20">
+            <Button
+              className="w-full h-14 text-lg font-bold uppercase tracking-wider bg-primary text-black hover:bg-primary/90"
+              onClick={() => setLocation(`/workout/runner/${workoutId}`)}
+              data-testid="button-start-workout"
+            >
+              <Play className="w-5 h-5 mr-2 fill-current" />
+              Start {activeWorkout.framework || "HIIT"}
+            </Button>
+          </div>
+        )}
       </div>
+
+      <SaveFavoriteDialog
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+        source={favoriteSource}
+        defaultName={`${activeWorkout.focusLabel} ${activeWorkout.framework}`}
+      />
+
+      {historySession && (
+        <EditSessionDialog
+          open={editDialogOpen}
+          onOpenChange={setEditDialogOpen}
+          session={historySession}
+          onSaved={handleSessionSaved}
+        />
+      )}
     </MobileLayout>
   );
 }
@@ -2,7 +2,8 @@ import { useState, useMemo } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
-import { Zap, Flame, Infinity, RotateCw as Repeat, ArrowRight, RotateCw } from "lucide-react";
+import { useHistorySummary } from "@/hooks/useHistorySummary";
+import { Zap, Flame, Infinity, RotateCw as Repeat, ArrowRight, RotateCw, Bookmark, Library, BarChart3, Timer } from "lucide-react";
 import MobileLayout from "@/components/layout/mobile-layout";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,8 +11,11 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { FRAMEWORK_CONFIGS, Framework, getAllFrameworks } from "@/../../shared/frameworks";
-import type { GeneratedWorkout, WorkoutSession, Profile as ProfileModel } from "@/../../shared/schema";
-import { getQueryFn } from "@/lib/queryClient";
+import type { GeneratedWorkout, Profile as ProfileModel } from "@/../../shared/schema";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { WorkoutBuilder } from "@/components/workout-builder";
+import { WorkoutImporter } from "@/components/workout-importer";
+import { SaveFavoriteDialog } from "@/components/save-favorite-dialog";
 
 // Icon mapping for frameworks
 const FRAMEWORK_ICONS: Record<Framework, typeof Zap> = {
@@ -19,8 +23,18 @@ const FRAMEWORK_ICONS: Record<Framework, typeof Zap> = {
   Tabata: Flame,
   AMRAP: Infinity,
   Circuit: Repeat,
+  Ladder: BarChart3,
+  ForTime: Timer,
 };
 
+const LAB_MODES = {
+  generate: { label: "AI Generate", description: "Select a training style and generate a personalized AI workout" },
+  build: { label: "Build Your Own", description: "Pick a framework and timing, then line up your own exercises" },
+  import: { label: "Import", description: "Paste or upload a workout file from your coach and run it here" },
+};
+
+type LabMode = keyof typeof LAB_MODES;
+
 function getWorkoutSummaryMeta(workout: GeneratedWorkout) {
   switch (workout.framework) {
     case "EMOM":
@@ -43,6 +57,16 @@ function getWorkoutSummaryMeta(workout: GeneratedWorkout) {
         formatLabel: "Circuit",
         countLabel: "intervals",
       };
+    case "Ladder":
+      return {
+        formatLabel: "Ladder",
+        countLabel: "sets across the ladder",
+      };
+    case "ForTime":
+      return {
+        formatLabel: "For Time",
+        countLabel: "movements to chip through",
+      };
     default:
       return {
         formatLabel: workout.framework,
@@ -60,6 +84,8 @@ export default function WorkoutLab() {
   const [selectedFramework, setSelectedFramework] = useState<Framework | null>(null);
   const [generatedWorkout, setGeneratedWorkout] = useState<GeneratedWorkout | null>(null);
   const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
+  const [labMode, setLabMode] = useState<LabMode>("generate");
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [sessionIntent, setSessionIntent] = useState<{
     energyLevel?: "low" | "moderate" | "high";
     focusToday?: string;
@@ -72,13 +98,9 @@ export default function WorkoutLab() {
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
-  const { data: history = [] } = useQuery<WorkoutSession[] | null>({
-    queryKey: ["/api/workout/history"],
-    enabled: !!user,
-    queryFn: getQueryFn({ on401: "returnNull" }),
-  });
+  const { data: historySummary } = useHistorySummary(!!user);
 
-  const historyData = history ?? [];
+  const historyData = historySummary?.sessions ?? [];
   const sortedHistory = [...historyData].sort(
     (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   );
@@ -181,18 +203,15 @@ export default function WorkoutLab() {
   // Generate workout for selected framework
   const generateMutation = useMutation({
     mutationFn: async (framework: Framework) => {
-      const res = await fetch(`/api/workout/generate?framework=${framework}`, {
-        credentials: "include",
-      });
-      if (!res.ok) throw new Error("Failed to generate workout");
+      const res = await apiRequest("POST", "/api/workout/generate", { framework });
       return res.json() as Promise<GeneratedWorkout>;
     },
     onSuccess: (data, framework) => {
       setGeneratedWorkout(data);
       setSelectedFramework(framework);
 
-      // Cache the workout for detail screen
-      queryClient.setQueryData(["/api/workout/generate"], data);
+      // Cache the persisted workout for the detail screen
+      queryClient.setQueryData(["/api/workout", data.id], data);
 
       const meta = getWorkoutSummaryMeta(data);
       toast({
@@ -220,8 +239,8 @@ export default function WorkoutLab() {
   };
 
   const handleStartWorkout = () => {
-    if (generatedWorkout) {
-      setLocation("/workout");
+    if (generatedWorkout?.id) {
+      setLocation(`/workout/${generatedWorkout.id}`);
     }
   };
 
@@ -293,173 +312,232 @@ export default function WorkoutLab() {
             <span className="text-primary neon-text">FRAMEWORK</span>
           </h1>
           <p className="text-muted-foreground text-sm mt-2">
-            Select a training style and generate a personalized AI workout
+            {LAB_MODES[labMode].description}
           </p>
         </div>
 
-        {/* Framework Grid */}
-        <div className="grid grid-cols-2 gap-4">
-          {getAllFrameworks().map((frameworkId) => {
-            const config = FRAMEWORK_CONFIGS[frameworkId];
-            const Icon = FRAMEWORK_ICONS[frameworkId];
-            const isSelected = selectedFramework === frameworkId;
-            const isGenerating = generateMutation.isPending && generateMutation.variables === frameworkId;
+        {/* Mode Toggle */}
+        <div className="grid grid-cols-3 gap-2 p-1 bg-secondary/30 rounded-lg">
+          {(Object.keys(LAB_MODES) as LabMode[]).map((mode) => (
+            <Button
+              key={mode}
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "font-bold uppercase tracking-wider text-xs",
+                labMode === mode ? "bg-primary text-black hover:bg-primary/90" : "text-muted-foreground"
+              )}
+              onClick={() => setLabMode(mode)}
+              data-testid={`lab-mode-${mode}`}
+            >
+              {LAB_MODES[mode].label}
+            </Button>
+          ))}
+        </div>
 
-            return (
-              <Card
-                key={frameworkId}
-                className={cn(
-                  "relative overflow-hidden border cursor-pointer transition-all duration-300 hover:border-primary/50 hover:shadow-lg hover:shadow-primary/20",
-                  isSelected && "border-primary shadow-lg shadow-primary/30"
-                )}
-                onClick={() => handleFrameworkSelect(frameworkId)}
-              >
-                <div className="absolute inset-0 bg-gradient-to-br from-primary/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
-
-                <div className="relative z-10 p-5 flex flex-col h-48 justify-between">
-                  <div className="flex justify-between items-start">
-                    <div className={cn(
-                      "w-12 h-12 rounded-lg flex items-center justify-center transition-colors",
-                      isSelected ? "bg-primary/20 border border-primary" : "bg-secondary/50"
-                    )}>
-                      <Icon className={cn(
-                        "w-6 h-6 transition-colors",
-                        isSelected ? "text-primary" : "text-muted-foreground"
-                      )} />
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => setLocation("/favorites")}
+          data-testid="button-open-favorites"
+        >
+          <Library className="w-4 h-4 mr-2" /> My Library
+        </Button>
+
+        {labMode === "build" && (
+          <WorkoutBuilder
+            difficulty={profile.skillScore <= 35 ? "beginner" : profile.skillScore <= 70 ? "intermediate" : "advanced"}
+          />
+        )}
+
+        {labMode === "import" && <WorkoutImporter />}
+
+        {labMode === "generate" && (
+          <>
+            {/* Framework Grid */}
+            <div className="grid grid-cols-2 gap-4">
+              {getAllFrameworks().map((frameworkId) => {
+                const config = FRAMEWORK_CONFIGS[frameworkId];
+                const Icon = FRAMEWORK_ICONS[frameworkId];
+                const isSelected = selectedFramework === frameworkId;
+                const isGenerating = generateMutation.isPending && generateMutation.variables === frameworkId;
+
+                return (
+                  <Card
+                    key={frameworkId}
+                    className={cn(
+                      "relative overflow-hidden border cursor-pointer transition-all duration-300 hover:border-primary/50 hover:shadow-lg hover:shadow-primary/20",
+                      isSelected && "border-primary shadow-lg shadow-primary/30"
+                    )}
+                    onClick={() => handleFrameworkSelect(frameworkId)}
+                  >
+                    <div className="absolute inset-0 bg-gradient-to-br from-primary/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+
+                    <div className="relative z-10 p-5 flex flex-col h-48 justify-between">
+                      <div className="flex justify-between items-start">
+                        <div className={cn(
+                          "w-12 h-12 rounded-lg flex items-center justify-center transition-colors",
+                          isSelected ? "bg-primary/20 border border-primary" : "bg-secondary/50"
+                        )}>
+                          <Icon className={cn(
+                            "w-6 h-6 transition-colors",
+                            isSelected ? "text-primary" : "text-muted-foreground"
+                          )} />
+                        </div>
+
+                        {isSelected && (
+                          <Badge variant="default" className="bg-primary text-black text-xs">
+                            Selected
+                          </Badge>
+                        )}
+                      </div>
+
+                      <div>
+                        <h3 className="text-xl font-bold text-white mb-1">
+                          {config.name}
+                        </h3>
+                        <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
+                          {config.shortDescription}
+                        </p>
+
+                        <div className="flex gap-2 text-xs">
+                          <Badge variant="outline" className="text-[10px] px-2 py-0">
+                            {config.defaultDuration} min
+                          </Badge>
+                          <Badge
+                            variant="outline"
+                            className={cn(
+                              "text-[10px] px-2 py-0",
+                              config.intensityLevel === "high" && "border-red-500/50 text-red-400",
+                              config.intensityLevel === "moderate" && "border-yellow-500/50 text-yellow-400",
+                              config.intensityLevel === "low" && "border-green-500/50 text-green-400"
+                            )}
+                          >
+                            {config.intensityLevel}
+                          </Badge>
+                        </div>
+                      </div>
                     </div>
 
-                    {isSelected && (
-                      <Badge variant="default" className="bg-primary text-black text-xs">
-                        Selected
-                      </Badge>
+                    {isGenerating && (
+                      <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-20">
+                        <div className="text-sm text-primary animate-pulse">Generating...</div>
+                      </div>
                     )}
-                  </div>
+                  </Card>
+                );
+              })}
+            </div>
 
-                  <div>
-                    <h3 className="text-xl font-bold text-white mb-1">
-                      {config.name}
-                    </h3>
-                    <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
-                      {config.shortDescription}
-                    </p>
+            {/* Generated Workout Preview */}
+            {generatedWorkout && selectedFramework && (
+              <Card className="relative overflow-hidden border-0 mt-6">
+                <div className="absolute inset-0 bg-gradient-to-br from-primary/20 to-transparent z-0" />
 
-                    <div className="flex gap-2 text-xs">
-                      <Badge variant="outline" className="text-[10px] px-2 py-0">
-                        {config.defaultDuration} min
-                      </Badge>
-                      <Badge
-                        variant="outline"
-                        className={cn(
-                          "text-[10px] px-2 py-0",
-                          config.intensityLevel === "high" && "border-red-500/50 text-red-400",
-                          config.intensityLevel === "moderate" && "border-yellow-500/50 text-yellow-400",
-                          config.intensityLevel === "low" && "border-green-500/50 text-green-400"
-                        )}
+                <div className="relative z-10 p-6 flex flex-col justify-between">
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="text-2xl">{FRAMEWORK_CONFIGS[selectedFramework].icon}</span>
+                        <h2 className="text-2xl font-bold text-white uppercase">
+                          {FRAMEWORK_CONFIGS[selectedFramework].fullName}
+                        </h2>
+                      </div>
+                      <p className="text-sm text-muted-foreground mb-3">
+                        {FRAMEWORK_CONFIGS[selectedFramework].description}
+                      </p>
+                    </div>
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSaveDialogOpen(true)}
+                        disabled={!generatedWorkout.id}
+                        className="text-muted-foreground hover:text-primary"
+                        data-testid="button-save-to-library"
+                      >
+                        <Bookmark size={16} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleRegenerate}
+                        disabled={generateMutation.isPending}
+                        className="text-muted-foreground hover:text-primary"
                       >
-                        {config.intensityLevel}
-                      </Badge>
+                        <RotateCw size={16} className={cn(generateMutation.isPending && "animate-spin")} />
+                      </Button>
                     </div>
                   </div>
-                </div>
 
-                {isGenerating && (
-                  <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-20">
-                    <div className="text-sm text-primary animate-pulse">Generating...</div>
-                  </div>
-                )}
-              </Card>
-            );
-          })}
-        </div>
+                  <div className="bg-black/30 backdrop-blur-sm rounded-lg p-4 mb-4">
+                    <h3 className="text-xl font-bold text-white mb-2">
+                      {generatedWorkout.focusLabel} HIIT
+                    </h3>
+                    <p className="text-gray-300 text-sm mb-3">
+                      {generatedWorkout.durationMinutes} Min • {generatedWorkout.rounds.length} Exercises • {generatedWorkout.difficultyTag}
+                    </p>
 
-        {/* Generated Workout Preview */}
-        {generatedWorkout && selectedFramework && (
-          <Card className="relative overflow-hidden border-0 mt-6">
-            <div className="absolute inset-0 bg-gradient-to-br from-primary/20 to-transparent z-0" />
-
-            <div className="relative z-10 p-6 flex flex-col justify-between">
-              <div className="flex justify-between items-start mb-4">
-                <div>
-                  <div className="flex items-center gap-2 mb-2">
-                    <span className="text-2xl">{FRAMEWORK_CONFIGS[selectedFramework].icon}</span>
-                    <h2 className="text-2xl font-bold text-white uppercase">
-                      {FRAMEWORK_CONFIGS[selectedFramework].fullName}
-                    </h2>
+                    {/* Exercise Preview (first 3) */}
+                    <div className="space-y-2">
+                      {generatedWorkout.rounds.slice(0, 3).map((round, idx) => (
+                        <div key={idx} className="flex items-center justify-between text-sm">
+                          <span className="text-white">{round.exerciseName}</span>
+                          <span className="text-muted-foreground">{round.reps} reps</span>
+                        </div>
+                      ))}
+                      {generatedWorkout.rounds.length > 3 && (
+                        <p className="text-xs text-muted-foreground text-center pt-2">
+                          + {generatedWorkout.rounds.length - 3} more exercises
+                        </p>
+                      )}
+                    </div>
                   </div>
-                  <p className="text-sm text-muted-foreground mb-3">
-                    {FRAMEWORK_CONFIGS[selectedFramework].description}
-                  </p>
-                </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={handleRegenerate}
-                  disabled={generateMutation.isPending}
-                  className="text-muted-foreground hover:text-primary"
-                >
-                  <RotateCw size={16} className={cn(generateMutation.isPending && "animate-spin")} />
-                </Button>
-              </div>
 
-              <div className="bg-black/30 backdrop-blur-sm rounded-lg p-4 mb-4">
-                <h3 className="text-xl font-bold text-white mb-2">
-                  {generatedWorkout.focusLabel} HIIT
-                </h3>
-                <p className="text-gray-300 text-sm mb-3">
-                  {generatedWorkout.durationMinutes} Min • {generatedWorkout.rounds.length} Exercises • {generatedWorkout.difficultyTag}
-                </p>
-
-                {/* Exercise Preview (first 3) */}
-                <div className="space-y-2">
-                  {generatedWorkout.rounds.slice(0, 3).map((round, idx) => (
-                    <div key={idx} className="flex items-center justify-between text-sm">
-                      <span className="text-white">{round.exerciseName}</span>
-                      <span className="text-muted-foreground">{round.reps} reps</span>
-                    </div>
-                  ))}
-                  {generatedWorkout.rounds.length > 3 && (
-                    <p className="text-xs text-muted-foreground text-center pt-2">
-                      + {generatedWorkout.rounds.length - 3} more exercises
-                    </p>
-                  )}
+                  <Button
+                    className="w-full bg-primary text-black hover:bg-primary/90 font-bold uppercase tracking-wider"
+                    onClick={handleStartWorkout}
+                  >
+                    View Full Workout <ArrowRight className="w-4 h-4 ml-2" />
+                  </Button>
                 </div>
-              </div>
 
-              <Button
-                className="w-full bg-primary text-black hover:bg-primary/90 font-bold uppercase tracking-wider"
-                onClick={handleStartWorkout}
-              >
-                View Full Workout <ArrowRight className="w-4 h-4 ml-2" />
-              </Button>
-            </div>
-          </Card>
-        )}
+                <SaveFavoriteDialog
+                  open={saveDialogOpen}
+                  onOpenChange={setSaveDialogOpen}
+                  source={{ workoutId: generatedWorkout.id }}
+                  defaultName={`${generatedWorkout.focusLabel} ${generatedWorkout.framework}`}
+                />
+              </Card>
+            )}
 
-        {/* Info Card - Show when no workout generated */}
-        {!generatedWorkout && (
-          <Card className="p-5 bg-card/30 border-border/50">
-            <h3 className="text-sm font-bold text-white mb-2 uppercase tracking-wider">
-              How It Works
-            </h3>
-            <ol className="text-sm text-muted-foreground space-y-2">
-              <li className="flex gap-2">
-                <span className="text-primary font-bold">1.</span>
-                <span>Tap a framework above to generate a personalized workout</span>
-              </li>
-              <li className="flex gap-2">
-                <span className="text-primary font-bold">2.</span>
-                <span>Review the AI-generated plan based on your goals and equipment</span>
-              </li>
-              <li className="flex gap-2">
-                <span className="text-primary font-bold">3.</span>
-                <span>Hit regenerate if you want a different variation</span>
-              </li>
-              <li className="flex gap-2">
-                <span className="text-primary font-bold">4.</span>
-                <span>Start your workout when ready!</span>
-              </li>
-            </ol>
-          </Card>
+            {/* Info Card - Show when no workout generated */}
+            {!generatedWorkout && (
+              <Card className="p-5 bg-card/30 border-border/50">
+                <h3 className="text-sm font-bold text-white mb-2 uppercase tracking-wider">
+                  How It Works
+                </h3>
+                <ol className="text-sm text-muted-foreground space-y-2">
+                  <li className="flex gap-2">
+                    <span className="text-primary font-bold">1.</span>
+                    <span>Tap a framework above to generate a personalized workout</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-primary font-bold">2.</span>
+                    <span>Review the AI-generated plan based on your goals and equipment</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-primary font-bold">3.</span>
+                    <span>Hit regenerate if you want a different variation</span>
+                  </li>
+                  <li className="flex gap-2">
+                    <span className="text-primary font-bold">4.</span>
+                    <span>Start your workout when ready!</span>
+                  </li>
+                </ol>
+              </Card>
+            )}
+          </>
         )}
 
         {/* Framework Descriptions */}
@@ -1,8 +1,8 @@
-import { useState, useEffect, useRef } from "react";
-import { useLocation } from "wouter";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useLocation, useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
-import { Play, Pause, SkipForward, X, RotateCcw, Settings, BookOpen, ExternalLink } from "lucide-react";
+import { Play, Pause, SkipForward, X, RotateCcw, Settings, BookOpen, ExternalLink, Bookmark, Plus, Minus } from "lucide-react";
 import MobileLayout from "@/components/layout/mobile-layout";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
@@ -10,7 +10,29 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { cn } from "@/lib/utils";
 import type { GeneratedWorkout } from "@/../../shared/schema";
-import { getVideoUrlForExercise, hasDirectVideo } from "@/utils/exerciseVideos";
+import { getExerciseByName, getExerciseVideoUrl, hasExerciseVideo } from "@shared/exercises";
+import { formatClockTime } from "@shared/frameworks";
+import {
+  IDLE_CLOCK,
+  compileWorkoutTimeline,
+  describeRoundTarget,
+  findNextWorkPhaseIndex,
+  getClockElapsedMs,
+  getTimelinePosition,
+  isClockRunning,
+  pauseClock,
+  seekClock,
+  startClock,
+  type TimelineClock,
+  type TimelineOptions,
+} from "@shared/intervalEngine";
+import { SaveFavoriteDialog } from "@/components/save-favorite-dialog";
+import {
+  clearRunnerCheckpoint,
+  loadRunnerCheckpoint,
+  saveRunnerCheckpoint,
+  type RoundActual,
+} from "@/lib/runnerCheckpoint";
 
 type RunnerSettings = {
   soundCues: boolean;
@@ -20,30 +42,47 @@ type RunnerSettings = {
   intervalVibration: boolean;
 };
 
-type RoundActual = {
-  actualReps?: number;
-  actualSeconds?: number;
-  skipped?: boolean;
+// Framework scores handed to the completion page alongside the per-round actuals
+type CompletionResult = {
+  finishSeconds?: number | null;
+  amrapRounds?: number;
+  amrapReps?: number;
 };
 
+// Every round starts out logged at its prescribed target
+function getTargetActuals(workout: GeneratedWorkout): Record<number, RoundActual> {
+  const actuals: Record<number, RoundActual> = {};
+  workout.rounds.forEach((round) => {
+    actuals[round.minuteIndex] = {
+      actualReps: round.isHold ? undefined : round.reps,
+      actualSeconds: round.isHold ? round.reps : undefined,
+      skipped: false,
+    };
+  });
+  return actuals;
+}
+
+const PRESTART_SECONDS = 3;
+const CLOCK_TICK_MS = 250; // Re-render rate only; time itself comes from the wall clock
+
 export default function WorkoutRunner() {
   const [, setLocation] = useLocation();
-  const [isActive, setIsActive] = useState(false);
-  const [currentRoundIndex, setCurrentRoundIndex] = useState(0);
-  const [secondsLeft, setSecondsLeft] = useState(0);
-  const [isResting, setIsResting] = useState(false); // For Tabata work/rest phases
+  const { id: workoutId } = useParams<{ id: string }>();
+  const [clock, setClock] = useState<TimelineClock>(IDLE_CLOCK);
+  const [now, setNow] = useState(() => Date.now());
+  const [timelineOptions, setTimelineOptions] = useState<TimelineOptions | null>(null); // Locked in when the run starts
+  const [manualRoundIndex, setManualRoundIndex] = useState(0); // AMRAP / Ladder / For Time exercise pointer
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [wasActiveBeforeSettings, setWasActiveBeforeSettings] = useState(false);
-  const [isPrestartCountdown, setIsPrestartCountdown] = useState(false);
-  const [prestartSecondsLeft, setPrestartSecondsLeft] = useState(0);
   const [isLessonsOpen, setIsLessonsOpen] = useState(false);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
   const [roundActuals, setRoundActuals] = useState<Record<number, RoundActual>>({});
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const prestartTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const [amrapRounds, setAmrapRounds] = useState(0); // Full AMRAP rounds completed
   const audioContextRef = useRef<AudioContext | null>(null);
   const previousActiveRef = useRef(false);
   const lastBeepSecondRef = useRef<number | null>(null);
-  const hasAnnouncedFirstRoundRef = useRef(false);
+  const lastCuedPhaseRef = useRef<number | null>(null);
+  const isLeavingRef = useRef(false); // Stops checkpoint writes once the run is finished or abandoned
   const SETTINGS_KEY = "workout-runner-settings";
   const [settings, setSettings] = useState<RunnerSettings>({
     soundCues: true,
@@ -54,44 +93,50 @@ export default function WorkoutRunner() {
   });
 
   const { data: workout, isLoading, isError } = useQuery<GeneratedWorkout | null>({
-    queryKey: ["/api/workout/generate"],
+    queryKey: ["/api/workout", workoutId],
   });
 
+  // Until the run starts, preview the timeline with the current settings
+  const activeTimelineOptions: TimelineOptions = timelineOptions ?? {
+    prestartSeconds: settings.preStartCountdown ? PRESTART_SECONDS : 0,
+    restAutoSkip: settings.restAutoSkip,
+  };
+  const timeline = useMemo(
+    () => (workout ? compileWorkoutTimeline(workout, activeTimelineOptions) : null),
+    [workout, activeTimelineOptions.prestartSeconds, activeTimelineOptions.restAutoSkip]
+  );
+
+  // An idle runner shows the first interval rather than the prestart countdown
+  const elapsedMs = clock.startedAt === null ? timeline?.workStartMs ?? 0 : getClockElapsedMs(clock, now);
+  const position = timeline ? getTimelinePosition(timeline, elapsedMs) : null;
+  const isActive = isClockRunning(clock);
+  const phase = position?.phase ?? null;
+  const isPrestartCountdown = phase?.kind === "prestart";
+  const isResting = phase?.kind === "rest" || phase?.kind === "transition";
+  const secondsLeft = position?.secondsLeft ?? 0;
+  const currentRoundIndex = timeline?.manualAdvance ? manualRoundIndex : phase?.roundIndex ?? 0;
+
   useEffect(() => {
     if (!workout) return;
-    setRoundActuals((previous) => {
-      if (Object.keys(previous).length) return previous;
-      const initial: Record<number, RoundActual> = {};
-      workout.rounds.forEach((round) => {
-        initial[round.minuteIndex] = {
-          actualReps: round.isHold ? undefined : round.reps,
-          actualSeconds: round.isHold ? round.reps : undefined,
-          skipped: false,
-        };
-      });
-      return initial;
-    });
+    setRoundActuals((previous) => (Object.keys(previous).length ? previous : getTargetActuals(workout)));
   }, [workout]);
 
-  const updateRoundActual = (minuteIndex: number, data: RoundActual) => {
-    setRoundActuals((previous) => ({ ...previous, [minuteIndex]: { ...previous[minuteIndex], ...data } }));
-  };
-
-  const persistCompletionSnapshot = () => {
+  const persistCompletionSnapshot = (actuals: Record<number, RoundActual>, result: CompletionResult) => {
     if (!workout) return;
     try {
-      const payload = { workout, roundActuals };
+      const payload = { workoutId, roundActuals: actuals, completedAt: new Date().toISOString(), ...result };
       window.sessionStorage.setItem("latestWorkoutCompletion", JSON.stringify(payload));
     } catch (error) {
       console.warn("Unable to persist workout completion snapshot", error);
     }
   };
 
-  const goToWorkoutComplete = () => {
-    persistCompletionSnapshot();
-    setLocation("/workout/complete", { state: workout });
+  const goToWorkoutComplete = (actuals: Record<number, RoundActual> = roundActuals, result: CompletionResult = {}) => {
+    persistCompletionSnapshot(actuals, result);
+    isLeavingRef.current = true;
+    clearRunnerCheckpoint();
+    setLocation(`/workout/complete/${workoutId}`);
   };
-
   const ensureAudioContext = () => {
     if (typeof window === "undefined") return null;
 
@@ -172,6 +217,21 @@ export default function WorkoutRunner() {
     window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
   }, [settings]);
 
+  // Checkpoint on every state change; the clock is wall-clock anchored, so a reload catches up on its own.
+  // Declared before the initializer so a restore is never overwritten by the pre-restore state.
+  useEffect(() => {
+    if (!workout?.id || clock.startedAt === null || isLeavingRef.current) return;
+    saveRunnerCheckpoint({
+      workout: { ...workout, id: workout.id },
+      clock,
+      timelineOptions: activeTimelineOptions,
+      manualRoundIndex,
+      amrapRounds,
+      roundActuals,
+      savedAt: Date.now(),
+    });
+  }, [workout, clock, timelineOptions, manualRoundIndex, amrapRounds, roundActuals]);
+
   useEffect(() => {
     if (isLoading) return;
 
@@ -181,219 +241,147 @@ export default function WorkoutRunner() {
     }
 
     if (workout) {
-      // Initialize timer based on framework
-      if (workout.framework === "EMOM") {
-        setSecondsLeft(60);
-      } else if (workout.framework === "Tabata") {
-        setSecondsLeft(workout.workSeconds || 20);
-      } else if (workout.framework === "AMRAP") {
-        setSecondsLeft(workout.durationMinutes * 60);
-      } else if (workout.framework === "Circuit") {
-        setSecondsLeft(45); // ~45 seconds per exercise
+      // Pick up an interrupted run of this workout
+      const checkpoint = loadRunnerCheckpoint();
+      if (checkpoint && checkpoint.workout.id === workout.id) {
+        setClock(checkpoint.clock);
+        setTimelineOptions(checkpoint.timelineOptions);
+        setManualRoundIndex(checkpoint.manualRoundIndex);
+        setAmrapRounds(checkpoint.amrapRounds);
+        setRoundActuals(checkpoint.roundActuals);
+        setNow(Date.now());
       }
     }
   }, [workout, isLoading, isError, setLocation]);
 
+  // Re-render while running; throttled or backgrounded tabs catch up from the wall clock
   useEffect(() => {
+    if (!isActive) return;
+    const refresh = () => setNow(Date.now());
+    const ticker = setInterval(refresh, CLOCK_TICK_MS);
+    document.addEventListener("visibilitychange", refresh);
+    return () => {
+      clearInterval(ticker);
+      document.removeEventListener("visibilitychange", refresh);
+    };
+  }, [isActive]);
+
+  const vibrate = (duration = 150) => {
+    if (!settings.intervalVibration || typeof navigator === "undefined") return;
+    if (navigator.vibrate) {
+      navigator.vibrate(duration);
+    }
+  };
+
+  const triggerIntervalCues = (message?: string) => {
+    if (settings.soundCues) {
+      playBeep();
+    }
+    if (message) {
+      speakCue(message);
+    }
+    vibrate();
+  };
+
+  // AMRAP score: full rounds plus the reps of the movements already done this round
+  const getAmrapScore = (): CompletionResult => ({
+    amrapRounds,
+    amrapReps: (workout?.rounds ?? []).slice(0, manualRoundIndex).reduce((sum, round) => sum + round.reps, 0),
+  });
+
+  const completeAmrapRound = () => {
     if (!workout) return;
+    const firstRound = workout.rounds[0];
+    setAmrapRounds((rounds) => rounds + 1);
+    setManualRoundIndex(0);
+    triggerIntervalCues(`Round ${amrapRounds + 2}, ${firstRound.exerciseName}`);
+  };
 
-    if (isPrestartCountdown) {
-      if (prestartSecondsLeft > 0) {
-        prestartTimerRef.current = setTimeout(() => setPrestartSecondsLeft(s => s - 1), 1000);
-      } else {
-        setIsPrestartCountdown(false);
-        setIsActive(true);
-      }
+  // The timeline ran out: interval workouts are done, time-capped ones record where the clock stopped them
+  const handleTimeUp = () => {
+    if (!workout) return;
+
+    if (workout.framework === "AMRAP") {
+      goToWorkoutComplete(roundActuals, getAmrapScore());
+    } else if (workout.framework === "Ladder") {
+      // Ladder: Time cap hit - rungs not reached (including the current one) count as skipped
+      const cappedActuals = { ...roundActuals };
+      workout.rounds.slice(manualRoundIndex).forEach((round) => {
+        cappedActuals[round.minuteIndex] = { ...cappedActuals[round.minuteIndex], skipped: true };
+      });
+      setRoundActuals(cappedActuals);
+      goToWorkoutComplete(cappedActuals);
+    } else if (workout.framework === "ForTime") {
+      // For Time: Time cap hit - log the current movement as unfinished (adjusted on the completion page)
+      const cappedActuals = { ...roundActuals };
+      workout.rounds.slice(manualRoundIndex).forEach((round, offset) => {
+        cappedActuals[round.minuteIndex] =
+          offset === 0
+            ? { ...cappedActuals[round.minuteIndex], ...(round.isHold ? { actualSeconds: 0 } : { actualReps: 0 }), skipped: false }
+            : { ...cappedActuals[round.minuteIndex], skipped: true };
+      });
+      setRoundActuals(cappedActuals);
+      goToWorkoutComplete(cappedActuals);
+    } else {
+      goToWorkoutComplete();
     }
-    return () => {
-      if (prestartTimerRef.current) clearTimeout(prestartTimerRef.current);
-    };
-  }, [isPrestartCountdown, prestartSecondsLeft, workout]);
+  };
 
   useEffect(() => {
-    if (!workout) return;
+    if (isActive && position?.isFinished) {
+      handleTimeUp();
+    }
+  }, [isActive, position?.isFinished]);
 
-    if (isActive && !isPrestartCountdown) {
-      if (secondsLeft > 0) {
-        timerRef.current = setTimeout(() => setSecondsLeft(s => s - 1), 1000);
-      } else if (secondsLeft === 0) {
-        handleIntervalComplete();
-      }
+  // Phase changes drive the interval cues
+  useEffect(() => {
+    if (!isActive || !position || position.isFinished) return;
+    if (lastCuedPhaseRef.current === position.phaseIndex) return;
+    lastCuedPhaseRef.current = position.phaseIndex;
+    lastBeepSecondRef.current = null;
+    if (position.phase.cue) {
+      triggerIntervalCues(position.phase.cue);
     }
-    return () => {
-      if (timerRef.current) clearTimeout(timerRef.current);
-    };
-  }, [isActive, secondsLeft, currentRoundIndex, workout, isResting, isPrestartCountdown]);
+  }, [isActive, position?.phaseIndex, position?.isFinished]);
 
   useEffect(() => {
-    if (!settings.soundCues || !isActive || isPrestartCountdown) return;
+    if (!settings.soundCues || !isActive) return;
     if (secondsLeft > 0 && secondsLeft <= 3) {
       if (lastBeepSecondRef.current !== secondsLeft) {
         playBeep();
         lastBeepSecondRef.current = secondsLeft;
       }
     }
-  }, [secondsLeft, isActive, settings.soundCues, isPrestartCountdown]);
-
-  useEffect(() => {
-    if (isPrestartCountdown && prestartSecondsLeft > 0 && settings.soundCues) {
-      playBeep();
-    }
-  }, [isPrestartCountdown, prestartSecondsLeft, settings.soundCues]);
+  }, [secondsLeft, isActive, settings.soundCues]);
 
   useEffect(() => {
     lastBeepSecondRef.current = null;
-  }, [currentRoundIndex, isResting, settings.restAutoSkip]);
+  }, [currentRoundIndex]);
 
-  // Announce first exercise when timer starts (after prestart countdown ends)
   useEffect(() => {
-    if (!workout || !isActive || isPrestartCountdown || currentRoundIndex !== 0) return;
-    if (!hasAnnouncedFirstRoundRef.current) {
-      // Small delay to ensure prestart countdown has fully finished
-      const announceTimer = setTimeout(() => {
-        const currentRound = workout.rounds[0];
-        let repsText = "";
-        if ((currentRound as any).isHold) {
-          repsText = `${currentRound.reps} seconds`;
-        } else if ((currentRound as any).alternatesSides) {
-          repsText = `${currentRound.reps} reps, ${currentRound.reps / 2} each leg`;
-        } else {
-          repsText = `${currentRound.reps} reps`;
-        }
-        triggerIntervalCues(`${currentRound.exerciseName}, ${repsText}`);
-        hasAnnouncedFirstRoundRef.current = true;
-      }, 100);
-      return () => clearTimeout(announceTimer);
-    }
-  }, [isActive, isPrestartCountdown, workout, currentRoundIndex]);
+    if (!workout || isPrestartCountdown) return;
 
-  const vibrate = (duration = 150) => {
-    if (!settings.intervalVibration || typeof navigator === "undefined") return;
-    if (navigator.vibrate) {
-      navigator.vibrate(duration);
+    if (isActive && !previousActiveRef.current) {
+      playChime();
+      speakCue(`Starting ${workout.rounds[currentRoundIndex]?.exerciseName ?? "work"}`);
+    } else if (!isActive && previousActiveRef.current) {
+      playBeep(420, 150, 0.18);
+      speakCue("Paused");
     }
-  };
 
-  const triggerIntervalCues = (message?: string) => {
-    if (settings.soundCues) {
-      playBeep();
-    }
-    if (message) {
-      speakCue(message);
-    }
-    vibrate();
-  };
+    previousActiveRef.current = isActive;
+  }, [isActive, workout, currentRoundIndex, isPrestartCountdown]);
 
-  const handleIntervalComplete = () => {
-    if (!workout) return;
+  useEffect(() => {
+    if (!timeline?.manualAdvance || !isActive || isPrestartCountdown) return;
 
-    if (workout.framework === "EMOM") {
-      // EMOM: Move to next minute
-      if (currentRoundIndex < workout.rounds.length - 1) {
-        const nextRound = workout.rounds[currentRoundIndex + 1];
-        setCurrentRoundIndex(i => i + 1);
-        setSecondsLeft(60);
-        let repsText = "";
-        if ((nextRound as any).isHold) {
-          repsText = `${nextRound.reps} seconds`;
-        } else if ((nextRound as any).alternatesSides) {
-          repsText = `${nextRound.reps} reps, ${nextRound.reps / 2} each leg`;
-        } else {
-          repsText = `${nextRound.reps} reps`;
-        }
-        triggerIntervalCues(`${nextRound.exerciseName}, ${repsText}`);
-      } else {
-        goToWorkoutComplete();
-      }
-    } else if (workout.framework === "Tabata") {
-      // Tabata: Alternate between work and rest
-      if (isResting) {
-        // Rest complete, move to next interval
-        if (currentRoundIndex < workout.rounds.length - 1) {
-          const nextRound = workout.rounds[currentRoundIndex + 1];
-          setCurrentRoundIndex(i => i + 1);
-          setSecondsLeft(workout.workSeconds || 20);
-          setIsResting(false);
-          let repsText = "";
-          if ((nextRound as any).isHold) {
-            repsText = `${nextRound.reps} seconds`;
-          } else if ((nextRound as any).alternatesSides) {
-            repsText = `${nextRound.reps} reps, ${nextRound.reps / 2} each leg`;
-          } else {
-            repsText = `${nextRound.reps} reps`;
-          }
-          triggerIntervalCues(`${nextRound.exerciseName}, ${repsText}`);
-        } else {
-          goToWorkoutComplete();
-        }
-      } else {
-        // Work complete, start rest
-        if (settings.restAutoSkip) {
-          if (currentRoundIndex < workout.rounds.length - 1) {
-            const nextRound = workout.rounds[currentRoundIndex + 1];
-            setCurrentRoundIndex(i => i + 1);
-            setSecondsLeft(workout.workSeconds || 20);
-            setIsResting(false);
-            let repsText = "";
-            if ((nextRound as any).isHold) {
-              repsText = `${nextRound.reps} seconds`;
-            } else if ((nextRound as any).alternatesSides) {
-              repsText = `${nextRound.reps} reps, ${nextRound.reps / 2} each leg`;
-            } else {
-              repsText = `${nextRound.reps} reps`;
-            }
-            triggerIntervalCues(`Skipping rest, ${nextRound.exerciseName}, ${repsText}`);
-          } else {
-            goToWorkoutComplete();
-          }
-        } else {
-          setSecondsLeft(workout.restSeconds || 10);
-          setIsResting(true);
-          triggerIntervalCues("Rest");
-        }
-      }
-    } else if (workout.framework === "AMRAP") {
-      // AMRAP: Time expired, workout complete
-      goToWorkoutComplete();
-    } else if (workout.framework === "Circuit") {
-      // Circuit: Move to next exercise or rest between rounds
-      if (currentRoundIndex < workout.rounds.length - 1) {
-        const nextRound = workout.rounds[currentRoundIndex + 1];
-        setCurrentRoundIndex(i => i + 1);
-
-        // Check if we completed a full circuit (for rest periods)
-        const exercisesPerRound = workout.rounds.length / (workout.totalRounds || 1);
-        if ((currentRoundIndex + 1) % exercisesPerRound === 0 && currentRoundIndex < workout.rounds.length - 1) {
-          // Rest between rounds
-          if (settings.restAutoSkip) {
-            setSecondsLeft(45);
-            setIsResting(false);
-            triggerIntervalCues("Next round");
-          } else {
-            setSecondsLeft(workout.restSeconds || 60);
-            setIsResting(true);
-            triggerIntervalCues("Round rest");
-          }
-        } else {
-          setSecondsLeft(45);
-          setIsResting(false);
-          let repsText = "";
-          if ((nextRound as any).isHold) {
-            repsText = `${nextRound.reps} seconds`;
-          } else if ((nextRound as any).alternatesSides) {
-            repsText = `${nextRound.reps} reps, ${nextRound.reps / 2} each leg`;
-          } else {
-            repsText = `${nextRound.reps} reps`;
-          }
-          triggerIntervalCues(`${nextRound.exerciseName}, ${repsText}`);
-        }
-      } else {
-        goToWorkoutComplete();
-      }
+    if (secondsLeft === 60) {
+      playChime();
+      speakCue("Final minute. Empty the tank.");
     }
-  };
+  }, [secondsLeft, isActive, timeline?.manualAdvance, isPrestartCountdown]);
 
-  if (isLoading || workout === undefined) {
+  if (isLoading || workout === undefined || !timeline || !position || !phase) {
     return (
       <MobileLayout hideNav>
         <div className="flex items-center justify-center h-full">
@@ -406,77 +394,91 @@ export default function WorkoutRunner() {
   if (isError || workout === null) return null;
 
   const currentExercise = workout.rounds[currentRoundIndex];
-  const nextExercise = workout.rounds[currentRoundIndex + 1] || null;
-  const currentActual = roundActuals[currentExercise.minuteIndex] || {};
+  // AMRAP loops back to the top of the circuit
+  const nextExercise =
+    workout.rounds[currentRoundIndex + 1] || (workout.framework === "AMRAP" ? workout.rounds[0] : null) || null;
+  const currentExerciseCues = getExerciseByName(currentExercise.exerciseName)?.cues ?? [];
 
   const toggleTimer = () => {
-    if (isActive || isPrestartCountdown) {
-      setIsActive(false);
-      setIsPrestartCountdown(false);
-      setPrestartSecondsLeft(0);
+    const timestamp = Date.now();
+    setNow(timestamp);
+    if (isActive) {
+      setClock(pauseClock(clock, timestamp));
       return;
     }
+    if (clock.startedAt === null) {
+      // Lock the timeline shape for the whole run
+      setTimelineOptions(activeTimelineOptions);
+      lastCuedPhaseRef.current = null;
+    }
+    setClock(startClock(clock, timestamp));
+  };
 
-    if (settings.preStartCountdown && secondsLeft > 0) {
-      hasAnnouncedFirstRoundRef.current = false; // Reset for this new start
-      setPrestartSecondsLeft(3);
-      setIsPrestartCountdown(true);
-    } else {
-      hasAnnouncedFirstRoundRef.current = false; // Reset for this new start
-      setIsActive(true);
+  const handleSkip = () => {
+    const timestamp = Date.now();
+
+    if (timeline.manualAdvance) {
+      if (workout.framework === "AMRAP" && manualRoundIndex === workout.rounds.length - 1) {
+        // Last movement of the circuit closes the round
+        completeAmrapRound();
+      } else if (manualRoundIndex < workout.rounds.length - 1) {
+        const nextRound = workout.rounds[manualRoundIndex + 1];
+        setManualRoundIndex((index) => index + 1);
+        triggerIntervalCues(`${nextRound.exerciseName}, ${describeRoundTarget(nextRound)}`);
+      } else if (workout.framework === "ForTime") {
+        // Last movement done: the elapsed clock is the finish time
+        const finishSeconds = Math.floor((getClockElapsedMs(clock, timestamp) - timeline.workStartMs) / 1000);
+        goToWorkoutComplete(roundActuals, { finishSeconds: finishSeconds > 0 ? finishSeconds : null });
+      } else {
+        goToWorkoutComplete();
+      }
+      return;
+    }
+
+    // Interval frameworks jump the clock to the next round's work phase
+    if (clock.startedAt === null) setTimelineOptions(activeTimelineOptions);
+    const nextWorkIndex = findNextWorkPhaseIndex(timeline, position.phaseIndex);
+    if (nextWorkIndex === -1) {
+      goToWorkoutComplete();
+      return;
+    }
+    setClock(seekClock(clock, timeline.phases[nextWorkIndex].startMs, timestamp));
+    setNow(timestamp);
+    if (!isActive) {
+      // Cues only fire for a running clock; keep the skip audible while paused
+      const nextRound = workout.rounds[timeline.phases[nextWorkIndex].roundIndex];
+      triggerIntervalCues(`${nextRound.exerciseName}, ${describeRoundTarget(nextRound)}`);
     }
   };
 
+  const handleRestart = () => {
+    setClock(IDLE_CLOCK);
+    setTimelineOptions(null);
+    setManualRoundIndex(0);
+    setAmrapRounds(0);
+    setRoundActuals(workout ? getTargetActuals(workout) : {});
+    lastCuedPhaseRef.current = null;
+  };
+
   const handleSettingsOpenChange = (open: boolean) => {
+    const timestamp = Date.now();
     if (open) {
       setWasActiveBeforeSettings(isActive);
-      setIsActive(false);
-    }
-    if (!open) {
-      setPrestartSecondsLeft(0);
-      setIsPrestartCountdown(false);
+      setClock(pauseClock(clock, timestamp));
     }
     if (!open && wasActiveBeforeSettings) {
-      setIsActive(true);
+      setClock(startClock(clock, timestamp));
+      setNow(timestamp);
     }
     setIsSettingsOpen(open);
   };
 
-  const formatTime = (s: number) => {
-    if (workout.framework === "AMRAP") {
-      // Show minutes:seconds for AMRAP countdown
-      const mins = Math.floor(s / 60);
-      const secs = s % 60;
-      return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
-    }
-    return s < 10 ? `0${s}` : s;
+  const formatTimer = () => {
+    if (phase.clock === "countdown") return formatClockTime(secondsLeft);
+    if (phase.clock === "countup") return formatClockTime(position.phaseElapsedSeconds); // Counts up toward the cap
+    return `:${secondsLeft < 10 ? `0${secondsLeft}` : secondsLeft}`;
   };
 
-  useEffect(() => {
-    if (!workout || isPrestartCountdown) return;
-
-    if (isActive && !previousActiveRef.current) {
-      playChime();
-      speakCue(`Starting ${workout.rounds[currentRoundIndex]?.exerciseName ?? "work"}`);
-    } else if (!isActive && previousActiveRef.current) {
-      playBeep(420, 150, 0.18);
-      speakCue("Paused");
-    }
-
-    previousActiveRef.current = isActive;
-  }, [isActive, workout, currentRoundIndex, isPrestartCountdown]);
-
-  useEffect(() => {
-    if (!workout || !isActive || isPrestartCountdown) {
-      return;
-    }
-
-    if (workout.framework === "AMRAP" && secondsLeft === 60) {
-      playChime();
-      speakCue("Final minute. Empty the tank.");
-    }
-  }, [secondsLeft, isActive, workout, isPrestartCountdown]);
-
   const getProgressText = () => {
     if (workout.framework === "EMOM") {
       return `Round ${currentRoundIndex + 1}/${workout.rounds.length}`;
@@ -487,48 +489,62 @@ export default function WorkoutRunner() {
       const intervalInExercise = (currentRoundIndex % intervalsPerExercise) + 1;
       return `Exercise ${exerciseIndex}/${totalExercises} • Interval ${intervalInExercise}/${intervalsPerExercise}`;
     } else if (workout.framework === "AMRAP") {
-      return `AMRAP • ${workout.durationMinutes} min`;
+      return `AMRAP • ${workout.durationMinutes} min • Round ${amrapRounds + 1}`;
     } else if (workout.framework === "Circuit") {
       const exercisesPerRound = workout.rounds.length / (workout.totalRounds || 1);
       const currentRound = Math.floor(currentRoundIndex / exercisesPerRound) + 1;
       return `Round ${currentRound}/${workout.totalRounds || 1}`;
+    } else if (workout.framework === "Ladder") {
+      const exercisesPerRung = workout.rounds.length / (workout.totalRounds || 1);
+      const currentRung = Math.floor(currentRoundIndex / exercisesPerRung) + 1;
+      return `Rung ${currentRung}/${workout.totalRounds || 1}`;
+    } else if (workout.framework === "ForTime") {
+      return `Movement ${currentRoundIndex + 1}/${workout.rounds.length} • Cap ${workout.durationMinutes} min`;
     }
     return "";
   };
 
-  const getTimerLabel = () => {
-    if (isPrestartCountdown) {
-      return "Get Ready";
-    }
-    if (workout.framework === "Tabata") {
-      return isResting ? "Rest" : "Go!";
-    } else if (workout.framework === "AMRAP") {
-      return "Time Left";
-    } else if (workout.framework === "Circuit" && isResting) {
-      return "Rest";
-    }
-    return "Go!";
-  };
-
   return (
     <MobileLayout hideNav>
       <div className="h-full flex flex-col relative bg-black">
         {/* Top Bar */}
         <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-center z-20">
-          <Button variant="ghost" size="icon" onClick={() => setLocation("/")} className="text-muted-foreground hover:text-white" data-testid="button-exit">
-            <X />
-          </Button>
-          <div className="text-sm font-bold uppercase tracking-widest text-muted-foreground">
-            {getProgressText()}
-          </div>
           <Button
             variant="ghost"
             size="icon"
+            onClick={() => {
+              // Leaving on purpose abandons the run, so there is nothing to resume
+              isLeavingRef.current = true;
+              clearRunnerCheckpoint();
+              setLocation("/");
+            }}
             className="text-muted-foreground hover:text-white"
-            onClick={() => handleSettingsOpenChange(true)}
+            data-testid="button-exit"
           >
-            <Settings size={20} />
+            <X />
           </Button>
+          <div className="text-sm font-bold uppercase tracking-widest text-muted-foreground">
+            {getProgressText()}
+          </div>
+          <div className="flex">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-muted-foreground hover:text-white"
+              onClick={() => setIsSaveDialogOpen(true)}
+              data-testid="button-save-to-library"
+            >
+              <Bookmark size={20} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-muted-foreground hover:text-white"
+              onClick={() => handleSettingsOpenChange(true)}
+            >
+              <Settings size={20} />
+            </Button>
+          </div>
         </div>
 
         {/* Main Timer Area */}
@@ -544,23 +560,19 @@ export default function WorkoutRunner() {
 
           <div className="relative z-10 text-center">
             <motion.div
-              key={`${secondsLeft}-${prestartSecondsLeft}-${isPrestartCountdown}`}
+              key={`${position.phaseIndex}-${secondsLeft}-${position.phaseElapsedSeconds}`}
               initial={{ y: 10, opacity: 0.8 }}
               animate={{ y: 0, opacity: 1 }}
               className="font-display text-[12rem] leading-none font-bold text-white tracking-tighter tabular-nums"
               style={{ textShadow: "0 0 40px rgba(255,255,255,0.1)" }}
             >
-              {isPrestartCountdown
-                ? `:${formatTime(prestartSecondsLeft)}`
-                : workout.framework === "AMRAP"
-                ? formatTime(secondsLeft)
-                : `:${formatTime(secondsLeft)}`}
+              {formatTimer()}
             </motion.div>
             <div className={cn(
               "text-xl uppercase tracking-[0.2em] font-bold mt-4 neon-text",
               isResting ? "text-yellow-500" : "text-primary"
             )}>
-              {getTimerLabel()}
+              {phase.label}
             </div>
           </div>
         </div>
@@ -597,7 +609,7 @@ export default function WorkoutRunner() {
                   </p>
                   {currentExercise.reps ? (
                     <p className="text-[11px] text-muted-foreground mt-1">
-                      Target ~{currentExercise.reps} {(currentExercise as any).isHold ? "seconds" : (currentExercise as any).alternatesSides ? `reps, ${currentExercise.reps / 2} each leg` : "reps"}
+                      Target ~{describeRoundTarget(currentExercise)}
                     </p>
                   ) : null}
                 </>
@@ -632,29 +644,43 @@ export default function WorkoutRunner() {
               )}
             </div>
 
+            {/* AMRAP Round Counter */}
+            {workout.framework === "AMRAP" && (
+              <div className="flex items-center justify-between gap-3 mb-6">
+                <div>
+                  <p className="text-xs text-muted-foreground uppercase font-bold">Rounds Done</p>
+                  <p className="font-display text-3xl font-bold text-white tabular-nums" data-testid="text-amrap-rounds">
+                    {amrapRounds}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-12 w-12 border-border/50 hover:bg-secondary/50 hover:text-white"
+                    onClick={() => setAmrapRounds((rounds) => Math.max(0, rounds - 1))}
+                    disabled={amrapRounds === 0}
+                    data-testid="button-amrap-round-undo"
+                  >
+                    <Minus />
+                  </Button>
+                  <Button
+                    className="h-12 px-5 bg-primary text-black font-bold uppercase tracking-wider hover:bg-primary/90"
+                    onClick={completeAmrapRound}
+                    data-testid="button-amrap-round"
+                  >
+                    <Plus className="w-4 h-4 mr-1" /> Round
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Controls */}
             <div className="grid grid-cols-3 gap-4">
               <Button
                 variant="outline"
               className="h-14 border-border/50 hover:bg-secondary/50 hover:text-white"
-              onClick={() => {
-                setCurrentRoundIndex(0);
-                setIsActive(false);
-                setIsResting(false);
-                setIsPrestartCountdown(false);
-                setPrestartSecondsLeft(0);
-
-                // Reset timer based on framework
-                if (workout.framework === "EMOM") {
-                  setSecondsLeft(60);
-                } else if (workout.framework === "Tabata") {
-                  setSecondsLeft(workout.workSeconds || 20);
-                } else if (workout.framework === "AMRAP") {
-                  setSecondsLeft(workout.durationMinutes * 60);
-                } else if (workout.framework === "Circuit") {
-                  setSecondsLeft(45);
-                }
-              }}
+              onClick={handleRestart}
               data-testid="button-restart"
             >
               <RotateCcw />
@@ -674,40 +700,7 @@ export default function WorkoutRunner() {
             <Button
               variant="outline"
               className="h-14 border-border/50 hover:bg-secondary/50 hover:text-white"
-              onClick={() => {
-                if (workout.framework === "AMRAP") {
-                  // For AMRAP, just complete the workout
-                  goToWorkoutComplete();
-                } else if (currentRoundIndex < workout.rounds.length - 1) {
-                  const nextRound = workout.rounds[currentRoundIndex + 1];
-                  setCurrentRoundIndex(i => i + 1);
-                  setIsResting(false);
-                  setIsPrestartCountdown(false);
-                  setPrestartSecondsLeft(0);
-
-                  // Reset timer based on framework
-                  if (workout.framework === "EMOM") {
-                    setSecondsLeft(60);
-                  } else if (workout.framework === "Tabata") {
-                    setSecondsLeft(workout.workSeconds || 20);
-                  } else if (workout.framework === "Circuit") {
-                    setSecondsLeft(45);
-                  }
-                  
-                  // Announce the next exercise
-                  let repsText = "";
-                  if ((nextRound as any).isHold) {
-                    repsText = `${nextRound.reps} seconds`;
-                  } else if ((nextRound as any).alternatesSides) {
-                    repsText = `${nextRound.reps} reps, ${nextRound.reps / 2} each leg`;
-                  } else {
-                    repsText = `${nextRound.reps} reps`;
-                  }
-                  triggerIntervalCues(`${nextRound.exerciseName}, ${repsText}`);
-                } else {
-                  goToWorkoutComplete();
-                }
-              }}
+              onClick={handleSkip}
               data-testid="button-skip"
             >
               <SkipForward />
@@ -796,22 +789,33 @@ export default function WorkoutRunner() {
             <SheetHeader className="p-6 pb-4">
               <SheetTitle>How to: {currentExercise?.exerciseName}</SheetTitle>
               <SheetDescription>
-                Open YouTube to watch form tutorials
+                Coaching cues and form tutorials
               </SheetDescription>
             </SheetHeader>
 
             <div className="flex-1 flex flex-col items-center justify-center p-6 space-y-6">
+              {currentExerciseCues.length > 0 && (
+                <ul className="w-full space-y-2 text-left">
+                  {currentExerciseCues.map((cue) => (
+                    <li key={cue} className="text-sm text-white bg-secondary/30 rounded px-3 py-2">
+                      {cue}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
               <div className="text-center space-y-2">
                 <p className="text-sm text-muted-foreground">
-                  We'll search for "{currentExercise?.exerciseName}" on YouTube so you can watch detailed form tutorials and tips from fitness experts.
+                  {hasExerciseVideo(currentExercise?.exerciseName || "")
+                    ? `Watch a form tutorial for "${currentExercise?.exerciseName}" on YouTube.`
+                    : `We'll search for "${currentExercise?.exerciseName}" on YouTube so you can watch detailed form tutorials and tips from fitness experts.`}
                 </p>
               </div>
 
               <Button
                 className="w-full bg-primary text-black hover:bg-primary/90 font-bold uppercase tracking-wider gap-2 py-6 text-lg"
                 onClick={() => {
-                  const url = `https://www.youtube.com/results?search_query=how+to+${encodeURIComponent(currentExercise?.exerciseName || "")}`;
-                  window.open(url, "_blank");
+                  window.open(getExerciseVideoUrl(currentExercise?.exerciseName || ""), "_blank");
                   setIsLessonsOpen(false);
                 }}
                 data-testid="button-open-youtube"
@@ -832,6 +836,13 @@ export default function WorkoutRunner() {
             </div>
           </SheetContent>
         </Sheet>
+
+        <SaveFavoriteDialog
+          open={isSaveDialogOpen}
+          onOpenChange={setIsSaveDialogOpen}
+          source={{ workoutId }}
+          defaultName={`${workout.focusLabel} ${workout.framework}`}
+        />
       </div>
     </MobileLayout>
   );
@@ -0,0 +1,40 @@
+import { pool } from "../server/db";
+import { rebuildAllDerivedState, rebuildDerivedState, type RebuildReport } from "../server/utils/derivedState";
+
+// Usage: npm run derived:rebuild -- (--user <userId> | --all) [--dry-run]
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const userIndex = args.indexOf("--user");
+const userId = userIndex >= 0 ? args[userIndex + 1] : undefined;
+
+if (!userId && !args.includes("--all")) {
+  console.error("Usage: npm run derived:rebuild -- (--user <userId> | --all) [--dry-run]");
+  process.exit(1);
+}
+
+function printReport(report: RebuildReport) {
+  const verb = report.dryRun ? "would change" : "changed";
+  console.log(`${report.userId}: ${report.sessionCount} sessions replayed, ${report.differences.length} rows ${verb}`);
+  report.differences.forEach((difference) => {
+    const fields = difference.fields ? ` ${JSON.stringify(difference.fields)}` : "";
+    console.log(`  ${difference.change} ${difference.table} [${difference.key}]${fields}`);
+  });
+}
+
+try {
+  const reports = userId ? [await rebuildDerivedState(userId, { dryRun })] : await rebuildAllDerivedState({ dryRun });
+  reports.forEach(printReport);
+
+  // Profiles from before skill baselines were recorded keep their stored skill score
+  const unknownBaselines = reports.filter((report) => !report.skillBaselineKnown);
+  if (unknownBaselines.length) {
+    console.warn(`${unknownBaselines.length} user(s) have no skill baseline and keep their stored skill score:`);
+    unknownBaselines.forEach((report) => console.warn(`  ${report.userId}`));
+  }
+  console.log(`${dryRun ? "Dry run" : "Rebuild"} complete for ${reports.length} user(s).`);
+} catch (error) {
+  console.error("Derived state rebuild failed:", error);
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
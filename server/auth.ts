@@ -0,0 +1,61 @@
+import type { RequestHandler } from 'express'
+import { LocalAuthProvider } from './localAuth'
+import { SupabaseAuthProvider } from './supabaseAuth'
+
+export interface AuthUser {
+  id: string
+  email: string
+}
+
+// Display details kept by the identity provider rather than in our tables
+export interface AuthUserProfile {
+  firstName: string | null
+  lastName: string | null
+  avatarUrl: string | null
+}
+
+export interface AuthProvider {
+  // Resolves the bearer token of a request, or null when it is invalid or expired
+  verifyAccessToken(token: string): Promise<AuthUser | null>
+  getUserProfile(userId: string): Promise<AuthUserProfile | null>
+  deleteUser(userId: string): Promise<void>
+}
+
+// AUTH_PROVIDER=local signs tokens for a fixed list of dev users instead of calling Supabase
+function createAuthProvider(): AuthProvider {
+  if (process.env.AUTH_PROVIDER === 'local') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The local auth provider is for development and tests only')
+    }
+    return new LocalAuthProvider()
+  }
+  return new SupabaseAuthProvider()
+}
+
+export const authProvider = createAuthProvider()
+
+export const requireAuth: RequestHandler = async (req, res, next) => {
+  const authHeader = req.headers.authorization
+
+  if (!authHeader?.startsWith('Bearer ')) {
+    return res.status(401).json({ message: 'Unauthorized' })
+  }
+
+  const token = authHeader.substring(7)
+
+  try {
+    const user = await authProvider.verifyAccessToken(token)
+
+    if (!user) {
+      return res.status(401).json({ message: 'Invalid token' })
+    }
+
+    // Attach user to request
+    req.user = user
+
+    next()
+  } catch (error) {
+    console.error('Auth error:', error)
+    return res.status(401).json({ message: 'Authentication failed' })
+  }
+}
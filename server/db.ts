@@ -5,9 +5,10 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
+// The in-memory storage driver never opens a connection, so it runs without one
+if (!process.env.DATABASE_URL && process.env.STORAGE_DRIVER !== "memory") {
   throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
+    "DATABASE_URL must be set. Did you forget to provision a database? Set STORAGE_DRIVER=memory to run without one.",
   );
 }
 
@@ -0,0 +1,145 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import type { AuthProvider, AuthUser, AuthUserProfile } from './auth'
+
+const ACCESS_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60
+const MAGIC_LINK_TTL_SECONDS = 15 * 60
+const DEFAULT_USERS = 'dev@hiitlab.local:Dev User,test@hiitlab.local:Test User'
+const DEFAULT_SECRET = 'hiit-lab-local-auth-secret' // Never used in production, see createAuthProvider
+
+interface LocalUser extends AuthUser {
+  firstName: string | null
+  lastName: string | null
+}
+
+type TokenPurpose = 'access' | 'magic-link'
+
+interface TokenClaims {
+  sub: string
+  email: string
+  purpose: TokenPurpose
+  jti: string
+  iat: number
+  exp: number
+}
+
+export interface LocalSession {
+  accessToken: string
+  expiresAt: number // Unix seconds
+  user: AuthUser
+}
+
+// Stable per email, so data survives restarts and matches across machines
+function userIdForEmail(email: string): string {
+  const hex = createHash('sha256').update(`local-auth:${email}`).digest('hex')
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`
+}
+
+// LOCAL_AUTH_USERS="alice@example.com:Alice Smith,bob@example.com"
+function parseUsers(list: string): LocalUser[] {
+  return list
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [email, name = ''] = entry.split(':')
+      const [firstName, ...lastName] = name.trim().split(/\s+/).filter(Boolean)
+      const normalizedEmail = email.trim().toLowerCase()
+      return {
+        id: userIdForEmail(normalizedEmail),
+        email: normalizedEmail,
+        firstName: firstName ?? null,
+        lastName: lastName.length ? lastName.join(' ') : null,
+      }
+    })
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+/**
+ * Auth for development and automated tests: HS256 JWTs signed for a fixed list of
+ * dev users, with magic links handed back to the caller instead of emailed.
+ */
+export class LocalAuthProvider implements AuthProvider {
+  private readonly users: LocalUser[]
+  private readonly secret: string
+  private readonly usedMagicLinks = new Map<string, number>() // jti -> exp, so each link signs in once
+
+  constructor() {
+    this.users = parseUsers(process.env.LOCAL_AUTH_USERS || DEFAULT_USERS)
+    this.secret = process.env.LOCAL_AUTH_SECRET || DEFAULT_SECRET
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url')
+  }
+
+  private issueToken(user: LocalUser, purpose: TokenPurpose, ttlSeconds: number): { token: string; exp: number } {
+    const iat = Math.floor(Date.now() / 1000)
+    const claims: TokenClaims = { sub: user.id, email: user.email, purpose, jti: randomUUID(), iat, exp: iat + ttlSeconds }
+    const payload = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`
+    return { token: `${payload}.${this.sign(payload)}`, exp: claims.exp }
+  }
+
+  private readToken(token: string, purpose: TokenPurpose): { claims: TokenClaims; user: LocalUser } | null {
+    const [header, body, signature] = token.split('.')
+    if (!header || !body || !signature) return null
+
+    const expected = Buffer.from(this.sign(`${header}.${body}`))
+    const actual = Buffer.from(signature)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+    let claims: TokenClaims
+    try {
+      claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+    } catch {
+      return null
+    }
+    if (claims.purpose !== purpose || claims.exp <= Date.now() / 1000) return null
+
+    // Removing someone from the list revokes their tokens
+    const user = this.users.find((candidate) => candidate.id === claims.sub)
+    return user ? { claims, user } : null
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthUser | null> {
+    const verified = this.readToken(token, 'access')
+    return verified && { id: verified.user.id, email: verified.user.email }
+  }
+
+  async getUserProfile(userId: string): Promise<AuthUserProfile | null> {
+    const user = this.users.find((candidate) => candidate.id === userId)
+    return user ? { firstName: user.firstName, lastName: user.lastName, avatarUrl: null } : null
+  }
+
+  // Dev users come from configuration; only their app data is deleted
+  async deleteUser(_userId: string): Promise<void> {}
+
+  /**
+   * Sign-in link for a dev user, or null when the email is not in the list.
+   * The token rides in the URL fragment like Supabase's implicit-flow links.
+   */
+  createMagicLink(email: string, redirectTo: string): string | null {
+    const user = this.users.find((candidate) => candidate.email === email.trim().toLowerCase())
+    if (!user) return null
+    const { token } = this.issueToken(user, 'magic-link', MAGIC_LINK_TTL_SECONDS)
+    return `${redirectTo}#magic_token=${token}`
+  }
+
+  exchangeMagicLink(token: string): LocalSession | null {
+    const verified = this.readToken(token, 'magic-link')
+    if (!verified) return null
+
+    const now = Date.now() / 1000
+    this.usedMagicLinks.forEach((exp, jti) => {
+      if (exp <= now) this.usedMagicLinks.delete(jti)
+    })
+    if (this.usedMagicLinks.has(verified.claims.jti)) return null
+    this.usedMagicLinks.set(verified.claims.jti, verified.claims.exp)
+
+    const { token: accessToken, exp } = this.issueToken(verified.user, 'access', ACCESS_TOKEN_TTL_SECONDS)
+    return { accessToken, expiresAt: exp, user: { id: verified.user.id, email: verified.user.email } }
+  }
+}
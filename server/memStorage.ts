@@ -0,0 +1,781 @@
+import { randomUUID } from "crypto";
+import type {
+  User,
+  UpsertUser,
+  Profile,
+  InsertProfile,
+  SkillBaseline,
+  WorkoutSession,
+  InsertWorkoutSession,
+  WorkoutRound,
+  InsertWorkoutRound,
+  ExerciseStat,
+  InsertExerciseStat,
+  PersonalRecord,
+  InsertPersonalRecord,
+  ExerciseMastery,
+  InsertExerciseMastery,
+  MuscleGroupRecovery,
+  InsertMuscleGroupRecovery,
+  WeeklyPeriodization,
+  InsertWeeklyPeriodization,
+  FrameworkPreference,
+  InsertFrameworkPreference,
+  GeneratedWorkout,
+  GeneratedWorkoutRecord,
+  CustomExercise,
+  InsertCustomExercise,
+  FavoriteWorkout,
+  InsertFavoriteWorkout,
+  CalendarFeed,
+  ProgramEnrollment,
+} from "@shared/schema";
+import type { ProgramId } from "@shared/programs";
+import type { DerivedState, IStorage, WorkoutHistoryCursor, WorkoutHistoryFilter } from "./storage";
+import { mergePersonalRecord } from "./utils/personalRecordMerge";
+
+// One array per table, holding rows exactly as the database would return them
+interface MemoryTables {
+  users: User[];
+  profiles: Profile[];
+  workoutSessions: WorkoutSession[];
+  workoutRounds: WorkoutRound[];
+  exerciseStats: ExerciseStat[];
+  personalRecords: PersonalRecord[];
+  exerciseMastery: ExerciseMastery[];
+  muscleGroupRecovery: MuscleGroupRecovery[];
+  weeklyPeriodization: WeeklyPeriodization[];
+  frameworkPreferences: FrameworkPreference[];
+  generatedWorkouts: GeneratedWorkoutRecord[];
+  customExercises: CustomExercise[];
+  favoriteWorkouts: FavoriteWorkout[];
+  calendarFeeds: CalendarFeed[];
+  programEnrollments: ProgramEnrollment[];
+}
+
+function createTables(): MemoryTables {
+  return {
+    users: [],
+    profiles: [],
+    workoutSessions: [],
+    workoutRounds: [],
+    exerciseStats: [],
+    personalRecords: [],
+    exerciseMastery: [],
+    muscleGroupRecovery: [],
+    weeklyPeriodization: [],
+    frameworkPreferences: [],
+    generatedWorkouts: [],
+    customExercises: [],
+    favoriteWorkouts: [],
+    calendarFeeds: [],
+    programEnrollments: [],
+  };
+}
+
+// Like Drizzle, undefined values fall back to the column default (inserts) or are left alone (updates)
+function definedValues<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+// Same shape as the Postgres unique_violation the route handlers already recognize
+function uniqueViolation(constraint: string): Error {
+  return Object.assign(new Error(`duplicate key value violates unique constraint "${constraint}"`), {
+    code: "23505",
+    constraint,
+  });
+}
+
+/**
+ * IStorage kept entirely in process memory, for running the API and integration
+ * tests without Postgres. Column defaults, unique indexes, upsert rules and
+ * cascades mirror the schema. Transactions snapshot every table and restore the
+ * snapshot when the work throws; they do not isolate concurrent requests.
+ */
+export class MemStorage implements IStorage {
+  private tables: MemoryTables = createTables();
+
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    const snapshot = copy(this.tables);
+    try {
+      return await work(this);
+    } catch (error) {
+      this.tables = snapshot;
+      throw error;
+    }
+  }
+
+  // User operations
+  async createOrUpdateUser(userData: UpsertUser): Promise<User> {
+    const existing = this.tables.users.find((row) => row.id === userData.id);
+    if (existing) {
+      Object.assign(existing, definedValues(userData), { updatedAt: new Date() });
+      return copy(existing);
+    }
+    const user = {
+      email: null,
+      firstName: null,
+      lastName: null,
+      profileImageUrl: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...definedValues(userData),
+    } as User;
+    this.tables.users.push(user);
+    return copy(user);
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    const sessionIds = new Set(
+      this.tables.workoutSessions.filter((row) => row.userId === userId).map((row) => row.id)
+    );
+    const otherUsers = <T extends { userId: string }>(rows: T[]) => rows.filter((row) => row.userId !== userId);
+    const { tables } = this;
+    tables.workoutRounds = tables.workoutRounds.filter((row) => !sessionIds.has(row.sessionId));
+    tables.workoutSessions = otherUsers(tables.workoutSessions);
+    tables.exerciseStats = otherUsers(tables.exerciseStats);
+    tables.personalRecords = otherUsers(tables.personalRecords);
+    tables.exerciseMastery = otherUsers(tables.exerciseMastery);
+    tables.muscleGroupRecovery = otherUsers(tables.muscleGroupRecovery);
+    tables.weeklyPeriodization = otherUsers(tables.weeklyPeriodization);
+    tables.frameworkPreferences = otherUsers(tables.frameworkPreferences);
+    tables.generatedWorkouts = otherUsers(tables.generatedWorkouts);
+    tables.customExercises = otherUsers(tables.customExercises);
+    tables.favoriteWorkouts = otherUsers(tables.favoriteWorkouts);
+    tables.calendarFeeds = otherUsers(tables.calendarFeeds);
+    tables.programEnrollments = otherUsers(tables.programEnrollments);
+    tables.profiles = otherUsers(tables.profiles);
+    tables.users = tables.users.filter((row) => row.id !== userId);
+  }
+
+  // Profile operations
+  async getProfile(userId: string): Promise<Profile | undefined> {
+    const profile = this.tables.profiles.find((row) => row.userId === userId);
+    return profile && copy(profile);
+  }
+
+  async getProfileUserIds(): Promise<string[]> {
+    return this.tables.profiles.map((row) => row.userId);
+  }
+
+  async createProfile(profileData: InsertProfile & Partial<SkillBaseline>): Promise<Profile> {
+    if (this.tables.profiles.some((row) => row.userId === profileData.userId)) {
+      throw uniqueViolation("profiles_user_id_unique");
+    }
+    const profile = {
+      id: randomUUID(),
+      displayName: null,
+      goalFocus: null,
+      primaryGoal: null,
+      secondaryGoals: null,
+      goalWeights: null,
+      skillScore: 50,
+      skillBaseline: null,
+      skillBaselineAt: null,
+      optimalTimeBlock: null,
+      timeBlockPerformance: null,
+      exerciseConstraints: null,
+      createdAt: new Date(),
+      ...definedValues(profileData),
+    } as Profile;
+    this.tables.profiles.push(profile);
+    return copy(profile);
+  }
+
+  async updateProfile(userId: string, updates: Partial<Omit<InsertProfile, 'userId'> & SkillBaseline>): Promise<Profile> {
+    const profile = this.tables.profiles.find((row) => row.userId === userId);
+    if (profile) Object.assign(profile, definedValues(updates));
+    return (profile && copy(profile)) as Profile;
+  }
+
+  // Workout session operations
+  async createWorkoutSession(sessionData: InsertWorkoutSession & { createdAt?: Date }): Promise<WorkoutSession> {
+    const { idempotencyKey } = sessionData;
+    if (
+      idempotencyKey != null &&
+      this.tables.workoutSessions.some((row) => row.userId === sessionData.userId && row.idempotencyKey === idempotencyKey)
+    ) {
+      throw uniqueViolation("workout_sessions_user_idempotency_idx");
+    }
+    const session = {
+      id: randomUUID(),
+      framework: "EMOM",
+      perceivedExertion: null,
+      notes: null,
+      completed: false,
+      timeBlock: "morning",
+      generatedWorkoutId: null,
+      finishSeconds: null,
+      repsAtCap: null,
+      amrapRounds: null,
+      amrapReps: null,
+      idempotencyKey: null,
+      createdAt: new Date(),
+      ...definedValues(sessionData),
+    } as WorkoutSession;
+    this.tables.workoutSessions.push(session);
+    return copy(session);
+  }
+
+  private getSessionRounds(sessionId: string): WorkoutRound[] {
+    return this.tables.workoutRounds
+      .filter((round) => round.sessionId === sessionId)
+      .sort((a, b) => a.minuteIndex - b.minuteIndex)
+      .map(copy);
+  }
+
+  async getWorkoutSessions(userId: string): Promise<(WorkoutSession & { rounds: WorkoutRound[] })[]> {
+    return this.tables.workoutSessions
+      .filter((session) => session.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((session) => ({ ...copy(session), rounds: this.getSessionRounds(session.id) }));
+  }
+
+  async getWorkoutSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<(WorkoutSession & { rounds: WorkoutRound[] }) | undefined> {
+    const session = this.tables.workoutSessions.find((row) => row.id === sessionId && row.userId === userId);
+    if (!session) return undefined;
+    return { ...copy(session), rounds: this.getSessionRounds(session.id) };
+  }
+
+  async getWorkoutSessionByIdempotencyKey(userId: string, idempotencyKey: string): Promise<WorkoutSession | undefined> {
+    const session = this.tables.workoutSessions.find(
+      (row) => row.userId === userId && row.idempotencyKey === idempotencyKey
+    );
+    return session && copy(session);
+  }
+
+  private matchesHistoryFilter(session: WorkoutSession, userId: string, filter: WorkoutHistoryFilter): boolean {
+    return (
+      session.userId === userId &&
+      (!filter.framework || session.framework === filter.framework) &&
+      (!filter.focusLabel || session.focusLabel === filter.focusLabel) &&
+      (filter.completed === undefined || session.completed === filter.completed) &&
+      (!filter.from || session.createdAt >= filter.from) &&
+      (!filter.to || session.createdAt <= filter.to)
+    );
+  }
+
+  async getWorkoutSessionPage(
+    userId: string,
+    filter: WorkoutHistoryFilter,
+    limit: number,
+    after?: WorkoutHistoryCursor
+  ): Promise<WorkoutSession[]> {
+    const isAfter = (session: WorkoutSession) =>
+      !after ||
+      session.createdAt.getTime() < after.createdAt.getTime() ||
+      (session.createdAt.getTime() === after.createdAt.getTime() && session.id < after.id);
+
+    return this.tables.workoutSessions
+      .filter((session) => this.matchesHistoryFilter(session, userId, filter) && isAfter(session))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || (a.id < b.id ? 1 : -1))
+      .slice(0, limit)
+      .map(copy);
+  }
+
+  async getWorkoutSessionTotals(userId: string, filter: WorkoutHistoryFilter): Promise<{ count: number; minutes: number }> {
+    const sessions = this.tables.workoutSessions.filter((session) => this.matchesHistoryFilter(session, userId, filter));
+    return { count: sessions.length, minutes: sessions.reduce((sum, session) => sum + session.durationMinutes, 0) };
+  }
+
+  async updateWorkoutSession(sessionId: string, updates: Partial<InsertWorkoutSession>): Promise<WorkoutSession> {
+    const session = this.tables.workoutSessions.find((row) => row.id === sessionId);
+    if (session) Object.assign(session, definedValues(updates));
+    return (session && copy(session)) as WorkoutSession;
+  }
+
+  async deleteWorkoutSession(userId: string, sessionId: string): Promise<boolean> {
+    const before = this.tables.workoutSessions.length;
+    this.tables.workoutSessions = this.tables.workoutSessions.filter(
+      (row) => !(row.id === sessionId && row.userId === userId)
+    );
+    if (this.tables.workoutSessions.length === before) return false;
+
+    // Rounds cascade; references from records and favorites are set null
+    this.tables.workoutRounds = this.tables.workoutRounds.filter((round) => round.sessionId !== sessionId);
+    this.tables.personalRecords.forEach((record) => {
+      if (record.bestSessionId === sessionId) record.bestSessionId = null;
+    });
+    this.tables.favoriteWorkouts.forEach((favorite) => {
+      if (favorite.sourceSessionId === sessionId) favorite.sourceSessionId = null;
+    });
+    return true;
+  }
+
+  // Workout rounds operations
+  async createWorkoutRounds(roundsData: InsertWorkoutRound[]): Promise<WorkoutRound[]> {
+    const rounds = roundsData.map(
+      (round) =>
+        ({
+          id: randomUUID(),
+          isHold: false,
+          alternatesSides: false,
+          actualReps: null,
+          actualSeconds: null,
+          skipped: false,
+          ...definedValues(round),
+        }) as WorkoutRound
+    );
+    this.tables.workoutRounds.push(...rounds);
+    return rounds.map(copy);
+  }
+
+  async getWorkoutRounds(sessionIds: string[]): Promise<WorkoutRound[]> {
+    const ids = new Set(sessionIds);
+    return this.tables.workoutRounds
+      .filter((round) => ids.has(round.sessionId))
+      .sort((a, b) => a.minuteIndex - b.minuteIndex)
+      .map(copy);
+  }
+
+  async updateWorkoutRounds(
+    sessionId: string,
+    updates: Array<{ id: string } & Partial<Pick<InsertWorkoutRound, "actualReps" | "actualSeconds" | "skipped">>>
+  ): Promise<WorkoutRound[]> {
+    const updated: WorkoutRound[] = [];
+    updates.forEach(({ id, ...changes }) => {
+      const values = definedValues(changes);
+      if (!Object.keys(values).length) return;
+      const round = this.tables.workoutRounds.find((row) => row.id === id && row.sessionId === sessionId);
+      if (!round) return;
+      Object.assign(round, values);
+      updated.push(copy(round));
+    });
+    return updated;
+  }
+
+  // Derived training state operations
+  async getDerivedState(userId: string): Promise<DerivedState> {
+    const forUser = <T extends { userId: string }>(rows: T[]) => rows.filter((row) => row.userId === userId).map(copy);
+    return {
+      exerciseStats: forUser(this.tables.exerciseStats),
+      personalRecords: forUser(this.tables.personalRecords),
+      exerciseMastery: forUser(this.tables.exerciseMastery),
+      muscleGroupRecovery: forUser(this.tables.muscleGroupRecovery),
+      weeklyPeriodization: forUser(this.tables.weeklyPeriodization).sort(
+        (a, b) => a.weekStart.getTime() - b.weekStart.getTime()
+      ),
+      frameworkPreferences: forUser(this.tables.frameworkPreferences),
+    };
+  }
+
+  async replaceDerivedState(userId: string, state: DerivedState): Promise<void> {
+    const otherUsers = <T extends { userId: string }>(rows: T[]) => rows.filter((row) => row.userId !== userId);
+    this.tables.exerciseStats = otherUsers(this.tables.exerciseStats);
+    this.tables.personalRecords = otherUsers(this.tables.personalRecords);
+    this.tables.exerciseMastery = otherUsers(this.tables.exerciseMastery);
+    this.tables.muscleGroupRecovery = otherUsers(this.tables.muscleGroupRecovery);
+    this.tables.weeklyPeriodization = otherUsers(this.tables.weeklyPeriodization);
+    this.tables.frameworkPreferences = otherUsers(this.tables.frameworkPreferences);
+
+    for (const stat of state.exerciseStats) this.insertExerciseStat(userId, stat);
+    for (const record of state.personalRecords) this.insertPersonalRecord(userId, record);
+    for (const mastery of state.exerciseMastery) this.insertExerciseMastery(userId, mastery);
+    for (const recovery of state.muscleGroupRecovery) this.insertMuscleGroupRecovery(userId, recovery);
+    for (const periodization of state.weeklyPeriodization) this.insertWeeklyPeriodization(userId, periodization);
+    for (const preference of state.frameworkPreferences) this.insertFrameworkPreference(userId, preference);
+  }
+
+  private insertExerciseStat(userId: string, stat: Omit<InsertExerciseStat, "userId" | "id">): ExerciseStat {
+    const row = {
+      id: randomUUID(),
+      userId,
+      acceptCount: 0,
+      skipCount: 0,
+      completionCount: 0,
+      qualitySum: 0,
+      lastPerformedAt: new Date(),
+      ...definedValues(stat),
+    } as ExerciseStat;
+    this.tables.exerciseStats.push(row);
+    return row;
+  }
+
+  async upsertExerciseStats(
+    userId: string,
+    stats: Array<Omit<InsertExerciseStat, "userId" | "id">>,
+  ): Promise<ExerciseStat[]> {
+    return stats.map((stat) => {
+      const existing = this.tables.exerciseStats.find(
+        (row) => row.userId === userId && row.exerciseName === stat.exerciseName
+      );
+      if (!existing) return copy(this.insertExerciseStat(userId, stat));
+      existing.acceptCount += stat.acceptCount ?? 0;
+      existing.skipCount += stat.skipCount ?? 0;
+      existing.completionCount += stat.completionCount ?? 0;
+      existing.qualitySum += stat.qualitySum ?? 0;
+      if (stat.lastPerformedAt && stat.lastPerformedAt > existing.lastPerformedAt) {
+        existing.lastPerformedAt = stat.lastPerformedAt;
+      }
+      return copy(existing);
+    });
+  }
+
+  async getExerciseStats(userId: string): Promise<ExerciseStat[]> {
+    return this.tables.exerciseStats.filter((row) => row.userId === userId).map(copy);
+  }
+
+  // Personal records operations
+  async getPersonalRecords(userId: string): Promise<PersonalRecord[]> {
+    return this.tables.personalRecords.filter((row) => row.userId === userId).map(copy);
+  }
+
+  private insertPersonalRecord(userId: string, record: Omit<InsertPersonalRecord, "userId" | "id">): PersonalRecord {
+    const row = {
+      id: randomUUID(),
+      userId,
+      recordType: "exercise",
+      bestReps: null,
+      bestSeconds: null,
+      bestRounds: null,
+      bestSessionId: null,
+      achievedAt: new Date(),
+      ...definedValues(record),
+    } as PersonalRecord;
+    this.tables.personalRecords.push(row);
+    return row;
+  }
+
+  async upsertPersonalRecord(userId: string, record: Omit<InsertPersonalRecord, "userId" | "id">): Promise<PersonalRecord> {
+    const existing = this.tables.personalRecords.find(
+      (row) => row.userId === userId && row.exerciseName === record.exerciseName
+    );
+    if (!existing) return copy(this.insertPersonalRecord(userId, record));
+    const updates = mergePersonalRecord(existing, record);
+    if (updates) Object.assign(existing, definedValues(updates));
+    return copy(existing);
+  }
+
+  // Exercise mastery operations
+  async getExerciseMastery(userId: string): Promise<ExerciseMastery[]> {
+    return this.tables.exerciseMastery.filter((row) => row.userId === userId).map(copy);
+  }
+
+  private insertExerciseMastery(userId: string, mastery: Omit<InsertExerciseMastery, "userId" | "id">): ExerciseMastery {
+    const row = {
+      id: randomUUID(),
+      userId,
+      masteryScore: 0,
+      totalAttempts: 0,
+      successfulAttempts: 0,
+      lastUpdated: new Date(),
+      ...definedValues(mastery),
+    } as ExerciseMastery;
+    this.tables.exerciseMastery.push(row);
+    return row;
+  }
+
+  async upsertExerciseMastery(userId: string, mastery: Omit<InsertExerciseMastery, "userId" | "id">): Promise<ExerciseMastery> {
+    const existing = this.tables.exerciseMastery.find(
+      (row) => row.userId === userId && row.exerciseName === mastery.exerciseName
+    );
+    if (!existing) return copy(this.insertExerciseMastery(userId, mastery));
+    Object.assign(
+      existing,
+      definedValues({
+        masteryScore: mastery.masteryScore,
+        totalAttempts: mastery.totalAttempts,
+        successfulAttempts: mastery.successfulAttempts,
+      }),
+      { lastUpdated: new Date() }
+    );
+    return copy(existing);
+  }
+
+  // Muscle group recovery operations
+  async getMuscleGroupRecovery(userId: string): Promise<MuscleGroupRecovery[]> {
+    return this.tables.muscleGroupRecovery.filter((row) => row.userId === userId).map(copy);
+  }
+
+  private insertMuscleGroupRecovery(
+    userId: string,
+    recovery: Omit<InsertMuscleGroupRecovery, "userId" | "id">
+  ): MuscleGroupRecovery {
+    const row = {
+      id: randomUUID(),
+      userId,
+      recoveryScore: 1.0,
+      lastWorkedAt: new Date(),
+      workoutIntensity: 1.0,
+      updatedAt: new Date(),
+      ...definedValues(recovery),
+    } as MuscleGroupRecovery;
+    this.tables.muscleGroupRecovery.push(row);
+    return row;
+  }
+
+  async upsertMuscleGroupRecovery(userId: string, recovery: Omit<InsertMuscleGroupRecovery, "userId" | "id">): Promise<MuscleGroupRecovery> {
+    const existing = this.tables.muscleGroupRecovery.find(
+      (row) => row.userId === userId && row.muscleGroup === recovery.muscleGroup
+    );
+    if (!existing) return copy(this.insertMuscleGroupRecovery(userId, recovery));
+    Object.assign(
+      existing,
+      definedValues({
+        recoveryScore: recovery.recoveryScore,
+        lastWorkedAt: recovery.lastWorkedAt,
+        workoutIntensity: recovery.workoutIntensity,
+      }),
+      { updatedAt: new Date() }
+    );
+    return copy(existing);
+  }
+
+  // Weekly periodization operations
+  async getWeeklyPeriodization(userId: string, weekStart?: Date): Promise<WeeklyPeriodization | undefined> {
+    const weeks = this.tables.weeklyPeriodization.filter((row) => row.userId === userId);
+    const wp = weekStart
+      ? weeks.find((row) => row.weekStart.getTime() === weekStart.getTime())
+      : weeks.sort((a, b) => b.weekStart.getTime() - a.weekStart.getTime())[0]; // Most recent week
+    return wp && copy(wp);
+  }
+
+  async getWeeklyPeriodizationHistory(userId: string): Promise<WeeklyPeriodization[]> {
+    return copy(
+      this.tables.weeklyPeriodization
+        .filter((row) => row.userId === userId)
+        .sort((a, b) => a.weekStart.getTime() - b.weekStart.getTime())
+    );
+  }
+
+  private insertWeeklyPeriodization(
+    userId: string,
+    periodization: Omit<InsertWeeklyPeriodization, "userId" | "id">
+  ): WeeklyPeriodization {
+    const row = {
+      id: randomUUID(),
+      userId,
+      updatedAt: new Date(),
+      ...definedValues(periodization),
+    } as WeeklyPeriodization;
+    this.tables.weeklyPeriodization.push(row);
+    return row;
+  }
+
+  async upsertWeeklyPeriodization(userId: string, periodization: Omit<InsertWeeklyPeriodization, "userId" | "id">): Promise<WeeklyPeriodization> {
+    const existing = this.tables.weeklyPeriodization.find(
+      (row) => row.userId === userId && row.weekStart.getTime() === periodization.weekStart.getTime()
+    );
+    if (!existing) return copy(this.insertWeeklyPeriodization(userId, periodization));
+    existing.muscleGroupVolume = copy(periodization.muscleGroupVolume);
+    existing.updatedAt = new Date();
+    return copy(existing);
+  }
+
+  // Framework preferences operations
+  async getFrameworkPreferences(userId: string): Promise<FrameworkPreference[]> {
+    return this.tables.frameworkPreferences.filter((row) => row.userId === userId).map(copy);
+  }
+
+  private insertFrameworkPreference(
+    userId: string,
+    preference: Omit<InsertFrameworkPreference, "userId" | "id">
+  ): FrameworkPreference {
+    const row = {
+      id: randomUUID(),
+      userId,
+      preferenceScore: 0.5,
+      completionRate: 1.0,
+      averageRpe: null,
+      lastUsedAt: new Date(),
+      updatedAt: new Date(),
+      ...definedValues(preference),
+    } as FrameworkPreference;
+    this.tables.frameworkPreferences.push(row);
+    return row;
+  }
+
+  async upsertFrameworkPreference(userId: string, preference: Omit<InsertFrameworkPreference, "userId" | "id">): Promise<FrameworkPreference> {
+    const existing = this.tables.frameworkPreferences.find(
+      (row) => row.userId === userId && row.framework === preference.framework
+    );
+    if (!existing) return copy(this.insertFrameworkPreference(userId, preference));
+    Object.assign(
+      existing,
+      definedValues({
+        preferenceScore: preference.preferenceScore,
+        completionRate: preference.completionRate,
+        averageRpe: preference.averageRpe,
+        lastUsedAt: preference.lastUsedAt,
+      }),
+      { updatedAt: new Date() }
+    );
+    return copy(existing);
+  }
+
+  // Generated workouts operations
+  async createGeneratedWorkout(userId: string, workout: GeneratedWorkout): Promise<GeneratedWorkoutRecord> {
+    const record: GeneratedWorkoutRecord = {
+      id: randomUUID(),
+      userId,
+      framework: workout.framework,
+      seed: workout.seed ?? null,
+      workout: copy(workout),
+      createdAt: new Date(),
+    };
+    this.tables.generatedWorkouts.push(record);
+    return copy(record);
+  }
+
+  async getGeneratedWorkout(userId: string, workoutId: string): Promise<GeneratedWorkoutRecord | undefined> {
+    const record = this.tables.generatedWorkouts.find((row) => row.id === workoutId && row.userId === userId);
+    return record && copy(record);
+  }
+
+  // Custom exercises operations
+  async getCustomExercises(userId: string): Promise<CustomExercise[]> {
+    return this.tables.customExercises
+      .filter((row) => row.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(copy);
+  }
+
+  private assertUniqueCustomExerciseName(userId: string, name: string, exceptId?: string) {
+    if (this.tables.customExercises.some((row) => row.userId === userId && row.name === name && row.id !== exceptId)) {
+      throw uniqueViolation("custom_exercises_user_name_idx");
+    }
+  }
+
+  async createCustomExercise(exerciseData: InsertCustomExercise): Promise<CustomExercise> {
+    this.assertUniqueCustomExerciseName(exerciseData.userId, exerciseData.name);
+    const exercise = {
+      id: randomUUID(),
+      isHold: false,
+      alternatesSides: false,
+      cues: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...definedValues(exerciseData),
+    } as CustomExercise;
+    this.tables.customExercises.push(exercise);
+    return copy(exercise);
+  }
+
+  async updateCustomExercise(
+    userId: string,
+    exerciseId: string,
+    updates: Partial<Omit<InsertCustomExercise, "userId">>,
+  ): Promise<CustomExercise | undefined> {
+    const exercise = this.tables.customExercises.find((row) => row.id === exerciseId && row.userId === userId);
+    if (!exercise) return undefined;
+    if (updates.name !== undefined) this.assertUniqueCustomExerciseName(userId, updates.name, exerciseId);
+    Object.assign(exercise, definedValues(updates), { updatedAt: new Date() });
+    return copy(exercise);
+  }
+
+  async deleteCustomExercise(userId: string, exerciseId: string): Promise<boolean> {
+    const before = this.tables.customExercises.length;
+    this.tables.customExercises = this.tables.customExercises.filter(
+      (row) => !(row.id === exerciseId && row.userId === userId)
+    );
+    return this.tables.customExercises.length < before;
+  }
+
+  // Favorite workouts operations
+  async getFavoriteWorkouts(userId: string, filter: { search?: string; tag?: string } = {}): Promise<FavoriteWorkout[]> {
+    const search = filter.search?.toLowerCase();
+    return this.tables.favoriteWorkouts
+      .filter(
+        (row) =>
+          row.userId === userId &&
+          (!search || row.name.toLowerCase().includes(search)) &&
+          (!filter.tag || row.tags.includes(filter.tag))
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(copy);
+  }
+
+  async getFavoriteWorkout(userId: string, favoriteId: string): Promise<FavoriteWorkout | undefined> {
+    const favorite = this.tables.favoriteWorkouts.find((row) => row.id === favoriteId && row.userId === userId);
+    return favorite && copy(favorite);
+  }
+
+  async createFavoriteWorkout(favoriteData: InsertFavoriteWorkout): Promise<FavoriteWorkout> {
+    const favorite = {
+      id: randomUUID(),
+      tags: [],
+      sourceSessionId: null,
+      createdAt: new Date(),
+      ...definedValues(favoriteData),
+    } as FavoriteWorkout;
+    this.tables.favoriteWorkouts.push(favorite);
+    return copy(favorite);
+  }
+
+  async deleteFavoriteWorkout(userId: string, favoriteId: string): Promise<boolean> {
+    const before = this.tables.favoriteWorkouts.length;
+    this.tables.favoriteWorkouts = this.tables.favoriteWorkouts.filter(
+      (row) => !(row.id === favoriteId && row.userId === userId)
+    );
+    return this.tables.favoriteWorkouts.length < before;
+  }
+
+  async getCalendarFeed(userId: string): Promise<CalendarFeed | undefined> {
+    const feed = this.tables.calendarFeeds.find((row) => row.userId === userId);
+    return feed && copy(feed);
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const feed = this.tables.calendarFeeds.find((row) => row.token === token);
+    return feed && copy(feed);
+  }
+
+  async setCalendarFeedToken(userId: string, token: string): Promise<CalendarFeed> {
+    if (this.tables.calendarFeeds.some((row) => row.token === token && row.userId !== userId)) {
+      throw uniqueViolation("calendar_feeds_token_unique");
+    }
+    const existing = this.tables.calendarFeeds.find((row) => row.userId === userId);
+    if (existing) {
+      Object.assign(existing, { token, createdAt: new Date() });
+      return copy(existing);
+    }
+    const feed: CalendarFeed = { id: randomUUID(), userId, token, createdAt: new Date() };
+    this.tables.calendarFeeds.push(feed);
+    return copy(feed);
+  }
+
+  async deleteCalendarFeed(userId: string): Promise<boolean> {
+    const before = this.tables.calendarFeeds.length;
+    this.tables.calendarFeeds = this.tables.calendarFeeds.filter((row) => row.userId !== userId);
+    return this.tables.calendarFeeds.length < before;
+  }
+
+  async getProgramEnrollment(userId: string): Promise<ProgramEnrollment | undefined> {
+    const enrollment = this.tables.programEnrollments.find((row) => row.userId === userId);
+    return enrollment && copy(enrollment);
+  }
+
+  async startProgramEnrollment(userId: string, programId: ProgramId): Promise<ProgramEnrollment> {
+    const values = { programId, currentDay: 0, startedAt: new Date(), completedAt: null };
+    const existing = this.tables.programEnrollments.find((row) => row.userId === userId);
+    if (existing) {
+      Object.assign(existing, values);
+      return copy(existing);
+    }
+    const enrollment: ProgramEnrollment = { id: randomUUID(), userId, ...values };
+    this.tables.programEnrollments.push(enrollment);
+    return copy(enrollment);
+  }
+
+  async advanceProgramEnrollment(userId: string, fromDay: number, completed: boolean): Promise<ProgramEnrollment | undefined> {
+    const enrollment = this.tables.programEnrollments.find(
+      (row) => row.userId === userId && row.currentDay === fromDay && !row.completedAt
+    );
+    if (!enrollment) return undefined;
+    Object.assign(enrollment, { currentDay: fromDay + 1, completedAt: completed ? new Date() : null });
+    return copy(enrollment);
+  }
+
+  async deleteProgramEnrollment(userId: string): Promise<boolean> {
+    const before = this.tables.programEnrollments.length;
+    this.tables.programEnrollments = this.tables.programEnrollments.filter((row) => row.userId !== userId);
+    return this.tables.programEnrollments.length < before;
+  }
+}
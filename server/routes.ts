@@ -1,38 +1,62 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { storage } from "./storage";
-import { requireAuth, supabase } from "./supabaseAuth";
+import { authProvider, requireAuth } from "./auth";
+import { LocalAuthProvider } from "./localAuth";
 import {
   generateEMOMWorkout,
   generateTabataWorkout,
   generateAMRAPWorkout,
   generateCircuitWorkout,
-  updateSkillScore
+  generateLadderWorkout,
+  generateForTimeWorkout,
 } from "./utils/emomGenerator";
 import { pickFrameworkForGoal } from "@shared/goals";
 import {
   insertProfileSchema,
-  type InsertProfile,
   insertWorkoutSessionSchema,
+  sessionCompletedAtSchema,
+  updateWorkoutSessionSchema,
+  insertCustomExerciseSchema,
   workoutGenerationRequestSchema,
+  manualWorkoutRequestSchema,
+  createFavoriteWorkoutSchema,
+  favoriteWorkoutQuerySchema,
+  workoutHistoryQuerySchema,
+  exportQuerySchema,
+  sessionExportQuerySchema,
+  workoutInterchangeSchema,
+  type WorkoutImportResult,
+  exerciseLibraryQuerySchema,
+  programEnrollmentRequestSchema,
+  type GeneratedWorkout,
 } from "@shared/schema";
+import { customExerciseToDefinition, EXERCISE_LIBRARY, filterExercises, getExerciseByName } from "@shared/exercises";
+import { migrateEquipment } from "@shared/equipment";
+import { applyExerciseConstraints, MIN_CONSTRAINED_EXERCISES, normalizeExerciseConstraints } from "@shared/constraints";
 import { z } from "zod";
 import { workoutRoundsArraySchema } from "./utils/roundValidation";
 import {
-  aggregateExerciseOutcomes,
   buildPersonalizationInsights,
   categorizeTimeBlock,
-  computeTimeBlockPerformance,
-  summarizeSessionPerformance,
 } from "./utils/personalization";
 import { getRecoveryScores } from "./utils/recovery";
-import { getWeekStart } from "./utils/periodization";
-import { getFrameworkPreferences, selectFrameworkWithPreferences, updateFrameworkPreference } from "./utils/frameworkPreferences";
+import { getCurrentMesocycle, getWeekStart } from "./utils/periodization";
+import { getFrameworkPreferences, selectFrameworkWithPreferences } from "./utils/frameworkPreferences";
 import { getStreakStatus, applyStreakAdjustments } from "./utils/streakAware";
-import { updatePersonalRecords } from "./utils/personalRecords";
-import { updateMasteryScores } from "./utils/mastery";
-import { updateRecoveryAfterWorkout } from "./utils/recovery";
-import { updateWeeklyVolume } from "./utils/periodization";
+import { createSeededRandom, generateSeed } from "./utils/seededRandom";
+import { buildManualWorkout } from "./utils/manualWorkoutBuilder";
+import { resolveInterchangeWorkout } from "./utils/workoutImport";
+import { sessionToWorkout, toWorkoutTemplate } from "./utils/workoutSnapshot";
+import { DEFAULT_SKILL_SCORE, rebuildDerivedState } from "./utils/derivedState";
+import { findDuplicateSave, saveWorkoutSession } from "./utils/sessionSave";
+import { MAX_AMRAP_LOGGED_ROUNDS } from "./utils/amrapScore";
+import { decodeHistoryCursor, getWorkoutHistoryPage } from "./utils/workoutHistory";
+import { buildWorkoutExport, workoutExportToCsv } from "./utils/dataExport";
+import { activityToFit, activityToTcx, sessionToActivity } from "./utils/activityExport";
+import { buildCalendarFeed, calendarFeedPath, planUpcomingWorkouts } from "./utils/calendarFeed";
+import { applyProgramDay, getProgramStatus } from "./utils/programs";
 
 export async function registerRoutes(
   httpServer: Server,
@@ -44,16 +68,16 @@ export async function registerRoutes(
       const userId = req.user!.id;
       const userEmail = req.user!.email;
 
-      // Get Supabase user to extract metadata
-      const { data: supabaseUser } = await supabase.auth.admin.getUserById(userId);
+      // Names and avatar live with the auth provider
+      const authProfile = await authProvider.getUserProfile(userId);
 
       // Create or update local user record
       const user = await storage.createOrUpdateUser({
         id: userId,
         email: userEmail,
-        firstName: supabaseUser?.user?.user_metadata?.firstName || '',
-        lastName: supabaseUser?.user?.user_metadata?.lastName || '',
-        profileImageUrl: supabaseUser?.user?.user_metadata?.avatar_url || null,
+        firstName: authProfile?.firstName || '',
+        lastName: authProfile?.lastName || '',
+        profileImageUrl: authProfile?.avatarUrl || null,
       });
 
       res.json(user);
@@ -67,12 +91,11 @@ export async function registerRoutes(
     try {
       const userId = req.user!.id;
 
-      // Delete from local database (cascade handles related data)
+      // Delete the local account row and all of the user's training data
       await storage.deleteUser(userId);
 
-      // Delete from Supabase Auth
-      const { error } = await supabase.auth.admin.deleteUser(userId);
-      if (error) throw error;
+      // Delete from the auth provider
+      await authProvider.deleteUser(userId);
 
       res.json({ success: true, message: "Account deleted successfully" });
     } catch (error) {
@@ -81,6 +104,47 @@ export async function registerRoutes(
     }
   });
 
+  // Local auth only: sign-in links are returned to the caller instead of emailed
+  if (authProvider instanceof LocalAuthProvider) {
+    const localAuth = authProvider;
+
+    app.post('/api/auth/local/magic-link', async (req, res) => {
+      try {
+        const { email, redirectTo } = z
+          .object({ email: z.string().trim().email(), redirectTo: z.string().min(1) })
+          .parse(req.body);
+        const link = localAuth.createMagicLink(email, redirectTo);
+        if (!link) {
+          return res.status(404).json({ message: "No local user with that email" });
+        }
+        res.json({ link });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid sign-in request", errors: error.errors });
+        }
+        console.error("Error creating magic link:", error);
+        res.status(500).json({ message: "Failed to create magic link" });
+      }
+    });
+
+    app.post('/api/auth/local/session', async (req, res) => {
+      try {
+        const { token } = z.object({ token: z.string().min(1) }).parse(req.body);
+        const session = localAuth.exchangeMagicLink(token);
+        if (!session) {
+          return res.status(401).json({ message: "Magic link is invalid or expired" });
+        }
+        res.json(session);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid sign-in request", errors: error.errors });
+        }
+        console.error("Error exchanging magic link:", error);
+        res.status(500).json({ message: "Failed to sign in" });
+      }
+    });
+  }
+
   // ==================== PROFILE ROUTES ====================
   app.get('/api/profile', requireAuth, async (req: any, res) => {
     try {
@@ -108,7 +172,12 @@ export async function registerRoutes(
         userId,
       });
       
-      const profile = await storage.createProfile(profileData);
+      // The starting score is the baseline derived-state replays continue from
+      const profile = await storage.createProfile({
+        ...profileData,
+        skillBaseline: profileData.skillScore ?? DEFAULT_SKILL_SCORE,
+        skillBaselineAt: new Date(),
+      });
       res.status(201).json(profile);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -125,8 +194,26 @@ export async function registerRoutes(
       
       // Validate partial update
       const updates = insertProfileSchema.partial().omit({ userId: true }).parse(req.body);
-      
-      const profile = await storage.updateProfile(userId, updates);
+
+      // Constraints are hard filters, so refuse a set that leaves the generators nothing to pick
+      if (updates.exerciseConstraints) {
+        const currentProfile = await storage.getProfile(userId);
+        const equipment = migrateEquipment((updates.equipment ?? currentProfile?.equipment ?? ["bodyweight"]) as string[]);
+        const customExercises = await storage.getCustomExercises(userId);
+        const { allowed } = applyExerciseConstraints(
+          filterExercises({ equipment }, [...EXERCISE_LIBRARY, ...customExercises.map(customExerciseToDefinition)]),
+          normalizeExerciseConstraints(updates.exerciseConstraints),
+        );
+        if (allowed.length < MIN_CONSTRAINED_EXERCISES) {
+          return res.status(400).json({
+            message: `These constraints leave only ${allowed.length} exercises for your equipment. Keep at least ${MIN_CONSTRAINED_EXERCISES} available.`,
+          });
+        }
+      }
+
+      // A level change resets the baseline, so replays of older sessions keep the chosen score
+      const baseline = updates.skillScore !== undefined ? { skillBaseline: updates.skillScore, skillBaselineAt: new Date() } : {};
+      const profile = await storage.updateProfile(userId, { ...updates, ...baseline });
       res.json(profile);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -137,156 +224,428 @@ export async function registerRoutes(
     }
   });
 
-  // ==================== WORKOUT GENERATOR ====================
-  app.get('/api/workout/generate', requireAuth, async (req: any, res) => {
+  // ==================== EXERCISE LIBRARY ====================
+  app.get('/api/exercises', requireAuth, async (req: any, res) => {
     try {
       const userId = req.user!.id;
-      const profile = await storage.getProfile(userId);
+      const query = exerciseLibraryQuerySchema.parse(req.query);
+      const customExercises = await storage.getCustomExercises(userId);
+      const exercises = filterExercises(
+        {
+          equipment: query.equipment ? migrateEquipment(query.equipment) : undefined,
+          muscleGroup: query.muscleGroup,
+          category: query.category,
+          difficulty: query.difficulty,
+        },
+        [...EXERCISE_LIBRARY, ...customExercises.map(customExerciseToDefinition)],
+      );
+      res.json(exercises);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid exercise filters", errors: error.errors });
+      }
+      console.error("Error fetching exercises:", error);
+      res.status(500).json({ message: "Failed to fetch exercises" });
+    }
+  });
 
-      if (!profile) {
-        return res.status(404).json({ message: "Profile not found. Please complete onboarding first." });
+  app.get('/api/exercises/custom', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const exercises = await storage.getCustomExercises(userId);
+      res.json(exercises);
+    } catch (error) {
+      console.error("Error fetching custom exercises:", error);
+      res.status(500).json({ message: "Failed to fetch custom exercises" });
+    }
+  });
+
+  app.post('/api/exercises/custom', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const exerciseData = insertCustomExerciseSchema.parse({ ...req.body, userId });
+
+      // Custom names share the stats/mastery/PR namespace with the built-in catalog
+      if (getExerciseByName(exerciseData.name)) {
+        return res.status(409).json({ message: "An exercise with this name already exists in the library" });
       }
 
-      const history = await storage.getWorkoutSessions(userId);
-      const exerciseStats = await storage.getExerciseStats(userId);
-      
-      // Fetch additional personalization data
-      const recoveryRecords = await storage.getMuscleGroupRecovery(userId);
-      const allMuscleGroups = new Set<string>();
-      history.forEach(s => s.rounds.forEach(r => allMuscleGroups.add(r.targetMuscleGroup)));
-      const recoveryScores = await getRecoveryScores(userId, Array.from(allMuscleGroups));
-      
-      const masteryRecords = await storage.getExerciseMastery(userId);
-      const masteryScores = new Map<string, number>();
-      masteryRecords.forEach(m => masteryScores.set(m.exerciseName, m.masteryScore));
-      
-      const weekStart = getWeekStart(new Date());
-      const periodization = await storage.getWeeklyPeriodization(userId, weekStart);
-      const weeklyVolume = periodization?.muscleGroupVolume ?? {};
-      
-      const personalization = buildPersonalizationInsights(
-        history, 
-        8, 
-        exerciseStats,
-        recoveryScores,
-        masteryScores,
-        weeklyVolume
-      );
+      const existing = await storage.getCustomExercises(userId);
+      if (existing.some((exercise) => exercise.name.toLowerCase() === exerciseData.name.toLowerCase())) {
+        return res.status(409).json({ message: "You already have a custom exercise with this name" });
+      }
 
-      const requestIntent = workoutGenerationRequestSchema.parse(req.query);
+      const exercise = await storage.createCustomExercise({
+        ...exerciseData,
+        equipment: migrateEquipment(exerciseData.equipment),
+      });
+      res.status(201).json(exercise);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid custom exercise", errors: error.errors });
+      }
+      console.error("Error creating custom exercise:", error);
+      res.status(500).json({ message: "Failed to create custom exercise" });
+    }
+  });
 
-      // Check for framework override from query parameter
-      const frameworkOverride = requestIntent.framework;
+  app.patch('/api/exercises/custom/:id', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const exerciseId = z.string().uuid().parse(req.params.id);
+      const updates = insertCustomExerciseSchema.partial().omit({ userId: true }).parse(req.body);
 
-      const sessionIntent = {
-        focusToday: requestIntent.focusToday,
-        energyLevel: requestIntent.energyLevel,
-        intentNote: requestIntent.intentNote,
-      };
+      if (updates.name) {
+        const name = updates.name.toLowerCase();
+        const existing = await storage.getCustomExercises(userId);
+        if (
+          getExerciseByName(updates.name) ||
+          existing.some((exercise) => exercise.id !== exerciseId && exercise.name.toLowerCase() === name)
+        ) {
+          return res.status(409).json({ message: "An exercise with this name already exists" });
+        }
+      }
 
-      const currentTimeBlock = categorizeTimeBlock(new Date());
-      const recommendedTimeBlock =
-        profile.optimalTimeBlock ?? personalization.timeBlockBias?.optimalTimeBlock ?? currentTimeBlock;
-      const recommendedPerformance =
-        recommendedTimeBlock && personalization.timeBlockBias?.performanceByBlock?.[recommendedTimeBlock];
+      const exercise = await storage.updateCustomExercise(userId, exerciseId, {
+        ...updates,
+        equipment: updates.equipment ? migrateEquipment(updates.equipment) : undefined,
+      });
 
-      // Get framework preferences for selection
-      const frameworkPrefs = await getFrameworkPreferences(userId);
-      const goalFramework = pickFrameworkForGoal(profile.primaryGoal ?? null) as any;
+      if (!exercise) {
+        return res.status(404).json({ message: "Custom exercise not found" });
+      }
 
-      let selectedFramework: string;
-      if (frameworkOverride && ['EMOM', 'Tabata', 'AMRAP', 'Circuit'].includes(frameworkOverride)) {
-        // User explicitly chose a framework (from Workout Lab)
-        selectedFramework = frameworkOverride.toLowerCase();
-      } else {
-        // Use framework preferences with goal-based fallback
-        selectedFramework = selectFrameworkWithPreferences(goalFramework, frameworkPrefs, 0.15).toLowerCase();
+      res.json(exercise);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+      }
+      console.error("Error updating custom exercise:", error);
+      res.status(500).json({ message: "Failed to update custom exercise" });
+    }
+  });
 
-        // Allow intent to gently steer the framework choice when no override is present
-        if (sessionIntent.energyLevel === "low" && selectedFramework === "tabata") {
-          selectedFramework = "circuit";
-        }
-        if (sessionIntent.focusToday?.toLowerCase().includes("mobility") && selectedFramework === "tabata") {
-          selectedFramework = "circuit";
-        }
+  app.delete('/api/exercises/custom/:id', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const exerciseId = z.string().uuid().parse(req.params.id);
+      const deleted = await storage.deleteCustomExercise(userId, exerciseId);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Custom exercise not found" });
       }
 
-      // Get streak status for adjustments
-      const streakStatus = getStreakStatus(history);
-
-      // Generate workout using appropriate framework generator
-      let workout;
-      const commonParams = [
-        profile.skillScore,
-        profile.fitnessLevel,
-        profile.equipment as string[],
-        profile.goalFocus ?? null,
-        profile.primaryGoal ?? null,
-        profile.goalWeights ?? undefined,
-        personalization,
-        sessionIntent,
-        history, // Pass history for progressive overload
-      ] as const;
-
-      switch (selectedFramework) {
-        case 'tabata':
-          workout = generateTabataWorkout(...commonParams);
-          break;
-        case 'amrap':
-          workout = generateAMRAPWorkout(...commonParams);
-          break;
-        case 'circuit':
-          workout = generateCircuitWorkout(...commonParams);
-          break;
-        case 'emom':
-        default:
-          workout = generateEMOMWorkout(...commonParams);
-          break;
-      }
-
-      // Apply streak-aware adjustments
-      workout = applyStreakAdjustments(workout, streakStatus);
-
-      const frameworkReason = frameworkOverride
-        ? `Framework pinned to ${frameworkOverride} from user selection.`
-        : `AI selected ${selectedFramework.toUpperCase()} based on goals and intent.`;
-
-      const timeBlockHint = recommendedPerformance?.sampleSize
-        ? `Best results in the ${recommendedTimeBlock} block (${(recommendedPerformance.averageHitRate * 100).toFixed(0)}% hit-rate, Δ ${(recommendedPerformance.deltaHitRate * 100).toFixed(1)} vs avg over ${recommendedPerformance.sampleSize} sessions).`
-        : `Biasing toward your ${recommendedTimeBlock} window for better adherence.`;
-
-      workout.rationale = {
-        framework: `${frameworkReason} ${workout.rationale?.framework ?? ""}`.trim(),
-        intensity:
-          workout.rationale?.intensity ??
-          `Intensity calibrated to profile skill (${profile.skillScore}) and energy (${sessionIntent.energyLevel ?? "moderate"}).`,
-        exerciseSelection:
-          workout.rationale?.exerciseSelection ??
-          `Exercises filtered for available equipment and tuned toward ${sessionIntent.focusToday ?? profile.goalFocus ?? "general"} focus.`,
-        schedule:
-          recommendedTimeBlock === currentTimeBlock
-            ? `Sticking with your ${recommendedTimeBlock} groove where you perform best.`
-            : `Plan this for the ${recommendedTimeBlock} window to match your best-performing block.`,
-      };
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(404).json({ message: "Custom exercise not found" });
+      }
+      console.error("Error deleting custom exercise:", error);
+      res.status(500).json({ message: "Failed to delete custom exercise" });
+    }
+  });
+
+  // ==================== WORKOUT GENERATOR ====================
+  // Shared by the preview (GET) and persisted (POST) generate routes; returns null when no profile exists
+  const buildWorkout = async (userId: string, rawRequest: unknown): Promise<GeneratedWorkout | null> => {
+    const profile = await storage.getProfile(userId);
+    if (!profile) return null;
+
+    const history = await storage.getWorkoutSessions(userId);
+    const exerciseStats = await storage.getExerciseStats(userId);
+    
+    // Fetch additional personalization data
+    const recoveryRecords = await storage.getMuscleGroupRecovery(userId);
+    const allMuscleGroups = new Set<string>();
+    history.forEach(s => s.rounds.forEach(r => allMuscleGroups.add(r.targetMuscleGroup)));
+    const recoveryScores = await getRecoveryScores(userId, Array.from(allMuscleGroups));
+    
+    const customExercises = await storage.getCustomExercises(userId);
+
+    const masteryRecords = await storage.getExerciseMastery(userId);
+    const masteryScores = new Map<string, number>();
+    masteryRecords.forEach(m => masteryScores.set(m.exerciseName, m.masteryScore));
+    
+    const requestIntent = workoutGenerationRequestSchema.parse(rawRequest);
+
+    // Check for framework override from the request
+    const frameworkOverride = requestIntent.framework;
+
+    // An active program sets today's framework, intensity and focus unless the user picked another framework
+    const programStatus = await getProgramStatus(userId);
+    const programDay =
+      programStatus?.today && (!frameworkOverride || frameworkOverride === programStatus.today.framework)
+        ? programStatus.today
+        : null;
+
+    const weekStart = getWeekStart(new Date());
+    const periodization = await storage.getWeeklyPeriodization(userId, weekStart);
+    const weeklyVolume = periodization?.muscleGroupVolume ?? {};
+
+    // Program weeks carry their own loading, so the mesocycle phase only applies outside a program
+    const mesocycle = programDay ? undefined : await getCurrentMesocycle(userId);
+    
+    const personalization = buildPersonalizationInsights(
+      history, 
+      8, 
+      exerciseStats,
+      recoveryScores,
+      masteryScores,
+      weeklyVolume,
+      mesocycle
+    );
+
+    const sessionIntent = {
+      focusToday: requestIntent.focusToday ?? programDay?.focus,
+      energyLevel: requestIntent.energyLevel ?? programDay?.intensity,
+      intentNote: requestIntent.intentNote,
+    };
+
+    const currentTimeBlock = categorizeTimeBlock(new Date());
+    const recommendedTimeBlock =
+      profile.optimalTimeBlock ?? personalization.timeBlockBias?.optimalTimeBlock ?? currentTimeBlock;
+    const recommendedPerformance =
+      recommendedTimeBlock && personalization.timeBlockBias?.performanceByBlock?.[recommendedTimeBlock];
+
+    // Seed drives every random choice below so a workout can be reproduced exactly
+    const seed = requestIntent.seed ?? generateSeed();
+    const random = createSeededRandom(seed);
+
+    // Get framework preferences for selection
+    const frameworkPrefs = await getFrameworkPreferences(userId);
+    const goalFramework = pickFrameworkForGoal(profile.primaryGoal ?? null, random);
 
-      workout.recommendedTimeBlock = recommendedTimeBlock;
-      workout.timeBlockHint = timeBlockHint;
+    let selectedFramework: string;
+    if (programDay) {
+      selectedFramework = programDay.framework.toLowerCase();
+    } else if (frameworkOverride && ['EMOM', 'Tabata', 'AMRAP', 'Circuit', 'Ladder', 'ForTime'].includes(frameworkOverride)) {
+      // User explicitly chose a framework (from Workout Lab)
+      selectedFramework = frameworkOverride.toLowerCase();
+    } else {
+      // Use framework preferences with goal-based fallback
+      selectedFramework = selectFrameworkWithPreferences(goalFramework, frameworkPrefs, 0.15, random).toLowerCase();
+
+      // Allow intent to gently steer the framework choice when no override is present
+      if (sessionIntent.energyLevel === "low" && selectedFramework === "tabata") {
+        selectedFramework = "circuit";
+      }
+      if (sessionIntent.focusToday?.toLowerCase().includes("mobility") && selectedFramework === "tabata") {
+        selectedFramework = "circuit";
+      }
+    }
+
+    // Get streak status for adjustments
+    const streakStatus = getStreakStatus(history);
+
+    // Generate workout using appropriate framework generator
+    let workout;
+    const commonParams = [
+      profile.skillScore,
+      profile.fitnessLevel,
+      profile.equipment as string[],
+      profile.goalFocus ?? null,
+      profile.primaryGoal ?? null,
+      profile.goalWeights ?? undefined,
+      personalization,
+      sessionIntent,
+      history, // Pass history for progressive overload
+      seed,
+      customExercises.map(customExerciseToDefinition),
+      normalizeExerciseConstraints(profile.exerciseConstraints),
+    ] as const;
+
+    switch (selectedFramework) {
+      case 'tabata':
+        workout = generateTabataWorkout(...commonParams);
+        break;
+      case 'amrap':
+        workout = generateAMRAPWorkout(...commonParams);
+        break;
+      case 'circuit':
+        workout = generateCircuitWorkout(...commonParams);
+        break;
+      case 'ladder':
+        workout = generateLadderWorkout(...commonParams);
+        break;
+      case 'fortime':
+        workout = generateForTimeWorkout(...commonParams);
+        break;
+      case 'emom':
+      default:
+        workout = generateEMOMWorkout(...commonParams);
+        break;
+    }
+
+    // Apply streak-aware adjustments
+    workout = applyStreakAdjustments(workout, streakStatus);
+
+    const frameworkReason = programDay
+      ? `${programDay.framework} is scheduled for this ${programDay.programName} session.`
+      : frameworkOverride
+      ? `Framework pinned to ${frameworkOverride} from user selection.`
+      : `AI selected ${selectedFramework.toUpperCase()} based on goals and intent.`;
+
+    const timeBlockHint = recommendedPerformance?.sampleSize
+      ? `Best results in the ${recommendedTimeBlock} block (${(recommendedPerformance.averageHitRate * 100).toFixed(0)}% hit-rate, Δ ${(recommendedPerformance.deltaHitRate * 100).toFixed(1)} vs avg over ${recommendedPerformance.sampleSize} sessions).`
+      : `Biasing toward your ${recommendedTimeBlock} window for better adherence.`;
+
+    workout.rationale = {
+      framework: `${frameworkReason} ${workout.rationale?.framework ?? ""}`.trim(),
+      intensity:
+        workout.rationale?.intensity ??
+        `Intensity calibrated to profile skill (${profile.skillScore}) and energy (${sessionIntent.energyLevel ?? "moderate"}).`,
+      exerciseSelection:
+        workout.rationale?.exerciseSelection ??
+        `Exercises filtered for available equipment and tuned toward ${sessionIntent.focusToday ?? profile.goalFocus ?? "general"} focus.`,
+      schedule:
+        recommendedTimeBlock === currentTimeBlock
+          ? `Sticking with your ${recommendedTimeBlock} groove where you perform best.`
+          : `Plan this for the ${recommendedTimeBlock} window to match your best-performing block.`,
+    };
+
+    if (mesocycle) {
+      workout.rationale.intensity = `${workout.rationale.intensity} ${mesocycle.explanation}`;
+    }
+
+    workout.recommendedTimeBlock = recommendedTimeBlock;
+    workout.timeBlockHint = timeBlockHint;
+
+    if (programDay) {
+      workout = applyProgramDay(workout, programDay);
+    }
+
+    return workout;
+  };
+
+  app.get('/api/workout/generate', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const workout = await buildWorkout(userId, req.query);
+
+      if (!workout) {
+        return res.status(404).json({ message: "Profile not found. Please complete onboarding first." });
+      }
 
       res.json(workout);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid generation request", errors: error.errors });
+      }
       console.error("Error generating workout:", error);
       res.status(500).json({ message: "Failed to generate workout" });
     }
   });
 
+  app.post('/api/workout/generate', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const workout = await buildWorkout(userId, req.body ?? {});
+
+      if (!workout) {
+        return res.status(404).json({ message: "Profile not found. Please complete onboarding first." });
+      }
+
+      const record = await storage.createGeneratedWorkout(userId, workout);
+      res.status(201).json({ ...record.workout, id: record.id });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid generation request", errors: error.errors });
+      }
+      console.error("Error generating workout:", error);
+      res.status(500).json({ message: "Failed to generate workout" });
+    }
+  });
+
+  // Manual builder (Workout Lab): persist a user-assembled workout so it runs and saves like a generated one
+  app.post('/api/workout/build', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const buildRequest = manualWorkoutRequestSchema.parse(req.body);
+
+      const profile = await storage.getProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found. Please complete onboarding first." });
+      }
+
+      const customExercises = await storage.getCustomExercises(userId);
+      const exercisePool = [...EXERCISE_LIBRARY, ...customExercises.map(customExerciseToDefinition)];
+      const knownIds = new Set(exercisePool.map((exercise) => exercise.id));
+      const unknownIds = buildRequest.slots.filter((slot) => !knownIds.has(slot.exerciseId)).map((slot) => slot.exerciseId);
+      if (unknownIds.length > 0) {
+        return res.status(400).json({ message: `Unknown exercise: ${unknownIds.join(", ")}` });
+      }
+
+      const workout = buildManualWorkout(buildRequest, exercisePool, profile.skillScore);
+      const record = await storage.createGeneratedWorkout(userId, workout);
+      res.status(201).json({ ...record.workout, id: record.id });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid workout build", errors: error.errors });
+      }
+      console.error("Error building workout:", error);
+      res.status(500).json({ message: "Failed to build workout" });
+    }
+  });
+
+  // Interchange import: coach-written workouts mapped onto the catalog, then laid out by the manual builder
+  app.post('/api/workout/import', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const document = workoutInterchangeSchema.parse(req.body);
+
+      const profile = await storage.getProfile(userId);
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found. Please complete onboarding first." });
+      }
+
+      const customExercises = await storage.getCustomExercises(userId);
+      const exercisePool = [...EXERCISE_LIBRARY, ...customExercises.map(customExerciseToDefinition)];
+      const { request, warnings, unmatched } = resolveInterchangeWorkout(document, exercisePool);
+      if (unmatched.length > 0) {
+        return res.status(400).json({ message: `No catalog match for: ${unmatched.join(", ")}`, unmatched });
+      }
+
+      const built = buildManualWorkout(request, exercisePool, profile.skillScore);
+      const workout: GeneratedWorkout = {
+        ...built,
+        rationale: {
+          ...built.rationale!,
+          framework: `Imported${document.author ? ` from ${document.author}` : ""} as a ${built.durationMinutes} min ${document.framework}.`,
+          intensity: "Reps and timing set by the workout file; no automatic scaling applied.",
+        },
+        source: "import",
+      };
+      const record = await storage.createGeneratedWorkout(userId, workout);
+      const result: WorkoutImportResult = { workout: { ...record.workout, id: record.id }, warnings };
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid workout file", errors: error.errors });
+      }
+      console.error("Error importing workout:", error);
+      res.status(500).json({ message: "Failed to import workout" });
+    }
+  });
+
   // ==================== WORKOUT SESSION ROUTES ====================
   app.post('/api/workout/session', requireAuth, async (req: any, res) => {
     try {
       const userId = req.user!.id;
-      const timeBlock = categorizeTimeBlock(new Date());
 
       // Extract session data and rounds from request
-      const { rounds, perceivedExertion, notes, ...sessionData } = req.body;
+      const { rounds, perceivedExertion, notes, completedAt, ...sessionData } = req.body;
+      const idempotencyKey = req.get("Idempotency-Key") ?? sessionData.idempotencyKey;
+
+      // A retry of a save whose response was lost gets the stored session back, even when
+      // the payload would no longer pass validation (e.g. it is now too old to log)
+      if (typeof idempotencyKey === "string" && idempotencyKey.trim()) {
+        const duplicate = await findDuplicateSave(userId, idempotencyKey.trim());
+        if (duplicate) return res.json(duplicate);
+      }
+
+      // Sessions synced from the offline queue are dated when they were finished, not when they arrive
+      const performedAt = completedAt == null ? new Date() : sessionCompletedAtSchema.parse(completedAt);
+      const timeBlock = categorizeTimeBlock(performedAt);
 
       if (!Array.isArray(rounds)) {
         return res
@@ -302,6 +661,7 @@ export async function registerRoutes(
         notes,
         completed: true,
         timeBlock,
+        idempotencyKey,
       });
 
       const parsedRounds = workoutRoundsArraySchema.safeParse(rounds);
@@ -309,84 +669,51 @@ export async function registerRoutes(
       if (!parsedRounds.success) {
         return res.status(400).json({ message: "Invalid rounds data", errors: parsedRounds.error.errors });
       }
-      
-      // Create workout session
-      const session = await storage.createWorkoutSession(validatedSession);
-
-      // Create workout rounds
-      const roundsData = parsedRounds.data.map((round) => ({
-        sessionId: session.id,
-        minuteIndex: round.minuteIndex,
-        exerciseName: round.exerciseName,
-        targetMuscleGroup: round.targetMuscleGroup,
-        difficulty: round.difficulty,
-        reps: round.reps,
-        isHold: Boolean(round.isHold),
-        alternatesSides: Boolean(round.alternatesSides),
-        actualReps: round.actualReps ?? null,
-        actualSeconds: round.actualSeconds ?? null,
-        skipped: Boolean(round.skipped),
-      }));
-      
-      await storage.createWorkoutRounds(roundsData);
-
-      // Update exercise-level stats for personalization
-      const exerciseSummaries = aggregateExerciseOutcomes(
-        roundsData as Array<
-          Pick<
-            (typeof roundsData)[number],
-            "exerciseName" | "reps" | "actualReps" | "actualSeconds" | "skipped" | "isHold"
-          >
-        >,
-      );
-      await storage.upsertExerciseStats(userId, exerciseSummaries);
-      
-      const profile = await storage.getProfile(userId);
-      const history = await storage.getWorkoutSessions(userId);
-      const sessionWithRounds = { ...session, rounds: roundsData as any };
-
-      // Update personal records
-      await updatePersonalRecords(userId, session, roundsData as any);
-
-      // Update mastery scores
-      const exerciseStats = await storage.getExerciseStats(userId);
-      await updateMasteryScores(userId, sessionWithRounds, history, exerciseStats);
-
-      // Update recovery scores
-      await updateRecoveryAfterWorkout(userId, session, roundsData as any);
-
-      // Update weekly volume
-      await updateWeeklyVolume(userId, session, roundsData as any);
-
-      // Update framework preferences
-      await updateFrameworkPreference(userId, sessionWithRounds, history);
-
-      if (profile) {
-        const profileUpdates: Partial<InsertProfile> = {};
-
-        const { performanceByBlock, optimalTimeBlock } = computeTimeBlockPerformance(history);
-        profileUpdates.timeBlockPerformance = performanceByBlock as InsertProfile["timeBlockPerformance"];
-        profileUpdates.optimalTimeBlock = optimalTimeBlock as InsertProfile["optimalTimeBlock"];
-
-        // Update skill score based on RPE
-        if (perceivedExertion || roundsData.length) {
-          const sessionPerformance = summarizeSessionPerformance(roundsData as any, perceivedExertion);
-          const performanceHistory = history.map((previousSession) =>
-            summarizeSessionPerformance(previousSession.rounds as any, previousSession.perceivedExertion)
-          );
-          if (performanceHistory.length) {
-            performanceHistory[0] = sessionPerformance; // ensure freshest data for the newest session
-          }
-          const newSkillScore = updateSkillScore(profile.skillScore, performanceHistory);
-          profileUpdates.skillScore = newSkillScore;
-        }
 
-        if (Object.keys(profileUpdates).length) {
-          await storage.updateProfile(userId, profileUpdates);
+      // Finish time / reps at cap only describe For Time sessions; a capped attempt without
+      // an explicit count falls back to the reps logged on non-skipped rounds
+      if (validatedSession.framework !== "ForTime") {
+        validatedSession.finishSeconds = null;
+        validatedSession.repsAtCap = null;
+      } else if (validatedSession.finishSeconds) {
+        validatedSession.repsAtCap = null;
+      } else if (validatedSession.repsAtCap == null) {
+        validatedSession.repsAtCap = parsedRounds.data
+          .filter((round) => !round.skipped)
+          .reduce((sum, round) => sum + (round.actualReps ?? round.reps), 0);
+      }
+
+      // AMRAP score (rounds + reps) only describes AMRAP sessions
+      if (validatedSession.framework !== "AMRAP") {
+        validatedSession.amrapRounds = null;
+        validatedSession.amrapReps = null;
+      } else if (validatedSession.amrapRounds != null) {
+        validatedSession.amrapReps = validatedSession.amrapReps ?? 0;
+        // Each completed round is logged as a full copy of the circuit
+        if (validatedSession.amrapRounds * parsedRounds.data.length > MAX_AMRAP_LOGGED_ROUNDS) {
+          return res.status(400).json({ message: "AMRAP score has too many rounds for this circuit" });
         }
+      } else {
+        validatedSession.amrapReps = null;
+      }
+
+      // Only link sessions to generated workouts the user owns
+      const generated = validatedSession.generatedWorkoutId
+        ? await storage.getGeneratedWorkout(userId, validatedSession.generatedWorkoutId)
+        : undefined;
+      if (validatedSession.generatedWorkoutId && !generated) {
+        return res.status(400).json({ message: "Unknown generated workout" });
       }
+      
+      // Session, rounds, derived tables and program progress are written in one transaction
+      const summary = await saveWorkoutSession(
+        userId,
+        { ...validatedSession, createdAt: performedAt },
+        parsedRounds.data,
+        { generatedWorkout: generated }
+      );
 
-      res.status(201).json(session);
+      res.status(summary.duplicate ? 200 : 201).json(summary);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid session data", errors: error.errors });
@@ -396,6 +723,233 @@ export async function registerRoutes(
     }
   });
 
+  // Correct a logged session; derived state is replayed since the session may be anywhere in history
+  app.patch('/api/workout/session/:id', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const sessionId = z.string().uuid().parse(req.params.id);
+      const { rounds, ...sessionUpdates } = updateWorkoutSessionSchema.parse(req.body);
+
+      const existing = await storage.getWorkoutSession(userId, sessionId);
+      if (!existing) {
+        return res.status(404).json({ message: "Workout session not found" });
+      }
+
+      const roundIds = new Set(existing.rounds.map((round) => round.id));
+      if (rounds?.some((round) => !roundIds.has(round.id))) {
+        return res.status(400).json({ message: "Rounds must belong to this session" });
+      }
+
+      // The correction and the replay it triggers commit together; notes feed no derived state
+      const affectsDerivedState = sessionUpdates.perceivedExertion !== undefined || Boolean(rounds?.length);
+      await storage.transaction(async (tx) => {
+        if (Object.keys(sessionUpdates).length) {
+          await tx.updateWorkoutSession(sessionId, sessionUpdates);
+        }
+        if (rounds?.length) {
+          await tx.updateWorkoutRounds(sessionId, rounds);
+        }
+        if (affectsDerivedState) {
+          await rebuildDerivedState(userId, {}, tx);
+        }
+      });
+
+      res.json(await storage.getWorkoutSession(userId, sessionId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid session update", errors: error.errors });
+      }
+      console.error("Error updating workout session:", error);
+      res.status(500).json({ message: "Failed to update workout session" });
+    }
+  });
+
+  app.get('/api/workout/session/:id/export', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const { format } = sessionExportQuerySchema.parse(req.query);
+      const sessionId = z.string().uuid().safeParse(req.params.id);
+
+      const session = sessionId.success ? await storage.getWorkoutSession(userId, sessionId.data) : undefined;
+      if (!session) {
+        return res.status(404).json({ message: "Workout session not found" });
+      }
+
+      const activity = sessionToActivity(session);
+      const filename = `hiit-lab-${activity.startTime.toISOString().slice(0, 10)}-${session.id.slice(0, 8)}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "fit") {
+        res.type("application/vnd.ant.fit").send(activityToFit(activity));
+      } else {
+        res.type("application/vnd.garmin.tcx+xml").send(activityToTcx(activity));
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export format", errors: error.errors });
+      }
+      console.error("Error exporting workout session:", error);
+      res.status(500).json({ message: "Failed to export workout session" });
+    }
+  });
+
+  app.delete('/api/workout/session/:id', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const sessionId = z.string().uuid().safeParse(req.params.id);
+
+      const deleted =
+        sessionId.success &&
+        (await storage.transaction(async (tx) => {
+          if (!(await tx.deleteWorkoutSession(userId, sessionId.data))) return false;
+          await rebuildDerivedState(userId, {}, tx);
+          return true;
+        }));
+      if (!deleted) {
+        return res.status(404).json({ message: "Workout session not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting workout session:", error);
+      res.status(500).json({ message: "Failed to delete workout session" });
+    }
+  });
+
+  // ==================== DERIVED STATE ====================
+  // Replay the user's session history into stats, records, mastery, recovery, volume and preferences
+  app.post('/api/derived-state/rebuild', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const { dryRun } = z.object({ dryRun: z.boolean().default(false) }).parse(req.body ?? {});
+      const report = await rebuildDerivedState(userId, { dryRun });
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rebuild options", errors: error.errors });
+      }
+      console.error("Error rebuilding derived state:", error);
+      res.status(500).json({ message: "Failed to rebuild derived state" });
+    }
+  });
+
+  // ==================== DATA EXPORT ====================
+  app.get('/api/export', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const { format } = exportQuerySchema.parse(req.query);
+      const data = await buildWorkoutExport(userId);
+      const filename = `hiit-lab-export-${data.exportedAt.slice(0, 10)}.${format}`;
+
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "csv") {
+        res.type("text/csv").send(workoutExportToCsv(data));
+      } else {
+        res.json(data);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export format", errors: error.errors });
+      }
+      console.error("Error exporting workout data:", error);
+      res.status(500).json({ message: "Failed to export workout data" });
+    }
+  });
+
+  // ==================== TRAINING PROGRAMS ====================
+  // Templates live in @shared/programs; the server only tracks each member's enrollment
+  app.get('/api/programs/enrollment', requireAuth, async (req: any, res) => {
+    try {
+      const status = await getProgramStatus(req.user!.id);
+      res.json(status);
+    } catch (error) {
+      console.error("Error fetching program enrollment:", error);
+      res.status(500).json({ message: "Failed to fetch program enrollment" });
+    }
+  });
+
+  // Enrolling again, in the same or another program, starts it from day one
+  app.post('/api/programs/enrollment', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const { programId } = programEnrollmentRequestSchema.parse(req.body);
+      await storage.startProgramEnrollment(userId, programId);
+      res.status(201).json(await getProgramStatus(userId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid program", errors: error.errors });
+      }
+      console.error("Error starting program:", error);
+      res.status(500).json({ message: "Failed to start program" });
+    }
+  });
+
+  app.delete('/api/programs/enrollment', requireAuth, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteProgramEnrollment(req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "No active program" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error leaving program:", error);
+      res.status(500).json({ message: "Failed to leave program" });
+    }
+  });
+
+  // ==================== CALENDAR FEED ====================
+  // Subscribable ICS of planned workouts; the feed URL itself is the credential
+  const calendarFeedUrl = (req: any, token: string) => `${req.protocol}://${req.get("host")}${calendarFeedPath(token)}`;
+
+  app.get('/api/calendar/feed', requireAuth, async (req: any, res) => {
+    try {
+      const feed = await storage.getCalendarFeed(req.user!.id);
+      res.json({ url: feed ? calendarFeedUrl(req, feed.token) : null });
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  // Creates the feed, or replaces its URL so old subscriptions stop working
+  app.post('/api/calendar/feed', requireAuth, async (req: any, res) => {
+    try {
+      const feed = await storage.setCalendarFeedToken(req.user!.id, randomBytes(24).toString("base64url"));
+      res.status(201).json({ url: calendarFeedUrl(req, feed.token) });
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+
+  app.delete('/api/calendar/feed', requireAuth, async (req: any, res) => {
+    try {
+      await storage.deleteCalendarFeed(req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting calendar feed:", error);
+      res.status(500).json({ message: "Failed to delete calendar feed" });
+    }
+  });
+
+  // Public: calendar apps cannot send auth headers
+  app.get('/api/calendar/:token.ics', async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      const profile = feed && (await storage.getProfile(feed.userId));
+      if (!feed || !profile) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      const preferences = await storage.getFrameworkPreferences(feed.userId);
+      const planned = planUpcomingWorkouts(profile, preferences);
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.type("text/calendar").send(buildCalendarFeed(feed.userId, planned));
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ message: "Failed to build calendar feed" });
+    }
+  });
+
   // ==================== PERSONAL RECORDS ====================
   app.get('/api/personal-records', requireAuth, async (req: any, res) => {
     try {
@@ -451,16 +1005,155 @@ export async function registerRoutes(
     }
   });
 
+  // This week's block periodization phase (accumulation, intensification or deload)
+  app.get('/api/mesocycle', requireAuth, async (req: any, res) => {
+    try {
+      const mesocycle = await getCurrentMesocycle(req.user!.id);
+      res.json(mesocycle);
+    } catch (error) {
+      console.error("Error fetching mesocycle:", error);
+      res.status(500).json({ message: "Failed to fetch mesocycle" });
+    }
+  });
+
   app.get('/api/workout/history', requireAuth, async (req: any, res) => {
     try {
       const userId = req.user!.id;
-      const sessions = await storage.getWorkoutSessions(userId);
-      res.json(sessions);
+      const query = workoutHistoryQuerySchema.parse(req.query);
+      const after = query.cursor ? decodeHistoryCursor(query.cursor) : undefined;
+      if (after === null) {
+        return res.status(400).json({ message: "Invalid history cursor" });
+      }
+
+      const page = await getWorkoutHistoryPage(userId, query, after);
+      res.json(page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid history filters", errors: error.errors });
+      }
       console.error("Error fetching workout history:", error);
       res.status(500).json({ message: "Failed to fetch workout history" });
     }
   });
 
+  // ==================== FAVORITE WORKOUTS ====================
+  app.get('/api/favorites', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const query = favoriteWorkoutQuerySchema.parse(req.query);
+      const favorites = await storage.getFavoriteWorkouts(userId, { search: query.q, tag: query.tag });
+      res.json(favorites);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid favorites filters", errors: error.errors });
+      }
+      console.error("Error fetching favorite workouts:", error);
+      res.status(500).json({ message: "Failed to fetch favorite workouts" });
+    }
+  });
+
+  app.post('/api/favorites', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const favoriteData = createFavoriteWorkoutSchema.parse(req.body);
+
+      // Snapshot the exact workout: prefer the persisted plan, fall back to rebuilding from session rounds
+      let workout: GeneratedWorkout | undefined;
+      let sourceSessionId: string | null = null;
+
+      if (favoriteData.workoutId) {
+        const record = await storage.getGeneratedWorkout(userId, favoriteData.workoutId);
+        workout = record?.workout;
+      } else if (favoriteData.sessionId) {
+        const session = await storage.getWorkoutSession(userId, favoriteData.sessionId);
+        if (session) {
+          sourceSessionId = session.id;
+          const record = session.generatedWorkoutId
+            ? await storage.getGeneratedWorkout(userId, session.generatedWorkoutId)
+            : undefined;
+          workout = record?.workout ?? sessionToWorkout(session);
+        }
+      }
+
+      if (!workout) {
+        return res.status(404).json({ message: "Workout not found" });
+      }
+
+      const favorite = await storage.createFavoriteWorkout({
+        userId,
+        name: favoriteData.name,
+        tags: Array.from(new Set(favoriteData.tags)),
+        framework: workout.framework,
+        workout: toWorkoutTemplate(workout),
+        sourceSessionId,
+      });
+      res.status(201).json(favorite);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid favorite workout", errors: error.errors });
+      }
+      console.error("Error saving favorite workout:", error);
+      res.status(500).json({ message: "Failed to save favorite workout" });
+    }
+  });
+
+  app.delete('/api/favorites/:id', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const favoriteId = z.string().uuid().safeParse(req.params.id);
+
+      if (!favoriteId.success || !(await storage.deleteFavoriteWorkout(userId, favoriteId.data))) {
+        return res.status(404).json({ message: "Favorite workout not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting favorite workout:", error);
+      res.status(500).json({ message: "Failed to delete favorite workout" });
+    }
+  });
+
+  // "Run again": persist a fresh copy so the runner and session save are bound to a workout ID as usual
+  app.post('/api/favorites/:id/run', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const favoriteId = z.string().uuid().safeParse(req.params.id);
+      const favorite = favoriteId.success ? await storage.getFavoriteWorkout(userId, favoriteId.data) : undefined;
+
+      if (!favorite) {
+        return res.status(404).json({ message: "Favorite workout not found" });
+      }
+
+      const record = await storage.createGeneratedWorkout(userId, toWorkoutTemplate(favorite.workout));
+      res.status(201).json({ ...record.workout, id: record.id });
+    } catch (error) {
+      console.error("Error starting favorite workout:", error);
+      res.status(500).json({ message: "Failed to start favorite workout" });
+    }
+  });
+
+  // Registered after the static /api/workout/* routes so ":id" never shadows them
+  app.get('/api/workout/:id', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const workoutId = z.string().uuid().safeParse(req.params.id);
+
+      if (!workoutId.success) {
+        return res.status(404).json({ message: "Workout not found" });
+      }
+
+      const record = await storage.getGeneratedWorkout(userId, workoutId.data);
+
+      if (!record) {
+        return res.status(404).json({ message: "Workout not found" });
+      }
+
+      res.json({ ...record.workout, id: record.id });
+    } catch (error) {
+      console.error("Error fetching workout:", error);
+      res.status(500).json({ message: "Failed to fetch workout" });
+    }
+  });
+
   return httpServer;
 }
@@ -1,4 +1,5 @@
 import {
+  users,
   profiles,
   workoutSessions,
   workoutRounds,
@@ -8,8 +9,16 @@ import {
   muscleGroupRecovery,
   weeklyPeriodization,
   frameworkPreferences,
+  generatedWorkouts,
+  customExercises,
+  favoriteWorkouts,
+  calendarFeeds,
+  programEnrollments,
+  type User,
+  type UpsertUser,
   type Profile,
   type InsertProfile,
+  type SkillBaseline,
   type WorkoutSession,
   type InsertWorkoutSession,
   type WorkoutRound,
@@ -26,26 +35,90 @@ import {
   type InsertWeeklyPeriodization,
   type FrameworkPreference,
   type InsertFrameworkPreference,
+  type GeneratedWorkout,
+  type GeneratedWorkoutRecord,
+  type CustomExercise,
+  type InsertCustomExercise,
+  type FavoriteWorkout,
+  type InsertFavoriteWorkout,
+  type CalendarFeed,
+  type ProgramEnrollment,
+  type WorkoutHistoryQuery,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, sql, and } from "drizzle-orm";
+import { db as defaultDb } from "./db";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import type { NeonQueryResultHKT } from "drizzle-orm/neon-serverless";
+import type * as schema from "@shared/schema";
+import { eq, desc, sql, and, ilike, gte, lte, inArray, isNull, type SQL } from "drizzle-orm";
 import type { EquipmentId } from "@shared/equipment";
+import type { ProgramId } from "@shared/programs";
+import { mergePersonalRecord } from "./utils/personalRecordMerge";
+import { MemStorage } from "./memStorage";
 
 type ProfileInsert = typeof profiles.$inferInsert;
 
+// The pool-backed database or an open transaction on it
+type DatabaseExecutor = PgDatabase<NeonQueryResultHKT, typeof schema>;
+
+// Every derived training table for one user, as rebuilt from session history
+export interface DerivedState {
+  exerciseStats: Array<Omit<InsertExerciseStat, "userId" | "id">>;
+  personalRecords: Array<Omit<InsertPersonalRecord, "userId" | "id">>;
+  exerciseMastery: Array<Omit<InsertExerciseMastery, "userId" | "id">>;
+  muscleGroupRecovery: Array<Omit<InsertMuscleGroupRecovery, "userId" | "id">>;
+  weeklyPeriodization: Array<Omit<InsertWeeklyPeriodization, "userId" | "id">>;
+  frameworkPreferences: Array<Omit<InsertFrameworkPreference, "userId" | "id">>;
+}
+
+export type WorkoutHistoryFilter = Pick<WorkoutHistoryQuery, "framework" | "focusLabel" | "completed" | "from" | "to">;
+
+// Position of the last session on the previous history page
+export interface WorkoutHistoryCursor {
+  createdAt: Date;
+  id: string;
+}
+
 export interface IStorage {
+  // Runs work against a storage bound to one transaction; it commits when work resolves
+  transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T>;
+
+  // User operations
+  createOrUpdateUser(user: UpsertUser): Promise<User>;
+  deleteUser(userId: string): Promise<void>; // Removes the account row and every piece of the user's data
+
   // Profile operations
   getProfile(userId: string): Promise<Profile | undefined>;
-  createProfile(profile: InsertProfile): Promise<Profile>;
-  updateProfile(userId: string, updates: Partial<Omit<InsertProfile, 'userId'>>): Promise<Profile>;
+  getProfileUserIds(): Promise<string[]>;
+  createProfile(profile: InsertProfile & Partial<SkillBaseline>): Promise<Profile>;
+  updateProfile(userId: string, updates: Partial<Omit<InsertProfile, 'userId'> & SkillBaseline>): Promise<Profile>;
 
   // Workout session operations
-  createWorkoutSession(session: InsertWorkoutSession): Promise<WorkoutSession>;
+  createWorkoutSession(session: InsertWorkoutSession & { createdAt?: Date }): Promise<WorkoutSession>;
   getWorkoutSessions(userId: string): Promise<(WorkoutSession & { rounds: WorkoutRound[] })[]>;
+  getWorkoutSession(userId: string, sessionId: string): Promise<(WorkoutSession & { rounds: WorkoutRound[] }) | undefined>;
+  getWorkoutSessionByIdempotencyKey(userId: string, idempotencyKey: string): Promise<WorkoutSession | undefined>;
+  // Newest-first sessions matching the filter, strictly after the cursor; rounds are loaded separately
+  getWorkoutSessionPage(
+    userId: string,
+    filter: WorkoutHistoryFilter,
+    limit: number,
+    after?: WorkoutHistoryCursor
+  ): Promise<WorkoutSession[]>;
+  getWorkoutSessionTotals(userId: string, filter: WorkoutHistoryFilter): Promise<{ count: number; minutes: number }>;
   updateWorkoutSession(sessionId: string, updates: Partial<InsertWorkoutSession>): Promise<WorkoutSession>;
+  deleteWorkoutSession(userId: string, sessionId: string): Promise<boolean>;
 
   // Workout rounds operations
   createWorkoutRounds(rounds: InsertWorkoutRound[]): Promise<WorkoutRound[]>;
+  getWorkoutRounds(sessionIds: string[]): Promise<WorkoutRound[]>;
+  updateWorkoutRounds(
+    sessionId: string,
+    updates: Array<{ id: string } & Partial<Pick<InsertWorkoutRound, "actualReps" | "actualSeconds" | "skipped">>>
+  ): Promise<WorkoutRound[]>;
+
+  // Derived training state (stats, records, mastery, recovery, volume, framework preferences)
+  getDerivedState(userId: string): Promise<DerivedState>;
+  replaceDerivedState(userId: string, state: DerivedState): Promise<void>;
 
   // Exercise performance stats
   upsertExerciseStats(userId: string, stats: Array<Omit<InsertExerciseStat, "userId" | "id">>): Promise<ExerciseStat[]>;
@@ -65,21 +138,94 @@ export interface IStorage {
 
   // Weekly periodization
   getWeeklyPeriodization(userId: string, weekStart?: Date): Promise<WeeklyPeriodization | undefined>;
+  getWeeklyPeriodizationHistory(userId: string): Promise<WeeklyPeriodization[]>; // Oldest week first
   upsertWeeklyPeriodization(userId: string, periodization: Omit<InsertWeeklyPeriodization, "userId" | "id">): Promise<WeeklyPeriodization>;
 
   // Framework preferences
   getFrameworkPreferences(userId: string): Promise<FrameworkPreference[]>;
   upsertFrameworkPreference(userId: string, preference: Omit<InsertFrameworkPreference, "userId" | "id">): Promise<FrameworkPreference>;
+
+  // Generated workouts
+  createGeneratedWorkout(userId: string, workout: GeneratedWorkout): Promise<GeneratedWorkoutRecord>;
+  getGeneratedWorkout(userId: string, workoutId: string): Promise<GeneratedWorkoutRecord | undefined>;
+
+  // Custom exercises
+  getCustomExercises(userId: string): Promise<CustomExercise[]>;
+  createCustomExercise(exercise: InsertCustomExercise): Promise<CustomExercise>;
+  updateCustomExercise(userId: string, exerciseId: string, updates: Partial<Omit<InsertCustomExercise, "userId">>): Promise<CustomExercise | undefined>;
+  deleteCustomExercise(userId: string, exerciseId: string): Promise<boolean>;
+
+  // Favorite workouts
+  getFavoriteWorkouts(userId: string, filter?: { search?: string; tag?: string }): Promise<FavoriteWorkout[]>;
+  getFavoriteWorkout(userId: string, favoriteId: string): Promise<FavoriteWorkout | undefined>;
+  createFavoriteWorkout(favorite: InsertFavoriteWorkout): Promise<FavoriteWorkout>;
+  deleteFavoriteWorkout(userId: string, favoriteId: string): Promise<boolean>;
+
+  // Calendar feeds
+  getCalendarFeed(userId: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  setCalendarFeedToken(userId: string, token: string): Promise<CalendarFeed>; // Creates or rotates
+  deleteCalendarFeed(userId: string): Promise<boolean>;
+
+  // Program enrollments
+  getProgramEnrollment(userId: string): Promise<ProgramEnrollment | undefined>;
+  startProgramEnrollment(userId: string, programId: ProgramId): Promise<ProgramEnrollment>; // Replaces any current program
+  // Moves the day pointer on only while it is still at fromDay, so a replayed save cannot skip a session
+  advanceProgramEnrollment(userId: string, fromDay: number, completed: boolean): Promise<ProgramEnrollment | undefined>;
+  deleteProgramEnrollment(userId: string): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: DatabaseExecutor = defaultDb) {}
+
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => work(new DatabaseStorage(tx)));
+  }
+
+  // User operations
+  async createOrUpdateUser(userData: UpsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values(userData)
+      .onConflictDoUpdate({
+        target: users.id,
+        set: { ...userData, updatedAt: new Date() },
+      })
+      .returning();
+    return user;
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(exerciseStats).where(eq(exerciseStats.userId, userId));
+      await tx.delete(personalRecords).where(eq(personalRecords.userId, userId));
+      await tx.delete(exerciseMastery).where(eq(exerciseMastery.userId, userId));
+      await tx.delete(muscleGroupRecovery).where(eq(muscleGroupRecovery.userId, userId));
+      await tx.delete(weeklyPeriodization).where(eq(weeklyPeriodization.userId, userId));
+      await tx.delete(frameworkPreferences).where(eq(frameworkPreferences.userId, userId));
+      await tx.delete(favoriteWorkouts).where(eq(favoriteWorkouts.userId, userId));
+      await tx.delete(workoutSessions).where(eq(workoutSessions.userId, userId)); // Rounds cascade
+      await tx.delete(generatedWorkouts).where(eq(generatedWorkouts.userId, userId));
+      await tx.delete(customExercises).where(eq(customExercises.userId, userId));
+      await tx.delete(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+      await tx.delete(programEnrollments).where(eq(programEnrollments.userId, userId));
+      await tx.delete(profiles).where(eq(profiles.userId, userId));
+      await tx.delete(users).where(eq(users.id, userId));
+    });
+  }
+
   // Profile operations
   async getProfile(userId: string): Promise<Profile | undefined> {
-    const [profile] = await db.select().from(profiles).where(eq(profiles.userId, userId));
+    const [profile] = await this.db.select().from(profiles).where(eq(profiles.userId, userId));
     return profile;
   }
 
-  async createProfile(profileData: InsertProfile): Promise<Profile> {
+  async getProfileUserIds(): Promise<string[]> {
+    const rows = await this.db.select({ userId: profiles.userId }).from(profiles);
+    return rows.map((row) => row.userId);
+  }
+
+  async createProfile(profileData: InsertProfile & Partial<SkillBaseline>): Promise<Profile> {
     const dbProfile: ProfileInsert = {
       ...profileData,
       equipment: profileData.equipment as EquipmentId[],
@@ -90,14 +236,14 @@ export class DatabaseStorage implements IStorage {
       timeBlockPerformance: profileData.timeBlockPerformance as ProfileInsert["timeBlockPerformance"],
     };
 
-    const [profile] = await db
+    const [profile] = await this.db
       .insert(profiles)
       .values(dbProfile)
       .returning();
     return profile;
   }
 
-  async updateProfile(userId: string, updates: Partial<Omit<InsertProfile, 'userId'>>): Promise<Profile> {
+  async updateProfile(userId: string, updates: Partial<Omit<InsertProfile, 'userId'> & SkillBaseline>): Promise<Profile> {
     const normalizedUpdates: Partial<ProfileInsert> = {
       ...updates,
       equipment: updates.equipment as EquipmentId[] | undefined,
@@ -107,7 +253,7 @@ export class DatabaseStorage implements IStorage {
       optimalTimeBlock: updates.optimalTimeBlock as ProfileInsert["optimalTimeBlock"],
       timeBlockPerformance: updates.timeBlockPerformance as ProfileInsert["timeBlockPerformance"],
     };
-    const [profile] = await db
+    const [profile] = await this.db
       .update(profiles)
       .set(normalizedUpdates)
       .where(eq(profiles.userId, userId))
@@ -116,13 +262,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Workout session operations
-  async createWorkoutSession(sessionData: InsertWorkoutSession): Promise<WorkoutSession> {
-    const [session] = await db.insert(workoutSessions).values(sessionData).returning();
+  async createWorkoutSession(sessionData: InsertWorkoutSession & { createdAt?: Date }): Promise<WorkoutSession> {
+    const [session] = await this.db.insert(workoutSessions).values(sessionData).returning();
     return session;
   }
 
   async getWorkoutSessions(userId: string): Promise<(WorkoutSession & { rounds: WorkoutRound[] })[]> {
-      const sessions = await db
+      const sessions = await this.db
         .select()
         .from(workoutSessions)
         .where(eq(workoutSessions.userId, userId))
@@ -130,7 +276,7 @@ export class DatabaseStorage implements IStorage {
 
       const sessionsWithRounds = await Promise.all(
         sessions.map(async (session) => {
-          const rounds = await db
+          const rounds = await this.db
             .select()
             .from(workoutRounds)
             .where(eq(workoutRounds.sessionId, session.id))
@@ -142,8 +288,76 @@ export class DatabaseStorage implements IStorage {
     return sessionsWithRounds;
   }
 
+  async getWorkoutSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<(WorkoutSession & { rounds: WorkoutRound[] }) | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(workoutSessions)
+      .where(and(eq(workoutSessions.id, sessionId), eq(workoutSessions.userId, userId)));
+    if (!session) return undefined;
+
+    const rounds = await this.db
+      .select()
+      .from(workoutRounds)
+      .where(eq(workoutRounds.sessionId, session.id))
+      .orderBy(workoutRounds.minuteIndex);
+    return { ...session, rounds };
+  }
+
+  async getWorkoutSessionByIdempotencyKey(userId: string, idempotencyKey: string): Promise<WorkoutSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(workoutSessions)
+      .where(and(eq(workoutSessions.userId, userId), eq(workoutSessions.idempotencyKey, idempotencyKey)));
+    return session;
+  }
+
+  private historyConditions(userId: string, filter: WorkoutHistoryFilter): SQL[] {
+    const conditions = [eq(workoutSessions.userId, userId)];
+    if (filter.framework) conditions.push(eq(workoutSessions.framework, filter.framework));
+    if (filter.focusLabel) conditions.push(eq(workoutSessions.focusLabel, filter.focusLabel));
+    if (filter.completed !== undefined) conditions.push(eq(workoutSessions.completed, filter.completed));
+    if (filter.from) conditions.push(gte(workoutSessions.createdAt, filter.from));
+    if (filter.to) conditions.push(lte(workoutSessions.createdAt, filter.to));
+    return conditions;
+  }
+
+  async getWorkoutSessionPage(
+    userId: string,
+    filter: WorkoutHistoryFilter,
+    limit: number,
+    after?: WorkoutHistoryCursor
+  ): Promise<WorkoutSession[]> {
+    // Pages are keyed on millisecond timestamps, the precision a cursor can carry
+    const createdAtMs = sql`date_trunc('milliseconds', ${workoutSessions.createdAt})`;
+    const conditions = this.historyConditions(userId, filter);
+    if (after) {
+      conditions.push(sql`(${createdAtMs}, ${workoutSessions.id}) < (${after.createdAt.toISOString()}::timestamp, ${after.id}::uuid)`);
+    }
+
+    return this.db
+      .select()
+      .from(workoutSessions)
+      .where(and(...conditions))
+      .orderBy(desc(createdAtMs), desc(workoutSessions.id))
+      .limit(limit);
+  }
+
+  async getWorkoutSessionTotals(userId: string, filter: WorkoutHistoryFilter): Promise<{ count: number; minutes: number }> {
+    const [totals] = await this.db
+      .select({
+        count: sql<number>`count(*)::int`,
+        minutes: sql<number>`coalesce(sum(${workoutSessions.durationMinutes}), 0)::int`,
+      })
+      .from(workoutSessions)
+      .where(and(...this.historyConditions(userId, filter)));
+    return totals;
+  }
+
   async updateWorkoutSession(sessionId: string, updates: Partial<InsertWorkoutSession>): Promise<WorkoutSession> {
-    const [session] = await db
+    const [session] = await this.db
       .update(workoutSessions)
       .set(updates)
       .where(eq(workoutSessions.id, sessionId))
@@ -151,12 +365,79 @@ export class DatabaseStorage implements IStorage {
     return session;
   }
 
+  async deleteWorkoutSession(userId: string, sessionId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(workoutSessions)
+      .where(and(eq(workoutSessions.id, sessionId), eq(workoutSessions.userId, userId)))
+      .returning({ id: workoutSessions.id });
+    return deleted.length > 0;
+  }
+
   // Workout rounds operations
   async createWorkoutRounds(roundsData: InsertWorkoutRound[]): Promise<WorkoutRound[]> {
-    const rounds = await db.insert(workoutRounds).values(roundsData).returning();
+    const rounds = await this.db.insert(workoutRounds).values(roundsData).returning();
     return rounds;
   }
 
+  async getWorkoutRounds(sessionIds: string[]): Promise<WorkoutRound[]> {
+    if (!sessionIds.length) return [];
+    return this.db
+      .select()
+      .from(workoutRounds)
+      .where(inArray(workoutRounds.sessionId, sessionIds))
+      .orderBy(workoutRounds.minuteIndex);
+  }
+
+  async updateWorkoutRounds(
+    sessionId: string,
+    updates: Array<{ id: string } & Partial<Pick<InsertWorkoutRound, "actualReps" | "actualSeconds" | "skipped">>>
+  ): Promise<WorkoutRound[]> {
+    const updated: WorkoutRound[] = [];
+    for (const { id, ...changes } of updates) {
+      if (!Object.keys(changes).length) continue;
+      const [round] = await this.db
+        .update(workoutRounds)
+        .set(changes)
+        .where(and(eq(workoutRounds.id, id), eq(workoutRounds.sessionId, sessionId)))
+        .returning();
+      if (round) updated.push(round);
+    }
+    return updated;
+  }
+
+  // Derived training state operations
+  async getDerivedState(userId: string): Promise<DerivedState> {
+    return {
+      exerciseStats: await this.db.select().from(exerciseStats).where(eq(exerciseStats.userId, userId)),
+      personalRecords: await this.db.select().from(personalRecords).where(eq(personalRecords.userId, userId)),
+      exerciseMastery: await this.db.select().from(exerciseMastery).where(eq(exerciseMastery.userId, userId)),
+      muscleGroupRecovery: await this.db.select().from(muscleGroupRecovery).where(eq(muscleGroupRecovery.userId, userId)),
+      weeklyPeriodization: await this.db
+        .select()
+        .from(weeklyPeriodization)
+        .where(eq(weeklyPeriodization.userId, userId))
+        .orderBy(weeklyPeriodization.weekStart),
+      frameworkPreferences: await this.db.select().from(frameworkPreferences).where(eq(frameworkPreferences.userId, userId)),
+    };
+  }
+
+  async replaceDerivedState(userId: string, state: DerivedState): Promise<void> {
+    await this.db.delete(exerciseStats).where(eq(exerciseStats.userId, userId));
+    await this.db.delete(personalRecords).where(eq(personalRecords.userId, userId));
+    await this.db.delete(exerciseMastery).where(eq(exerciseMastery.userId, userId));
+    await this.db.delete(muscleGroupRecovery).where(eq(muscleGroupRecovery.userId, userId));
+    await this.db.delete(weeklyPeriodization).where(eq(weeklyPeriodization.userId, userId));
+    await this.db.delete(frameworkPreferences).where(eq(frameworkPreferences.userId, userId));
+
+    const withUser = <T extends object>(rows: T[]) => rows.map((row) => ({ ...row, userId }));
+    if (state.exerciseStats.length) await this.db.insert(exerciseStats).values(withUser(state.exerciseStats));
+    if (state.personalRecords.length) await this.db.insert(personalRecords).values(withUser(state.personalRecords));
+    if (state.exerciseMastery.length) await this.db.insert(exerciseMastery).values(withUser(state.exerciseMastery));
+    if (state.muscleGroupRecovery.length) await this.db.insert(muscleGroupRecovery).values(withUser(state.muscleGroupRecovery));
+    if (state.weeklyPeriodization.length) await this.db.insert(weeklyPeriodization).values(withUser(state.weeklyPeriodization));
+    if (state.frameworkPreferences.length) await this.db.insert(frameworkPreferences).values(withUser(state.frameworkPreferences));
+  }
+
   async upsertExerciseStats(
     userId: string,
     stats: Array<Omit<InsertExerciseStat, "userId" | "id">>,
@@ -168,7 +449,7 @@ export class DatabaseStorage implements IStorage {
       userId,
     }));
 
-    const result = await db
+    const result = await this.db
       .insert(exerciseStats)
       .values(rows)
       .onConflictDoUpdate({
@@ -187,17 +468,17 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getExerciseStats(userId: string): Promise<ExerciseStat[]> {
-    return db.select().from(exerciseStats).where(eq(exerciseStats.userId, userId));
+    return this.db.select().from(exerciseStats).where(eq(exerciseStats.userId, userId));
   }
 
   // Personal records operations
   async getPersonalRecords(userId: string): Promise<PersonalRecord[]> {
-    return db.select().from(personalRecords).where(eq(personalRecords.userId, userId));
+    return this.db.select().from(personalRecords).where(eq(personalRecords.userId, userId));
   }
 
   async upsertPersonalRecord(userId: string, record: Omit<InsertPersonalRecord, "userId" | "id">): Promise<PersonalRecord> {
     // Check if record exists
-    const existing = await db
+    const existing = await this.db
       .select()
       .from(personalRecords)
       .where(eq(personalRecords.userId, userId))
@@ -206,25 +487,10 @@ export class DatabaseStorage implements IStorage {
 
     if (existing.length > 0) {
       const existingRecord = existing[0];
-      let shouldUpdate = false;
-      const updates: Partial<InsertPersonalRecord> = {};
-
-      // Check if new record is better
-      if (record.bestReps !== null && (existingRecord.bestReps === null || record.bestReps > existingRecord.bestReps)) {
-        updates.bestReps = record.bestReps;
-        updates.bestSessionId = record.bestSessionId;
-        updates.achievedAt = record.achievedAt;
-        shouldUpdate = true;
-      }
-      if (record.bestSeconds !== null && (existingRecord.bestSeconds === null || record.bestSeconds > existingRecord.bestSeconds)) {
-        updates.bestSeconds = record.bestSeconds;
-        updates.bestSessionId = record.bestSessionId;
-        updates.achievedAt = record.achievedAt;
-        shouldUpdate = true;
-      }
+      const updates = mergePersonalRecord(existingRecord, record);
 
-      if (shouldUpdate) {
-        const [updated] = await db
+      if (updates) {
+        const [updated] = await this.db
           .update(personalRecords)
           .set(updates)
           .where(eq(personalRecords.id, existingRecord.id))
@@ -234,7 +500,7 @@ export class DatabaseStorage implements IStorage {
       return existingRecord;
     } else {
       // Insert new record
-      const [newRecord] = await db
+      const [newRecord] = await this.db
         .insert(personalRecords)
         .values({ ...record, userId })
         .returning();
@@ -244,11 +510,11 @@ export class DatabaseStorage implements IStorage {
 
   // Exercise mastery operations
   async getExerciseMastery(userId: string): Promise<ExerciseMastery[]> {
-    return db.select().from(exerciseMastery).where(eq(exerciseMastery.userId, userId));
+    return this.db.select().from(exerciseMastery).where(eq(exerciseMastery.userId, userId));
   }
 
   async upsertExerciseMastery(userId: string, mastery: Omit<InsertExerciseMastery, "userId" | "id">): Promise<ExerciseMastery> {
-    const [em] = await db
+    const [em] = await this.db
       .insert(exerciseMastery)
       .values({ ...mastery, userId })
       .onConflictDoUpdate({
@@ -266,11 +532,11 @@ export class DatabaseStorage implements IStorage {
 
   // Muscle group recovery operations
   async getMuscleGroupRecovery(userId: string): Promise<MuscleGroupRecovery[]> {
-    return db.select().from(muscleGroupRecovery).where(eq(muscleGroupRecovery.userId, userId));
+    return this.db.select().from(muscleGroupRecovery).where(eq(muscleGroupRecovery.userId, userId));
   }
 
   async upsertMuscleGroupRecovery(userId: string, recovery: Omit<InsertMuscleGroupRecovery, "userId" | "id">): Promise<MuscleGroupRecovery> {
-    const [mgr] = await db
+    const [mgr] = await this.db
       .insert(muscleGroupRecovery)
       .values({ ...recovery, userId })
       .onConflictDoUpdate({
@@ -289,7 +555,7 @@ export class DatabaseStorage implements IStorage {
   // Weekly periodization operations
   async getWeeklyPeriodization(userId: string, weekStart?: Date): Promise<WeeklyPeriodization | undefined> {
     if (weekStart) {
-      const [wp] = await db
+      const [wp] = await this.db
         .select()
         .from(weeklyPeriodization)
         .where(and(
@@ -299,7 +565,7 @@ export class DatabaseStorage implements IStorage {
       return wp;
     }
     // Get most recent week
-    const [wp] = await db
+    const [wp] = await this.db
       .select()
       .from(weeklyPeriodization)
       .where(eq(weeklyPeriodization.userId, userId))
@@ -308,8 +574,16 @@ export class DatabaseStorage implements IStorage {
     return wp;
   }
 
+  async getWeeklyPeriodizationHistory(userId: string): Promise<WeeklyPeriodization[]> {
+    return await this.db
+      .select()
+      .from(weeklyPeriodization)
+      .where(eq(weeklyPeriodization.userId, userId))
+      .orderBy(weeklyPeriodization.weekStart);
+  }
+
   async upsertWeeklyPeriodization(userId: string, periodization: Omit<InsertWeeklyPeriodization, "userId" | "id">): Promise<WeeklyPeriodization> {
-    const [wp] = await db
+    const [wp] = await this.db
       .insert(weeklyPeriodization)
       .values({ ...periodization, userId })
       .onConflictDoUpdate({
@@ -325,11 +599,11 @@ export class DatabaseStorage implements IStorage {
 
   // Framework preferences operations
   async getFrameworkPreferences(userId: string): Promise<FrameworkPreference[]> {
-    return db.select().from(frameworkPreferences).where(eq(frameworkPreferences.userId, userId));
+    return this.db.select().from(frameworkPreferences).where(eq(frameworkPreferences.userId, userId));
   }
 
   async upsertFrameworkPreference(userId: string, preference: Omit<InsertFrameworkPreference, "userId" | "id">): Promise<FrameworkPreference> {
-    const [fp] = await db
+    const [fp] = await this.db
       .insert(frameworkPreferences)
       .values({ ...preference, userId })
       .onConflictDoUpdate({
@@ -345,6 +619,175 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return fp;
   }
+
+  // Generated workouts operations
+  async createGeneratedWorkout(userId: string, workout: GeneratedWorkout): Promise<GeneratedWorkoutRecord> {
+    const [record] = await this.db
+      .insert(generatedWorkouts)
+      .values({
+        userId,
+        framework: workout.framework,
+        seed: workout.seed ?? null,
+        workout,
+      })
+      .returning();
+    return record;
+  }
+
+  async getGeneratedWorkout(userId: string, workoutId: string): Promise<GeneratedWorkoutRecord | undefined> {
+    const [record] = await this.db
+      .select()
+      .from(generatedWorkouts)
+      .where(and(eq(generatedWorkouts.id, workoutId), eq(generatedWorkouts.userId, userId)));
+    return record;
+  }
+
+  // Custom exercises operations
+  async getCustomExercises(userId: string): Promise<CustomExercise[]> {
+    return this.db
+      .select()
+      .from(customExercises)
+      .where(eq(customExercises.userId, userId))
+      .orderBy(customExercises.name);
+  }
+
+  async createCustomExercise(exerciseData: InsertCustomExercise): Promise<CustomExercise> {
+    const [exercise] = await this.db
+      .insert(customExercises)
+      .values({ ...exerciseData, equipment: exerciseData.equipment as EquipmentId[] })
+      .returning();
+    return exercise;
+  }
+
+  async updateCustomExercise(
+    userId: string,
+    exerciseId: string,
+    updates: Partial<Omit<InsertCustomExercise, "userId">>,
+  ): Promise<CustomExercise | undefined> {
+    const [exercise] = await this.db
+      .update(customExercises)
+      .set({ ...updates, equipment: updates.equipment as EquipmentId[] | undefined, updatedAt: sql`now()` })
+      .where(and(eq(customExercises.id, exerciseId), eq(customExercises.userId, userId)))
+      .returning();
+    return exercise;
+  }
+
+  async deleteCustomExercise(userId: string, exerciseId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(customExercises)
+      .where(and(eq(customExercises.id, exerciseId), eq(customExercises.userId, userId)))
+      .returning({ id: customExercises.id });
+    return deleted.length > 0;
+  }
+
+  // Favorite workouts operations
+  async getFavoriteWorkouts(userId: string, filter: { search?: string; tag?: string } = {}): Promise<FavoriteWorkout[]> {
+    const conditions = [eq(favoriteWorkouts.userId, userId)];
+    if (filter.search) {
+      conditions.push(ilike(favoriteWorkouts.name, `%${filter.search}%`));
+    }
+    if (filter.tag) {
+      conditions.push(sql`${favoriteWorkouts.tags} @> ${JSON.stringify([filter.tag])}::jsonb`);
+    }
+
+    return this.db
+      .select()
+      .from(favoriteWorkouts)
+      .where(and(...conditions))
+      .orderBy(desc(favoriteWorkouts.createdAt));
+  }
+
+  async getFavoriteWorkout(userId: string, favoriteId: string): Promise<FavoriteWorkout | undefined> {
+    const [favorite] = await this.db
+      .select()
+      .from(favoriteWorkouts)
+      .where(and(eq(favoriteWorkouts.id, favoriteId), eq(favoriteWorkouts.userId, userId)));
+    return favorite;
+  }
+
+  async createFavoriteWorkout(favoriteData: InsertFavoriteWorkout): Promise<FavoriteWorkout> {
+    const [favorite] = await this.db.insert(favoriteWorkouts).values(favoriteData).returning();
+    return favorite;
+  }
+
+  async deleteFavoriteWorkout(userId: string, favoriteId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(favoriteWorkouts)
+      .where(and(eq(favoriteWorkouts.id, favoriteId), eq(favoriteWorkouts.userId, userId)))
+      .returning({ id: favoriteWorkouts.id });
+    return deleted.length > 0;
+  }
+
+  // Calendar feed operations
+  async getCalendarFeed(userId: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+    return feed;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  async setCalendarFeedToken(userId: string, token: string): Promise<CalendarFeed> {
+    const [feed] = await this.db
+      .insert(calendarFeeds)
+      .values({ userId, token })
+      .onConflictDoUpdate({ target: calendarFeeds.userId, set: { token, createdAt: sql`now()` } })
+      .returning();
+    return feed;
+  }
+
+  async deleteCalendarFeed(userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(calendarFeeds)
+      .where(eq(calendarFeeds.userId, userId))
+      .returning({ id: calendarFeeds.id });
+    return deleted.length > 0;
+  }
+
+  // Program enrollment operations
+  async getProgramEnrollment(userId: string): Promise<ProgramEnrollment | undefined> {
+    const [enrollment] = await this.db.select().from(programEnrollments).where(eq(programEnrollments.userId, userId));
+    return enrollment;
+  }
+
+  async startProgramEnrollment(userId: string, programId: ProgramId): Promise<ProgramEnrollment> {
+    const [enrollment] = await this.db
+      .insert(programEnrollments)
+      .values({ userId, programId })
+      .onConflictDoUpdate({
+        target: programEnrollments.userId,
+        set: { programId, currentDay: 0, startedAt: sql`now()`, completedAt: null },
+      })
+      .returning();
+    return enrollment;
+  }
+
+  async advanceProgramEnrollment(userId: string, fromDay: number, completed: boolean): Promise<ProgramEnrollment | undefined> {
+    const [enrollment] = await this.db
+      .update(programEnrollments)
+      .set({ currentDay: fromDay + 1, completedAt: completed ? sql`now()` : null })
+      .where(
+        and(
+          eq(programEnrollments.userId, userId),
+          eq(programEnrollments.currentDay, fromDay),
+          isNull(programEnrollments.completedAt)
+        )
+      )
+      .returning();
+    return enrollment;
+  }
+
+  async deleteProgramEnrollment(userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(programEnrollments)
+      .where(eq(programEnrollments.userId, userId))
+      .returning({ id: programEnrollments.id });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new DatabaseStorage();
+// STORAGE_DRIVER=memory keeps all data in process memory, for running without Postgres
+export const storage: IStorage =
+  process.env.STORAGE_DRIVER === "memory" ? new MemStorage() : new DatabaseStorage();
@@ -1,45 +1,52 @@
-import { createClient } from '@supabase/supabase-js'
-import type { RequestHandler } from 'express'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { AuthProvider, AuthUser, AuthUserProfile } from './auth'
 
-const supabaseUrl = process.env.VITE_SUPABASE_URL
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+export class SupabaseAuthProvider implements AuthProvider {
+  private readonly supabase: SupabaseClient
 
-if (!supabaseUrl || !supabaseServiceKey) {
-  throw new Error('Missing Supabase environment variables')
-}
-
-export const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false,
-  },
-})
+  constructor() {
+    const supabaseUrl = process.env.VITE_SUPABASE_URL
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
 
-export const requireAuth: RequestHandler = async (req, res, next) => {
-  const authHeader = req.headers.authorization
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
 
-  if (!authHeader?.startsWith('Bearer ')) {
-    return res.status(401).json({ message: 'Unauthorized' })
+    this.supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
   }
 
-  const token = authHeader.substring(7)
-
-  try {
-    const { data: { user }, error } = await supabase.auth.getUser(token)
+  async verifyAccessToken(token: string): Promise<AuthUser | null> {
+    const { data: { user }, error } = await this.supabase.auth.getUser(token)
 
     if (error || !user) {
-      return res.status(401).json({ message: 'Invalid token' })
+      return null
     }
 
-    // Attach user to request
-    req.user = {
+    return {
       id: user.id,
       email: user.email!,
     }
+  }
+
+  async getUserProfile(userId: string): Promise<AuthUserProfile | null> {
+    const { data } = await this.supabase.auth.admin.getUserById(userId)
+    const metadata = data?.user?.user_metadata
+    if (!metadata) return null
+
+    return {
+      firstName: metadata.firstName || null,
+      lastName: metadata.lastName || null,
+      avatarUrl: metadata.avatar_url || null,
+    }
+  }
 
-    next()
-  } catch (error) {
-    console.error('Auth error:', error)
-    return res.status(401).json({ message: 'Authentication failed' })
+  async deleteUser(userId: string): Promise<void> {
+    const { error } = await this.supabase.auth.admin.deleteUser(userId)
+    if (error) throw error
   }
 }
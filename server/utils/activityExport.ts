@@ -0,0 +1,200 @@
+import type { WorkoutSessionWithRounds } from "@shared/schema";
+
+export interface ActivityLap {
+  startTime: Date;
+  seconds: number;
+  label: string; // "Air Squats: 18/20 reps"
+}
+
+export interface Activity {
+  startTime: Date;
+  totalSeconds: number;
+  title: string;
+  laps: ActivityLap[];
+}
+
+function describeRound(round: WorkoutSessionWithRounds["rounds"][number]): string {
+  if (round.skipped) return `${round.exerciseName}: skipped`;
+  const unit = round.isHold ? "s" : " reps";
+  const actual = round.isHold ? round.actualSeconds : round.actualReps;
+  return actual == null
+    ? `${round.exerciseName}: ${round.reps}${unit}`
+    : `${round.exerciseName}: ${actual}/${round.reps}${unit}`;
+}
+
+/**
+ * Sessions are saved when the workout ends, so the start is the save time minus the
+ * time worked (the finish time for a finished For Time, otherwise the duration).
+ * Rounds carry no timestamps of their own; each becomes an equal share of the session.
+ */
+export function sessionToActivity(session: WorkoutSessionWithRounds): Activity {
+  const totalSeconds =
+    session.framework === "ForTime" && session.finishSeconds ? session.finishSeconds : session.durationMinutes * 60;
+  const startTime = new Date(new Date(session.createdAt).getTime() - totalSeconds * 1000);
+  const title = `${session.focusLabel} ${session.framework}`;
+
+  if (!session.rounds.length) {
+    return { startTime, totalSeconds, title, laps: [{ startTime, seconds: totalSeconds, label: title }] };
+  }
+
+  const lapOffset = (index: number) => Math.round((index * totalSeconds) / session.rounds.length);
+  const laps = session.rounds.map((round, index) => ({
+    startTime: new Date(startTime.getTime() + lapOffset(index) * 1000),
+    seconds: lapOffset(index + 1) - lapOffset(index),
+    label: describeRound(round),
+  }));
+  return { startTime, totalSeconds, title, laps };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// TCX has no HIIT sport, so sessions use "Other" with the framework in the notes
+export function activityToTcx(activity: Activity): string {
+  const iso = (date: Date) => date.toISOString();
+  const laps = activity.laps
+    .map(
+      (lap) => `      <Lap StartTime="${iso(lap.startTime)}">
+        <TotalTimeSeconds>${lap.seconds}</TotalTimeSeconds>
+        <DistanceMeters>0</DistanceMeters>
+        <Calories>0</Calories>
+        <Intensity>Active</Intensity>
+        <TriggerMethod>Manual</TriggerMethod>
+        <Notes>${escapeXml(lap.label)}</Notes>
+      </Lap>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Activities>
+    <Activity Sport="Other">
+      <Id>${iso(activity.startTime)}</Id>
+${laps}
+      <Notes>${escapeXml(`HIIT: ${activity.title}`)}</Notes>
+    </Activity>
+  </Activities>
+</TrainingCenterDatabase>
+`;
+}
+
+// ---- FIT ----
+// Minimal activity file (file_id, laps, session, activity) per the FIT protocol 2.0 spec
+
+const FIT_EPOCH_SECONDS = 631065600; // 1989-12-31T00:00:00Z
+const FIT_SPORT_TRAINING = 10;
+const FIT_SUB_SPORT_CARDIO_TRAINING = 26;
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01,
+  0x8801, 0x4400,
+];
+
+type FitBaseType = "enum" | "uint16" | "uint32" | "uint32z";
+const BASE_TYPES: Record<FitBaseType, { id: number; size: number }> = {
+  enum: { id: 0x00, size: 1 },
+  uint16: { id: 0x84, size: 2 },
+  uint32: { id: 0x86, size: 4 },
+  uint32z: { id: 0x8c, size: 4 },
+};
+
+type FitField = [fieldNumber: number, type: FitBaseType, value: number];
+
+function fitCrc(bytes: Buffer, crc = 0): number {
+  bytes.forEach((byte) => {
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  });
+  return crc;
+}
+
+const fitTime = (date: Date) => Math.round(date.getTime() / 1000) - FIT_EPOCH_SECONDS;
+
+// A definition followed by one data message; every message gets local type 0, redefined each time
+function fitMessage(globalNumber: number, fields: FitField[]): Buffer {
+  const definition = Buffer.alloc(6 + fields.length * 3);
+  definition.writeUInt8(0x40, 0);
+  definition.writeUInt16LE(globalNumber, 3);
+  definition.writeUInt8(fields.length, 5);
+  fields.forEach(([number, type], index) => {
+    definition.writeUInt8(number, 6 + index * 3);
+    definition.writeUInt8(BASE_TYPES[type].size, 7 + index * 3);
+    definition.writeUInt8(BASE_TYPES[type].id, 8 + index * 3);
+  });
+
+  const data = Buffer.alloc(1 + fields.reduce((sum, [, type]) => sum + BASE_TYPES[type].size, 0));
+  let offset = 1;
+  fields.forEach(([, type, value]) => {
+    if (type === "enum") data.writeUInt8(value, offset);
+    else if (type === "uint16") data.writeUInt16LE(value, offset);
+    else data.writeUInt32LE(value, offset);
+    offset += BASE_TYPES[type].size;
+  });
+  return Buffer.concat([definition, data]);
+}
+
+export function activityToFit(activity: Activity): Buffer {
+  const start = fitTime(activity.startTime);
+  const end = start + activity.totalSeconds;
+
+  const messages = [
+    // file_id: activity file from a development manufacturer
+    fitMessage(0, [
+      [0, "enum", 4],
+      [1, "uint16", 255],
+      [2, "uint16", 0],
+      [3, "uint32z", 1],
+      [4, "uint32", end],
+    ]),
+    ...activity.laps.map((lap, index) => {
+      const lapStart = fitTime(lap.startTime);
+      return fitMessage(19, [
+        [254, "uint16", index],
+        [253, "uint32", lapStart + lap.seconds],
+        [2, "uint32", lapStart],
+        [7, "uint32", lap.seconds * 1000],
+        [8, "uint32", lap.seconds * 1000],
+        [0, "enum", 9], // event: lap
+        [1, "enum", 1], // event_type: stop
+        [25, "enum", FIT_SPORT_TRAINING],
+        [39, "enum", FIT_SUB_SPORT_CARDIO_TRAINING],
+      ]);
+    }),
+    fitMessage(18, [
+      [254, "uint16", 0],
+      [253, "uint32", end],
+      [2, "uint32", start],
+      [7, "uint32", activity.totalSeconds * 1000],
+      [8, "uint32", activity.totalSeconds * 1000],
+      [25, "uint16", 0], // first_lap_index
+      [26, "uint16", activity.laps.length],
+      [0, "enum", 8], // event: session
+      [1, "enum", 1],
+      [5, "enum", FIT_SPORT_TRAINING],
+      [6, "enum", FIT_SUB_SPORT_CARDIO_TRAINING],
+    ]),
+    fitMessage(34, [
+      [253, "uint32", end],
+      [0, "uint32", activity.totalSeconds * 1000],
+      [1, "uint16", 1], // num_sessions
+      [2, "enum", 0], // type: manual
+      [3, "enum", 26], // event: activity
+      [4, "enum", 1],
+    ]),
+  ];
+  const body = Buffer.concat(messages);
+
+  const header = Buffer.alloc(14);
+  header.writeUInt8(14, 0);
+  header.writeUInt8(0x20, 1); // Protocol 2.0
+  header.writeUInt16LE(2132, 2); // Profile 21.32
+  header.writeUInt32LE(body.length, 4);
+  header.write(".FIT", 8, "ascii");
+  header.writeUInt16LE(fitCrc(header.subarray(0, 12)), 12);
+
+  const crc = Buffer.alloc(2);
+  crc.writeUInt16LE(fitCrc(body, fitCrc(header)));
+  return Buffer.concat([header, body, crc]);
+}
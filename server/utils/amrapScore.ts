@@ -0,0 +1,65 @@
+import type { WorkoutRound, WorkoutSession } from "@shared/schema";
+
+// Most rows one scored AMRAP session may log: completed rounds × circuit length
+export const MAX_AMRAP_LOGGED_ROUNDS = 500;
+
+type AmrapRound = {
+  minuteIndex: number;
+  reps: number;
+  isHold?: boolean | null;
+  actualReps?: number | null;
+  actualSeconds?: number | null;
+  skipped?: boolean | null;
+};
+
+/**
+ * Turn the prescribed AMRAP circuit into one logged round per set performed.
+ * Every completed round repeats the circuit at full target; the reps into an
+ * unfinished round only count toward the score, unless no round was finished,
+ * in which case they fill the circuit in order so the attempt still has actuals.
+ */
+export function expandAmrapRounds<T extends AmrapRound>(circuit: T[], completedRounds: number, extraReps: number): T[] {
+  const ordered = [...circuit].sort((a, b) => a.minuteIndex - b.minuteIndex);
+
+  if (completedRounds <= 0) {
+    let remaining = extraReps;
+    return ordered.map((round) => {
+      const done = Math.min(round.reps, remaining);
+      remaining -= done;
+      return {
+        ...round,
+        actualReps: round.isHold ? null : done,
+        actualSeconds: round.isHold ? done : null,
+        skipped: false,
+      };
+    });
+  }
+
+  const expanded: T[] = [];
+  for (let roundIndex = 0; roundIndex < completedRounds; roundIndex++) {
+    ordered.forEach((round, exerciseIndex) => {
+      expanded.push({
+        ...round,
+        minuteIndex: roundIndex * ordered.length + exerciseIndex + 1, // 1-based like generated rounds
+        actualReps: round.isHold ? null : round.reps,
+        actualSeconds: round.isHold ? round.reps : null,
+        skipped: false,
+      });
+    });
+  }
+  return expanded;
+}
+
+/**
+ * Recover the prescribed circuit from a saved AMRAP session's rounds.
+ * Sessions logged with a score hold the circuit once per completed round.
+ */
+export function getAmrapCircuit<T extends Pick<WorkoutRound, "minuteIndex">>(
+  session: Pick<WorkoutSession, "amrapRounds">,
+  rounds: T[]
+): T[] {
+  const ordered = [...rounds].sort((a, b) => a.minuteIndex - b.minuteIndex);
+  const repeats = Math.max(1, session.amrapRounds ?? 1);
+  if (ordered.length % repeats !== 0) return ordered;
+  return ordered.slice(0, ordered.length / repeats);
+}
@@ -0,0 +1,165 @@
+import { FRAMEWORK_CONFIGS } from "@shared/frameworks";
+import { FRAMEWORK_BIAS_KEYS, PRIMARY_GOALS, type FrameworkBias } from "@shared/goals";
+import {
+  type FrameworkPreference,
+  type Profile,
+  type TimeBlock,
+  type WorkoutFramework,
+} from "@shared/schema";
+
+const FEED_DAYS = 28;
+const ROTATION_SIZE = 3; // Planned sessions cycle through the user's top frameworks
+const DEFAULT_ROTATION: WorkoutFramework[] = ["EMOM", "Circuit", "Tabata"];
+
+// Start times inside each block (see categorizeTimeBlock for the block boundaries)
+const BLOCK_START_TIMES: Record<TimeBlock, { hour: number; minute: number }> = {
+  morning: { hour: 7, minute: 0 },
+  afternoon: { hour: 12, minute: 30 },
+  evening: { hour: 18, minute: 30 },
+};
+
+// Training days as offsets from Monday, keyed by sessions per week
+const TRAINING_DAYS: Record<number, number[]> = {
+  3: [0, 2, 4],
+  4: [0, 1, 3, 4],
+  5: [0, 1, 2, 3, 4],
+};
+
+export interface PlannedWorkout {
+  date: Date; // Local midnight of the training day
+  timeBlock: TimeBlock;
+  framework: WorkoutFramework;
+  focusLabel: string;
+  durationMinutes: number;
+}
+
+// Same weekly targets the home screen measures streaks against
+function getPlannedSessionsPerWeek(fitnessLevel: string | null | undefined): number {
+  const level = fitnessLevel?.toLowerCase();
+  if (level === "advanced") return 5;
+  if (level === "intermediate") return 4;
+  return 3;
+}
+
+function rankFrameworks(profile: Profile, preferences: FrameworkPreference[]): WorkoutFramework[] {
+  if (preferences.length) {
+    return [...preferences]
+      .sort((a, b) => b.preferenceScore - a.preferenceScore)
+      .map((preference) => preference.framework)
+      .slice(0, ROTATION_SIZE);
+  }
+
+  // No completed sessions yet: lean on the goal's framework bias
+  const bias = PRIMARY_GOALS.find((goal) => goal.id === profile.primaryGoal)?.frameworkBias;
+  if (!bias) return DEFAULT_ROTATION;
+  const ranked = (Object.entries(bias) as [keyof FrameworkBias, number][])
+    .sort(([, a], [, b]) => b - a)
+    .map(([key]) => FRAMEWORK_BIAS_KEYS[key]);
+  return ranked.slice(0, ROTATION_SIZE);
+}
+
+/**
+ * Upcoming sessions for the next four weeks, starting today: the weekly target spread
+ * over fixed weekdays, in the user's optimal time block, rotating through their
+ * preferred frameworks. Deterministic, so a refreshed feed keeps the same events.
+ */
+export function planUpcomingWorkouts(
+  profile: Profile,
+  preferences: FrameworkPreference[],
+  from: Date = new Date(),
+): PlannedWorkout[] {
+  const sessionsPerWeek = getPlannedSessionsPerWeek(profile.fitnessLevel);
+  const trainingDays = TRAINING_DAYS[sessionsPerWeek];
+  const rotation = rankFrameworks(profile, preferences);
+  const goalLabel = PRIMARY_GOALS.find((goal) => goal.id === profile.primaryGoal)?.label;
+  const focusLabel = goalLabel ?? profile.goalFocus ?? "HIIT";
+  const timeBlock = profile.optimalTimeBlock ?? "morning";
+
+  const planned: PlannedWorkout[] = [];
+  for (let offset = 0; offset < FEED_DAYS; offset++) {
+    const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+    const dayIndex = trainingDays.indexOf((date.getDay() + 6) % 7); // Monday = 0
+    if (dayIndex === -1) continue;
+
+    // Weeks since the Unix epoch keep the rotation stable across refreshes
+    const epochDay = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86_400_000;
+    const week = Math.floor((epochDay + 3) / 7); // The epoch fell on a Thursday
+    const framework = rotation[(week * trainingDays.length + dayIndex) % rotation.length];
+    planned.push({
+      date,
+      timeBlock,
+      framework,
+      focusLabel,
+      durationMinutes: FRAMEWORK_CONFIGS[framework].defaultDuration,
+    });
+  }
+  return planned;
+}
+
+export function calendarFeedPath(token: string): string {
+  return `/api/calendar/${token}.ics`;
+}
+
+// RFC 5545 text escaping and 75-octet line folding
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  const limit = () => (parts.length ? 74 : 75); // Continuation lines start with a space
+  while (Buffer.byteLength(rest) > limit()) {
+    let cut = limit();
+    while (Buffer.byteLength(rest.slice(0, cut)) > limit()) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts.join("\r\n ");
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const formatDate = (date: Date) => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Events use floating local times (no time zone), so 07:00 stays 07:00 wherever the
+ * subscriber's calendar is set, without the server knowing the user's zone.
+ */
+export function buildCalendarFeed(userId: string, planned: PlannedWorkout[], now: Date = new Date()): string {
+  const events = planned.flatMap((workout) => {
+    const { hour, minute } = BLOCK_START_TIMES[workout.timeBlock];
+    const summary = `${FRAMEWORK_CONFIGS[workout.framework].name} · ${workout.focusLabel} (${workout.durationMinutes} min)`;
+    return [
+      "BEGIN:VEVENT",
+      `UID:${formatDate(workout.date)}-${userId}@hiit-lab`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART:${formatDate(workout.date)}T${pad(hour)}${pad(minute)}00`,
+      `DURATION:PT${workout.durationMinutes}M`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(
+        `Planned ${workout.framework} session in your ${workout.timeBlock} block. Open HIIT Lab to generate today's workout.`
+      )}`,
+      "CATEGORIES:HIIT",
+      "END:VEVENT",
+    ];
+  });
+
+  return (
+    [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//HIIT Lab//Planned Workouts//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:HIIT Lab",
+      "REFRESH-INTERVAL;VALUE=DURATION:PT12H",
+      "X-PUBLISHED-TTL:PT12H",
+      ...events,
+      "END:VCALENDAR",
+    ]
+      .map(foldLine)
+      .join("\r\n") + "\r\n"
+  );
+}
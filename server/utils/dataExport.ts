@@ -0,0 +1,84 @@
+import {
+  WORKOUT_EXPORT_VERSION,
+  type WorkoutExport,
+  type WorkoutRound,
+  type WorkoutSession,
+} from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+
+export async function buildWorkoutExport(userId: string, store: IStorage = storage): Promise<WorkoutExport> {
+  const [profile, sessions, personalRecords, mastery] = await Promise.all([
+    store.getProfile(userId),
+    store.getWorkoutSessions(userId),
+    store.getPersonalRecords(userId),
+    store.getExerciseMastery(userId),
+  ]);
+
+  return {
+    version: WORKOUT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: profile ?? null,
+    sessions,
+    personalRecords,
+    mastery,
+  };
+}
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+const SESSION_COLUMNS: Array<[string, (session: WorkoutSession) => CsvValue]> = [
+  ["session_id", (session) => session.id],
+  ["session_date", (session) => session.createdAt],
+  ["framework", (session) => session.framework],
+  ["focus_label", (session) => session.focusLabel],
+  ["difficulty_tag", (session) => session.difficultyTag],
+  ["duration_minutes", (session) => session.durationMinutes],
+  ["time_block", (session) => session.timeBlock],
+  ["perceived_exertion", (session) => session.perceivedExertion],
+  ["completed", (session) => session.completed],
+  ["finish_seconds", (session) => session.finishSeconds],
+  ["reps_at_cap", (session) => session.repsAtCap],
+  ["amrap_rounds", (session) => session.amrapRounds],
+  ["amrap_reps", (session) => session.amrapReps],
+  ["notes", (session) => session.notes],
+];
+
+const ROUND_COLUMNS: Array<[string, (round: WorkoutRound) => CsvValue]> = [
+  ["minute_index", (round) => round.minuteIndex],
+  ["exercise_name", (round) => round.exerciseName],
+  ["target_muscle_group", (round) => round.targetMuscleGroup],
+  ["difficulty", (round) => round.difficulty],
+  ["target_reps", (round) => round.reps],
+  ["is_hold", (round) => round.isHold],
+  ["alternates_sides", (round) => round.alternatesSides],
+  ["actual_reps", (round) => round.actualReps],
+  ["actual_seconds", (round) => round.actualSeconds],
+  ["skipped", (round) => round.skipped],
+];
+
+function csvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== "string") return String(value);
+  // Spreadsheets evaluate cells starting with these, so free text is defused first
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flattens an export to one CSV row per round, with the session columns repeated on
+ * each row. Sessions without rounds still get a row so nothing drops out of totals.
+ */
+export function workoutExportToCsv(data: WorkoutExport): string {
+  const header = [...SESSION_COLUMNS, ...ROUND_COLUMNS].map(([name]) => name).join(",");
+  const rows = data.sessions.flatMap((session) => {
+    const sessionCells = SESSION_COLUMNS.map(([, read]) => csvCell(read(session)));
+    if (!session.rounds.length) {
+      return [[...sessionCells, ...ROUND_COLUMNS.map(() => "")].join(",")];
+    }
+    return session.rounds.map((round) =>
+      [...sessionCells, ...ROUND_COLUMNS.map(([, read]) => csvCell(read(round)))].join(",")
+    );
+  });
+  return [header, ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,454 @@
+import type {
+  ExerciseStat,
+  InsertProfile,
+  PersonalRecord,
+  Profile,
+  WorkoutFramework,
+  WorkoutRound,
+  WorkoutSession,
+} from "@shared/schema";
+import { storage, type DerivedState, type IStorage } from "../storage";
+import { updateSkillScore } from "./emomGenerator";
+import { calculateFrameworkScore, updateFrameworkPreference } from "./frameworkPreferences";
+import { calculateMasteryScore, updateMasteryScores } from "./mastery";
+import { getWeekStart, summarizeWeeklyVolume, updateWeeklyVolume } from "./periodization";
+import { mergePersonalRecord } from "./personalRecordMerge";
+import {
+  detectAmrapBenchmarkRecord,
+  detectBenchmarkRecord,
+  detectPersonalRecords,
+  updatePersonalRecords,
+  type NewPersonalRecord,
+} from "./personalRecords";
+import {
+  aggregateExerciseOutcomes,
+  computeTimeBlockPerformance,
+  summarizeSessionPerformance,
+} from "./personalization";
+import {
+  calculateRecoveryScore,
+  calculateWorkoutIntensity,
+  getBaseRecoveryHours,
+  updateRecoveryAfterWorkout,
+} from "./recovery";
+
+type SessionWithRounds = WorkoutSession & { rounds: WorkoutRound[] };
+
+// Matches the profiles.skill_score column default, the score every user starts from
+export const DEFAULT_SKILL_SCORE = 50;
+
+/**
+ * Fold one saved session into every derived table: exercise stats, personal records,
+ * mastery, recovery, weekly volume, framework preferences and the profile's skill
+ * score and time-block performance. History is newest-first and includes the session.
+ */
+export async function applySessionToDerivedState(
+  userId: string,
+  session: SessionWithRounds,
+  history: SessionWithRounds[],
+  store: IStorage = storage
+): Promise<NewPersonalRecord[]> {
+  const { rounds } = session;
+
+  // Update exercise-level stats for personalization
+  const exerciseSummaries = aggregateExerciseOutcomes(rounds).map((summary) => ({
+    ...summary,
+    lastPerformedAt: new Date(session.createdAt),
+  }));
+  await store.upsertExerciseStats(userId, exerciseSummaries);
+
+  // Update personal records
+  const newPRs = await updatePersonalRecords(userId, session, rounds, store);
+
+  // Update mastery scores
+  const exerciseStats = await store.getExerciseStats(userId);
+  await updateMasteryScores(userId, session, history, exerciseStats, store);
+
+  // Update recovery scores
+  await updateRecoveryAfterWorkout(userId, session, rounds, store);
+
+  // Update weekly volume
+  await updateWeeklyVolume(userId, session, rounds, store);
+
+  // Update framework preferences
+  await updateFrameworkPreference(userId, session, history, store);
+
+  const profile = await store.getProfile(userId);
+  if (profile) {
+    const profileUpdates: Partial<InsertProfile> = {};
+
+    const { performanceByBlock, optimalTimeBlock } = computeTimeBlockPerformance(history);
+    profileUpdates.timeBlockPerformance = performanceByBlock as InsertProfile["timeBlockPerformance"];
+    profileUpdates.optimalTimeBlock = optimalTimeBlock as InsertProfile["optimalTimeBlock"];
+
+    // Update skill score based on RPE
+    if (session.perceivedExertion || rounds.length) {
+      const sessionPerformance = summarizeSessionPerformance(rounds, session.perceivedExertion, session.framework);
+      const performanceHistory = history.map((previousSession) =>
+        summarizeSessionPerformance(previousSession.rounds, previousSession.perceivedExertion, previousSession.framework)
+      );
+      if (performanceHistory.length) {
+        performanceHistory[0] = sessionPerformance; // ensure freshest data for the newest session
+      }
+      profileUpdates.skillScore = updateSkillScore(profile.skillScore, performanceHistory);
+    }
+
+    await store.updateProfile(userId, profileUpdates);
+  }
+
+  return newPRs;
+}
+
+export interface ReplayedState {
+  derived: DerivedState;
+  profile: Pick<Profile, "skillScore" | "timeBlockPerformance" | "optimalTimeBlock">;
+}
+
+type ExerciseStatRow = Pick<
+  ExerciseStat,
+  "exerciseName" | "acceptCount" | "skipCount" | "completionCount" | "qualitySum" | "lastPerformedAt"
+>;
+type PersonalRecordRow = Pick<
+  PersonalRecord,
+  "exerciseName" | "recordType" | "bestReps" | "bestSeconds" | "bestRounds" | "bestSessionId" | "achievedAt"
+>;
+type MasteryRow = DerivedState["exerciseMastery"][number] & { totalAttempts: number; successfulAttempts: number };
+type RecoveryRow = DerivedState["muscleGroupRecovery"][number] & { lastWorkedAt: Date; workoutIntensity: number };
+
+// Where the replayed skill score starts: the score the user set and when they set it
+export interface SkillScoreStart {
+  score: number;
+  setAt: Date | null; // Sessions up to this moment are already reflected in the score
+}
+
+/**
+ * Recompute every derived table purely from session history, replaying sessions
+ * oldest-first with the same rules as the incremental updates. Each session is
+ * evaluated as of its own createdAt, so time-based scores match a live save.
+ */
+export function replayDerivedState(
+  sessions: SessionWithRounds[],
+  skillStart: SkillScoreStart = { score: DEFAULT_SKILL_SCORE, setAt: null }
+): ReplayedState {
+  const ordered = [...sessions].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const stats = new Map<string, ExerciseStatRow>();
+  const records = new Map<string, PersonalRecordRow>();
+  const mastery = new Map<string, MasteryRow>();
+  const recovery = new Map<string, RecoveryRow>();
+  const preferences = new Map<WorkoutFramework, DerivedState["frameworkPreferences"][number]>();
+  const weekStarts = new Map<number, Date>();
+  const history: SessionWithRounds[] = []; // Newest-first, like storage.getWorkoutSessions
+  let skillScore = skillStart.score;
+
+  ordered.forEach((session) => {
+    const performedAt = new Date(session.createdAt);
+    const { rounds } = session;
+    history.unshift(session);
+
+    // Exercise stats
+    aggregateExerciseOutcomes(rounds).forEach((summary) => {
+      const current = stats.get(summary.exerciseName);
+      stats.set(summary.exerciseName, {
+        exerciseName: summary.exerciseName,
+        acceptCount: (current?.acceptCount ?? 0) + summary.acceptCount,
+        skipCount: (current?.skipCount ?? 0) + summary.skipCount,
+        completionCount: (current?.completionCount ?? 0) + summary.completionCount,
+        qualitySum: (current?.qualitySum ?? 0) + summary.qualitySum,
+        lastPerformedAt: current && current.lastPerformedAt > performedAt ? current.lastPerformedAt : performedAt,
+      });
+    });
+
+    // Personal records, merged one candidate at a time like storage.upsertPersonalRecord
+    const existingPRs = Array.from(records.values());
+    const candidates = detectPersonalRecords(session, rounds, existingPRs);
+    const benchmarkPR = detectBenchmarkRecord(session, rounds, existingPRs);
+    if (benchmarkPR) candidates.push(benchmarkPR);
+    const amrapPR = detectAmrapBenchmarkRecord(session, rounds, existingPRs);
+    if (amrapPR) candidates.push(amrapPR);
+    candidates.forEach((candidate) => {
+      const record = {
+        exerciseName: candidate.exerciseName,
+        recordType: candidate.recordType,
+        bestReps: candidate.bestReps,
+        bestSeconds: candidate.bestSeconds,
+        bestRounds: candidate.bestRounds ?? null,
+        bestSessionId: candidate.sessionId,
+        achievedAt: performedAt,
+      };
+      const existing = records.get(candidate.exerciseName);
+      if (!existing) {
+        records.set(candidate.exerciseName, record);
+        return;
+      }
+      const updates = mergePersonalRecord(existing, record);
+      if (updates) records.set(candidate.exerciseName, { ...existing, ...updates } as PersonalRecordRow);
+    });
+
+    // Mastery
+    const statsList = Array.from(stats.values());
+    Array.from(new Set(rounds.map((round) => round.exerciseName))).forEach((exerciseName) => {
+      const current = mastery.get(exerciseName);
+      const roundsForExercise = rounds.filter((round) => round.exerciseName === exerciseName);
+      mastery.set(exerciseName, {
+        exerciseName,
+        masteryScore: calculateMasteryScore(exerciseName, history, statsList),
+        totalAttempts: (current?.totalAttempts ?? 0) + roundsForExercise.length,
+        successfulAttempts: (current?.successfulAttempts ?? 0) + roundsForExercise.filter((round) => !round.skipped).length,
+        lastUpdated: performedAt,
+      });
+    });
+
+    // Recovery: worked groups reset to 0, the rest keep recovering
+    const intensity = calculateWorkoutIntensity(session, rounds);
+    const workedGroups = new Set(rounds.map((round) => round.targetMuscleGroup));
+    Array.from(recovery.values()).forEach((record) => {
+      if (workedGroups.has(record.muscleGroup)) return;
+      recovery.set(record.muscleGroup, {
+        ...record,
+        recoveryScore: calculateRecoveryScore(
+          record.muscleGroup,
+          record.lastWorkedAt,
+          record.workoutIntensity,
+          getBaseRecoveryHours(record.muscleGroup),
+          performedAt
+        ),
+        updatedAt: performedAt,
+      });
+    });
+    workedGroups.forEach((muscleGroup) => {
+      recovery.set(muscleGroup, {
+        muscleGroup,
+        recoveryScore: 0,
+        lastWorkedAt: performedAt,
+        workoutIntensity: intensity,
+        updatedAt: performedAt,
+      });
+    });
+
+    const weekStart = getWeekStart(performedAt);
+    weekStarts.set(weekStart.getTime(), weekStart);
+
+    // Framework preference
+    const frameworkScore = calculateFrameworkScore(
+      session.framework,
+      history.filter((previous) => previous.framework === session.framework),
+      performedAt
+    );
+    preferences.set(session.framework, {
+      framework: session.framework,
+      preferenceScore: frameworkScore.preferenceScore,
+      completionRate: frameworkScore.completionRate,
+      averageRpe: frameworkScore.averageRpe,
+      lastUsedAt: performedAt,
+      updatedAt: performedAt,
+    });
+
+    // Skill score, moved only by sessions after the user last set it
+    const countsTowardSkill = !skillStart.setAt || performedAt > new Date(skillStart.setAt);
+    if (countsTowardSkill && (session.perceivedExertion || rounds.length)) {
+      const performanceHistory = history.map((previous) =>
+        summarizeSessionPerformance(previous.rounds, previous.perceivedExertion, previous.framework)
+      );
+      skillScore = updateSkillScore(skillScore, performanceHistory);
+    }
+  });
+
+  const timeBlocks = history.length ? computeTimeBlockPerformance(history) : null;
+
+  return {
+    derived: {
+      exerciseStats: Array.from(stats.values()),
+      personalRecords: Array.from(records.values()),
+      exerciseMastery: Array.from(mastery.values()),
+      muscleGroupRecovery: Array.from(recovery.values()),
+      weeklyPeriodization: Array.from(weekStarts.values())
+        .sort((a, b) => a.getTime() - b.getTime())
+        .map((weekStart) => ({
+          weekStart,
+          muscleGroupVolume: summarizeWeeklyVolume(ordered, weekStart),
+          updatedAt: new Date(),
+        })),
+      frameworkPreferences: Array.from(preferences.values()),
+    },
+    profile: {
+      skillScore,
+      timeBlockPerformance: timeBlocks ? timeBlocks.performanceByBlock : null,
+      optimalTimeBlock: timeBlocks ? timeBlocks.optimalTimeBlock : null,
+    },
+  };
+}
+
+export interface DerivedStateDifference {
+  table: keyof DerivedState | "profile";
+  key: string;
+  change: "added" | "removed" | "changed";
+  fields?: Record<string, { current: unknown; replayed: unknown }>;
+}
+
+// Natural key and compared fields per table; bookkeeping timestamps (updatedAt, lastUpdated) are ignored
+const DERIVED_TABLE_FIELDS: { [Table in keyof DerivedState]: { key: (row: DerivedState[Table][number]) => string; fields: string[] } } = {
+  exerciseStats: {
+    key: (row) => row.exerciseName,
+    fields: ["acceptCount", "skipCount", "completionCount", "qualitySum", "lastPerformedAt"],
+  },
+  personalRecords: {
+    key: (row) => row.exerciseName,
+    fields: ["recordType", "bestReps", "bestSeconds", "bestRounds", "bestSessionId", "achievedAt"],
+  },
+  exerciseMastery: {
+    key: (row) => row.exerciseName,
+    fields: ["masteryScore", "totalAttempts", "successfulAttempts"],
+  },
+  muscleGroupRecovery: {
+    key: (row) => row.muscleGroup,
+    fields: ["recoveryScore", "lastWorkedAt", "workoutIntensity"],
+  },
+  weeklyPeriodization: {
+    key: (row) => new Date(row.weekStart).toISOString(),
+    fields: ["muscleGroupVolume"],
+  },
+  frameworkPreferences: {
+    key: (row) => row.framework,
+    fields: ["preferenceScore", "completionRate", "averageRpe", "lastUsedAt"],
+  },
+};
+
+// Timestamps written at save time may trail the session's createdAt slightly
+const TIMESTAMP_TOLERANCE_MS = 60 * 1000;
+
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+}
+
+function valuesMatch(current: unknown, replayed: unknown): boolean {
+  if (current instanceof Date || replayed instanceof Date) {
+    if (current == null || replayed == null) return current == replayed;
+    return Math.abs(new Date(current as Date).getTime() - new Date(replayed as Date).getTime()) <= TIMESTAMP_TOLERANCE_MS;
+  }
+  if (typeof current === "number" && typeof replayed === "number") {
+    return Math.abs(current - replayed) < 1e-6;
+  }
+  return stableStringify(current) === stableStringify(replayed);
+}
+
+function diffFields(current: Record<string, unknown>, replayed: Record<string, unknown>, fields: string[]) {
+  const changed: Record<string, { current: unknown; replayed: unknown }> = {};
+  fields.forEach((field) => {
+    const currentValue = current[field] ?? null;
+    const replayedValue = replayed[field] ?? null;
+    if (!valuesMatch(currentValue, replayedValue)) {
+      changed[field] = { current: currentValue, replayed: replayedValue };
+    }
+  });
+  return Object.keys(changed).length ? changed : null;
+}
+
+/**
+ * Row-level differences between the stored derived state and a replay
+ */
+export function diffDerivedState(
+  current: ReplayedState,
+  replayed: ReplayedState
+): DerivedStateDifference[] {
+  const differences: DerivedStateDifference[] = [];
+
+  (Object.keys(DERIVED_TABLE_FIELDS) as Array<keyof DerivedState>).forEach((table) => {
+    const { key, fields } = DERIVED_TABLE_FIELDS[table] as { key: (row: object) => string; fields: string[] };
+    const currentRows = new Map(current.derived[table].map((row) => [key(row), row as Record<string, unknown>]));
+    const replayedRows = new Map(replayed.derived[table].map((row) => [key(row), row as Record<string, unknown>]));
+
+    replayedRows.forEach((row, rowKey) => {
+      const existing = currentRows.get(rowKey);
+      if (!existing) {
+        differences.push({ table, key: rowKey, change: "added" });
+        return;
+      }
+      const changed = diffFields(existing, row, fields);
+      if (changed) differences.push({ table, key: rowKey, change: "changed", fields: changed });
+    });
+    currentRows.forEach((_, rowKey) => {
+      if (!replayedRows.has(rowKey)) differences.push({ table, key: rowKey, change: "removed" });
+    });
+  });
+
+  const profileChanges = diffFields(current.profile, replayed.profile, ["skillScore", "optimalTimeBlock", "timeBlockPerformance"]);
+  if (profileChanges) differences.push({ table: "profile", key: "profile", change: "changed", fields: profileChanges });
+
+  return differences;
+}
+
+/**
+ * The skill score a replay starts from, or null for profiles created before baselines
+ * were recorded
+ */
+export function getSkillScoreStart(profile: Profile | undefined): SkillScoreStart | null {
+  if (!profile || profile.skillBaseline == null || !profile.skillBaselineAt) return null;
+  return { score: profile.skillBaseline, setAt: profile.skillBaselineAt };
+}
+
+export interface RebuildReport {
+  userId: string;
+  sessionCount: number;
+  dryRun: boolean;
+  skillBaselineKnown: boolean; // False for legacy profiles; their stored skill score is kept as-is
+  differences: DerivedStateDifference[];
+}
+
+/**
+ * Recompute every derived table for a user from their raw session history. Used
+ * after a past session is edited or deleted, and to roll out fixes to the scoring
+ * rules. A dry run only reports how the stored state differs from the replay.
+ */
+export async function rebuildDerivedState(
+  userId: string,
+  options: { dryRun?: boolean } = {},
+  store: IStorage = storage
+): Promise<RebuildReport> {
+  const dryRun = options.dryRun ?? false;
+  const sessions = await store.getWorkoutSessions(userId);
+  const profile = await store.getProfile(userId);
+  const skillStart = getSkillScoreStart(profile);
+  const replayed = replayDerivedState(sessions, skillStart ?? undefined);
+  if (!skillStart && profile) {
+    // Without a recorded baseline the replay can't know where the user started, so the stored score stands
+    replayed.profile.skillScore = profile.skillScore;
+  }
+  const current: ReplayedState = {
+    derived: await store.getDerivedState(userId),
+    profile: {
+      skillScore: profile?.skillScore ?? DEFAULT_SKILL_SCORE,
+      timeBlockPerformance: profile?.timeBlockPerformance ?? null,
+      optimalTimeBlock: profile?.optimalTimeBlock ?? null,
+    },
+  };
+  const differences = diffDerivedState(current, replayed);
+
+  if (!dryRun) {
+    await store.transaction(async (tx) => {
+      await tx.replaceDerivedState(userId, replayed.derived);
+      if (profile) {
+        await tx.updateProfile(userId, replayed.profile);
+      }
+    });
+  }
+
+  return { userId, sessionCount: sessions.length, dryRun, skillBaselineKnown: Boolean(skillStart), differences };
+}
+
+/**
+ * Rebuild every user with a profile, one at a time
+ */
+export async function rebuildAllDerivedState(
+  options: { dryRun?: boolean } = {},
+  store: IStorage = storage
+): Promise<RebuildReport[]> {
+  const reports: RebuildReport[] = [];
+  const userIds = await store.getProfileUserIds();
+  for (let index = 0; index < userIds.length; index++) {
+    reports.push(await rebuildDerivedState(userIds[index], options, store));
+  }
+  return reports;
+}
@@ -8,134 +8,35 @@
 // - Added exercise category tags (compound, cardio, plyometric, mobility) for goal-based filtering.
 // - Duration now respects goal preferences (e.g., shorter for metcon, longer for endurance).
 // - Exercise selection weighted by goal exercise bias (e.g., more cardio for fat loss, more compounds for strength).
+// - Exercise catalog moved to @shared/exercises; rounds now carry the stable exerciseId.
+// - User custom exercises are merged into every generator's candidate pool.
+// - Profile exercise constraints are applied as hard filters to every generator's pool and explained in the rationale.
+// - All generators accept an optional seed; every random draw goes through a seeded source so results are reproducible.
+// - Added Ladder generator (ascending, descending and pyramid rep schemes) alongside the existing frameworks.
+// - Added For Time (chipper) generator: fixed exercise list and total reps under a time cap.
 
 import type { EquipmentId } from "@shared/equipment";
 import { getEquipmentRichness, migrateEquipment } from "@shared/equipment";
 import type { PrimaryGoalId } from "@shared/goals";
 import { getPrimaryGoalConfig, getCombinedExerciseBias, migrateLegacyGoal } from "@shared/goals";
+import { EXERCISE_LIBRARY, type ExerciseDefinition } from "@shared/exercises";
+import {
+  applyExerciseConstraints,
+  describeExerciseConstraints,
+  DEFAULT_EXERCISE_CONSTRAINTS,
+  type ExerciseConstraints,
+} from "@shared/constraints";
+import { getLadderRungReps, type LadderScheme } from "@shared/frameworks";
 import type { GeneratedWorkout, SessionIntent, WorkoutSession, WorkoutRound } from "@shared/schema";
 import type { PersonalizationInsights, SessionPerformanceSummary } from "./personalization";
 import { getRecoveryPenalty } from "./recovery";
 import { getMasteryDifficultyAdjustment } from "./mastery";
 import { getVolumeBias } from "./periodization";
 import { applyProgressiveOverload } from "./progressiveOverload";
+import { createSeededRandom, generateSeed, type RandomSource } from "./seededRandom";
 
-interface Exercise {
-  name: string;
-  muscleGroup: string;
-  difficulty: "beginner" | "intermediate" | "advanced";
-  equipment: EquipmentId[]; // Typed equipment requirements
-  reps: { beginner: number; intermediate: number; advanced: number };
-  isHold?: boolean; // For time-based exercises (measured in seconds, not reps)
-  alternatesSides?: boolean; // For exercises that alternate sides (lunges, etc.) - reps are per side
-  // Category tags for goal-based exercise selection
-  categories: {
-    compound: boolean;   // Multi-joint compound movements
-    cardio: boolean;     // Cardio/conditioning exercises
-    plyometric: boolean; // Explosive/jump movements
-    mobility: boolean;   // Stretching/mobility work
-  };
-}
-
-/**
- * EXERCISE LIBRARY
- * =================
- * Comprehensive exercise database for EMOM workout generation.
- * All exercises now use typed EquipmentId[] for type-safe equipment requirements.
- * Each exercise has category tags (compound, cardio, plyometric, mobility) for goal-based filtering.
- *
- * Total: 50+ exercises across 20 equipment categories
- */
-const EXERCISES: Exercise[] = [
-  // Bodyweight (9 exercises)
-  { name: "Burpees", muscleGroup: "full-body", difficulty: "intermediate", equipment: ["bodyweight"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: true, plyometric: true, mobility: false } },
-  { name: "Air Squats", muscleGroup: "legs", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 15, intermediate: 25, advanced: 35 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Push-ups", muscleGroup: "chest", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 10, intermediate: 20, advanced: 30 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Mountain Climbers", muscleGroup: "core", difficulty: "intermediate", equipment: ["bodyweight"], reps: { beginner: 20, intermediate: 30, advanced: 40 }, categories: { compound: false, cardio: true, plyometric: false, mobility: false } },
-  { name: "Plank Hold", muscleGroup: "core", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 30, intermediate: 45, advanced: 60 }, isHold: true, categories: { compound: false, cardio: false, plyometric: false, mobility: true } },
-  { name: "Jumping Jacks", muscleGroup: "cardio", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 20, intermediate: 30, advanced: 40 }, categories: { compound: false, cardio: true, plyometric: true, mobility: false } },
-  { name: "Lunges", muscleGroup: "legs", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 12, intermediate: 16, advanced: 24 }, alternatesSides: true, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "High Knees", muscleGroup: "cardio", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 20, intermediate: 30, advanced: 40 }, categories: { compound: false, cardio: true, plyometric: true, mobility: false } },
-  { name: "Squat Jumps", muscleGroup: "legs", difficulty: "intermediate", equipment: ["bodyweight"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: true, cardio: false, plyometric: true, mobility: false } },
-
-  // Dumbbells (6 exercises)
-  { name: "Dumbbell Thrusters", muscleGroup: "full-body", difficulty: "advanced", equipment: ["dumbbells"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Dumbbell Goblet Squats", muscleGroup: "legs", difficulty: "intermediate", equipment: ["dumbbells"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Dumbbell Rows", muscleGroup: "back", difficulty: "intermediate", equipment: ["dumbbells"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Dumbbell Snatches", muscleGroup: "full-body", difficulty: "advanced", equipment: ["dumbbells"], reps: { beginner: 6, intermediate: 10, advanced: 14 }, categories: { compound: true, cardio: false, plyometric: true, mobility: false } },
-  { name: "Dumbbell Shoulder Press", muscleGroup: "shoulders", difficulty: "intermediate", equipment: ["dumbbells"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false } },
-  { name: "Dumbbell Lunges", muscleGroup: "legs", difficulty: "intermediate", equipment: ["dumbbells"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, alternatesSides: true, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-
-  // Kettlebells (5 exercises)
-  { name: "Kettlebell Swings", muscleGroup: "posterior-chain", difficulty: "intermediate", equipment: ["kettlebell"], reps: { beginner: 12, intermediate: 20, advanced: 30 }, categories: { compound: true, cardio: true, plyometric: true, mobility: false } },
-  { name: "Kettlebell Goblet Squats", muscleGroup: "legs", difficulty: "intermediate", equipment: ["kettlebell"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Kettlebell Clean & Press", muscleGroup: "full-body", difficulty: "advanced", equipment: ["kettlebell"], reps: { beginner: 6, intermediate: 10, advanced: 14 }, categories: { compound: true, cardio: false, plyometric: true, mobility: false } },
-  { name: "Kettlebell Turkish Get-ups", muscleGroup: "full-body", difficulty: "advanced", equipment: ["kettlebell"], reps: { beginner: 4, intermediate: 6, advanced: 10 }, categories: { compound: true, cardio: false, plyometric: false, mobility: true } },
-  { name: "Kettlebell Snatches", muscleGroup: "full-body", difficulty: "advanced", equipment: ["kettlebell"], reps: { beginner: 6, intermediate: 10, advanced: 14 }, categories: { compound: true, cardio: false, plyometric: true, mobility: false } },
-
-  // Resistance Bands (4 exercises)
-  { name: "Band Pull-aparts", muscleGroup: "shoulders", difficulty: "beginner", equipment: ["resistance_bands_loop"], reps: { beginner: 15, intermediate: 20, advanced: 25 }, categories: { compound: false, cardio: false, plyometric: false, mobility: true } },
-  { name: "Band Squats", muscleGroup: "legs", difficulty: "beginner", equipment: ["resistance_bands_loop"], reps: { beginner: 15, intermediate: 20, advanced: 25 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Band Rows", muscleGroup: "back", difficulty: "beginner", equipment: ["resistance_band_long"], reps: { beginner: 12, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Band Chest Press", muscleGroup: "chest", difficulty: "intermediate", equipment: ["resistance_band_long"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-
-  // Barbell (5 exercises)
-  { name: "Barbell Thrusters", muscleGroup: "full-body", difficulty: "advanced", equipment: ["barbell"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Barbell Front Squats", muscleGroup: "legs", difficulty: "advanced", equipment: ["barbell"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Barbell Deadlifts", muscleGroup: "posterior-chain", difficulty: "intermediate", equipment: ["barbell"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Barbell Push Press", muscleGroup: "shoulders", difficulty: "intermediate", equipment: ["barbell"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: true, mobility: false } },
-  { name: "Barbell Rows", muscleGroup: "back", difficulty: "intermediate", equipment: ["barbell"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-
-  // Pull-up Bar (4 exercises)
-  { name: "Pull-ups", muscleGroup: "back", difficulty: "advanced", equipment: ["pull_up_bar"], reps: { beginner: 3, intermediate: 8, advanced: 12 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Chin-ups", muscleGroup: "back", difficulty: "advanced", equipment: ["pull_up_bar"], reps: { beginner: 3, intermediate: 8, advanced: 12 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Hanging Knee Raises", muscleGroup: "core", difficulty: "intermediate", equipment: ["pull_up_bar"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false } },
-  { name: "Toes to Bar", muscleGroup: "core", difficulty: "advanced", equipment: ["pull_up_bar"], reps: { beginner: 5, intermediate: 10, advanced: 15 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false } },
-
-  // Bench (3 exercises)
-  { name: "Bench Dips", muscleGroup: "triceps", difficulty: "beginner", equipment: ["bench"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false } },
-  { name: "Box Jumps (Bench)", muscleGroup: "legs", difficulty: "intermediate", equipment: ["bench"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: true, mobility: false } },
-  { name: "Incline Push-ups", muscleGroup: "chest", difficulty: "beginner", equipment: ["bench"], reps: { beginner: 12, intermediate: 18, advanced: 25 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-
-  // Medicine Ball (4 exercises)
-  { name: "Med Ball Slams", muscleGroup: "full-body", difficulty: "intermediate", equipment: ["medicine_ball"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: true, plyometric: true, mobility: false } },
-  { name: "Med Ball Wall Balls", muscleGroup: "full-body", difficulty: "intermediate", equipment: ["medicine_ball"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: true, plyometric: false, mobility: false } },
-  { name: "Med Ball Russian Twists", muscleGroup: "core", difficulty: "intermediate", equipment: ["medicine_ball"], reps: { beginner: 20, intermediate: 30, advanced: 40 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false } },
-  { name: "Med Ball Chest Pass", muscleGroup: "chest", difficulty: "beginner", equipment: ["medicine_ball"], reps: { beginner: 15, intermediate: 20, advanced: 25 }, categories: { compound: false, cardio: false, plyometric: true, mobility: false } },
-
-  // Jump Rope (2 exercises)
-  { name: "Double Unders", muscleGroup: "cardio", difficulty: "advanced", equipment: ["jump_rope"], reps: { beginner: 20, intermediate: 40, advanced: 60 }, categories: { compound: false, cardio: true, plyometric: true, mobility: false } },
-  { name: "Single Unders", muscleGroup: "cardio", difficulty: "beginner", equipment: ["jump_rope"], reps: { beginner: 40, intermediate: 60, advanced: 80 }, categories: { compound: false, cardio: true, plyometric: false, mobility: false } },
-
-  // Treadmill (2 exercises)
-  { name: "Treadmill Sprint Intervals", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["treadmill"], reps: { beginner: 30, intermediate: 45, advanced: 60 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false } },
-  { name: "Treadmill Incline Run", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["treadmill"], reps: { beginner: 45, intermediate: 60, advanced: 75 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false } },
-
-  // Bike (2 exercises)
-  { name: "Bike Sprint Intervals", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["bike"], reps: { beginner: 30, intermediate: 45, advanced: 60 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false } },
-  { name: "Bike Hill Climbs", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["bike"], reps: { beginner: 45, intermediate: 60, advanced: 75 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false } },
-
-  // Rower (2 exercises)
-  { name: "Rowing Sprint Intervals", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["rower"], reps: { beginner: 30, intermediate: 45, advanced: 60 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false } },
-  { name: "Rowing 500m", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["rower"], reps: { beginner: 120, intermediate: 110, advanced: 100 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false } },
-
-  // Elliptical (1 exercise)
-  { name: "Elliptical Sprint Intervals", muscleGroup: "cardio", difficulty: "beginner", equipment: ["elliptical"], reps: { beginner: 30, intermediate: 45, advanced: 60 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false } },
-
-  // Sliders (3 exercises)
-  { name: "Slider Mountain Climbers", muscleGroup: "core", difficulty: "intermediate", equipment: ["sliders"], reps: { beginner: 20, intermediate: 30, advanced: 40 }, categories: { compound: false, cardio: true, plyometric: false, mobility: false } },
-  { name: "Slider Pike", muscleGroup: "core", difficulty: "advanced", equipment: ["sliders"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false } },
-  { name: "Slider Lunges", muscleGroup: "legs", difficulty: "intermediate", equipment: ["sliders"], reps: { beginner: 10, intermediate: 16, advanced: 20 }, alternatesSides: true, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-
-  // Step/Box (3 exercises)
-  { name: "Box Jumps", muscleGroup: "legs", difficulty: "intermediate", equipment: ["step_box"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: true, mobility: false } },
-  { name: "Box Step-ups", muscleGroup: "legs", difficulty: "beginner", equipment: ["step_box"], reps: { beginner: 10, intermediate: 16, advanced: 24 }, alternatesSides: true, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "Lateral Box Step-overs", muscleGroup: "legs", difficulty: "intermediate", equipment: ["step_box"], reps: { beginner: 10, intermediate: 16, advanced: 20 }, alternatesSides: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false } },
-
-  // TRX/Suspension (2 exercises)
-  { name: "TRX Rows", muscleGroup: "back", difficulty: "intermediate", equipment: ["trx"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false } },
-  { name: "TRX Pike", muscleGroup: "core", difficulty: "advanced", equipment: ["trx"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false } },
-];
+// Exercise catalog lives in @shared/exercises so the API and client share the same ids
+type Exercise = ExerciseDefinition;
 
 // GeneratedWorkout type now imported from @shared/schema
 
@@ -170,13 +71,17 @@ function calculateExerciseFitnessScore(
 /**
  * Helper: Weighted random selection based on fitness scores
  */
-function weightedRandomSelection<T>(items: T[], getWeight: (item: T) => number): T {
+function weightedRandomSelection<T>(
+  items: T[],
+  getWeight: (item: T) => number,
+  random: RandomSource = Math.random,
+): T {
   const totalWeight = items.reduce((sum, item) => sum + getWeight(item), 0);
-  let random = Math.random() * totalWeight;
+  let remaining = random() * totalWeight;
 
   for (const item of items) {
-    random -= getWeight(item);
-    if (random <= 0) {
+    remaining -= getWeight(item);
+    if (remaining <= 0) {
       return item;
     }
   }
@@ -203,19 +108,24 @@ function banditSelectExercise<T extends { name: string }>(
   personalization: PersonalizationInsights | undefined,
   baseWeight: (item: T) => number,
   explorationEpsilon = 0.15,
+  random: RandomSource = Math.random,
 ): T {
   if (!candidates.length) {
     throw new Error("No exercise candidates available");
   }
 
-  if (personalization?.exerciseScores && Math.random() < explorationEpsilon) {
-    return candidates[Math.floor(Math.random() * candidates.length)];
+  if (personalization?.exerciseScores && random() < explorationEpsilon) {
+    return candidates[Math.floor(random() * candidates.length)];
   }
 
-  return weightedRandomSelection(candidates, (item) => {
-    const base = baseWeight(item);
-    return applyExerciseUtilityWeight(base, item.name, personalization);
-  });
+  return weightedRandomSelection(
+    candidates,
+    (item) => {
+      const base = baseWeight(item);
+      return applyExerciseUtilityWeight(base, item.name, personalization);
+    },
+    random,
+  );
 }
 
 function normalizeExerciseBias(
@@ -250,6 +160,11 @@ function getIntensityMultiplier(personalization?: PersonalizationInsights): numb
   return clampNumber(1 + adjustment, 0.75, 1.3);
 }
 
+// Block periodization phase (see getMesocycleStatus); neutral when no phase is known
+function getPhaseLoad(personalization?: PersonalizationInsights): { repScale: number; durationScale: number } {
+  return personalization?.mesocycle ?? { repScale: 1, durationScale: 1 };
+}
+
 function applyIntentBias(
   bias: { compound: number; cardio: number; plyometric: number; mobility: number },
   intent?: SessionIntent
@@ -295,6 +210,23 @@ function getMusclePreferenceMultiplier(muscleGroup: string, personalization?: Pe
   return clampNumber(preference, 0.85, 1.25);
 }
 
+/**
+ * Helper: Candidate pool shared by all generators - built-in and custom exercises the user
+ * has equipment for, minus anything ruled out by profile constraints (hard filter)
+ */
+function buildExercisePool(
+  equipmentSet: Set<EquipmentId>,
+  customExercises: Exercise[],
+  constraints: ExerciseConstraints,
+): { pool: Exercise[]; constraintNote: string } {
+  const equipped = [...EXERCISE_LIBRARY, ...customExercises].filter((ex) =>
+    ex.equipment.every((eq) => equipmentSet.has(eq))
+  );
+  const { allowed, excluded } = applyExerciseConstraints(equipped, constraints);
+
+  return { pool: allowed, constraintNote: describeExerciseConstraints(constraints, excluded) };
+}
+
 export function generateEMOMWorkout(
   skillScore: number,
   fitnessLevel: string,
@@ -304,8 +236,14 @@ export function generateEMOMWorkout(
   goalWeights?: Record<PrimaryGoalId, number>,
   personalization?: PersonalizationInsights,
   intent?: SessionIntent,
-  sessionHistory?: Array<WorkoutSession & { rounds: WorkoutRound[] }>
+  sessionHistory?: Array<WorkoutSession & { rounds: WorkoutRound[] }>,
+  seed: number = generateSeed(),
+  customExercises: Exercise[] = [],
+  constraints: ExerciseConstraints = DEFAULT_EXERCISE_CONSTRAINTS
 ): GeneratedWorkout {
+  // Seeded random source so the same seed + inputs reproduce the same workout
+  const random = createSeededRandom(seed);
+
   // Migrate legacy goalFocus to new primaryGoal if needed
   let resolvedPrimaryGoal = primaryGoal || migrateLegacyGoal(goalFocus);
 
@@ -330,7 +268,8 @@ export function generateEMOMWorkout(
   }
 
   const energyMultiplier = getEnergyLevelMultiplier(intent);
-  const intensityMultiplier = getIntensityMultiplier(personalization) * energyMultiplier;
+  const phaseLoad = getPhaseLoad(personalization);
+  const intensityMultiplier = getIntensityMultiplier(personalization) * energyMultiplier * phaseLoad.repScale;
 
   // Determine duration based on goal preferences, difficulty, and equipment richness
   let durationMinutes: number;
@@ -338,7 +277,7 @@ export function generateEMOMWorkout(
   if (goalConfig && goalConfig.preferredDurationsMinutes) {
     // Use goal-specific duration range
     const [minDuration, maxDuration] = goalConfig.preferredDurationsMinutes;
-    durationMinutes = minDuration + Math.floor(Math.random() * (maxDuration - minDuration + 1));
+    durationMinutes = minDuration + Math.floor(random() * (maxDuration - minDuration + 1));
 
     // Adjust for difficulty level
     if (difficultyTag === "beginner") {
@@ -354,14 +293,14 @@ export function generateEMOMWorkout(
   } else {
     // Fallback to original duration logic
     if (difficultyTag === "beginner") {
-      durationMinutes = 8 + Math.floor(Math.random() * 5); // 8-12
+      durationMinutes = 8 + Math.floor(random() * 5); // 8-12
     } else if (difficultyTag === "intermediate") {
-      durationMinutes = 12 + Math.floor(Math.random() * 9); // 12-20
+      durationMinutes = 12 + Math.floor(random() * 9); // 12-20
       if (equipmentRichness === "full") {
         durationMinutes += 2;
       }
     } else {
-      durationMinutes = 20 + Math.floor(Math.random() * 11); // 20-30
+      durationMinutes = 20 + Math.floor(random() * 11); // 20-30
       if (equipmentRichness === "full") {
         durationMinutes += 3;
       }
@@ -377,7 +316,10 @@ export function generateEMOMWorkout(
     durationMinutes = Math.max(6, Math.round(durationMinutes * durationTuning));
   }
 
-  durationMinutes = Math.max(6, Math.round(durationMinutes * clampNumber(energyMultiplier, 0.85, 1.15)));
+  durationMinutes = Math.max(
+    6,
+    Math.round(durationMinutes * clampNumber(energyMultiplier, 0.85, 1.15) * phaseLoad.durationScale)
+  );
 
     // Get exercise bias from goal weights (or use primary goal config)
     const rawExerciseBias = goalWeights && resolvedPrimaryGoal
@@ -393,11 +335,8 @@ export function generateEMOMWorkout(
     : 'advanced';
 
   // Filter exercises by equipment and difficulty, with recovery-aware filtering
-  const availableExercises = EXERCISES.filter((ex) => {
-    // Check if user has ALL required equipment for this exercise
-    const hasAllEquipment = ex.equipment.every(eq => equipmentSet.has(eq));
-    if (!hasAllEquipment) return false;
-
+  const { pool: exercisePool, constraintNote } = buildExercisePool(equipmentSet, customExercises, constraints);
+  const availableExercises = exercisePool.filter((ex) => {
     // Strictly respect fitness level cap: Beginners only get beginner exercises
     if (maxAllowedDifficulty === 'beginner' && ex.difficulty !== 'beginner') return false;
     if (maxAllowedDifficulty === 'intermediate' && ex.difficulty === 'advanced') return false;
@@ -490,6 +429,7 @@ export function generateEMOMWorkout(
         return baseScore;
       },
       0.12,
+      random,
     );
 
     // Calculate base reps with mastery adjustment
@@ -504,6 +444,7 @@ export function generateEMOMWorkout(
 
     rounds.push({
       minuteIndex: i + 1,
+      exerciseId: exercise.id,
       exerciseName: exercise.name,
       targetMuscleGroup: exercise.muscleGroup,
       difficulty: exercise.difficulty,
@@ -538,7 +479,7 @@ export function generateEMOMWorkout(
       ? `${focusLabel} focus requested; kept EMOM for steady pacing with frequent movement changes.`
       : `Selected EMOM to align with ${goalConfig?.label ?? "general fitness"} goal bias and maintain interval structure.`,
     intensity: `Calibrated to ${difficultyTag} (skill score ${skillScore}) with ${intent?.energyLevel ?? "moderate"} energy target; intensity multiplier ${Math.round(intensityMultiplier * 100)}% and ${durationMinutes} min duration adjusted for equipment (${equipmentRichness}).`,
-    exerciseSelection: `Biasing toward ${describeExerciseBias(exerciseBias)} while respecting available gear; variety guardrails reduced repeats and honored any mobility/cardio intent.`
+    exerciseSelection: `Biasing toward ${describeExerciseBias(exerciseBias)} while respecting available gear; variety guardrails reduced repeats and honored any mobility/cardio intent.${constraintNote ? ` ${constraintNote}` : ""}`
   };
 
   return {
@@ -549,6 +490,7 @@ export function generateEMOMWorkout(
     rounds: finalRounds,
     intent,
     rationale,
+    seed,
   };
 }
 
@@ -568,8 +510,14 @@ export function generateTabataWorkout(
   goalWeights?: Record<PrimaryGoalId, number>,
   personalization?: PersonalizationInsights,
   intent?: SessionIntent,
-  sessionHistory?: Array<WorkoutSession & { rounds: WorkoutRound[] }>
+  sessionHistory?: Array<WorkoutSession & { rounds: WorkoutRound[] }>,
+  seed: number = generateSeed(),
+  customExercises: Exercise[] = [],
+  constraints: ExerciseConstraints = DEFAULT_EXERCISE_CONSTRAINTS
 ): GeneratedWorkout {
+  // Seeded random source so the same seed + inputs reproduce the same workout
+  const random = createSeededRandom(seed);
+
   // Migrate legacy goalFocus to new primaryGoal if needed
   let resolvedPrimaryGoal = primaryGoal || migrateLegacyGoal(goalFocus);
 
@@ -594,7 +542,8 @@ export function generateTabataWorkout(
   }
 
   const energyMultiplier = getEnergyLevelMultiplier(intent);
-  const intensityMultiplier = getIntensityMultiplier(personalization) * energyMultiplier;
+  const phaseLoad = getPhaseLoad(personalization);
+  const intensityMultiplier = getIntensityMultiplier(personalization) * energyMultiplier * phaseLoad.repScale;
 
   // Tabata: 2-3 exercises (8-12 minutes total)
   // Each exercise is 4 minutes (8 rounds of 20s work / 10s rest)
@@ -602,10 +551,11 @@ export function generateTabataWorkout(
   if (difficultyTag === "beginner") {
     numExercises = 2; // 8 minutes
   } else if (difficultyTag === "intermediate") {
-    numExercises = 2 + Math.floor(Math.random() * 2); // 2-3 exercises (8-12 minutes)
+    numExercises = 2 + Math.floor(random() * 2); // 2-3 exercises (8-12 minutes)
   } else {
     numExercises = 3; // 12 minutes
   }
+  numExercises = Math.max(2, Math.round(numExercises * phaseLoad.durationScale));
 
   let durationMinutes = numExercises * 4; // 4 minutes per exercise
 
@@ -634,10 +584,8 @@ export function generateTabataWorkout(
     : 'advanced';
 
   // Filter exercises by equipment and difficulty - Tabata needs high-intensity exercises
-  const availableExercises = EXERCISES.filter((ex) => {
-    const hasAllEquipment = ex.equipment.every(eq => equipmentSet.has(eq));
-    if (!hasAllEquipment) return false;
-
+  const { pool: exercisePool, constraintNote } = buildExercisePool(equipmentSet, customExercises, constraints);
+  const availableExercises = exercisePool.filter((ex) => {
     // Tabata works best with cardio and plyometric exercises
     if (!ex.categories.cardio && !ex.categories.plyometric && !ex.categories.compound) return false;
 
@@ -670,6 +618,7 @@ export function generateTabataWorkout(
         return baseScore;
       },
       0.15,
+      random,
     );
     selectedExercises.push(exercise);
     exerciseUsageCount.set(exercise.name, (exerciseUsageCount.get(exercise.name) || 0) + 1);
@@ -683,6 +632,7 @@ export function generateTabataWorkout(
     for (let round = 0; round < 8; round++) {
         rounds.push({
           minuteIndex: minuteIndex++,
+          exerciseId: exercise.id,
           exerciseName: exercise.name,
           targetMuscleGroup: exercise.muscleGroup,
           difficulty: exercise.difficulty,
@@ -700,7 +650,7 @@ export function generateTabataWorkout(
       ? `${focusLabel} focus requested; Tabata kept for fast intervals while respecting intent.`
       : `Selected Tabata to emphasize high-intensity intervals supporting ${goalConfig?.label ?? "conditioning"}.`,
     intensity: `Scaled to ${difficultyTag} (skill score ${skillScore}) with ${intent?.energyLevel ?? "moderate"} energy input; multiplier ${Math.round(intensityMultiplier * 100)}% and ${durationMinutes} min total adjusted for energy/equipment (${equipmentRichness}).`,
-    exerciseSelection: `Weighted toward ${describeExerciseBias(exerciseBias)} while filtering for cardio/plyo-friendly moves and avoiding repeats.`
+    exerciseSelection: `Weighted toward ${describeExerciseBias(exerciseBias)} while filtering for cardio/plyo-friendly moves and avoiding repeats.${constraintNote ? ` ${constraintNote}` : ""}`
   };
 
   return {
@@ -714,6 +664,7 @@ export function generateTabataWorkout(
     sets: 8,
     intent,
     rationale,
+    seed,
   };
 }
 
@@ -733,8 +684,14 @@ export function generateAMRAPWorkout(
   goalWeights?: Record<PrimaryGoalId, number>,
   personalization?: PersonalizationInsights,
   intent?: SessionIntent,
-  sessionHistory?: Array<WorkoutSession & { rounds: WorkoutRound[] }>
+  sessionHistory?: Array<WorkoutSession & { rounds: WorkoutRound[] }>,
+  seed: number = generateSeed(),
+  customExercises: Exercise[] = [],
+  constraints: ExerciseConstraints = DEFAULT_EXERCISE_CONSTRAINTS
 ): GeneratedWorkout {
+  // Seeded random source so the same seed + inputs reproduce the same workout
+  const random = createSeededRandom(seed);
+
   // Migrate legacy goalFocus to new primaryGoal if needed
   let resolvedPrimaryGoal = primaryGoal || migrateLegacyGoal(goalFocus);
 
@@ -759,16 +716,17 @@ export function generateAMRAPWorkout(
   }
 
   const energyMultiplier = getEnergyLevelMultiplier(intent);
-  const intensityMultiplier = getIntensityMultiplier(personalization) * energyMultiplier;
+  const phaseLoad = getPhaseLoad(personalization);
+  const intensityMultiplier = getIntensityMultiplier(personalization) * energyMultiplier * phaseLoad.repScale;
 
   // AMRAP: 10-20 minutes typical duration
   let durationMinutes: number;
   if (difficultyTag === "beginner") {
-    durationMinutes = 10 + Math.floor(Math.random() * 3); // 10-12 minutes
+    durationMinutes = 10 + Math.floor(random() * 3); // 10-12 minutes
   } else if (difficultyTag === "intermediate") {
-    durationMinutes = 12 + Math.floor(Math.random() * 5); // 12-16 minutes
+    durationMinutes = 12 + Math.floor(random() * 5); // 12-16 minutes
   } else {
-    durationMinutes = 15 + Math.floor(Math.random() * 6); // 15-20 minutes
+    durationMinutes = 15 + Math.floor(random() * 6); // 15-20 minutes
   }
 
   if (personalization) {
@@ -780,7 +738,10 @@ export function generateAMRAPWorkout(
     durationMinutes = Math.max(8, Math.round(durationMinutes * tuning));
   }
 
-  durationMinutes = Math.max(8, Math.round(durationMinutes * clampNumber(energyMultiplier, 0.85, 1.15)));
+  durationMinutes = Math.max(
+    8,
+    Math.round(durationMinutes * clampNumber(energyMultiplier, 0.85, 1.15) * phaseLoad.durationScale)
+  );
 
     // Get exercise bias from goal weights
     const rawExerciseBias = goalWeights && resolvedPrimaryGoal
@@ -796,10 +757,8 @@ export function generateAMRAPWorkout(
     : 'advanced';
 
   // Filter exercises by equipment and difficulty
-  const availableExercises = EXERCISES.filter((ex) => {
-    const hasAllEquipment = ex.equipment.every(eq => equipmentSet.has(eq));
-    if (!hasAllEquipment) return false;
-
+  const { pool: exercisePool, constraintNote } = buildExercisePool(equipmentSet, customExercises, constraints);
+  const availableExercises = exercisePool.filter((ex) => {
     // Strictly respect fitness level cap: Beginners only get beginner exercises
     if (maxAllowedDifficulty === 'beginner' && ex.difficulty !== 'beginner') return false;
     if (maxAllowedDifficulty === 'intermediate' && ex.difficulty === 'advanced') return false;
@@ -813,9 +772,9 @@ export function generateAMRAPWorkout(
   if (difficultyTag === "beginner") {
     numExercises = 3;
   } else if (difficultyTag === "intermediate") {
-    numExercises = 4 + Math.floor(Math.random() * 2); // 4-5
+    numExercises = 4 + Math.floor(random() * 2); // 4-5
   } else {
-    numExercises = 5 + Math.floor(Math.random() * 2); // 5-6
+    numExercises = 5 + Math.floor(random() * 2); // 5-6
   }
 
   // Select exercises for the circuit with variety boost
@@ -838,6 +797,7 @@ export function generateAMRAPWorkout(
         return baseScore;
       },
       0.15,
+      random,
     );
     circuitExercises.push(exercise);
     exerciseUsageCount.set(exercise.name, (exerciseUsageCount.get(exercise.name) || 0) + 1);
@@ -850,6 +810,7 @@ export function generateAMRAPWorkout(
     rounds.push({
       // 1-based index for cleaner UI labels
       minuteIndex: i + 1,
+      exerciseId: exercise.id,
       exerciseName: exercise.name,
       targetMuscleGroup: exercise.muscleGroup,
       difficulty: exercise.difficulty,
@@ -866,7 +827,7 @@ export function generateAMRAPWorkout(
       ? `${focusLabel} focus requested; AMRAP kept to encourage continuous effort with that emphasis.`
       : `Selected AMRAP to align with ${goalConfig?.label ?? "metabolic"} emphasis and continuous pacing.`,
     intensity: `Difficulty ${difficultyTag} (skill score ${skillScore}) with ${intent?.energyLevel ?? "moderate"} energy request; intensity multiplier ${Math.round(intensityMultiplier * 100)}% and ${durationMinutes} min duration tuned for energy/equipment (${equipmentRichness}).`,
-    exerciseSelection: `Circuit favors ${describeExerciseBias(exerciseBias)} while rotating through available gear and respecting avoidance of recent repeats.`
+    exerciseSelection: `Circuit favors ${describeExerciseBias(exerciseBias)} while rotating through available gear and respecting avoidance of recent repeats.${constraintNote ? ` ${constraintNote}` : ""}`
   };
 
   return {
@@ -877,6 +838,7 @@ export function generateAMRAPWorkout(
     rounds,
     intent,
     rationale,
+    seed,
   };
 }
 
@@ -896,8 +858,14 @@ export function generateCircuitWorkout(
   goalWeights?: Record<PrimaryGoalId, number>,
   personalization?: PersonalizationInsights,
   intent?: SessionIntent,
-  sessionHistory?: Array<WorkoutSession & { rounds: WorkoutRound[] }>
+  sessionHistory?: Array<WorkoutSession & { rounds: WorkoutRound[] }>,
+  seed: number = generateSeed(),
+  customExercises: Exercise[] = [],
+  constraints: ExerciseConstraints = DEFAULT_EXERCISE_CONSTRAINTS
 ): GeneratedWorkout {
+  // Seeded random source so the same seed + inputs reproduce the same workout
+  const random = createSeededRandom(seed);
+
   // Migrate legacy goalFocus to new primaryGoal if needed
   let resolvedPrimaryGoal = primaryGoal || migrateLegacyGoal(goalFocus);
 
@@ -922,17 +890,19 @@ export function generateCircuitWorkout(
   }
 
   const energyMultiplier = getEnergyLevelMultiplier(intent);
-  const intensityMultiplier = getIntensityMultiplier(personalization) * energyMultiplier;
+  const phaseLoad = getPhaseLoad(personalization);
+  const intensityMultiplier = getIntensityMultiplier(personalization) * energyMultiplier * phaseLoad.repScale;
 
   // Circuit: 3-5 rounds
   let totalRounds: number;
   if (difficultyTag === "beginner") {
     totalRounds = 3;
   } else if (difficultyTag === "intermediate") {
-    totalRounds = 3 + Math.floor(Math.random() * 2); // 3-4 rounds
+    totalRounds = 3 + Math.floor(random() * 2); // 3-4 rounds
   } else {
-    totalRounds = 4 + Math.floor(Math.random() * 2); // 4-5 rounds
+    totalRounds = 4 + Math.floor(random() * 2); // 4-5 rounds
   }
+  totalRounds = Math.max(2, Math.round(totalRounds * phaseLoad.durationScale));
 
     // Get exercise bias from goal weights
     const rawExerciseBias = goalWeights && resolvedPrimaryGoal
@@ -948,10 +918,8 @@ export function generateCircuitWorkout(
     : 'advanced';
 
   // Filter exercises by equipment and difficulty
-  const availableExercises = EXERCISES.filter((ex) => {
-    const hasAllEquipment = ex.equipment.every(eq => equipmentSet.has(eq));
-    if (!hasAllEquipment) return false;
-
+  const { pool: exercisePool, constraintNote } = buildExercisePool(equipmentSet, customExercises, constraints);
+  const availableExercises = exercisePool.filter((ex) => {
     // Strictly respect fitness level cap: Beginners only get beginner exercises
     if (maxAllowedDifficulty === 'beginner' && ex.difficulty !== 'beginner') return false;
     if (maxAllowedDifficulty === 'intermediate' && ex.difficulty === 'advanced') return false;
@@ -963,11 +931,11 @@ export function generateCircuitWorkout(
   // Circuit exercises: 4-8 exercises per round
   let exercisesPerRound: number;
   if (difficultyTag === "beginner") {
-    exercisesPerRound = 4 + Math.floor(Math.random() * 2); // 4-5
+    exercisesPerRound = 4 + Math.floor(random() * 2); // 4-5
   } else if (difficultyTag === "intermediate") {
-    exercisesPerRound = 5 + Math.floor(Math.random() * 2); // 5-6
+    exercisesPerRound = 5 + Math.floor(random() * 2); // 5-6
   } else {
-    exercisesPerRound = 6 + Math.floor(Math.random() * 3); // 6-8
+    exercisesPerRound = 6 + Math.floor(random() * 3); // 6-8
   }
 
   // Select exercises for the circuit with variety boost
@@ -989,6 +957,7 @@ export function generateCircuitWorkout(
         return baseScore;
       },
       0.15,
+      random,
     );
     circuitExercises.push(exercise);
     exerciseUsageCount.set(exercise.name, (exerciseUsageCount.get(exercise.name) || 0) + 1);
@@ -1003,6 +972,7 @@ export function generateCircuitWorkout(
     for (const exercise of circuitExercises) {
         rounds.push({
           minuteIndex: minuteIndex++,
+          exerciseId: exercise.id,
           exerciseName: exercise.name,
           targetMuscleGroup: exercise.muscleGroup,
           difficulty: exercise.difficulty,
@@ -1035,7 +1005,7 @@ export function generateCircuitWorkout(
       ? `${focusLabel} focus requested; Circuit chosen for controlled work/rest while honoring intent.`
       : `Selected Circuit to support ${goalConfig?.label ?? "balanced"} work with predictable rounds.`,
     intensity: `Difficulty ${difficultyTag} (skill score ${skillScore}); ${intent?.energyLevel ?? "moderate"} energy target scales to ${Math.round(intensityMultiplier * 100)}% effort and ${adjustedDuration} min total with rest tuning (${equipmentRichness} equipment).`,
-    exerciseSelection: `Rounded toward ${describeExerciseBias(exerciseBias)} while rotating gear and spacing repeats for variety.`
+    exerciseSelection: `Rounded toward ${describeExerciseBias(exerciseBias)} while rotating gear and spacing repeats for variety.${constraintNote ? ` ${constraintNote}` : ""}`
   };
 
   return {
@@ -1048,6 +1018,371 @@ export function generateCircuitWorkout(
     totalRounds,
     intent,
     rationale,
+    seed,
+  };
+}
+
+/**
+ * LADDER WORKOUT GENERATOR
+ * =========================
+ * Ladder Format: a short list of exercises repeated on every rung, with reps
+ * climbing (ascending), dropping (descending) or both (pyramid, e.g. 2-4-6-8-10-8-6-4-2)
+ * Self-paced under a time cap; typically 2-3 rep-based exercises over 4-6 steps
+ */
+export function generateLadderWorkout(
+  skillScore: number,
+  fitnessLevel: string,
+  equipment: string[],
+  goalFocus: string | null,
+  primaryGoal?: PrimaryGoalId | null,
+  goalWeights?: Record<PrimaryGoalId, number>,
+  personalization?: PersonalizationInsights,
+  intent?: SessionIntent,
+  sessionHistory?: Array<WorkoutSession & { rounds: WorkoutRound[] }>,
+  seed: number = generateSeed(),
+  customExercises: Exercise[] = [],
+  constraints: ExerciseConstraints = DEFAULT_EXERCISE_CONSTRAINTS
+): GeneratedWorkout {
+  // Seeded random source so the same seed + inputs reproduce the same workout
+  const random = createSeededRandom(seed);
+
+  // Migrate legacy goalFocus to new primaryGoal if needed
+  let resolvedPrimaryGoal = primaryGoal || migrateLegacyGoal(goalFocus);
+
+  // Migrate equipment values to new typed format for backward compatibility
+  const migratedEquipment: EquipmentId[] = migrateEquipment(equipment);
+  const equipmentSet = new Set<EquipmentId>(migratedEquipment);
+
+  // Get equipment richness to adjust difficulty
+  const equipmentRichness = getEquipmentRichness(migratedEquipment);
+
+  // Get goal configuration
+  const goalConfig = resolvedPrimaryGoal ? getPrimaryGoalConfig(resolvedPrimaryGoal) : null;
+
+  // Determine difficulty tier
+  let difficultyTag: "beginner" | "intermediate" | "advanced";
+  if (skillScore <= 35) {
+    difficultyTag = "beginner";
+  } else if (skillScore <= 70) {
+    difficultyTag = "intermediate";
+  } else {
+    difficultyTag = "advanced";
+  }
+
+  const energyMultiplier = getEnergyLevelMultiplier(intent);
+  const phaseLoad = getPhaseLoad(personalization);
+  const intensityMultiplier = getIntensityMultiplier(personalization) * energyMultiplier * phaseLoad.repScale;
+
+  // Ladder shape: beginners climb or descend once, everyone else mostly gets the full pyramid
+  let ladderScheme: LadderScheme;
+  if (difficultyTag === "beginner") {
+    ladderScheme = random() < 0.5 ? "ascending" : "descending";
+  } else {
+    const roll = random();
+    ladderScheme = roll < 0.6 ? "pyramid" : roll < 0.8 ? "ascending" : "descending";
+  }
+
+  // Ladder steps: 4-6 rungs to the peak
+  let steps: number;
+  if (difficultyTag === "beginner") {
+    steps = 4;
+  } else if (difficultyTag === "intermediate") {
+    steps = 5;
+  } else {
+    steps = 5 + Math.floor(random() * 2); // 5-6
+  }
+  steps = Math.max(3, Math.round(steps * phaseLoad.durationScale));
+
+    // Get exercise bias from goal weights
+    const rawExerciseBias = goalWeights && resolvedPrimaryGoal
+      ? getCombinedExerciseBias(goalWeights)
+      : goalConfig?.exerciseBias ?? { compound: 0.7, cardio: 0.4, plyometric: 0.3, mobility: 0.1 };
+    const exerciseBias = applyIntentBias(normalizeExerciseBias(rawExerciseBias), intent);
+
+  // Determine max allowed difficulty based on fitnessLevel (caps exercise difficulty)
+  const maxAllowedDifficulty = fitnessLevel.toLowerCase() === 'beginner' 
+    ? 'beginner' 
+    : fitnessLevel.toLowerCase() === 'intermediate' 
+    ? 'intermediate' 
+    : 'advanced';
+
+  // Filter exercises by equipment and difficulty
+  const { pool: exercisePool, constraintNote } = buildExercisePool(equipmentSet, customExercises, constraints);
+  const availableExercises = exercisePool.filter((ex) => {
+    // Strictly respect fitness level cap: Beginners only get beginner exercises
+    if (maxAllowedDifficulty === 'beginner' && ex.difficulty !== 'beginner') return false;
+    if (maxAllowedDifficulty === 'intermediate' && ex.difficulty === 'advanced') return false;
+    // Advanced users can get all difficulty levels
+
+    return true;
+  });
+  // Rep ladders need countable reps; holds are only used if nothing else is available
+  const repExercises = availableExercises.filter((ex) => !ex.isHold);
+  const ladderCandidates = repExercises.length > 0 ? repExercises : availableExercises;
+
+  // Ladder exercises: 2-3 per rung
+  let numExercises: number;
+  if (difficultyTag === "beginner") {
+    numExercises = 2;
+  } else if (difficultyTag === "intermediate") {
+    numExercises = 2 + Math.floor(random() * 2); // 2-3
+  } else {
+    numExercises = 3;
+  }
+
+  const ladderExercises: Exercise[] = [];
+
+  for (let i = 0; i < numExercises; i++) {
+    const candidates = ladderCandidates.filter(ex => !ladderExercises.includes(ex));
+    const exercise = banditSelectExercise(
+      candidates.length > 0 ? candidates : ladderCandidates,
+      personalization,
+      (ex) => {
+        let baseScore = calculateExerciseFitnessScore(ex, exerciseBias);
+        baseScore *= getMusclePreferenceMultiplier(ex.muscleGroup, personalization);
+        // Prefer a different muscle group on each exercise so rungs alternate the load
+        if (!ladderExercises.some((picked) => picked.muscleGroup === ex.muscleGroup)) {
+          baseScore *= 1.5;
+        }
+        return baseScore;
+      },
+      0.15,
+      random,
+    );
+    ladderExercises.push(exercise);
+  }
+
+  // Peak rung uses the exercise's normal prescription; lower rungs scale down from it
+  const rungReps = ladderExercises.map((exercise) =>
+    getLadderRungReps(
+      Math.max(1, Math.round(exercise.reps[difficultyTag] * intensityMultiplier)),
+      ladderScheme,
+      steps,
+      exercise.alternatesSides || false,
+    )
+  );
+  const totalRungs = rungReps[0].length;
+
+  // Create rounds array (every exercise once per rung)
+  const rounds: GeneratedWorkout['rounds'] = [];
+  // 1-based index so UI never shows interval "0"
+  let minuteIndex = 1;
+
+  for (let rung = 0; rung < totalRungs; rung++) {
+    ladderExercises.forEach((exercise, exerciseIndex) => {
+      rounds.push({
+        minuteIndex: minuteIndex++,
+        exerciseId: exercise.id,
+        exerciseName: exercise.name,
+        targetMuscleGroup: exercise.muscleGroup,
+        difficulty: exercise.difficulty,
+        reps: rungReps[exerciseIndex][rung],
+        isHold: exercise.isHold || false,
+        alternatesSides: exercise.alternatesSides || false,
+      });
+    });
+  }
+
+  // Time cap (estimate: ~3s per rep plus transitions, with headroom to finish the ladder)
+  const totalReps = rounds.reduce((sum, round) => sum + round.reps, 0);
+  const estimatedMinutes = (totalReps * 3 + rounds.length * 10) / 60;
+  const durationMinutes = Math.round(
+    clampNumber(Math.ceil(estimatedMinutes * 1.25) * clampNumber(energyMultiplier, 0.85, 1.15), 8, 25)
+  );
+
+  const focusLabel = intent?.focusToday ?? goalConfig?.label ?? goalFocus ?? "General Fitness";
+
+  const rationale = {
+    framework: intent?.focusToday
+      ? `${focusLabel} focus requested; Ladder chosen so volume builds rung by rung around that emphasis.`
+      : `Selected a ${ladderScheme} Ladder to support ${goalConfig?.label ?? "balanced"} work with built-in rep progression.`,
+    intensity: `Difficulty ${difficultyTag} (skill score ${skillScore}); ${intent?.energyLevel ?? "moderate"} energy scales the peak rung to ${Math.round(intensityMultiplier * 100)}% (${rungReps[0].join("-")}) with a ${durationMinutes} min cap (${equipmentRichness} equipment).`,
+    exerciseSelection: `Paired rep-based movements toward ${describeExerciseBias(exerciseBias)}, alternating muscle groups between exercises on each rung.${constraintNote ? ` ${constraintNote}` : ""}`
+  };
+
+  return {
+    framework: "Ladder",
+    durationMinutes,
+    difficultyTag,
+    focusLabel,
+    rounds,
+    totalRounds: totalRungs,
+    ladderScheme,
+    intent,
+    rationale,
+    seed,
+  };
+}
+
+/**
+ * FOR TIME WORKOUT GENERATOR
+ * ===========================
+ * For Time Format: a chipper - a fixed list of exercises, each with a total rep count,
+ * completed once in order as fast as possible under a time cap
+ * Typically 3-5 exercises; the finish time is tracked as a benchmark
+ */
+export function generateForTimeWorkout(
+  skillScore: number,
+  fitnessLevel: string,
+  equipment: string[],
+  goalFocus: string | null,
+  primaryGoal?: PrimaryGoalId | null,
+  goalWeights?: Record<PrimaryGoalId, number>,
+  personalization?: PersonalizationInsights,
+  intent?: SessionIntent,
+  sessionHistory?: Array<WorkoutSession & { rounds: WorkoutRound[] }>,
+  seed: number = generateSeed(),
+  customExercises: Exercise[] = [],
+  constraints: ExerciseConstraints = DEFAULT_EXERCISE_CONSTRAINTS
+): GeneratedWorkout {
+  // Seeded random source so the same seed + inputs reproduce the same workout
+  const random = createSeededRandom(seed);
+
+  // Migrate legacy goalFocus to new primaryGoal if needed
+  let resolvedPrimaryGoal = primaryGoal || migrateLegacyGoal(goalFocus);
+
+  // Migrate equipment values to new typed format for backward compatibility
+  const migratedEquipment: EquipmentId[] = migrateEquipment(equipment);
+  const equipmentSet = new Set<EquipmentId>(migratedEquipment);
+
+  // Get equipment richness to adjust difficulty
+  const equipmentRichness = getEquipmentRichness(migratedEquipment);
+
+  // Get goal configuration
+  const goalConfig = resolvedPrimaryGoal ? getPrimaryGoalConfig(resolvedPrimaryGoal) : null;
+
+  // Determine difficulty tier
+  let difficultyTag: "beginner" | "intermediate" | "advanced";
+  if (skillScore <= 35) {
+    difficultyTag = "beginner";
+  } else if (skillScore <= 70) {
+    difficultyTag = "intermediate";
+  } else {
+    difficultyTag = "advanced";
+  }
+
+  const energyMultiplier = getEnergyLevelMultiplier(intent);
+  const phaseLoad = getPhaseLoad(personalization);
+  const intensityMultiplier = getIntensityMultiplier(personalization) * energyMultiplier * phaseLoad.repScale;
+
+  // Chipper volume: each exercise's normal prescription repeated this many times
+  let volumeMultiplier: number;
+  if (difficultyTag === "beginner") {
+    volumeMultiplier = 2;
+  } else if (difficultyTag === "intermediate") {
+    volumeMultiplier = 3;
+  } else {
+    volumeMultiplier = 4;
+  }
+  volumeMultiplier *= phaseLoad.durationScale;
+
+    // Get exercise bias from goal weights
+    const rawExerciseBias = goalWeights && resolvedPrimaryGoal
+      ? getCombinedExerciseBias(goalWeights)
+      : goalConfig?.exerciseBias ?? { compound: 0.6, cardio: 0.7, plyometric: 0.5, mobility: 0.1 };
+    const exerciseBias = applyIntentBias(normalizeExerciseBias(rawExerciseBias), intent);
+
+  // Determine max allowed difficulty based on fitnessLevel (caps exercise difficulty)
+  const maxAllowedDifficulty = fitnessLevel.toLowerCase() === 'beginner' 
+    ? 'beginner' 
+    : fitnessLevel.toLowerCase() === 'intermediate' 
+    ? 'intermediate' 
+    : 'advanced';
+
+  // Filter exercises by equipment and difficulty
+  const { pool: exercisePool, constraintNote } = buildExercisePool(equipmentSet, customExercises, constraints);
+  const availableExercises = exercisePool.filter((ex) => {
+    // Strictly respect fitness level cap: Beginners only get beginner exercises
+    if (maxAllowedDifficulty === 'beginner' && ex.difficulty !== 'beginner') return false;
+    if (maxAllowedDifficulty === 'intermediate' && ex.difficulty === 'advanced') return false;
+    // Advanced users can get all difficulty levels
+
+    return true;
+  });
+  // Chippers are counted in reps; holds are only used if nothing else is available
+  const repExercises = availableExercises.filter((ex) => !ex.isHold);
+  const chipperCandidates = repExercises.length > 0 ? repExercises : availableExercises;
+
+  // Chipper: 3-5 exercises
+  let numExercises: number;
+  if (difficultyTag === "beginner") {
+    numExercises = 3;
+  } else if (difficultyTag === "intermediate") {
+    numExercises = 4;
+  } else {
+    numExercises = 4 + Math.floor(random() * 2); // 4-5
+  }
+
+  const chipperExercises: Exercise[] = [];
+
+  for (let i = 0; i < numExercises; i++) {
+    const candidates = chipperCandidates.filter(ex => !chipperExercises.includes(ex));
+    const exercise = banditSelectExercise(
+      candidates.length > 0 ? candidates : chipperCandidates,
+      personalization,
+      (ex) => {
+        let baseScore = calculateExerciseFitnessScore(ex, exerciseBias);
+        baseScore *= getMusclePreferenceMultiplier(ex.muscleGroup, personalization);
+        // Spread the chipper across muscle groups so no single area caps the finish time
+        if (!chipperExercises.some((picked) => picked.muscleGroup === ex.muscleGroup)) {
+          baseScore *= 1.5;
+        }
+        return baseScore;
+      },
+      0.15,
+      random,
+    );
+    chipperExercises.push(exercise);
+  }
+
+  // Create rounds array (each exercise once, carrying its total reps)
+  const rounds: GeneratedWorkout['rounds'] = chipperExercises.map((exercise, index) => {
+    const rawReps = exercise.reps[difficultyTag] * volumeMultiplier * intensityMultiplier;
+    // Round to friendly chipper numbers: multiples of 5 for big sets, even for alternating sides
+    const reps = rawReps >= 20
+      ? Math.round(rawReps / 5) * 5
+      : exercise.alternatesSides
+      ? Math.max(2, Math.round(rawReps / 2) * 2)
+      : Math.max(1, Math.round(rawReps));
+    return {
+      // 1-based index for cleaner UI labels
+      minuteIndex: index + 1,
+      exerciseId: exercise.id,
+      exerciseName: exercise.name,
+      targetMuscleGroup: exercise.muscleGroup,
+      difficulty: exercise.difficulty,
+      reps,
+      isHold: exercise.isHold || false,
+      alternatesSides: exercise.alternatesSides || false,
+    };
+  });
+
+  // Time cap (estimate: ~3s per rep plus transitions, with headroom so most attempts finish)
+  const totalReps = rounds.reduce((sum, round) => sum + round.reps, 0);
+  const estimatedMinutes = (totalReps * 3 + rounds.length * 15) / 60;
+  const durationMinutes = Math.round(
+    clampNumber(Math.ceil(estimatedMinutes * 1.4) * clampNumber(energyMultiplier, 0.85, 1.15), 8, 30)
+  );
+
+  const focusLabel = intent?.focusToday ?? goalConfig?.label ?? goalFocus ?? "General Fitness";
+
+  const rationale = {
+    framework: intent?.focusToday
+      ? `${focusLabel} focus requested; For Time chosen so the work is fixed and your pace sets the result.`
+      : `Selected For Time to give ${goalConfig?.label ?? "conditioning"} work a repeatable benchmark.`,
+    intensity: `Difficulty ${difficultyTag} (skill score ${skillScore}); ${totalReps} total reps at ${Math.round(intensityMultiplier * 100)}% volume with a ${durationMinutes} min cap for ${intent?.energyLevel ?? "moderate"} energy (${equipmentRichness} equipment).`,
+    exerciseSelection: `Chipper leans toward ${describeExerciseBias(exerciseBias)} and spreads the load across muscle groups.${constraintNote ? ` ${constraintNote}` : ""}`
+  };
+
+  return {
+    framework: "ForTime",
+    durationMinutes,
+    difficultyTag,
+    focusLabel,
+    rounds,
+    intent,
+    rationale,
+    seed,
   };
 }
 
@@ -1,5 +1,5 @@
 import type { WorkoutSession, WorkoutRound, WorkoutFramework, FrameworkPreference } from "@shared/schema";
-import { storage } from "../storage";
+import { storage, type IStorage } from "../storage";
 import { summarizeSessionPerformance } from "./personalization";
 
 /**
@@ -8,7 +8,8 @@ import { summarizeSessionPerformance } from "./personalization";
  */
 export function calculateFrameworkScore(
   framework: WorkoutFramework,
-  sessions: Array<WorkoutSession & { rounds: WorkoutRound[] }>
+  sessions: Array<WorkoutSession & { rounds: WorkoutRound[] }>,
+  asOf: Date = new Date()
 ): {
   preferenceScore: number; // 0-1
   completionRate: number; // 0-1
@@ -36,7 +37,7 @@ export function calculateFrameworkScore(
   for (const session of frameworkSessions) {
     if (!session.completed) continue;
     
-    const summary = summarizeSessionPerformance(session.rounds, session.perceivedExertion);
+    const summary = summarizeSessionPerformance(session.rounds, session.perceivedExertion, session.framework);
     totalHitRate += summary.averageHitRate;
     hitRateCount += 1;
     
@@ -55,7 +56,7 @@ export function calculateFrameworkScore(
   const invertedRpe = averageRpe !== null ? 1 - (averageRpe / 5) : 0.5; // Invert: 5 RPE = 0, 1 RPE = 0.8
   
   // Recency (10% weight) - more recent sessions weighted higher
-  const now = new Date().getTime();
+  const now = asOf.getTime();
   let recencyScore = 0;
   let recencyCount = 0;
   
@@ -85,8 +86,11 @@ export function calculateFrameworkScore(
 /**
  * Get all framework preferences for a user
  */
-export async function getFrameworkPreferences(userId: string): Promise<Map<WorkoutFramework, FrameworkPreference>> {
-  const preferences = await storage.getFrameworkPreferences(userId);
+export async function getFrameworkPreferences(
+  userId: string,
+  store: IStorage = storage
+): Promise<Map<WorkoutFramework, FrameworkPreference>> {
+  const preferences = await store.getFrameworkPreferences(userId);
   const preferenceMap = new Map<WorkoutFramework, FrameworkPreference>();
   
   for (const pref of preferences) {
@@ -102,12 +106,13 @@ export async function getFrameworkPreferences(userId: string): Promise<Map<Worko
 export async function updateFrameworkPreference(
   userId: string,
   session: WorkoutSession & { rounds: WorkoutRound[] },
-  allSessions: Array<WorkoutSession & { rounds: WorkoutRound[] }>
+  allSessions: Array<WorkoutSession & { rounds: WorkoutRound[] }>,
+  store: IStorage = storage
 ): Promise<void> {
   const frameworkSessions = allSessions.filter(s => s.framework === session.framework);
   const score = calculateFrameworkScore(session.framework, frameworkSessions);
   
-  await storage.upsertFrameworkPreference(userId, {
+  await store.upsertFrameworkPreference(userId, {
     framework: session.framework,
     preferenceScore: score.preferenceScore,
     completionRate: score.completionRate,
@@ -123,13 +128,14 @@ export async function updateFrameworkPreference(
 export function selectFrameworkWithPreferences(
   goalFramework: WorkoutFramework | null,
   userPreferences: Map<WorkoutFramework, FrameworkPreference>,
-  explorationRate: number = 0.15 // 15% chance to explore
+  explorationRate: number = 0.15, // 15% chance to explore
+  random: () => number = Math.random
 ): WorkoutFramework {
-  const frameworks: WorkoutFramework[] = ["EMOM", "Tabata", "AMRAP", "Circuit"];
+  const frameworks: WorkoutFramework[] = ["EMOM", "Tabata", "AMRAP", "Circuit", "Ladder", "ForTime"];
   
   // Exploration: randomly select a framework
-  if (Math.random() < explorationRate) {
-    return frameworks[Math.floor(Math.random() * frameworks.length)];
+  if (random() < explorationRate) {
+    return frameworks[Math.floor(random() * frameworks.length)];
   }
   
   // If goal framework has preference data, use it if it's good
@@ -0,0 +1,133 @@
+import type { ExerciseDefinition } from "@shared/exercises";
+import { getLadderRungReps } from "@shared/frameworks";
+import type { GeneratedWorkout, ManualWorkoutRequest } from "@shared/schema";
+
+// Defaults mirror the runner's timings when the builder leaves them blank
+const DEFAULT_TABATA_WORK_SECONDS = 20;
+const DEFAULT_TABATA_REST_SECONDS = 10;
+const DEFAULT_CIRCUIT_WORK_SECONDS = 45;
+const DEFAULT_CIRCUIT_REST_SECONDS = 60;
+const DEFAULT_LADDER_STEPS = 5;
+
+/**
+ * Map a skill score onto the generator difficulty tiers
+ */
+function getDifficultyTag(skillScore: number): GeneratedWorkout["difficultyTag"] {
+  if (skillScore <= 35) return "beginner";
+  if (skillScore <= 70) return "intermediate";
+  return "advanced";
+}
+
+/**
+ * MANUAL WORKOUT BUILDER
+ * =======================
+ * Turns the Workout Lab builder payload (framework, timing, ordered exercise slots)
+ * into a GeneratedWorkout with the same round layout the generators produce, so the
+ * runner, completion page and POST /api/workout/session treat it like any other workout.
+ *
+ * - EMOM: one slot per minute, cycling through the slots for the whole duration
+ * - Tabata: each slot gets as many work/rest intervals as fit its share of the duration
+ * - AMRAP: the slots form a single circuit repeated until time runs out
+ * - For Time: the slots run once in order (slot reps are totals) under a time cap of the duration
+ * - Circuit: the slots are repeated for as many rounds as fit the duration
+ * - Ladder: slot reps are the peak rung; every rung runs all slots, scaled by the ladder scheme
+ *
+ * Throws if a slot references an exercise that is not in the supplied pool.
+ */
+export function buildManualWorkout(
+  request: ManualWorkoutRequest,
+  exercisePool: ExerciseDefinition[],
+  skillScore: number,
+): GeneratedWorkout {
+  const exercisesById = new Map(exercisePool.map((exercise) => [exercise.id, exercise]));
+  const slots = request.slots.map((slot) => {
+    const exercise = exercisesById.get(slot.exerciseId);
+    if (!exercise) {
+      throw new Error(`Unknown exercise: ${slot.exerciseId}`);
+    }
+    return { exercise, reps: slot.reps };
+  });
+
+  const toRound = (slot: (typeof slots)[number], minuteIndex: number): GeneratedWorkout["rounds"][number] => ({
+    minuteIndex,
+    exerciseId: slot.exercise.id,
+    exerciseName: slot.exercise.name,
+    targetMuscleGroup: slot.exercise.muscleGroup,
+    difficulty: slot.exercise.difficulty,
+    reps: slot.reps,
+    isHold: slot.exercise.isHold || false,
+    alternatesSides: slot.exercise.alternatesSides || false,
+  });
+
+  const rounds: GeneratedWorkout["rounds"] = [];
+  const totalSeconds = request.durationMinutes * 60;
+  let durationMinutes = request.durationMinutes;
+  let timing: Pick<GeneratedWorkout, "workSeconds" | "restSeconds" | "sets" | "totalRounds" | "ladderScheme"> = {};
+
+  switch (request.framework) {
+    case "EMOM": {
+      for (let minute = 0; minute < request.durationMinutes; minute++) {
+        rounds.push(toRound(slots[minute % slots.length], minute + 1));
+      }
+      break;
+    }
+    case "Tabata": {
+      const workSeconds = request.workSeconds ?? DEFAULT_TABATA_WORK_SECONDS;
+      const restSeconds = request.restSeconds ?? DEFAULT_TABATA_REST_SECONDS;
+      const sets = Math.max(1, Math.floor(totalSeconds / (slots.length * (workSeconds + restSeconds))));
+      slots.forEach((slot) => {
+        for (let interval = 0; interval < sets; interval++) {
+          rounds.push(toRound(slot, rounds.length + 1));
+        }
+      });
+      durationMinutes = Math.max(1, Math.round((rounds.length * (workSeconds + restSeconds)) / 60));
+      timing = { workSeconds, restSeconds, sets };
+      break;
+    }
+    case "AMRAP":
+    case "ForTime": {
+      slots.forEach((slot, index) => rounds.push(toRound(slot, index + 1)));
+      break;
+    }
+    case "Circuit": {
+      const workSeconds = request.workSeconds ?? DEFAULT_CIRCUIT_WORK_SECONDS;
+      const restSeconds = request.restSeconds ?? DEFAULT_CIRCUIT_REST_SECONDS;
+      const secondsPerRound = slots.length * workSeconds;
+      const totalRounds = Math.max(1, Math.floor((totalSeconds + restSeconds) / (secondsPerRound + restSeconds)));
+      for (let round = 0; round < totalRounds; round++) {
+        slots.forEach((slot) => rounds.push(toRound(slot, rounds.length + 1)));
+      }
+      durationMinutes = Math.max(1, Math.round((totalRounds * secondsPerRound + (totalRounds - 1) * restSeconds) / 60));
+      timing = { workSeconds, restSeconds, totalRounds };
+      break;
+    }
+    case "Ladder": {
+      const ladderScheme = request.ladderScheme ?? "pyramid";
+      const rungReps = slots.map((slot) =>
+        getLadderRungReps(slot.reps, ladderScheme, DEFAULT_LADDER_STEPS, slot.exercise.alternatesSides || false)
+      );
+      for (let rung = 0; rung < rungReps[0].length; rung++) {
+        slots.forEach((slot, index) => rounds.push({ ...toRound(slot, rounds.length + 1), reps: rungReps[index][rung] }));
+      }
+      timing = { totalRounds: rungReps[0].length, ladderScheme };
+      break;
+    }
+  }
+
+  const uniqueExercises = Array.from(new Set(slots.map((slot) => slot.exercise.name)));
+
+  return {
+    framework: request.framework,
+    durationMinutes,
+    difficultyTag: getDifficultyTag(skillScore),
+    focusLabel: request.focusLabel || "Custom Build",
+    rounds,
+    ...timing,
+    rationale: {
+      framework: `Built manually in Workout Lab as a ${durationMinutes} min ${request.framework}.`,
+      intensity: "Reps and timing set by you; no automatic scaling applied.",
+      exerciseSelection: `Hand-picked order: ${uniqueExercises.join(", ")}.`,
+    },
+    source: "builder",
+  };
+}
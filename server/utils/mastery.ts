@@ -1,5 +1,5 @@
 import type { WorkoutSession, WorkoutRound, ExerciseStat, ExerciseMastery } from "@shared/schema";
-import { storage } from "../storage";
+import { storage, type IStorage } from "../storage";
 
 /**
  * Calculate mastery score (0-100) for an exercise based on history and stats
@@ -8,7 +8,7 @@ import { storage } from "../storage";
 export function calculateMasteryScore(
   exerciseName: string,
   history: Array<WorkoutSession & { rounds: WorkoutRound[] }>,
-  exerciseStats?: ExerciseStat[]
+  exerciseStats?: Array<Pick<ExerciseStat, "exerciseName" | "acceptCount" | "skipCount" | "completionCount" | "qualitySum">>
 ): number {
   // Find exercise-specific stats
   const stat = exerciseStats?.find(s => s.exerciseName === exerciseName);
@@ -119,7 +119,8 @@ export async function updateMasteryScores(
   userId: string,
   session: WorkoutSession & { rounds: WorkoutRound[] },
   history: Array<WorkoutSession & { rounds: WorkoutRound[] }>,
-  exerciseStats: ExerciseStat[]
+  exerciseStats: ExerciseStat[],
+  store: IStorage = storage
 ): Promise<void> {
   // Get unique exercises from this session
   const exerciseNames = new Set(session.rounds.map(r => r.exerciseName));
@@ -128,14 +129,14 @@ export async function updateMasteryScores(
     const masteryScore = calculateMasteryScore(exerciseName, history, exerciseStats);
     
     // Get current mastery record to update attempt counts
-    const existingMastery = await storage.getExerciseMastery(userId);
+    const existingMastery = await store.getExerciseMastery(userId);
     const current = existingMastery.find(m => m.exerciseName === exerciseName);
     
     const roundsForExercise = session.rounds.filter(r => r.exerciseName === exerciseName);
     const successfulAttempts = roundsForExercise.filter(r => !r.skipped).length;
     const totalAttempts = roundsForExercise.length;
 
-    await storage.upsertExerciseMastery(userId, {
+    await store.upsertExerciseMastery(userId, {
       exerciseName,
       masteryScore,
       totalAttempts: (current?.totalAttempts ?? 0) + totalAttempts,
@@ -1,5 +1,5 @@
-import type { WorkoutSession, WorkoutRound, WeeklyPeriodization } from "@shared/schema";
-import { storage } from "../storage";
+import type { WorkoutSession, WorkoutRound, WeeklyPeriodization, MesocycleStatus } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
 
 /**
  * Get the start of the week (Monday) for a given date
@@ -18,14 +18,25 @@ export function getWeekStart(date: Date): Date {
  */
 export async function calculateWeeklyVolume(
   userId: string,
-  weekStart: Date
+  weekStart: Date,
+  store: IStorage = storage
 ): Promise<Record<string, { volume: number; sessions: number }>> {
+  const allSessions = await store.getWorkoutSessions(userId);
+  return summarizeWeeklyVolume(allSessions, weekStart);
+}
+
+/**
+ * Volume per muscle group for the sessions that fall in the week starting at weekStart
+ */
+export function summarizeWeeklyVolume(
+  sessions: Array<WorkoutSession & { rounds: WorkoutRound[] }>,
+  weekStart: Date
+): Record<string, { volume: number; sessions: number }> {
   const weekEnd = new Date(weekStart);
   weekEnd.setDate(weekEnd.getDate() + 7);
   
   // Get all sessions for this week
-  const allSessions = await storage.getWorkoutSessions(userId);
-  const weekSessions = allSessions.filter(session => {
+  const weekSessions = sessions.filter(session => {
     const sessionDate = new Date(session.createdAt);
     return sessionDate >= weekStart && sessionDate < weekEnd;
   });
@@ -72,17 +83,18 @@ export async function calculateWeeklyVolume(
 export async function getMuscleGroupVolume(
   userId: string,
   muscleGroup: string,
-  weekStart?: Date
+  weekStart?: Date,
+  store: IStorage = storage
 ): Promise<{ volume: number; sessions: number }> {
   const week = weekStart || getWeekStart(new Date());
-  const periodization = await storage.getWeeklyPeriodization(userId, week);
+  const periodization = await store.getWeeklyPeriodization(userId, week);
   
   if (periodization && periodization.muscleGroupVolume[muscleGroup]) {
     return periodization.muscleGroupVolume[muscleGroup];
   }
   
   // Calculate on the fly if not stored
-  const volumeMap = await calculateWeeklyVolume(userId, week);
+  const volumeMap = await calculateWeeklyVolume(userId, week, store);
   return volumeMap[muscleGroup] || { volume: 0, sessions: 0 };
 }
 
@@ -105,15 +117,16 @@ export function shouldBalanceVolume(
 export async function updateWeeklyVolume(
   userId: string,
   session: WorkoutSession,
-  rounds: WorkoutRound[]
+  rounds: WorkoutRound[],
+  store: IStorage = storage
 ): Promise<void> {
   const weekStart = getWeekStart(new Date(session.createdAt));
   
   // Calculate current week's volume
-  const volumeMap = await calculateWeeklyVolume(userId, weekStart);
+  const volumeMap = await calculateWeeklyVolume(userId, weekStart, store);
   
   // Update or create periodization record
-  await storage.upsertWeeklyPeriodization(userId, {
+  await store.upsertWeeklyPeriodization(userId, {
     weekStart,
     muscleGroupVolume: volumeMap,
     updatedAt: new Date(),
@@ -125,10 +138,11 @@ export async function updateWeeklyVolume(
  */
 export async function getContrastDayRecommendation(
   userId: string,
-  currentWeek?: Date
+  currentWeek?: Date,
+  store: IStorage = storage
 ): Promise<{ recommended: string[]; avoid: string[] } | null> {
   const weekStart = currentWeek ? getWeekStart(currentWeek) : getWeekStart(new Date());
-  const periodization = await storage.getWeeklyPeriodization(userId, weekStart);
+  const periodization = await store.getWeeklyPeriodization(userId, weekStart);
   
   if (!periodization) {
     return null; // Not enough data
@@ -181,13 +195,14 @@ export async function getContrastDayRecommendation(
 export async function getVolumeBias(
   userId: string,
   muscleGroup: string,
-  weekStart?: Date
+  weekStart?: Date,
+  store: IStorage = storage
 ): Promise<number> {
   const week = weekStart || getWeekStart(new Date());
-  const volume = await getMuscleGroupVolume(userId, muscleGroup, week);
+  const volume = await getMuscleGroupVolume(userId, muscleGroup, week, store);
   
   // Get average volume across all muscle groups for comparison
-  const periodization = await storage.getWeeklyPeriodization(userId, week);
+  const periodization = await store.getWeeklyPeriodization(userId, week);
   if (!periodization) {
     return 1.0; // No data, neutral bias
   }
@@ -211,3 +226,96 @@ export async function getVolumeBias(
   return 1.0; // Balanced
 }
 
+// Mesocycle shape by training age: newer trainees accumulate longer before a deload
+const MESOCYCLE_BLOCKS = [
+  { maxTrainingAgeWeeks: 12, accumulation: 4, intensification: 1, deload: 1 },
+  { maxTrainingAgeWeeks: 52, accumulation: 3, intensification: 1, deload: 1 },
+  { maxTrainingAgeWeeks: Infinity, accumulation: 2, intensification: 1, deload: 1 },
+];
+
+const ACCUMULATION_RAMP = 0.04; // Added to reps and session length per accumulation week
+const INTENSIFICATION_LOAD = { repScale: 1.1, durationScale: 0.9 };
+const DELOAD_LOAD = { repScale: 0.75, durationScale: 0.7 };
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+function previousWeekStart(weekStart: Date): Date {
+  const previous = new Date(weekStart);
+  previous.setDate(previous.getDate() - 7);
+  return previous;
+}
+
+function weeklyTotalVolume(week: WeeklyPeriodization): number {
+  return Object.values(week.muscleGroupVolume).reduce((sum, group) => sum + group.volume, 0);
+}
+
+/**
+ * Block periodization for the week containing `now`. Training age is counted from the
+ * first tracked week. The position in the mesocycle is the number of consecutive trained
+ * weeks leading up to this one, so a week off counts as recovery and starts a new block.
+ */
+export function getMesocycleStatus(weeks: WeeklyPeriodization[], now: Date = new Date()): MesocycleStatus {
+  const currentWeek = getWeekStart(now);
+  const trainedWeeks = new Set(
+    weeks.filter((week) => weeklyTotalVolume(week) > 0).map((week) => getWeekStart(week.weekStart).getTime())
+  );
+
+  const firstWeek = weeks.length ? getWeekStart(weeks[0].weekStart) : currentWeek;
+  const trainingAgeWeeks = Math.max(0, Math.round((currentWeek.getTime() - firstWeek.getTime()) / WEEK_MS));
+
+  let streak = 0;
+  for (let week = previousWeekStart(currentWeek); trainedWeeks.has(week.getTime()); week = previousWeekStart(week)) {
+    streak++;
+  }
+
+  const block = MESOCYCLE_BLOCKS.find((candidate) => trainingAgeWeeks < candidate.maxTrainingAgeWeeks)!;
+  const cycleLength = block.accumulation + block.intensification + block.deload;
+  const cycleIndex = streak % cycleLength;
+  const base = { cycleWeek: cycleIndex + 1, cycleLength, trainingAgeWeeks };
+
+  if (cycleIndex < block.accumulation) {
+    const scale = Math.round((1 + cycleIndex * ACCUMULATION_RAMP) * 100) / 100;
+    return {
+      ...base,
+      phase: "accumulation",
+      phaseWeek: cycleIndex + 1,
+      phaseLength: block.accumulation,
+      repScale: scale,
+      durationScale: scale,
+      explanation: `Accumulation week ${cycleIndex + 1} of ${block.accumulation}: building volume, with reps and session length at ${Math.round(scale * 100)}% of baseline.`,
+    };
+  }
+
+  if (cycleIndex < block.accumulation + block.intensification) {
+    const phaseWeek = cycleIndex - block.accumulation + 1;
+    return {
+      ...base,
+      phase: "intensification",
+      phaseWeek,
+      phaseLength: block.intensification,
+      ...INTENSIFICATION_LOAD,
+      explanation: `Intensification week: harder sets (${Math.round(INTENSIFICATION_LOAD.repScale * 100)}% reps) in shorter sessions (${Math.round(INTENSIFICATION_LOAD.durationScale * 100)}% length) to turn the volume you built into performance.`,
+    };
+  }
+
+  return {
+    ...base,
+    phase: "deload",
+    phaseWeek: cycleIndex - block.accumulation - block.intensification + 1,
+    phaseLength: block.deload,
+    ...DELOAD_LOAD,
+    explanation: `Deload week after ${block.accumulation + block.intensification} hard weeks: reps at ${Math.round(DELOAD_LOAD.repScale * 100)}% and sessions at ${Math.round(DELOAD_LOAD.durationScale * 100)}% length so fatigue clears before the next block.`,
+  };
+}
+
+/**
+ * Current mesocycle phase from the user's weekly periodization history
+ */
+export async function getCurrentMesocycle(
+  userId: string,
+  now: Date = new Date(),
+  store: IStorage = storage
+): Promise<MesocycleStatus> {
+  const weeks = await store.getWeeklyPeriodizationHistory(userId);
+  return getMesocycleStatus(weeks, now);
+}
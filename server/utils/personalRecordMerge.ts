@@ -0,0 +1,50 @@
+import type { InsertPersonalRecord, PersonalRecord } from "@shared/schema";
+
+type RecordBest = Pick<
+  PersonalRecord,
+  "recordType" | "bestReps" | "bestSeconds" | "bestRounds" | "bestSessionId" | "achievedAt"
+>;
+type RecordCandidate = Omit<InsertPersonalRecord, "userId" | "id">;
+
+/**
+ * Fields of an existing record that a candidate improves, or null when it improves nothing.
+ * AMRAP benchmarks compare full rounds first, then extra reps; other records compare reps;
+ * benchmarks keep the fastest finish time and exercise records the longest hold.
+ */
+export function mergePersonalRecord(existing: RecordBest, record: RecordCandidate): Partial<InsertPersonalRecord> | null {
+  let shouldUpdate = false;
+  const updates: Partial<InsertPersonalRecord> = {};
+
+  if (record.bestRounds != null) {
+    const existingRounds = existing.bestRounds ?? -1;
+    if (
+      record.bestRounds > existingRounds ||
+      (record.bestRounds === existingRounds && (record.bestReps ?? 0) > (existing.bestReps ?? 0))
+    ) {
+      updates.bestRounds = record.bestRounds;
+      updates.bestReps = record.bestReps;
+      updates.bestSessionId = record.bestSessionId;
+      updates.achievedAt = record.achievedAt;
+      shouldUpdate = true;
+    }
+  } else if (record.bestReps != null && (existing.bestReps === null || record.bestReps > existing.bestReps)) {
+    updates.bestReps = record.bestReps;
+    updates.bestSessionId = record.bestSessionId;
+    updates.achievedAt = record.achievedAt;
+    shouldUpdate = true;
+  }
+
+  const isBenchmark = existing.recordType === "benchmark";
+  if (
+    record.bestSeconds != null &&
+    (existing.bestSeconds === null ||
+      (isBenchmark ? record.bestSeconds < existing.bestSeconds : record.bestSeconds > existing.bestSeconds))
+  ) {
+    updates.bestSeconds = record.bestSeconds;
+    updates.bestSessionId = record.bestSessionId;
+    updates.achievedAt = record.achievedAt;
+    shouldUpdate = true;
+  }
+
+  return shouldUpdate ? updates : null;
+}
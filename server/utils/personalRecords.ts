@@ -1,10 +1,17 @@
-import type { WorkoutSession, WorkoutRound, PersonalRecord } from "@shared/schema";
-import { storage } from "../storage";
+import type { WorkoutSession, WorkoutRound, PersonalRecord, PersonalRecordType } from "@shared/schema";
+import { getAmrapBenchmarkName, getForTimeBenchmarkName } from "@shared/frameworks";
+import { storage, type IStorage } from "../storage";
+import { getAmrapCircuit } from "./amrapScore";
+
+// The fields record detection compares against
+export type PersonalRecordBest = Pick<PersonalRecord, "exerciseName" | "bestReps" | "bestSeconds" | "bestRounds">;
 
 export interface NewPersonalRecord {
   exerciseName: string;
+  recordType: PersonalRecordType;
   bestReps: number | null;
   bestSeconds: number | null;
+  bestRounds?: number | null; // AMRAP benchmarks: full rounds, with bestReps as the extra reps
   sessionId: string;
 }
 
@@ -14,10 +21,13 @@ export interface NewPersonalRecord {
 export function detectPersonalRecords(
   session: WorkoutSession,
   rounds: WorkoutRound[],
-  existingPRs: PersonalRecord[]
+  existingPRs: PersonalRecordBest[]
 ): NewPersonalRecord[] {
   const newPRs: NewPersonalRecord[] = [];
-  const prMap = new Map<string, PersonalRecord>();
+  const prMap = new Map<string, PersonalRecordBest>();
+
+  // For Time rounds are chipper totals, not single efforts - they count toward the benchmark instead
+  if (session.framework === "ForTime") return newPRs;
   
   for (const pr of existingPRs) {
     prMap.set(pr.exerciseName, pr);
@@ -37,6 +47,7 @@ export function detectPersonalRecords(
           isNewPR = true;
           newPRs.push({
             exerciseName: round.exerciseName,
+            recordType: "exercise",
             bestReps: null,
             bestSeconds: actualSeconds,
             sessionId: session.id,
@@ -51,6 +62,7 @@ export function detectPersonalRecords(
           isNewPR = true;
           newPRs.push({
             exerciseName: round.exerciseName,
+            recordType: "exercise",
             bestReps: actualReps,
             bestSeconds: null,
             sessionId: session.id,
@@ -63,25 +75,106 @@ export function detectPersonalRecords(
   return newPRs;
 }
 
+/**
+ * Detect a new benchmark record for a For Time session.
+ * A finish time beats any slower finish and every capped attempt; a capped attempt
+ * only counts when the benchmark has never been finished and more reps were completed.
+ */
+export function detectBenchmarkRecord(
+  session: WorkoutSession,
+  rounds: WorkoutRound[],
+  existingPRs: PersonalRecordBest[]
+): NewPersonalRecord | null {
+  if (session.framework !== "ForTime" || rounds.length === 0) return null;
+
+  const orderedRounds = [...rounds].sort((a, b) => a.minuteIndex - b.minuteIndex);
+  const benchmarkName = getForTimeBenchmarkName(orderedRounds);
+  const existingPR = existingPRs.find((pr) => pr.exerciseName === benchmarkName);
+
+  if (session.finishSeconds) {
+    if (existingPR && existingPR.bestSeconds !== null && existingPR.bestSeconds <= session.finishSeconds) return null;
+    return {
+      exerciseName: benchmarkName,
+      recordType: "benchmark",
+      bestReps: orderedRounds.reduce((sum, round) => sum + round.reps, 0),
+      bestSeconds: session.finishSeconds,
+      sessionId: session.id,
+    };
+  }
+
+  if (session.repsAtCap === null || session.repsAtCap <= 0) return null;
+  if (existingPR && (existingPR.bestSeconds !== null || (existingPR.bestReps ?? 0) >= session.repsAtCap)) return null;
+  return {
+    exerciseName: benchmarkName,
+    recordType: "benchmark",
+    bestReps: session.repsAtCap,
+    bestSeconds: null,
+    sessionId: session.id,
+  };
+}
+
+/**
+ * Detect a new benchmark record for a scored AMRAP session.
+ * Scores compare by full rounds first, then by reps into the next round.
+ */
+export function detectAmrapBenchmarkRecord(
+  session: WorkoutSession,
+  rounds: WorkoutRound[],
+  existingPRs: PersonalRecordBest[]
+): NewPersonalRecord | null {
+  if (session.framework !== "AMRAP" || session.amrapRounds === null || rounds.length === 0) return null;
+
+  const amrapReps = session.amrapReps ?? 0;
+  if (session.amrapRounds === 0 && amrapReps === 0) return null;
+
+  const benchmarkName = getAmrapBenchmarkName(session.durationMinutes, getAmrapCircuit(session, rounds));
+  const existingPR = existingPRs.find((pr) => pr.exerciseName === benchmarkName);
+  if (existingPR && existingPR.bestRounds !== null) {
+    const existingReps = existingPR.bestReps ?? 0;
+    if (
+      existingPR.bestRounds > session.amrapRounds ||
+      (existingPR.bestRounds === session.amrapRounds && existingReps >= amrapReps)
+    ) {
+      return null;
+    }
+  }
+
+  return {
+    exerciseName: benchmarkName,
+    recordType: "benchmark",
+    bestReps: amrapReps,
+    bestSeconds: null,
+    bestRounds: session.amrapRounds,
+    sessionId: session.id,
+  };
+}
+
 /**
  * Update personal records after a workout session
  */
 export async function updatePersonalRecords(
   userId: string,
   session: WorkoutSession,
-  rounds: WorkoutRound[]
+  rounds: WorkoutRound[],
+  store: IStorage = storage
 ): Promise<NewPersonalRecord[]> {
-  const existingPRs = await storage.getPersonalRecords(userId);
+  const existingPRs = await store.getPersonalRecords(userId);
   const newPRs = detectPersonalRecords(session, rounds, existingPRs);
+  const benchmarkPR = detectBenchmarkRecord(session, rounds, existingPRs);
+  if (benchmarkPR) newPRs.push(benchmarkPR);
+  const amrapPR = detectAmrapBenchmarkRecord(session, rounds, existingPRs);
+  if (amrapPR) newPRs.push(amrapPR);
 
   // Update database with new PRs
   for (const newPR of newPRs) {
-    await storage.upsertPersonalRecord(userId, {
+    await store.upsertPersonalRecord(userId, {
       exerciseName: newPR.exerciseName,
+      recordType: newPR.recordType,
       bestReps: newPR.bestReps,
       bestSeconds: newPR.bestSeconds,
+      bestRounds: newPR.bestRounds ?? null,
       bestSessionId: newPR.sessionId,
-      achievedAt: new Date(),
+      achievedAt: new Date(session.createdAt),
     });
   }
 
@@ -95,9 +188,10 @@ export async function getPROpportunities(
   userId: string,
   exerciseName: string,
   targetReps: number,
-  isHold: boolean
+  isHold: boolean,
+  store: IStorage = storage
 ): Promise<{ isClose: boolean; currentPR: number | null; targetToBeat: number | null }> {
-  const existingPRs = await storage.getPersonalRecords(userId);
+  const existingPRs = await store.getPersonalRecords(userId);
   const pr = existingPRs.find(p => p.exerciseName === exerciseName);
 
   if (!pr) {
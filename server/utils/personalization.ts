@@ -1,7 +1,9 @@
 import type {
   ExerciseStat,
+  MesocycleStatus,
   TimeBlock,
   TimeBlockPerformanceMap,
+  WorkoutFramework,
   WorkoutRound,
   WorkoutSession,
 } from "@shared/schema";
@@ -28,6 +30,7 @@ export interface PersonalizationInsights {
   recoveryScores?: Map<string, number>; // muscleGroup -> recovery score (0-1)
   masteryScores?: Map<string, number>; // exerciseName -> mastery score (0-100)
   weeklyVolume?: Record<string, { volume: number; sessions: number }>; // muscleGroup -> volume data
+  mesocycle?: MesocycleStatus; // This week's block periodization phase; scales reps and session length
 }
 
 export function categorizeTimeBlock(date: Date): TimeBlock {
@@ -57,7 +60,7 @@ export function computeTimeBlockPerformance(
 
   for (const session of sessions) {
     const block = categorizeTimeBlock(new Date(session.createdAt));
-    const summary = summarizeSessionPerformance(session.rounds, session.perceivedExertion);
+    const summary = summarizeSessionPerformance(session.rounds, session.perceivedExertion, session.framework);
     const aggregates = blockAggregates[block];
 
     aggregates.hitRateSum += summary.averageHitRate;
@@ -121,6 +124,7 @@ export function buildPersonalizationInsights(
   recoveryScores?: Map<string, number>,
   masteryScores?: Map<string, number>,
   weeklyVolume?: Record<string, { volume: number; sessions: number }>,
+  mesocycle?: MesocycleStatus,
 ): PersonalizationInsights {
   const recent = sessions.slice(0, windowSize);
 
@@ -229,12 +233,19 @@ export function buildPersonalizationInsights(
     recoveryScores,
     masteryScores,
     weeklyVolume,
+    mesocycle,
   };
 }
 
+/**
+ * Hit rate, skip rate and per-muscle performance for one session.
+ * Ladder rungs are weighted by their target reps: a missed 10-rep rung costs
+ * more than a missed 2-rep rung, so the hit rate reflects completed ladder volume.
+ */
 export function summarizeSessionPerformance(
   rounds: Array<Pick<WorkoutRound, "reps" | "actualReps" | "actualSeconds" | "skipped" | "isHold">>,
   perceivedExertion?: number | null,
+  framework?: WorkoutFramework,
 ): SessionPerformanceSummary {
   let hitSum = 0;
   let hitCount = 0;
@@ -257,14 +268,15 @@ export function summarizeSessionPerformance(
     const actualValue = round.isHold
       ? round.actualSeconds ?? round.actualReps ?? target
       : round.actualReps ?? round.actualSeconds ?? target;
-    hitSum += Math.min(actualValue / target, 1.5);
-    hitCount += 1;
+    const weight = framework === "Ladder" ? target : 1;
+    hitSum += Math.min(actualValue / target, 1.5) * weight;
+    hitCount += weight;
 
     const movement = (round as any).targetMuscleGroup as string | undefined;
     if (movement) {
       const bucket = movementBuckets[movement] ?? { hitSum: 0, hitCount: 0, skipped: 0, total: 0 };
-      bucket.hitSum += Math.min(actualValue / target, 1.5);
-      bucket.hitCount += 1;
+      bucket.hitSum += Math.min(actualValue / target, 1.5) * weight;
+      bucket.hitCount += weight;
       bucket.total += 1;
       movementBuckets[movement] = bucket;
     }
@@ -0,0 +1,60 @@
+import { getProgramDay, getTrainingProgram, type ProgramDay } from "@shared/programs";
+import type { GeneratedWorkout, GeneratedWorkoutRecord, ProgramEnrollment } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+
+export interface ProgramStatus {
+  enrollment: ProgramEnrollment;
+  today: ProgramDay | null; // null once the program is completed
+}
+
+export async function getProgramStatus(userId: string, store: IStorage = storage): Promise<ProgramStatus | null> {
+  const enrollment = await store.getProgramEnrollment(userId);
+  const program = enrollment && getTrainingProgram(enrollment.programId);
+  if (!enrollment || !program) return null;
+  return { enrollment, today: enrollment.completedAt ? null : getProgramDay(program, enrollment.currentDay) };
+}
+
+/**
+ * Scale a generated workout to the program day's volume target and tag it with the
+ * day, so completing it moves the program on. Framework and intensity are applied
+ * before generation; everything else stays personalized as usual.
+ */
+export function applyProgramDay(workout: GeneratedWorkout, day: ProgramDay): GeneratedWorkout {
+  const adjusted: GeneratedWorkout = {
+    ...workout,
+    rounds: workout.rounds.map((round) => ({ ...round, reps: Math.max(1, Math.round(round.reps * day.volume)) })),
+    program: { programId: day.programId, dayIndex: day.dayIndex },
+  };
+
+  const volumeNote =
+    day.volume === 1 ? "baseline volume" : `${Math.round(day.volume * 100)}% of your usual volume`;
+  if (adjusted.rationale) {
+    adjusted.rationale = {
+      ...adjusted.rationale,
+      intensity: `${adjusted.rationale.intensity} Program week ${day.week} targets ${day.intensity} intensity at ${volumeNote}.`,
+      schedule: `${day.programName}: week ${day.week} of ${day.totalWeeks}, session ${day.session} of ${day.sessionsInWeek}. ${adjusted.rationale.schedule ?? ""}`.trim(),
+    };
+  }
+  return adjusted;
+}
+
+/**
+ * Move the program on when the saved workout was generated for the member's current
+ * program day during this enrolment; workouts from an earlier run of the program
+ * carry matching day tags but don't count.
+ */
+export async function advanceProgramForWorkout(
+  userId: string,
+  record: GeneratedWorkoutRecord,
+  store: IStorage = storage
+): Promise<ProgramEnrollment | undefined> {
+  const { program } = record.workout;
+  if (!program) return undefined;
+  const status = await getProgramStatus(userId, store);
+  if (!status?.today || status.enrollment.programId !== program.programId) return undefined;
+  if (status.today.dayIndex !== program.dayIndex) return undefined;
+  if (new Date(record.createdAt) < new Date(status.enrollment.startedAt)) return undefined;
+
+  const completed = status.today.dayIndex + 1 >= status.today.totalDays;
+  return store.advanceProgramEnrollment(userId, status.today.dayIndex, completed);
+}
@@ -1,5 +1,5 @@
 import type { WorkoutSession, WorkoutRound, MuscleGroupRecovery } from "@shared/schema";
-import { storage } from "../storage";
+import { storage, type IStorage } from "../storage";
 
 /**
  * Calculate recovery score for a muscle group
@@ -11,9 +11,9 @@ export function calculateRecoveryScore(
   muscleGroup: string,
   lastWorkedAt: Date,
   intensity: number, // 0-1, workout intensity
-  baseRecoveryHours: number = 48 // Default for strength movements
+  baseRecoveryHours: number = 48, // Default for strength movements
+  now: Date = new Date()
 ): number {
-  const now = new Date();
   const hoursSinceLastWorkout = (now.getTime() - lastWorkedAt.getTime()) / (1000 * 60 * 60);
   
   // Adjust base recovery based on intensity
@@ -30,7 +30,7 @@ export function calculateRecoveryScore(
 /**
  * Get base recovery hours for a muscle group based on its type
  */
-function getBaseRecoveryHours(muscleGroup: string): number {
+export function getBaseRecoveryHours(muscleGroup: string): number {
   const cardioGroups = ["cardio", "full-body"];
   const strengthGroups = ["chest", "back", "legs", "shoulders", "triceps", "biceps", "core"];
   
@@ -48,9 +48,10 @@ function getBaseRecoveryHours(muscleGroup: string): number {
  */
 export async function getRecoveryScores(
   userId: string,
-  muscleGroups?: string[]
+  muscleGroups?: string[],
+  store: IStorage = storage
 ): Promise<Map<string, number>> {
-  const recoveryRecords = await storage.getMuscleGroupRecovery(userId);
+  const recoveryRecords = await store.getMuscleGroupRecovery(userId);
   const recoveryMap = new Map<string, number>();
   
   // If specific muscle groups requested, only return those
@@ -81,7 +82,10 @@ export async function getRecoveryScores(
 /**
  * Calculate workout intensity from session data
  */
-function calculateWorkoutIntensity(session: WorkoutSession, rounds: WorkoutRound[]): number {
+export function calculateWorkoutIntensity(
+  session: Pick<WorkoutSession, "perceivedExertion" | "difficultyTag">,
+  rounds: Array<Pick<WorkoutRound, "skipped">>
+): number {
   // Factors: RPE, difficulty tag, completion rate
   let intensity = 0.5; // Default moderate
   
@@ -112,7 +116,8 @@ function calculateWorkoutIntensity(session: WorkoutSession, rounds: WorkoutRound
 export async function updateRecoveryAfterWorkout(
   userId: string,
   session: WorkoutSession,
-  rounds: WorkoutRound[]
+  rounds: WorkoutRound[],
+  store: IStorage = storage
 ): Promise<void> {
   const intensity = calculateWorkoutIntensity(session, rounds);
   
@@ -123,7 +128,7 @@ export async function updateRecoveryAfterWorkout(
     const baseRecoveryHours = getBaseRecoveryHours(muscleGroup);
     
     // Recovery score starts at 0 (just worked)
-    await storage.upsertMuscleGroupRecovery(userId, {
+    await store.upsertMuscleGroupRecovery(userId, {
       muscleGroup,
       recoveryScore: 0.0,
       lastWorkedAt: new Date(session.createdAt),
@@ -133,7 +138,7 @@ export async function updateRecoveryAfterWorkout(
   }
   
   // Also update recovery for other muscle groups (they continue recovering)
-  const allRecoveryRecords = await storage.getMuscleGroupRecovery(userId);
+  const allRecoveryRecords = await store.getMuscleGroupRecovery(userId);
   const workedGroups = new Set(muscleGroups);
   
   for (const record of allRecoveryRecords) {
@@ -147,7 +152,7 @@ export async function updateRecoveryAfterWorkout(
         baseRecoveryHours
       );
       
-      await storage.upsertMuscleGroupRecovery(userId, {
+      await store.upsertMuscleGroupRecovery(userId, {
         muscleGroup: record.muscleGroup,
         recoveryScore,
         lastWorkedAt: new Date(record.lastWorkedAt),
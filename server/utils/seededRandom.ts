@@ -0,0 +1,30 @@
+/**
+ * Random source used by the workout generators. Always returns a float in [0, 1).
+ */
+export type RandomSource = () => number;
+
+const MAX_SEED = 0x7fffffff;
+
+/**
+ * Create a new random seed (positive 31-bit integer)
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED) + 1;
+}
+
+/**
+ * Create a deterministic random source from a seed (mulberry32).
+ * The same seed always yields the same sequence of values.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = Math.trunc(seed) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
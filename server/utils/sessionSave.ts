@@ -0,0 +1,149 @@
+import type {
+  GeneratedWorkoutRecord,
+  InsertWorkoutRound,
+  InsertWorkoutSession,
+  SessionSaveSummary,
+  WorkoutSession,
+} from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { expandAmrapRounds } from "./amrapScore";
+import { applySessionToDerivedState, rebuildDerivedState } from "./derivedState";
+import { advanceProgramForWorkout } from "./programs";
+
+export type SessionRoundPayload = Omit<InsertWorkoutRound, "sessionId">;
+
+function duplicateSummary(session: WorkoutSession): SessionSaveSummary {
+  return { session, duplicate: true, newPersonalRecords: [], masteryChanges: [], skillScore: null };
+}
+
+/**
+ * The stored session for an idempotency key that was already used, as a duplicate save
+ */
+export async function findDuplicateSave(
+  userId: string,
+  idempotencyKey: string,
+  store: IStorage = storage
+): Promise<SessionSaveSummary | null> {
+  const existing = await store.getWorkoutSessionByIdempotencyKey(userId, idempotencyKey);
+  return existing ? duplicateSummary(existing) : null;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+/**
+ * Save a completed session and everything derived from it as one unit of work:
+ *
+ * 1. Return the existing session when the idempotency key was already used.
+ * 2. Insert the session row.
+ * 3. Insert its rounds, expanding scored AMRAP circuits into one round per set.
+ * 4. Fold the session into stats, records, mastery, recovery, weekly volume,
+ *    framework preferences and the profile (see applySessionToDerivedState).
+ *    A session finished before the latest saved one (synced late from the offline
+ *    queue) lands mid-history, so derived state is replayed instead.
+ * 5. Move the training program on when the session completed its current day.
+ * 6. Compare mastery and skill score against the state before the save.
+ *
+ * Steps 2-6 share a transaction, so a failure leaves no partial writes behind.
+ * Session data is expected to be validated and normalized by the caller.
+ */
+export async function saveWorkoutSession(
+  userId: string,
+  sessionData: InsertWorkoutSession & { createdAt?: Date }, // createdAt: when it was finished, defaults to now
+  rounds: SessionRoundPayload[],
+  options: { generatedWorkout?: GeneratedWorkoutRecord } = {}, // The owned workout the session was run from
+  store: IStorage = storage
+): Promise<SessionSaveSummary> {
+  const { idempotencyKey } = sessionData;
+  if (idempotencyKey) {
+    const duplicate = await findDuplicateSave(userId, idempotencyKey, store);
+    if (duplicate) return duplicate;
+  }
+
+  try {
+    return await store.transaction(async (tx) => {
+      const previousMastery = new Map(
+        (await tx.getExerciseMastery(userId)).map((mastery) => [mastery.exerciseName, mastery.masteryScore])
+      );
+      const previousProfile = await tx.getProfile(userId);
+
+      const session = await tx.createWorkoutSession(sessionData);
+
+      // Scored AMRAP sessions log one round per set performed, derived from the score
+      const loggedRounds =
+        sessionData.amrapRounds != null
+          ? expandAmrapRounds(rounds, sessionData.amrapRounds, sessionData.amrapReps ?? 0)
+          : rounds;
+      const savedRounds = await tx.createWorkoutRounds(
+        loggedRounds.map((round) => ({
+          sessionId: session.id,
+          minuteIndex: round.minuteIndex,
+          exerciseName: round.exerciseName,
+          targetMuscleGroup: round.targetMuscleGroup,
+          difficulty: round.difficulty,
+          reps: round.reps,
+          isHold: Boolean(round.isHold),
+          alternatesSides: Boolean(round.alternatesSides),
+          actualReps: round.actualReps ?? null,
+          actualSeconds: round.actualSeconds ?? null,
+          skipped: Boolean(round.skipped),
+        }))
+      );
+
+      const history = await tx.getWorkoutSessions(userId);
+      let improved: Set<string>;
+      if (history[0]?.id === session.id) {
+        const newPRs = await applySessionToDerivedState(userId, { ...session, rounds: savedRounds }, history, tx);
+        improved = new Set(newPRs.map((record) => record.exerciseName));
+      } else {
+        await rebuildDerivedState(userId, {}, tx);
+        improved = new Set(savedRounds.map((round) => round.exerciseName));
+      }
+
+      if (options.generatedWorkout) {
+        await advanceProgramForWorkout(userId, options.generatedWorkout, tx);
+      }
+
+      // Detection reports every improving round; the stored records hold the session's best
+      const newPersonalRecords = (await tx.getPersonalRecords(userId))
+        .filter((record) => improved.has(record.exerciseName) && record.bestSessionId === session.id)
+        .map((record) => ({
+          exerciseName: record.exerciseName,
+          recordType: record.recordType,
+          bestReps: record.bestReps,
+          bestSeconds: record.bestSeconds,
+          bestRounds: record.bestRounds,
+        }));
+
+      const performed = new Set(savedRounds.map((round) => round.exerciseName));
+      const masteryChanges = (await tx.getExerciseMastery(userId))
+        .filter((mastery) => performed.has(mastery.exerciseName))
+        .map((mastery) => ({
+          exerciseName: mastery.exerciseName,
+          previousScore: previousMastery.get(mastery.exerciseName) ?? null,
+          masteryScore: mastery.masteryScore,
+        }))
+        .filter((change) => change.previousScore !== change.masteryScore);
+
+      const currentProfile = previousProfile ? await tx.getProfile(userId) : undefined;
+
+      return {
+        session,
+        duplicate: false,
+        newPersonalRecords,
+        masteryChanges,
+        skillScore:
+          previousProfile && currentProfile
+            ? { previous: previousProfile.skillScore, current: currentProfile.skillScore }
+            : null,
+      };
+    });
+  } catch (error) {
+    // A concurrent retry with the same key loses the unique index race; the transaction rolled back
+    if (!idempotencyKey || !isUniqueViolation(error)) throw error;
+    const existing = await store.getWorkoutSessionByIdempotencyKey(userId, idempotencyKey);
+    if (!existing) throw error;
+    return duplicateSummary(existing);
+  }
+}
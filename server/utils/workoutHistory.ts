@@ -0,0 +1,57 @@
+import type {
+  WorkoutHistoryPage,
+  WorkoutHistoryQuery,
+  WorkoutSession,
+  WorkoutSessionSummary,
+  WorkoutSessionWithRounds,
+} from "@shared/schema";
+import { storage, type IStorage, type WorkoutHistoryCursor } from "../storage";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function encodeHistoryCursor(session: Pick<WorkoutSession, "createdAt" | "id">): string {
+  return Buffer.from(`${new Date(session.createdAt).toISOString()}|${session.id}`).toString("base64url");
+}
+
+// Null for anything that is not a cursor this module produced
+export function decodeHistoryCursor(cursor: string): WorkoutHistoryCursor | null {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  const date = new Date(createdAt);
+  if (!id || !UUID_PATTERN.test(id) || Number.isNaN(date.getTime())) return null;
+  return { createdAt: date, id };
+}
+
+function toSummary({ userId, notes, idempotencyKey, ...summary }: WorkoutSession): WorkoutSessionSummary {
+  return summary;
+}
+
+/**
+ * One newest-first page of a user's history. Fetches one extra row to learn
+ * whether another page exists; rounds are only loaded for the full view.
+ */
+export async function getWorkoutHistoryPage(
+  userId: string,
+  query: WorkoutHistoryQuery,
+  after?: WorkoutHistoryCursor,
+  store: IStorage = storage
+): Promise<WorkoutHistoryPage<WorkoutSessionWithRounds | WorkoutSessionSummary>> {
+  const { limit, view, cursor, ...filter } = query;
+  const rows = await store.getWorkoutSessionPage(userId, filter, limit + 1, after);
+  const sessions = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeHistoryCursor(sessions[sessions.length - 1]) : null;
+  const totals = await store.getWorkoutSessionTotals(userId, filter);
+
+  if (view === "summary") {
+    return { sessions: sessions.map(toSummary), nextCursor, totals };
+  }
+
+  const rounds = await store.getWorkoutRounds(sessions.map((session) => session.id));
+  return {
+    sessions: sessions.map((session) => ({
+      ...session,
+      rounds: rounds.filter((round) => round.sessionId === session.id),
+    })),
+    nextCursor,
+    totals,
+  };
+}
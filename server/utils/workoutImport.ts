@@ -0,0 +1,124 @@
+import type { ExerciseDefinition } from "@shared/exercises";
+import type { InterchangeExercise, ManualWorkoutRequest, WorkoutInterchange } from "@shared/schema";
+
+// Share of name words two exercises need in common before one stands in for the other
+const MIN_NAME_SIMILARITY = 0.5;
+
+export interface ResolvedInterchange {
+  request: ManualWorkoutRequest;
+  warnings: string[];
+  unmatched: string[]; // Names with no catalog match and no usable muscle group; the import cannot run
+}
+
+// "Push-ups", "pushup" and "Push Ups" all reduce to the same words
+function nameWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => (word.length > 2 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+}
+
+function nameSimilarity(a: string[], b: string[]): number {
+  const shared = a.filter((word) => b.includes(word)).length;
+  return (2 * shared) / (a.length + b.length);
+}
+
+type ExerciseMatch = { exercise: ExerciseDefinition; warning?: string };
+
+function matchExercise(entry: InterchangeExercise, pool: ExerciseDefinition[]): ExerciseMatch | null {
+  const name = entry.name.trim().toLowerCase();
+  const exact = pool.find((exercise) => exercise.name.toLowerCase() === name || exercise.id === name);
+  if (exact) return { exercise: exact };
+
+  const words = nameWords(entry.name);
+  const key = words.join("");
+  const spelling = pool.find((exercise) => nameWords(exercise.name).join("") === key);
+  if (spelling) return { exercise: spelling };
+
+  // Closest by shared words; ties go to the hinted muscle group
+  let closest: { exercise: ExerciseDefinition; score: number } | null = null;
+  for (const exercise of pool) {
+    const score = nameSimilarity(words, nameWords(exercise.name));
+    const beatsClosest =
+      !closest ||
+      score > closest.score ||
+      (score === closest.score &&
+        exercise.muscleGroup === entry.muscleGroup &&
+        closest.exercise.muscleGroup !== entry.muscleGroup);
+    if (score >= MIN_NAME_SIMILARITY && beatsClosest) closest = { exercise, score };
+  }
+  if (closest) {
+    return { exercise: closest.exercise, warning: `"${entry.name}" is not in the catalog; using ${closest.exercise.name}` };
+  }
+
+  // Last resort: any movement for the same muscle group and of the same kind (timed or counted)
+  const wantsHold = entry.reps === undefined;
+  const standIn =
+    entry.muscleGroup &&
+    pool.find((exercise) => exercise.muscleGroup === entry.muscleGroup && !!exercise.isHold === wantsHold);
+  if (standIn) {
+    return {
+      exercise: standIn,
+      warning: `"${entry.name}" is not in the catalog; using ${standIn.name} for ${entry.muscleGroup}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * INTERCHANGE IMPORT
+ * ==================
+ * Maps an interchange document onto a manual builder request so buildManualWorkout lays
+ * out the rounds exactly as it does for Workout Lab builds.
+ *
+ * - Names match the catalog (built-ins plus the user's custom exercises) exactly, then by
+ *   spelling variants, then by shared words, then by the muscleGroup hint. Every
+ *   substitution is reported as a warning.
+ * - Holds take the seconds target and everything else the reps target; when only the
+ *   other one is given it is reused (holds) or replaced by the catalog default (reps).
+ */
+export function resolveInterchangeWorkout(
+  document: WorkoutInterchange,
+  exercisePool: ExerciseDefinition[],
+): ResolvedInterchange {
+  const warnings: string[] = [];
+  const unmatched: string[] = [];
+  const slots: ManualWorkoutRequest["slots"] = [];
+
+  document.exercises.forEach((entry) => {
+    const match = matchExercise(entry, exercisePool);
+    if (!match) {
+      unmatched.push(entry.name);
+      return;
+    }
+    if (match.warning) warnings.push(match.warning);
+
+    const { exercise } = match;
+    let reps: number;
+    if (exercise.isHold) {
+      reps = entry.seconds ?? entry.reps!;
+      if (entry.seconds === undefined) warnings.push(`${exercise.name} is a timed hold; using ${reps} reps as seconds`);
+    } else if (entry.reps !== undefined) {
+      reps = entry.reps;
+    } else {
+      reps = exercise.reps[exercise.difficulty];
+      warnings.push(`${exercise.name} is counted in reps; using the default ${reps} instead of ${entry.seconds}s`);
+    }
+    slots.push({ exerciseId: exercise.id, reps });
+  });
+
+  return {
+    request: {
+      framework: document.framework,
+      durationMinutes: document.durationMinutes,
+      workSeconds: document.workSeconds,
+      restSeconds: document.restSeconds,
+      ladderScheme: document.ladderScheme,
+      focusLabel: document.name,
+      slots,
+    },
+    warnings,
+    unmatched,
+  };
+}
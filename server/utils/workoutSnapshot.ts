@@ -0,0 +1,70 @@
+import type { GeneratedWorkout, WorkoutRound, WorkoutSession } from "@shared/schema";
+import { getAmrapCircuit } from "./amrapScore";
+
+/**
+ * Copy a workout as a reusable template: drops the persisted id, the program day
+ * tag and any per-round actuals so a re-run starts from the original targets and
+ * never counts as a program session.
+ */
+export function toWorkoutTemplate(workout: GeneratedWorkout): GeneratedWorkout {
+  const { id: _id, program: _program, ...template } = workout;
+
+  return {
+    ...template,
+    rounds: workout.rounds.map(({ actualReps: _actualReps, actualSeconds: _actualSeconds, skipped: _skipped, ...round }) => round),
+  };
+}
+
+/**
+ * Smallest circuit length whose repetition reproduces the round order (Circuit and Ladder sessions)
+ */
+function inferCircuitLength(exerciseNames: string[]): number {
+  for (let length = 1; length <= exerciseNames.length; length++) {
+    if (exerciseNames.length % length !== 0) continue;
+    if (exerciseNames.every((name, index) => name === exerciseNames[index % length])) return length;
+  }
+  return exerciseNames.length;
+}
+
+/**
+ * Number of consecutive intervals per exercise (Tabata sessions)
+ */
+function inferIntervalsPerExercise(exerciseNames: string[]): number {
+  let run = 1;
+  while (run < exerciseNames.length && exerciseNames[run] === exerciseNames[0]) run++;
+  return run;
+}
+
+/**
+ * Rebuild a runnable workout from a saved session and its rounds.
+ * Used for sessions that were not linked to a generated workout (older history);
+ * framework timing metadata that was never stored falls back to the runner defaults.
+ */
+export function sessionToWorkout(session: WorkoutSession & { rounds: WorkoutRound[] }): GeneratedWorkout {
+  // Scored AMRAP sessions repeat the circuit once per completed round
+  const rounds = session.framework === "AMRAP" ? getAmrapCircuit(session, session.rounds) : session.rounds;
+  const exerciseNames = rounds.map((round) => round.exerciseName);
+
+  return {
+    framework: session.framework,
+    durationMinutes: session.durationMinutes,
+    difficultyTag: session.difficultyTag as GeneratedWorkout["difficultyTag"],
+    focusLabel: session.focusLabel,
+    rounds: rounds.map((round) => ({
+      minuteIndex: round.minuteIndex,
+      exerciseName: round.exerciseName,
+      targetMuscleGroup: round.targetMuscleGroup,
+      difficulty: round.difficulty,
+      reps: round.reps,
+      isHold: round.isHold,
+      alternatesSides: round.alternatesSides,
+    })),
+    // Recover the repeat structure the runner needs for Circuit rounds / Ladder rungs and Tabata sets
+    ...((session.framework === "Circuit" || session.framework === "Ladder") && exerciseNames.length > 0
+      ? { totalRounds: exerciseNames.length / inferCircuitLength(exerciseNames) }
+      : {}),
+    ...(session.framework === "Tabata" && exerciseNames.length > 0
+      ? { sets: inferIntervalsPerExercise(exerciseNames) }
+      : {}),
+  };
+}
@@ -0,0 +1,140 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Created profile-level exercise constraints (banned exercises, avoided muscle groups,
+//   no-plyometric, low-impact and limited overhead mobility).
+// - Constraints are hard filters applied to every generator's candidate pool.
+// - Provides the rationale text explaining what was excluded.
+
+import type { ExerciseDefinition } from "./exercises";
+
+export interface ExerciseConstraints {
+  bannedExerciseIds: string[]; // Stable exercise ids (custom exercises use "custom-<uuid>")
+  avoidedMuscleGroups: string[];
+  noPlyometric: boolean; // No jumping / explosive movements
+  lowImpact: boolean; // No plyometrics and no running/skipping impact
+  limitedOverhead: boolean; // No pressing, hanging or throwing overhead
+}
+
+export const DEFAULT_EXERCISE_CONSTRAINTS: ExerciseConstraints = {
+  bannedExerciseIds: [],
+  avoidedMuscleGroups: [],
+  noPlyometric: false,
+  lowImpact: false,
+  limitedOverhead: false,
+};
+
+// Minimum pool (for the user's equipment) a set of constraints must leave the generators
+export const MIN_CONSTRAINED_EXERCISES = 6;
+
+/**
+ * Non-plyometric exercises that still load the joints with repeated impact
+ */
+const HIGH_IMPACT_EXERCISE_IDS = new Set<string>([
+  "single-unders",
+  "treadmill-sprint-intervals",
+  "treadmill-incline-run",
+  "mountain-climbers",
+]);
+
+/**
+ * Exercises that require pressing, hanging or reaching overhead
+ */
+const OVERHEAD_EXERCISE_IDS = new Set<string>([
+  "jumping-jacks",
+  "dumbbell-thrusters",
+  "dumbbell-snatches",
+  "dumbbell-shoulder-press",
+  "kettlebell-clean-and-press",
+  "kettlebell-turkish-get-ups",
+  "kettlebell-snatches",
+  "barbell-thrusters",
+  "barbell-push-press",
+  "pull-ups",
+  "chin-ups",
+  "hanging-knee-raises",
+  "toes-to-bar",
+  "med-ball-slams",
+  "med-ball-wall-balls",
+]);
+
+export interface ConstraintResult {
+  allowed: ExerciseDefinition[];
+  excluded: ExerciseDefinition[];
+}
+
+/**
+ * Helper: Fill in missing fields from a stored (possibly partial) constraints object
+ */
+export const normalizeExerciseConstraints = (
+  constraints: Partial<ExerciseConstraints> | null | undefined
+): ExerciseConstraints => ({
+  ...DEFAULT_EXERCISE_CONSTRAINTS,
+  ...(constraints ?? {}),
+});
+
+/**
+ * Helper: Whether any constraint is switched on
+ */
+export const hasExerciseConstraints = (constraints: ExerciseConstraints): boolean =>
+  constraints.bannedExerciseIds.length > 0 ||
+  constraints.avoidedMuscleGroups.length > 0 ||
+  constraints.noPlyometric ||
+  constraints.lowImpact ||
+  constraints.limitedOverhead;
+
+/**
+ * Helper: Check a single exercise against the user's constraints
+ */
+export const isExerciseAllowed = (exercise: ExerciseDefinition, constraints: ExerciseConstraints): boolean => {
+  if (constraints.bannedExerciseIds.includes(exercise.id)) return false;
+  if (constraints.avoidedMuscleGroups.includes(exercise.muscleGroup)) return false;
+  if ((constraints.noPlyometric || constraints.lowImpact) && exercise.categories.plyometric) return false;
+  if (constraints.lowImpact && HIGH_IMPACT_EXERCISE_IDS.has(exercise.id)) return false;
+  if (constraints.limitedOverhead && OVERHEAD_EXERCISE_IDS.has(exercise.id)) return false;
+  return true;
+};
+
+/**
+ * Helper: Split an exercise pool into allowed and excluded exercises
+ */
+export const applyExerciseConstraints = (
+  exercises: ExerciseDefinition[],
+  constraints: ExerciseConstraints
+): ConstraintResult => {
+  const allowed: ExerciseDefinition[] = [];
+  const excluded: ExerciseDefinition[] = [];
+
+  exercises.forEach((exercise) => {
+    if (isExerciseAllowed(exercise, constraints)) {
+      allowed.push(exercise);
+    } else {
+      excluded.push(exercise);
+    }
+  });
+
+  return { allowed, excluded };
+};
+
+/**
+ * Helper: Human-readable explanation of what the constraints removed (for rationale.exerciseSelection)
+ */
+export const describeExerciseConstraints = (
+  constraints: ExerciseConstraints,
+  excluded: ExerciseDefinition[]
+): string => {
+  if (!hasExerciseConstraints(constraints) || excluded.length === 0) return "";
+
+  const reasons: string[] = [];
+  if (constraints.lowImpact) reasons.push("low-impact mode");
+  else if (constraints.noPlyometric) reasons.push("no plyometrics");
+  if (constraints.limitedOverhead) reasons.push("limited overhead mobility");
+  if (constraints.avoidedMuscleGroups.length > 0) {
+    reasons.push(`avoiding ${constraints.avoidedMuscleGroups.join(", ")}`);
+  }
+
+  const banned = excluded.filter((exercise) => constraints.bannedExerciseIds.includes(exercise.id));
+  if (banned.length > 0) {
+    reasons.push(`banned ${banned.map((exercise) => exercise.name).join(", ")}`);
+  }
+
+  return `Profile constraints (${reasons.join("; ")}) excluded ${excluded.length} exercise${excluded.length === 1 ? "" : "s"}.`;
+};
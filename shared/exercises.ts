@@ -0,0 +1,223 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Moved the exercise catalog out of server/utils/emomGenerator.ts into this shared module.
+// - Every exercise now has a stable id, coaching cues, and an optional instructional video.
+// - This is the single source of truth for exercises across the generators, GET /api/exercises, and the client.
+// - Replaces the name-keyed client video map, whose names did not match the generator catalog.
+// - Custom exercises are converted with customExerciseToDefinition and merged into the same pool.
+
+import type { EquipmentId } from "./equipment";
+import type { CustomExercise } from "./schema";
+
+export type ExerciseDifficulty = "beginner" | "intermediate" | "advanced";
+
+export const EXERCISE_CATEGORIES = ["compound", "cardio", "plyometric", "mobility"] as const;
+export type ExerciseCategory = typeof EXERCISE_CATEGORIES[number];
+
+export interface ExerciseDefinition {
+  id: string; // Stable slug - never rename once shipped
+  name: string;
+  muscleGroup: string;
+  difficulty: ExerciseDifficulty;
+  equipment: EquipmentId[]; // Typed equipment requirements
+  reps: Record<ExerciseDifficulty, number>;
+  isHold?: boolean; // For time-based exercises (measured in seconds, not reps)
+  alternatesSides?: boolean; // For exercises that alternate sides (lunges, etc.) - reps are per side
+  // Category tags for goal-based exercise selection
+  categories: {
+    compound: boolean;   // Multi-joint compound movements
+    cardio: boolean;     // Cardio/conditioning exercises
+    plyometric: boolean; // Explosive/jump movements
+    mobility: boolean;   // Stretching/mobility work
+  };
+  cues: string[]; // Short coaching cues shown during the workout
+  videoId?: string; // YouTube video ID for the form tutorial
+  isCustom?: boolean; // User-defined exercise (custom_exercises table)
+}
+
+export interface ExerciseFilter {
+  equipment?: EquipmentId[]; // Only exercises fully covered by this equipment
+  muscleGroup?: string;
+  category?: ExerciseCategory;
+  difficulty?: ExerciseDifficulty;
+}
+
+/**
+ * EXERCISE LIBRARY
+ * =================
+ * Comprehensive exercise database used by every workout generator.
+ * All exercises use typed EquipmentId[] for type-safe equipment requirements.
+ * Each exercise has category tags (compound, cardio, plyometric, mobility) for goal-based filtering.
+ *
+ * Total: 57 exercises across 20 equipment categories
+ */
+export const EXERCISE_LIBRARY: ExerciseDefinition[] = [
+  // Bodyweight (9 exercises)
+  { id: "burpees", name: "Burpees", muscleGroup: "full-body", difficulty: "intermediate", equipment: ["bodyweight"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: true, plyometric: true, mobility: false }, cues: ["Chest to floor, then jump with hips extended", "Land soft and step back in if you need to pace"], videoId: "TFLyWHvAHzI" },
+  { id: "air-squats", name: "Air Squats", muscleGroup: "legs", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 15, intermediate: 25, advanced: 35 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Weight in heels, knees track over toes", "Hip crease below knee, stand tall at the top"], videoId: "xqvCmoLULNY" },
+  { id: "push-ups", name: "Push-ups", muscleGroup: "chest", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 10, intermediate: 20, advanced: 30 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Hands under shoulders, body in one straight line", "Lower chest to fist height, elbows at 45°"], videoId: "IODxDxX7oi4" },
+  { id: "mountain-climbers", name: "Mountain Climbers", muscleGroup: "core", difficulty: "intermediate", equipment: ["bodyweight"], reps: { beginner: 20, intermediate: 30, advanced: 40 }, categories: { compound: false, cardio: true, plyometric: false, mobility: false }, cues: ["Shoulders stacked over wrists", "Drive knees fast without bouncing the hips"], videoId: "nmwgiRdu_14" },
+  { id: "plank-hold", name: "Plank Hold", muscleGroup: "core", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 30, intermediate: 45, advanced: 60 }, isHold: true, categories: { compound: false, cardio: false, plyometric: false, mobility: true }, cues: ["Squeeze glutes and brace the core", "Keep a straight line from head to heels"], videoId: "pSHjTRCQxIw" },
+  { id: "jumping-jacks", name: "Jumping Jacks", muscleGroup: "cardio", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 20, intermediate: 30, advanced: 40 }, categories: { compound: false, cardio: true, plyometric: true, mobility: false }, cues: ["Stay light on the balls of your feet", "Full arm reach overhead each rep"], videoId: "DMnx1-OMkx8" },
+  { id: "lunges", name: "Lunges", muscleGroup: "legs", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 12, intermediate: 16, advanced: 24 }, alternatesSides: true, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Long stride, back knee hovers above the floor", "Front knee stays over the ankle"], videoId: "QOVaHJAxMKA" },
+  { id: "high-knees", name: "High Knees", muscleGroup: "cardio", difficulty: "beginner", equipment: ["bodyweight"], reps: { beginner: 20, intermediate: 30, advanced: 40 }, categories: { compound: false, cardio: true, plyometric: true, mobility: false }, cues: ["Knees to hip height", "Pump the arms and stay tall"], videoId: "K_sKdwqf3JY" },
+  { id: "squat-jumps", name: "Squat Jumps", muscleGroup: "legs", difficulty: "intermediate", equipment: ["bodyweight"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: true, cardio: false, plyometric: true, mobility: false }, cues: ["Sit back to a quarter squat before each jump", "Land softly and reset before the next rep"] },
+
+  // Dumbbells (6 exercises)
+  { id: "dumbbell-thrusters", name: "Dumbbell Thrusters", muscleGroup: "full-body", difficulty: "advanced", equipment: ["dumbbells"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Full squat, then drive the bells overhead in one motion", "Lock out with biceps by the ears"], videoId: "EIz4vJm-KqI" },
+  { id: "dumbbell-goblet-squats", name: "Dumbbell Goblet Squats", muscleGroup: "legs", difficulty: "intermediate", equipment: ["dumbbells"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Hold the bell at the chest, elbows inside knees", "Keep the torso upright throughout"] },
+  { id: "dumbbell-rows", name: "Dumbbell Rows", muscleGroup: "back", difficulty: "intermediate", equipment: ["dumbbells"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Flat back, pull the elbow toward the hip", "Pause at the top, lower with control"], videoId: "w6UE99pHQFU" },
+  { id: "dumbbell-snatches", name: "Dumbbell Snatches", muscleGroup: "full-body", difficulty: "advanced", equipment: ["dumbbells"], reps: { beginner: 6, intermediate: 10, advanced: 14 }, categories: { compound: true, cardio: false, plyometric: true, mobility: false }, cues: ["Hinge and drive through the hips", "Punch through at the top, bell stays close to the body"] },
+  { id: "dumbbell-shoulder-press", name: "Dumbbell Shoulder Press", muscleGroup: "shoulders", difficulty: "intermediate", equipment: ["dumbbells"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false }, cues: ["Ribs down, glutes tight", "Press straight up and finish with biceps by the ears"], videoId: "2yjwXTZQDDY" },
+  { id: "dumbbell-lunges", name: "Dumbbell Lunges", muscleGroup: "legs", difficulty: "intermediate", equipment: ["dumbbells"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, alternatesSides: true, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Bells at your sides, shoulders back", "Step long and keep the front heel down"], videoId: "QOVaHJAxMKA" },
+
+  // Kettlebells (5 exercises)
+  { id: "kettlebell-swings", name: "Kettlebell Swings", muscleGroup: "posterior-chain", difficulty: "intermediate", equipment: ["kettlebell"], reps: { beginner: 12, intermediate: 20, advanced: 30 }, categories: { compound: true, cardio: true, plyometric: true, mobility: false }, cues: ["Hinge, don't squat - hips drive the bell", "Bell floats to chest height, arms stay relaxed"], videoId: "dtB8V-xzx5c" },
+  { id: "kettlebell-goblet-squats", name: "Kettlebell Goblet Squats", muscleGroup: "legs", difficulty: "intermediate", equipment: ["kettlebell"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Hold the bell by the horns at the chest", "Elbows brush the knees at the bottom"] },
+  { id: "kettlebell-clean-and-press", name: "Kettlebell Clean & Press", muscleGroup: "full-body", difficulty: "advanced", equipment: ["kettlebell"], reps: { beginner: 6, intermediate: 10, advanced: 14 }, categories: { compound: true, cardio: false, plyometric: true, mobility: false }, cues: ["Keep the bell close on the clean, soft rack", "Press from a braced rack position"] },
+  { id: "kettlebell-turkish-get-ups", name: "Kettlebell Turkish Get-ups", muscleGroup: "full-body", difficulty: "advanced", equipment: ["kettlebell"], reps: { beginner: 4, intermediate: 6, advanced: 10 }, categories: { compound: true, cardio: false, plyometric: false, mobility: true }, cues: ["Eyes on the bell the whole time", "Move slowly through each position"] },
+  { id: "kettlebell-snatches", name: "Kettlebell Snatches", muscleGroup: "full-body", difficulty: "advanced", equipment: ["kettlebell"], reps: { beginner: 6, intermediate: 10, advanced: 14 }, categories: { compound: true, cardio: false, plyometric: true, mobility: false }, cues: ["Hike back, drive hips, punch through at the top", "Avoid letting the bell flip onto the wrist"] },
+
+  // Resistance Bands (4 exercises)
+  { id: "band-pull-aparts", name: "Band Pull-aparts", muscleGroup: "shoulders", difficulty: "beginner", equipment: ["resistance_bands_loop"], reps: { beginner: 15, intermediate: 20, advanced: 25 }, categories: { compound: false, cardio: false, plyometric: false, mobility: true }, cues: ["Arms straight at shoulder height", "Squeeze the shoulder blades together"] },
+  { id: "band-squats", name: "Band Squats", muscleGroup: "legs", difficulty: "beginner", equipment: ["resistance_bands_loop"], reps: { beginner: 15, intermediate: 20, advanced: 25 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Push knees out against the band", "Sit back and keep the chest proud"] },
+  { id: "band-rows", name: "Band Rows", muscleGroup: "back", difficulty: "beginner", equipment: ["resistance_band_long"], reps: { beginner: 12, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Tall posture, pull handles to the ribs", "Control the band on the way back"] },
+  { id: "band-chest-press", name: "Band Chest Press", muscleGroup: "chest", difficulty: "intermediate", equipment: ["resistance_band_long"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Anchor behind you, press straight forward", "Finish with arms extended, not locked"] },
+
+  // Barbell (5 exercises)
+  { id: "barbell-thrusters", name: "Barbell Thrusters", muscleGroup: "full-body", difficulty: "advanced", equipment: ["barbell"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Front rack, elbows high through the squat", "Drive out of the bottom straight into the press"] },
+  { id: "barbell-front-squats", name: "Barbell Front Squats", muscleGroup: "legs", difficulty: "advanced", equipment: ["barbell"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Elbows high, chest up", "Sit between the heels and keep the bar over mid-foot"] },
+  { id: "barbell-deadlifts", name: "Barbell Deadlifts", muscleGroup: "posterior-chain", difficulty: "intermediate", equipment: ["barbell"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Bar over mid-foot, neutral spine", "Push the floor away and lock out with the glutes"], videoId: "r4MzxtBKyNE" },
+  { id: "barbell-push-press", name: "Barbell Push Press", muscleGroup: "shoulders", difficulty: "intermediate", equipment: ["barbell"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: true, mobility: false }, cues: ["Short dip through the legs, heels down", "Drive the bar up and finish with head through"] },
+  { id: "barbell-rows", name: "Barbell Rows", muscleGroup: "back", difficulty: "intermediate", equipment: ["barbell"], reps: { beginner: 8, intermediate: 12, advanced: 15 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Hinge to about 45°, back flat", "Pull the bar to the lower ribs"] },
+
+  // Pull-up Bar (4 exercises)
+  { id: "pull-ups", name: "Pull-ups", muscleGroup: "back", difficulty: "advanced", equipment: ["pull_up_bar"], reps: { beginner: 3, intermediate: 8, advanced: 12 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Start from a dead hang, shoulders engaged", "Chin over the bar without kipping"], videoId: "eGo4IYlbE5g" },
+  { id: "chin-ups", name: "Chin-ups", muscleGroup: "back", difficulty: "advanced", equipment: ["pull_up_bar"], reps: { beginner: 3, intermediate: 8, advanced: 12 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Palms facing you, shoulder-width grip", "Pull chest toward the bar, lower fully"] },
+  { id: "hanging-knee-raises", name: "Hanging Knee Raises", muscleGroup: "core", difficulty: "intermediate", equipment: ["pull_up_bar"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false }, cues: ["Control the swing", "Curl the knees toward the chest"] },
+  { id: "toes-to-bar", name: "Toes to Bar", muscleGroup: "core", difficulty: "advanced", equipment: ["pull_up_bar"], reps: { beginner: 5, intermediate: 10, advanced: 15 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false }, cues: ["Active shoulders, slight hollow", "Bring toes to the bar and lower under control"] },
+
+  // Bench (3 exercises)
+  { id: "bench-dips", name: "Bench Dips", muscleGroup: "triceps", difficulty: "beginner", equipment: ["bench"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false }, cues: ["Hands by the hips, shoulders down", "Lower until elbows reach 90°"], videoId: "0326thy3mN4" },
+  { id: "box-jumps-bench", name: "Box Jumps (Bench)", muscleGroup: "legs", difficulty: "intermediate", equipment: ["bench"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: true, mobility: false }, cues: ["Swing arms and jump, land with both feet", "Step down rather than jumping off"] },
+  { id: "incline-push-ups", name: "Incline Push-ups", muscleGroup: "chest", difficulty: "beginner", equipment: ["bench"], reps: { beginner: 12, intermediate: 18, advanced: 25 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Hands on the bench, body straight", "Touch chest to the edge each rep"], videoId: "IODxDxX7oi4" },
+
+  // Medicine Ball (4 exercises)
+  { id: "med-ball-slams", name: "Med Ball Slams", muscleGroup: "full-body", difficulty: "intermediate", equipment: ["medicine_ball"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: true, plyometric: true, mobility: false }, cues: ["Full extension overhead", "Slam with the whole body and hinge to pick up"], videoId: "d7qmVdXVKOQ" },
+  { id: "med-ball-wall-balls", name: "Med Ball Wall Balls", muscleGroup: "full-body", difficulty: "intermediate", equipment: ["medicine_ball"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: true, plyometric: false, mobility: false }, cues: ["Squat to depth, then throw to the target", "Catch and descend in one fluid motion"] },
+  { id: "med-ball-russian-twists", name: "Med Ball Russian Twists", muscleGroup: "core", difficulty: "intermediate", equipment: ["medicine_ball"], reps: { beginner: 20, intermediate: 30, advanced: 40 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false }, cues: ["Lean back slightly, chest up", "Rotate the torso, not just the arms"] },
+  { id: "med-ball-chest-pass", name: "Med Ball Chest Pass", muscleGroup: "chest", difficulty: "beginner", equipment: ["medicine_ball"], reps: { beginner: 15, intermediate: 20, advanced: 25 }, categories: { compound: false, cardio: false, plyometric: true, mobility: false }, cues: ["Step and push explosively from the chest", "Catch with soft hands and reset"] },
+
+  // Jump Rope (2 exercises)
+  { id: "double-unders", name: "Double Unders", muscleGroup: "cardio", difficulty: "advanced", equipment: ["jump_rope"], reps: { beginner: 20, intermediate: 40, advanced: 60 }, categories: { compound: false, cardio: true, plyometric: true, mobility: false }, cues: ["Stay tall with small, quick wrist turns", "Single jump height, feet together"] },
+  { id: "single-unders", name: "Single Unders", muscleGroup: "cardio", difficulty: "beginner", equipment: ["jump_rope"], reps: { beginner: 40, intermediate: 60, advanced: 80 }, categories: { compound: false, cardio: true, plyometric: false, mobility: false }, cues: ["Light bounces on the balls of the feet", "Elbows close, turn from the wrists"], videoId: "n_NekFrRNkc" },
+
+  // Treadmill (2 exercises)
+  { id: "treadmill-sprint-intervals", name: "Treadmill Sprint Intervals", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["treadmill"], reps: { beginner: 30, intermediate: 45, advanced: 60 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false }, cues: ["Straddle the belt to start and finish safely", "Drive the arms and stay tall"] },
+  { id: "treadmill-incline-run", name: "Treadmill Incline Run", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["treadmill"], reps: { beginner: 45, intermediate: 60, advanced: 75 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false }, cues: ["Short quick steps", "Don't hold the handrails"] },
+
+  // Bike (2 exercises)
+  { id: "bike-sprint-intervals", name: "Bike Sprint Intervals", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["bike"], reps: { beginner: 30, intermediate: 45, advanced: 60 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false }, cues: ["Seat at hip height, slight knee bend at the bottom", "Spin fast against real resistance"] },
+  { id: "bike-hill-climbs", name: "Bike Hill Climbs", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["bike"], reps: { beginner: 45, intermediate: 60, advanced: 75 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false }, cues: ["Add resistance and keep a steady cadence", "Stay seated and push through the whole stroke"] },
+
+  // Rower (2 exercises)
+  { id: "rowing-sprint-intervals", name: "Rowing Sprint Intervals", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["rower"], reps: { beginner: 30, intermediate: 45, advanced: 60 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false }, cues: ["Legs, then body, then arms on the drive", "Reverse the order on the recovery"] },
+  { id: "rowing-500m", name: "Rowing 500m", muscleGroup: "cardio", difficulty: "intermediate", equipment: ["rower"], reps: { beginner: 120, intermediate: 110, advanced: 100 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false }, cues: ["Hold a steady split you can sustain", "Long strokes - power comes from the legs"] },
+
+  // Elliptical (1 exercise)
+  { id: "elliptical-sprint-intervals", name: "Elliptical Sprint Intervals", muscleGroup: "cardio", difficulty: "beginner", equipment: ["elliptical"], reps: { beginner: 30, intermediate: 45, advanced: 60 }, isHold: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false }, cues: ["Stand tall and push through the heels", "Use the handles to involve the upper body"] },
+
+  // Sliders (3 exercises)
+  { id: "slider-mountain-climbers", name: "Slider Mountain Climbers", muscleGroup: "core", difficulty: "intermediate", equipment: ["sliders"], reps: { beginner: 20, intermediate: 30, advanced: 40 }, categories: { compound: false, cardio: true, plyometric: false, mobility: false }, cues: ["Plank position with feet on sliders", "Slide knees in without piking the hips"] },
+  { id: "slider-pike", name: "Slider Pike", muscleGroup: "core", difficulty: "advanced", equipment: ["sliders"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false }, cues: ["Start in a plank, lift hips toward the ceiling", "Keep legs straight and move slowly"] },
+  { id: "slider-lunges", name: "Slider Lunges", muscleGroup: "legs", difficulty: "intermediate", equipment: ["sliders"], reps: { beginner: 10, intermediate: 16, advanced: 20 }, alternatesSides: true, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Slide the back foot out, weight on the front heel", "Drag the slider back in with control"], videoId: "QOVaHJAxMKA" },
+
+  // Step/Box (3 exercises)
+  { id: "box-jumps", name: "Box Jumps", muscleGroup: "legs", difficulty: "intermediate", equipment: ["step_box"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: true, mobility: false }, cues: ["Swing arms and jump, land softly with both feet", "Stand tall on the box, then step down"], videoId: "fxgkEJV4zXM" },
+  { id: "box-step-ups", name: "Box Step-ups", muscleGroup: "legs", difficulty: "beginner", equipment: ["step_box"], reps: { beginner: 10, intermediate: 16, advanced: 24 }, alternatesSides: true, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Whole foot on the box", "Drive through the top heel, don't push off the back foot"], videoId: "K_sKdwqf3JY" },
+  { id: "lateral-box-step-overs", name: "Lateral Box Step-overs", muscleGroup: "legs", difficulty: "intermediate", equipment: ["step_box"], reps: { beginner: 10, intermediate: 16, advanced: 20 }, alternatesSides: true, categories: { compound: false, cardio: true, plyometric: false, mobility: false }, cues: ["Step up and over sideways", "Stay light and alternate the lead leg"], videoId: "K_sKdwqf3JY" },
+
+  // TRX/Suspension (2 exercises)
+  { id: "trx-rows", name: "TRX Rows", muscleGroup: "back", difficulty: "intermediate", equipment: ["trx"], reps: { beginner: 10, intermediate: 15, advanced: 20 }, categories: { compound: true, cardio: false, plyometric: false, mobility: false }, cues: ["Body straight like a moving plank", "Pull hands to the ribs and squeeze the back"] },
+  { id: "trx-pike", name: "TRX Pike", muscleGroup: "core", difficulty: "advanced", equipment: ["trx"], reps: { beginner: 8, intermediate: 12, advanced: 16 }, categories: { compound: false, cardio: false, plyometric: false, mobility: false }, cues: ["Feet in the straps, plank position", "Lift hips high with straight legs"] },
+];
+
+const EXERCISES_BY_ID = new Map(EXERCISE_LIBRARY.map((exercise) => [exercise.id, exercise]));
+const EXERCISES_BY_NAME = new Map(EXERCISE_LIBRARY.map((exercise) => [exercise.name.toLowerCase(), exercise]));
+
+/**
+ * All muscle groups targeted by the library, sorted alphabetically
+ */
+export const MUSCLE_GROUPS: string[] = Array.from(
+  new Set(EXERCISE_LIBRARY.map((exercise) => exercise.muscleGroup))
+).sort();
+
+/**
+ * Helper: Get exercise by stable id
+ */
+export const getExerciseById = (id: string): ExerciseDefinition | undefined => {
+  return EXERCISES_BY_ID.get(id);
+};
+
+/**
+ * Helper: Get exercise by display name (case-insensitive)
+ */
+export const getExerciseByName = (name: string): ExerciseDefinition | undefined => {
+  return EXERCISES_BY_NAME.get(name.trim().toLowerCase());
+};
+
+/**
+ * Helper: Filter the library by equipment, muscle group, category and difficulty
+ */
+export const filterExercises = (
+  filter: ExerciseFilter,
+  exercises: ExerciseDefinition[] = EXERCISE_LIBRARY
+): ExerciseDefinition[] => {
+  const equipmentSet = filter.equipment ? new Set<EquipmentId>(filter.equipment) : null;
+
+  return exercises.filter((exercise) => {
+    if (equipmentSet && !exercise.equipment.every((eq) => equipmentSet.has(eq))) return false;
+    if (filter.muscleGroup && exercise.muscleGroup !== filter.muscleGroup) return false;
+    if (filter.category && !exercise.categories[filter.category]) return false;
+    if (filter.difficulty && exercise.difficulty !== filter.difficulty) return false;
+    return true;
+  });
+};
+
+/**
+ * Helper: Convert a user's custom exercise row into a library definition
+ * so generators and the client treat it like a built-in exercise
+ */
+export const customExerciseToDefinition = (exercise: CustomExercise): ExerciseDefinition => ({
+  id: `custom-${exercise.id}`,
+  name: exercise.name,
+  muscleGroup: exercise.muscleGroup,
+  difficulty: exercise.difficulty,
+  equipment: exercise.equipment,
+  reps: exercise.reps,
+  isHold: exercise.isHold,
+  alternatesSides: exercise.alternatesSides,
+  categories: exercise.categories,
+  cues: exercise.cues ?? [],
+  isCustom: true,
+});
+
+/**
+ * Helper: Video URL for an exercise name.
+ * Falls back to a YouTube search when the exercise has no direct video.
+ */
+export const getExerciseVideoUrl = (exerciseName: string): string => {
+  const videoId = getExerciseByName(exerciseName)?.videoId;
+
+  if (videoId) {
+    return `https://www.youtube.com/embed/${videoId}?rel=0&modestbranding=1&autoplay=1`;
+  }
+
+  return `https://www.youtube.com/results?search_query=how+to+${encodeURIComponent(exerciseName)}`;
+};
+
+/**
+ * Helper: Whether an exercise name has a direct instructional video
+ */
+export const hasExerciseVideo = (exerciseName: string): boolean => {
+  return !!getExerciseByName(exerciseName)?.videoId;
+};
@@ -5,7 +5,11 @@
  * client and server components.
  */
 
-export type Framework = "EMOM" | "Tabata" | "AMRAP" | "Circuit"
+export type Framework = "EMOM" | "Tabata" | "AMRAP" | "Circuit" | "Ladder" | "ForTime"
+
+/** Rep progression shapes for Ladder workouts (e.g. pyramid = 2-4-6-8-10-8-6-4-2) */
+export const LADDER_SCHEMES = ["ascending", "descending", "pyramid"] as const
+export type LadderScheme = typeof LADDER_SCHEMES[number]
 
 export interface FrameworkConfig {
   id: Framework
@@ -76,6 +80,34 @@ export const FRAMEWORK_CONFIGS: Record<Framework, FrameworkConfig> = {
     intensityLevel: "low",
     bestFor: ["Muscle Gain", "Strength & Power", "Mobility & Recovery"],
     keyFeature: "Controlled pace with built-in recovery"
+  },
+
+  Ladder: {
+    id: "Ladder",
+    name: "Ladder",
+    fullName: "Ladder / Pyramid",
+    description: "Climb the rep ladder: every rung adds (or drops) reps for each exercise, e.g. 2-4-6-8-10-8-6-4-2. Work through the rungs at your own pace before the time cap.",
+    shortDescription: "Climb the Reps",
+    icon: "📶",
+    defaultDuration: 15,
+    durationRange: [8, 25],
+    intensityLevel: "moderate",
+    bestFor: ["Muscle Gain", "Strength & Power", "Metabolic Conditioning"],
+    keyFeature: "Built-in progression on every rung"
+  },
+
+  ForTime: {
+    id: "ForTime",
+    name: "For Time",
+    fullName: "For Time (Chipper)",
+    description: "Chip through a fixed list of exercises and total reps as fast as possible. The clock counts up; beat the time cap and your finish time becomes a benchmark to chase.",
+    shortDescription: "Race the Work",
+    icon: "⏱️",
+    defaultDuration: 20,
+    durationRange: [8, 30],
+    intensityLevel: "high",
+    bestFor: ["Metabolic Conditioning", "Athletic Performance", "Fat Loss"],
+    keyFeature: "Finish times tracked as benchmarks"
   }
 }
 
@@ -93,6 +125,70 @@ export function getFrameworkConfig(framework: Framework): FrameworkConfig {
   return FRAMEWORK_CONFIGS[framework]
 }
 
+/**
+ * Rung multipliers for a ladder with the given number of steps.
+ * ascending: 1..steps, descending: steps..1, pyramid: 1..steps..1 (peak once)
+ */
+export function getLadderSteps(scheme: LadderScheme, steps: number): number[] {
+  const up = Array.from({ length: Math.max(1, steps) }, (_, index) => index + 1)
+  if (scheme === "ascending") return up
+  if (scheme === "descending") return [...up].reverse()
+  return [...up, ...up.slice(0, -1).reverse()]
+}
+
+/**
+ * Reps per rung for one exercise, scaled so the peak rung hits peakReps.
+ * Alternating-side exercises stay on even numbers so each side gets the same count.
+ */
+export function getLadderRungReps(
+  peakReps: number,
+  scheme: LadderScheme,
+  steps: number,
+  alternatesSides = false
+): number[] {
+  const stepCount = Math.max(1, steps)
+  return getLadderSteps(scheme, stepCount).map((step) => {
+    const reps = Math.max(1, Math.round((peakReps * step) / stepCount))
+    return alternatesSides ? Math.max(2, Math.round(reps / 2) * 2) : reps
+  })
+}
+
+/**
+ * Benchmark name for a For Time workout, e.g. "For Time: 50 Air Squats, 30 Burpees".
+ * Identical chippers share a name, so re-runs compete against the same personal record.
+ */
+export function getForTimeBenchmarkName(rounds: Array<{ exerciseName: string; reps: number }>): string {
+  return `For Time: ${rounds.map((round) => `${round.reps} ${round.exerciseName}`).join(", ")}`
+}
+
+/**
+ * Benchmark name for an AMRAP workout, e.g. "AMRAP 12 min: 10 Push-ups, 15 Air Squats".
+ * The time window is part of the name since the same circuit scores differently per duration.
+ */
+export function getAmrapBenchmarkName(
+  durationMinutes: number,
+  rounds: Array<{ exerciseName: string; reps: number }>
+): string {
+  return `AMRAP ${durationMinutes} min: ${rounds.map((round) => `${round.reps} ${round.exerciseName}`).join(", ")}`
+}
+
+/**
+ * Format an AMRAP score, e.g. "5 rounds + 12 reps"
+ */
+export function formatAmrapScore(rounds: number, reps: number): string {
+  const roundsText = `${rounds} round${rounds === 1 ? "" : "s"}`
+  return reps > 0 ? `${roundsText} + ${reps} rep${reps === 1 ? "" : "s"}` : roundsText
+}
+
+/**
+ * Format seconds as m:ss for finish times and time caps
+ */
+export function formatClockTime(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds < 10 ? "0" : ""}${seconds}`
+}
+
 /**
  * Validate if a string is a valid framework
  */
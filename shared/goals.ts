@@ -2,6 +2,9 @@
 // - Created centralized goal configuration system with 7 goal options
 // - Defined AI-specific metadata for each goal (framework bias, intensity, tags)
 // - Provides single source of truth for UI and AI workout generation
+// - Added Ladder to frameworkBias (2026-10-18); weights per goal still sum to 1
+// - Added ForTime to frameworkBias and FRAMEWORK_BIAS_KEYS, the one mapping from bias keys
+//   to frameworks; pickFrameworkForGoal now returns a Framework (2026-10-18)
 
 /**
  * Primary Goal Configuration System
@@ -12,6 +15,8 @@
  * - Profile management (goal weights, personalization)
  */
 
+import type { Framework } from './frameworks';
+
 export type PrimaryGoalId =
   | 'fat_loss'
   | 'muscle_gain'
@@ -24,8 +29,20 @@ export interface FrameworkBias {
   emom: number;
   amrap: number;
   circuit: number;
+  ladder: number;
+  fortime: number;
 }
 
+// Framework each bias key selects
+export const FRAMEWORK_BIAS_KEYS: Record<keyof FrameworkBias, Framework> = {
+  tabata: 'Tabata',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+  circuit: 'Circuit',
+  ladder: 'Ladder',
+  fortime: 'ForTime',
+};
+
 export interface PrimaryGoalConfig {
   id: PrimaryGoalId;
   label: string;
@@ -53,7 +70,7 @@ export const PRIMARY_GOALS: PrimaryGoalConfig[] = [
     subtitle: 'Burn calories and lean out',
     iconName: 'trending-up',
     aiTags: ['fat loss', 'calorie burn', 'intervals', 'conditioning', 'metabolic'],
-    frameworkBias: { tabata: 0.35, emom: 0.25, amrap: 0.15, circuit: 0.25 },
+    frameworkBias: { tabata: 0.25, emom: 0.2, amrap: 0.15, circuit: 0.2, ladder: 0.1, fortime: 0.1 },
     intensityBias: 'moderate',
     preferredDurationsMinutes: [12, 25],
     restMultiplier: 0.85,
@@ -70,7 +87,7 @@ export const PRIMARY_GOALS: PrimaryGoalConfig[] = [
     subtitle: 'Hypertrophy-focused strength work',
     iconName: 'target',
     aiTags: ['hypertrophy', 'time under tension', 'moderate rest', 'muscle building'],
-    frameworkBias: { tabata: 0.1, emom: 0.4, amrap: 0.15, circuit: 0.35 },
+    frameworkBias: { tabata: 0.1, emom: 0.3, amrap: 0.1, circuit: 0.25, ladder: 0.2, fortime: 0.05 },
     intensityBias: 'moderate',
     preferredDurationsMinutes: [20, 30],
     restMultiplier: 1.2,
@@ -87,7 +104,7 @@ export const PRIMARY_GOALS: PrimaryGoalConfig[] = [
     subtitle: 'Build strength, explosiveness, and muscle',
     iconName: 'dumbbell',
     aiTags: ['strength', 'power', 'compound lifts', 'longer rest', 'explosive'],
-    frameworkBias: { tabata: 0.1, emom: 0.4, amrap: 0.2, circuit: 0.3 },
+    frameworkBias: { tabata: 0.05, emom: 0.3, amrap: 0.15, circuit: 0.2, ladder: 0.25, fortime: 0.05 },
     intensityBias: 'moderate',
     preferredDurationsMinutes: [10, 25],
     restMultiplier: 1.3,
@@ -121,27 +138,28 @@ export const getGoalTagsForAI = (goalId: PrimaryGoalId | null | undefined): stri
  * Uses weighted random selection from frameworkBias probabilities
  */
 export const pickFrameworkForGoal = (
-  goalId: PrimaryGoalId | null | undefined
-): 'tabata' | 'emom' | 'amrap' | 'circuit' => {
+  goalId: PrimaryGoalId | null | undefined,
+  random: () => number = Math.random
+): Framework => {
   const config = getPrimaryGoalConfig(goalId);
 
   // Fallback: if no goal, default to EMOM (current app default)
-  if (!config) return 'emom';
+  if (!config) return 'EMOM';
 
   const { frameworkBias } = config;
-  const roll = Math.random();
+  const roll = random();
   let cumulative = 0;
 
-  const entries: [keyof FrameworkBias, number][] = Object.entries(frameworkBias) as any;
+  const entries = Object.entries(frameworkBias) as [keyof FrameworkBias, number][];
 
-  for (const [framework, weight] of entries) {
+  for (const [biasKey, weight] of entries) {
     cumulative += weight;
     if (roll <= cumulative) {
-      return framework as any;
+      return FRAMEWORK_BIAS_KEYS[biasKey];
     }
   }
 
-  return 'emom'; // Fallback
+  return 'EMOM'; // Fallback
 };
 
 /**
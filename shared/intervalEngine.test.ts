@@ -0,0 +1,261 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import type { GeneratedWorkout } from "./schema";
+import {
+  IDLE_CLOCK,
+  compileWorkoutTimeline,
+  findNextWorkPhaseIndex,
+  getClockElapsedMs,
+  getPhaseTimestamps,
+  getTimelinePosition,
+  isClockRunning,
+  pauseClock,
+  seekClock,
+  startClock,
+  type TimelineClock,
+} from "./intervalEngine";
+
+// Every engine function takes "now" explicitly, so tests drive a fake wall clock
+function createFakeClock(start = 1_700_000_000_000) {
+  let now = start;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+      return now;
+    },
+  };
+}
+
+function buildWorkout(overrides: Partial<GeneratedWorkout>): GeneratedWorkout {
+  return {
+    framework: "EMOM",
+    durationMinutes: 3,
+    difficultyTag: "intermediate",
+    focusLabel: "Test",
+    rounds: ["Burpees", "Air Squats", "Push-ups"].map((exerciseName, minuteIndex) => ({
+      minuteIndex,
+      exerciseName,
+      targetMuscleGroup: "full_body",
+      difficulty: "moderate",
+      reps: 10,
+    })),
+    ...overrides,
+  };
+}
+
+describe("TimelineClock", () => {
+  test("reports no elapsed time until started", () => {
+    const clock = createFakeClock();
+    assert.equal(getClockElapsedMs(IDLE_CLOCK, clock.now()), 0);
+    assert.equal(isClockRunning(IDLE_CLOCK), false);
+  });
+
+  test("pausing freezes elapsed time and resuming does not count the pause", () => {
+    const clock = createFakeClock();
+    let timer: TimelineClock = startClock(IDLE_CLOCK, clock.now());
+
+    clock.advance(30_000);
+    timer = pauseClock(timer, clock.now());
+    assert.equal(isClockRunning(timer), false);
+
+    clock.advance(5 * 60_000);
+    assert.equal(getClockElapsedMs(timer, clock.now()), 30_000);
+
+    timer = startClock(timer, clock.now());
+    clock.advance(10_000);
+    assert.equal(isClockRunning(timer), true);
+    assert.equal(getClockElapsedMs(timer, clock.now()), 40_000);
+  });
+
+  test("repeated pauses and resumes accumulate only running time", () => {
+    const clock = createFakeClock();
+    let timer = startClock(IDLE_CLOCK, clock.now());
+    for (let cycle = 0; cycle < 3; cycle++) {
+      clock.advance(7_000);
+      timer = pauseClock(timer, clock.now());
+      clock.advance(60_000);
+      timer = startClock(timer, clock.now());
+    }
+    assert.equal(getClockElapsedMs(timer, clock.now()), 21_000);
+  });
+
+  test("pausing twice and starting a running clock are no-ops", () => {
+    const clock = createFakeClock();
+    const running = startClock(IDLE_CLOCK, clock.now());
+    clock.advance(1_000);
+    assert.equal(startClock(running, clock.now()), running);
+
+    const paused = pauseClock(running, clock.now());
+    clock.advance(1_000);
+    assert.equal(pauseClock(paused, clock.now()), paused);
+  });
+
+  test("seeking keeps a running clock running and a paused clock paused", () => {
+    const clock = createFakeClock();
+    const running = startClock(IDLE_CLOCK, clock.now());
+    clock.advance(5_000);
+
+    const seekedRunning = seekClock(running, 60_000, clock.now());
+    assert.equal(isClockRunning(seekedRunning), true);
+    clock.advance(2_000);
+    assert.equal(getClockElapsedMs(seekedRunning, clock.now()), 62_000);
+
+    const paused = pauseClock(seekedRunning, clock.now());
+    const seekedPaused = seekClock(paused, 120_000, clock.now());
+    clock.advance(30_000);
+    assert.equal(isClockRunning(seekedPaused), false);
+    assert.equal(getClockElapsedMs(seekedPaused, clock.now()), 120_000);
+  });
+});
+
+describe("background drift", () => {
+  test("a backgrounded tab with throttled timers catches up from the wall clock", () => {
+    const clock = createFakeClock();
+    const timeline = compileWorkoutTimeline(buildWorkout({ framework: "EMOM" }));
+    const timer = startClock(IDLE_CLOCK, clock.now());
+
+    // No ticks fire while hidden; the first render after returning reads the wall clock
+    clock.advance(95_000);
+    const position = getTimelinePosition(timeline, getClockElapsedMs(timer, clock.now()));
+    assert.equal(position.phase.roundIndex, 1);
+    assert.equal(position.secondsLeft, 25);
+    assert.equal(position.phaseElapsedSeconds, 35);
+  });
+
+  test("many late ticks land on the same position as one exact read", () => {
+    const clock = createFakeClock();
+    const timeline = compileWorkoutTimeline(buildWorkout({ framework: "Tabata", workSeconds: 20, restSeconds: 10 }));
+    const timer = startClock(IDLE_CLOCK, clock.now());
+
+    // Throttled intervals fire late by varying amounts; nothing is accumulated per tick
+    [1_003, 998, 4_870, 1_250, 12_400, 997].forEach((late) => clock.advance(late));
+    const elapsed = getClockElapsedMs(timer, clock.now());
+    assert.equal(elapsed, 21_518);
+
+    const position = getTimelinePosition(timeline, elapsed);
+    assert.equal(position.phase.kind, "rest");
+    assert.equal(position.secondsLeft, 9);
+  });
+
+  test("phase timestamps stay anchored to the start across a pause", () => {
+    const clock = createFakeClock();
+    const timeline = compileWorkoutTimeline(buildWorkout({ framework: "EMOM" }));
+    const startedAt = clock.now();
+    let timer = startClock(IDLE_CLOCK, startedAt);
+
+    assert.deepEqual(getPhaseTimestamps(timer, timeline.phases[1]), { startsAt: startedAt + 60_000, endsAt: startedAt + 120_000 });
+    clock.advance(10_000);
+    timer = pauseClock(timer, clock.now());
+    clock.advance(15_000);
+    timer = startClock(timer, clock.now());
+    assert.deepEqual(getPhaseTimestamps(timer, timeline.phases[1]), { startsAt: startedAt + 75_000, endsAt: startedAt + 135_000 });
+    assert.equal(getPhaseTimestamps(IDLE_CLOCK, timeline.phases[1]), null);
+  });
+});
+
+describe("phase boundaries", () => {
+  test("EMOM gives one 60 second work phase per round", () => {
+    const timeline = compileWorkoutTimeline(buildWorkout({ framework: "EMOM" }));
+    assert.deepEqual(
+      timeline.phases.map((phase) => [phase.kind, phase.roundIndex, phase.startMs, phase.endMs]),
+      [
+        ["work", 0, 0, 60_000],
+        ["work", 1, 60_000, 120_000],
+        ["work", 2, 120_000, 180_000],
+      ]
+    );
+    assert.equal(timeline.durationMs, 180_000);
+    assert.equal(timeline.manualAdvance, false);
+  });
+
+  test("a phase ends exactly at its end offset", () => {
+    const timeline = compileWorkoutTimeline(buildWorkout({ framework: "Tabata", workSeconds: 20, restSeconds: 10 }));
+
+    const lastWorkMs = getTimelinePosition(timeline, 19_999);
+    assert.equal(lastWorkMs.phase.kind, "work");
+    assert.equal(lastWorkMs.phase.roundIndex, 0);
+    assert.equal(lastWorkMs.secondsLeft, 1);
+
+    const restStart = getTimelinePosition(timeline, 20_000);
+    assert.equal(restStart.phase.kind, "rest");
+    assert.equal(restStart.phase.roundIndex, 1); // Rest belongs to the round coming up
+    assert.equal(restStart.secondsLeft, 10);
+    assert.equal(restStart.nextPhase?.kind, "work");
+
+    const nextWork = getTimelinePosition(timeline, 30_000);
+    assert.equal(nextWork.phase.kind, "work");
+    assert.equal(nextWork.phase.roundIndex, 1);
+  });
+
+  test("Tabata has no rest after the final interval", () => {
+    const timeline = compileWorkoutTimeline(buildWorkout({ framework: "Tabata", workSeconds: 20, restSeconds: 10 }));
+    assert.equal(timeline.phases.at(-1)?.kind, "work");
+    assert.equal(timeline.durationMs, 3 * 20_000 + 2 * 10_000);
+  });
+
+  test("the prestart countdown shifts every phase", () => {
+    const timeline = compileWorkoutTimeline(buildWorkout({ framework: "EMOM" }), { prestartSeconds: 10 });
+    assert.equal(timeline.phases[0].kind, "prestart");
+    assert.equal(timeline.workStartMs, 10_000);
+    assert.equal(getTimelinePosition(timeline, 9_999).phase.kind, "prestart");
+    assert.equal(getTimelinePosition(timeline, 10_000).phase.roundIndex, 0);
+    assert.equal(getTimelinePosition(timeline, 70_000).phase.roundIndex, 1);
+  });
+
+  test("Circuit rests between rounds only, unless rests are skipped", () => {
+    const workout = buildWorkout({
+      framework: "Circuit",
+      workSeconds: 45,
+      restSeconds: 60,
+      totalRounds: 2,
+      rounds: ["Burpees", "Lunges", "Burpees", "Lunges"].map((exerciseName, minuteIndex) => ({
+        minuteIndex,
+        exerciseName,
+        targetMuscleGroup: "full_body",
+        difficulty: "moderate",
+        reps: 10,
+      })),
+    });
+
+    const timeline = compileWorkoutTimeline(workout);
+    assert.deepEqual(timeline.phases.map((phase) => phase.kind), ["work", "work", "transition", "work", "work"]);
+    assert.equal(getTimelinePosition(timeline, 90_000).phase.kind, "transition");
+    assert.equal(getTimelinePosition(timeline, 150_000).phase.roundIndex, 2);
+
+    const skipped = compileWorkoutTimeline(workout, { restAutoSkip: true });
+    assert.equal(skipped.phases.some((phase) => phase.kind !== "work"), false);
+    assert.equal(skipped.durationMs, 4 * 45_000);
+  });
+
+  test("the end of the timeline reports the last phase as finished", () => {
+    const timeline = compileWorkoutTimeline(buildWorkout({ framework: "EMOM" }));
+    const end = getTimelinePosition(timeline, timeline.durationMs);
+    assert.equal(end.isFinished, true);
+    assert.equal(end.phaseIndex, timeline.phases.length - 1);
+    assert.equal(end.secondsLeft, 0);
+    assert.equal(end.nextPhase, null);
+
+    const wellPast = getTimelinePosition(timeline, timeline.durationMs + 60_000);
+    assert.equal(wellPast.isFinished, true);
+    assert.equal(wellPast.phaseElapsedSeconds, 60);
+  });
+
+  test("single-clock frameworks use one manually advanced work phase", () => {
+    const amrap = compileWorkoutTimeline(buildWorkout({ framework: "AMRAP", durationMinutes: 12 }));
+    assert.equal(amrap.manualAdvance, true);
+    assert.equal(amrap.phases.length, 1);
+    assert.equal(amrap.phases[0].clock, "countdown");
+    assert.equal(amrap.durationMs, 12 * 60_000);
+
+    const forTime = compileWorkoutTimeline(buildWorkout({ framework: "ForTime", durationMinutes: 15 }));
+    assert.equal(forTime.phases[0].clock, "countup");
+  });
+
+  test("skipping ahead lands on the next round's work phase, past any rest", () => {
+    const timeline = compileWorkoutTimeline(buildWorkout({ framework: "Tabata", workSeconds: 20, restSeconds: 10 }));
+    assert.equal(findNextWorkPhaseIndex(timeline, 0), 2);
+    assert.equal(findNextWorkPhaseIndex(timeline, 1), 2); // From the rest before round 1
+    assert.equal(findNextWorkPhaseIndex(timeline, timeline.phases.length - 1), -1);
+  });
+});
@@ -0,0 +1,235 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Created a framework-agnostic interval engine for the workout runner.
+// - Compiles any GeneratedWorkout into a timeline of prestart/work/rest/transition phases.
+// - Time is derived from wall-clock timestamps (start + pauses), so throttled timers never drift.
+// - Pure functions with no browser dependencies.
+
+import type { Framework } from "./frameworks";
+import type { GeneratedWorkout } from "./schema";
+
+export type TimelinePhaseKind = "prestart" | "work" | "rest" | "transition";
+
+// interval: short ":ss" countdown, countdown: m:ss time left, countup: m:ss time elapsed
+export type TimelineClockStyle = "interval" | "countdown" | "countup";
+
+export interface TimelinePhase {
+  kind: TimelinePhaseKind;
+  roundIndex: number; // Index into workout.rounds this phase belongs to (rest: the round coming up)
+  startMs: number; // Offset from the start of the timeline
+  endMs: number;
+  label: string; // Timer caption, e.g. "Go!", "Rest", "Time Cap"
+  clock: TimelineClockStyle;
+  cue: string | null; // Spoken when the phase starts
+}
+
+export interface WorkoutTimeline {
+  phases: TimelinePhase[];
+  durationMs: number;
+  workStartMs: number; // End of the prestart countdown
+  manualAdvance: boolean; // Exercises advance on tap within one long work phase (AMRAP, Ladder, For Time)
+}
+
+export interface TimelineOptions {
+  prestartSeconds?: number;
+  restAutoSkip?: boolean;
+}
+
+type WorkoutRound = GeneratedWorkout["rounds"][number];
+type PhaseDraft = Omit<TimelinePhase, "startMs" | "endMs"> & { seconds: number };
+
+/**
+ * Spoken/visible target for a round, e.g. "12 reps", "30 seconds" or "10 reps, 5 each leg"
+ */
+export function describeRoundTarget(round: WorkoutRound): string {
+  if (round.isHold) return `${round.reps} seconds`;
+  if (round.alternatesSides) return `${round.reps} reps, ${round.reps / 2} each leg`;
+  return `${round.reps} reps`;
+}
+
+function workCue(round: WorkoutRound): string {
+  return `${round.exerciseName}, ${describeRoundTarget(round)}`;
+}
+
+// One long work phase covering the whole time window; the runner advances exercises on tap
+function singleClockPhases(workout: GeneratedWorkout, label: string, clock: TimelineClockStyle): PhaseDraft[] {
+  const first = workout.rounds[0];
+  return [{ kind: "work", roundIndex: 0, seconds: workout.durationMinutes * 60, label, clock, cue: first ? workCue(first) : null }];
+}
+
+const PHASE_BUILDERS: Record<Framework, (workout: GeneratedWorkout, options: TimelineOptions) => PhaseDraft[]> = {
+  EMOM: (workout) =>
+    workout.rounds.map((round, roundIndex) => ({
+      kind: "work",
+      roundIndex,
+      seconds: 60,
+      label: "Go!",
+      clock: "interval",
+      cue: workCue(round),
+    })),
+  Tabata: (workout, options) =>
+    workout.rounds.flatMap((round, roundIndex): PhaseDraft[] => {
+      const work: PhaseDraft = {
+        kind: "work",
+        roundIndex,
+        seconds: workout.workSeconds || 20,
+        label: "Go!",
+        clock: "interval",
+        cue: workCue(round),
+      };
+      const isLast = roundIndex === workout.rounds.length - 1;
+      if (isLast || options.restAutoSkip) return [work];
+      return [
+        work,
+        { kind: "rest", roundIndex: roundIndex + 1, seconds: workout.restSeconds || 10, label: "Rest", clock: "interval", cue: "Rest" },
+      ];
+    }),
+  Circuit: (workout, options) => {
+    const exercisesPerRound = workout.rounds.length / (workout.totalRounds || 1);
+    return workout.rounds.flatMap((round, roundIndex): PhaseDraft[] => {
+      const work: PhaseDraft = {
+        kind: "work",
+        roundIndex,
+        seconds: workout.workSeconds || 45,
+        label: "Go!",
+        clock: "interval",
+        cue: workCue(round),
+      };
+      const endsRound = (roundIndex + 1) % exercisesPerRound === 0 && roundIndex < workout.rounds.length - 1;
+      if (!endsRound || options.restAutoSkip) return [work];
+      return [
+        work,
+        {
+          kind: "transition",
+          roundIndex: roundIndex + 1,
+          seconds: workout.restSeconds || 60,
+          label: "Rest",
+          clock: "interval",
+          cue: "Round rest",
+        },
+      ];
+    });
+  },
+  AMRAP: (workout) => singleClockPhases(workout, "Time Left", "countdown"),
+  Ladder: (workout) => singleClockPhases(workout, "Time Cap", "countdown"),
+  ForTime: (workout) => singleClockPhases(workout, "Elapsed", "countup"),
+};
+
+const MANUAL_ADVANCE_FRAMEWORKS: Framework[] = ["AMRAP", "Ladder", "ForTime"];
+
+/**
+ * Compile a workout into its phase timeline. Offsets are relative to the start;
+ * combine with a TimelineClock for absolute timestamps.
+ */
+export function compileWorkoutTimeline(workout: GeneratedWorkout, options: TimelineOptions = {}): WorkoutTimeline {
+  const drafts: PhaseDraft[] = [];
+  const prestartSeconds = options.prestartSeconds ?? 0;
+  if (prestartSeconds > 0) {
+    drafts.push({ kind: "prestart", roundIndex: 0, seconds: prestartSeconds, label: "Get Ready", clock: "interval", cue: null });
+  }
+  drafts.push(...PHASE_BUILDERS[workout.framework](workout, options));
+
+  let cursorMs = 0;
+  const phases = drafts.map(({ seconds, ...phase }) => {
+    const startMs = cursorMs;
+    cursorMs += seconds * 1000;
+    return { ...phase, startMs, endMs: cursorMs };
+  });
+
+  return {
+    phases,
+    durationMs: cursorMs,
+    workStartMs: prestartSeconds * 1000,
+    manualAdvance: MANUAL_ADVANCE_FRAMEWORKS.includes(workout.framework),
+  };
+}
+
+// Wall-clock anchor for a timeline. startedAt shifts forward by every pause so
+// elapsed time is always (pausedAt ?? now) - startedAt.
+export interface TimelineClock {
+  startedAt: number | null;
+  pausedAt: number | null;
+}
+
+export const IDLE_CLOCK: TimelineClock = { startedAt: null, pausedAt: null };
+
+export function isClockRunning(clock: TimelineClock): boolean {
+  return clock.startedAt !== null && clock.pausedAt === null;
+}
+
+export function getClockElapsedMs(clock: TimelineClock, now: number): number {
+  if (clock.startedAt === null) return 0;
+  return Math.max(0, (clock.pausedAt ?? now) - clock.startedAt);
+}
+
+/**
+ * Start an idle clock, or resume a paused one without counting the pause
+ */
+export function startClock(clock: TimelineClock, now: number): TimelineClock {
+  if (clock.startedAt === null) return { startedAt: now, pausedAt: null };
+  if (clock.pausedAt === null) return clock;
+  return { startedAt: clock.startedAt + (now - clock.pausedAt), pausedAt: null };
+}
+
+export function pauseClock(clock: TimelineClock, now: number): TimelineClock {
+  if (!isClockRunning(clock)) return clock;
+  return { ...clock, pausedAt: now };
+}
+
+/**
+ * Jump to an elapsed offset. A running clock keeps running; an idle or paused one stays paused there.
+ */
+export function seekClock(clock: TimelineClock, elapsedMs: number, now: number): TimelineClock {
+  const reference = clock.pausedAt ?? now;
+  return { startedAt: reference - elapsedMs, pausedAt: isClockRunning(clock) ? null : reference };
+}
+
+export interface TimelinePosition {
+  phaseIndex: number;
+  phase: TimelinePhase;
+  nextPhase: TimelinePhase | null;
+  secondsLeft: number; // Whole seconds left in the phase (rounded up)
+  phaseElapsedSeconds: number;
+  isFinished: boolean;
+}
+
+/**
+ * Phase at an elapsed offset. Past the end, the last phase is reported with 0 seconds left.
+ */
+export function getTimelinePosition(timeline: WorkoutTimeline, elapsedMs: number): TimelinePosition {
+  const lastIndex = timeline.phases.length - 1;
+  let phaseIndex = timeline.phases.findIndex((phase) => elapsedMs < phase.endMs);
+  if (phaseIndex === -1) phaseIndex = lastIndex;
+
+  const phase = timeline.phases[phaseIndex];
+  const isFinished = elapsedMs >= timeline.durationMs;
+  const clampedMs = Math.min(Math.max(elapsedMs, phase.startMs), phase.endMs);
+
+  return {
+    phaseIndex,
+    phase,
+    nextPhase: timeline.phases[phaseIndex + 1] ?? null,
+    secondsLeft: isFinished ? 0 : Math.ceil((phase.endMs - clampedMs) / 1000),
+    phaseElapsedSeconds: Math.floor((clampedMs - phase.startMs) / 1000),
+    isFinished,
+  };
+}
+
+/**
+ * Absolute wall-clock window of a phase, or null while the clock has not started
+ */
+export function getPhaseTimestamps(clock: TimelineClock, phase: TimelinePhase): { startsAt: number; endsAt: number } | null {
+  if (clock.startedAt === null) return null;
+  return { startsAt: clock.startedAt + phase.startMs, endsAt: clock.startedAt + phase.endMs };
+}
+
+/**
+ * Index of the first work phase for a later round (skipping any rest in between), or -1 at the end
+ */
+export function findNextWorkPhaseIndex(timeline: WorkoutTimeline, phaseIndex: number): number {
+  const currentRound = timeline.phases[phaseIndex]?.roundIndex ?? 0;
+  const isCurrentWork = timeline.phases[phaseIndex]?.kind === "work";
+  return timeline.phases.findIndex(
+    (phase, index) =>
+      index > phaseIndex && phase.kind === "work" && (isCurrentWork ? phase.roundIndex > currentRound : phase.roundIndex >= currentRound)
+  );
+}
@@ -0,0 +1,123 @@
+// CHANGE SUMMARY (2026-10-18):
+// - Created multi-week training program templates (fat loss, strength base, engine builder).
+// - Each week sets its framework mix, volume and intensity targets, and a training focus.
+// - A program "day" is a training session, not a calendar day: the pointer moves when a
+//   program workout is completed, so missed days never skip part of the block.
+
+import type { Framework } from "./frameworks";
+import type { PrimaryGoalId } from "./goals";
+
+export const PROGRAM_IDS = ["fat_loss_6wk", "strength_base_4wk", "engine_builder_8wk"] as const;
+export type ProgramId = typeof PROGRAM_IDS[number];
+
+export type ProgramIntensity = "low" | "moderate" | "high";
+
+export interface ProgramWeek {
+  frameworks: Framework[]; // One entry per session, in order; the length is the week's session count
+  volume: number; // Rep multiplier against a regular generated workout (1.0 = baseline)
+  intensity: ProgramIntensity; // Used as the session energy level when the user gives none
+  focus: string; // Steers exercise selection like a "focus today" note
+}
+
+export interface TrainingProgramConfig {
+  id: ProgramId;
+  name: string;
+  subtitle: string;
+  primaryGoal: PrimaryGoalId; // Goal the program is written for; any member can enrol
+  weeks: ProgramWeek[];
+}
+
+export const TRAINING_PROGRAMS: TrainingProgramConfig[] = [
+  {
+    id: "fat_loss_6wk",
+    name: "6-Week Fat Loss",
+    subtitle: "Build density week over week, then peak",
+    primaryGoal: "fat_loss",
+    weeks: [
+      { frameworks: ["Circuit", "EMOM", "Circuit"], volume: 0.9, intensity: "moderate", focus: "cardio" },
+      { frameworks: ["Circuit", "Tabata", "EMOM"], volume: 1.0, intensity: "moderate", focus: "cardio" },
+      { frameworks: ["Tabata", "EMOM", "AMRAP", "Circuit"], volume: 1.05, intensity: "moderate", focus: "cardio" },
+      { frameworks: ["Tabata", "AMRAP", "EMOM", "Circuit"], volume: 1.1, intensity: "high", focus: "engine" },
+      { frameworks: ["Tabata", "AMRAP", "ForTime", "Tabata"], volume: 1.15, intensity: "high", focus: "engine" },
+      { frameworks: ["Tabata", "AMRAP", "ForTime", "Circuit"], volume: 1.2, intensity: "high", focus: "engine" },
+    ],
+  },
+  {
+    id: "strength_base_4wk",
+    name: "4-Week Strength Base",
+    subtitle: "Steady strength volume with a lighter closing week",
+    primaryGoal: "strength_power",
+    weeks: [
+      { frameworks: ["EMOM", "Ladder", "EMOM"], volume: 0.95, intensity: "moderate", focus: "strength" },
+      { frameworks: ["EMOM", "Ladder", "Circuit"], volume: 1.05, intensity: "moderate", focus: "strength" },
+      { frameworks: ["Ladder", "EMOM", "Ladder"], volume: 1.15, intensity: "high", focus: "strength" },
+      { frameworks: ["EMOM", "Circuit"], volume: 0.85, intensity: "low", focus: "strength" },
+    ],
+  },
+  {
+    id: "engine_builder_8wk",
+    name: "8-Week Engine Builder",
+    subtitle: "Long aerobic block with two lighter weeks",
+    primaryGoal: "fat_loss",
+    weeks: [
+      { frameworks: ["Circuit", "EMOM", "Circuit"], volume: 0.9, intensity: "low", focus: "cardio" },
+      { frameworks: ["Circuit", "EMOM", "AMRAP"], volume: 1.0, intensity: "moderate", focus: "cardio" },
+      { frameworks: ["EMOM", "AMRAP", "Circuit", "Tabata"], volume: 1.05, intensity: "moderate", focus: "cardio" },
+      { frameworks: ["Circuit", "EMOM", "Circuit"], volume: 0.85, intensity: "low", focus: "mobility" },
+      { frameworks: ["AMRAP", "Tabata", "EMOM", "Circuit"], volume: 1.1, intensity: "moderate", focus: "engine" },
+      { frameworks: ["Tabata", "AMRAP", "ForTime", "Circuit"], volume: 1.15, intensity: "high", focus: "engine" },
+      { frameworks: ["Circuit", "EMOM", "Circuit"], volume: 0.85, intensity: "low", focus: "mobility" },
+      { frameworks: ["Tabata", "AMRAP", "ForTime", "Tabata"], volume: 1.2, intensity: "high", focus: "engine" },
+    ],
+  },
+];
+
+/** Where a member is within a program: one scheduled session */
+export interface ProgramDay {
+  programId: ProgramId;
+  programName: string;
+  dayIndex: number; // 0-based across the whole program
+  totalDays: number;
+  week: number; // 1-based
+  totalWeeks: number;
+  session: number; // 1-based within the week
+  sessionsInWeek: number;
+  framework: Framework;
+  volume: number;
+  intensity: ProgramIntensity;
+  focus: string;
+}
+
+export function getTrainingProgram(id: string): TrainingProgramConfig | undefined {
+  return TRAINING_PROGRAMS.find((program) => program.id === id);
+}
+
+export function getProgramLength(program: TrainingProgramConfig): number {
+  return program.weeks.reduce((sum, week) => sum + week.frameworks.length, 0);
+}
+
+/** The session at a day pointer, or null once the program is finished */
+export function getProgramDay(program: TrainingProgramConfig, dayIndex: number): ProgramDay | null {
+  let remaining = dayIndex;
+  for (let weekIndex = 0; weekIndex < program.weeks.length; weekIndex++) {
+    const week = program.weeks[weekIndex];
+    if (remaining < week.frameworks.length) {
+      return {
+        programId: program.id,
+        programName: program.name,
+        dayIndex,
+        totalDays: getProgramLength(program),
+        week: weekIndex + 1,
+        totalWeeks: program.weeks.length,
+        session: remaining + 1,
+        sessionsInWeek: week.frameworks.length,
+        framework: week.frameworks[remaining],
+        volume: week.volume,
+        intensity: week.intensity,
+        focus: week.focus,
+      };
+    }
+    remaining -= week.frameworks.length;
+  }
+  return null;
+}
@@ -22,8 +22,12 @@ import {
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import type { EquipmentId } from "./equipment";
+import { getEquipmentById, type EquipmentId } from "./equipment";
+import { EXERCISE_CATEGORIES, type ExerciseCategory, type ExerciseDifficulty } from "./exercises";
 import type { PrimaryGoalId } from "./goals";
+import type { ExerciseConstraints } from "./constraints";
+import { LADDER_SCHEMES, type LadderScheme } from "./frameworks";
+import { PROGRAM_IDS, type ProgramId } from "./programs";
 
 export const timeBlocks = ["morning", "afternoon", "evening"] as const;
 export type TimeBlock = typeof timeBlocks[number];
@@ -52,6 +56,20 @@ export const sessionIntentSchema = z.object({
 
 export type SessionIntent = z.infer<typeof sessionIntentSchema>;
 
+// Users table - Local copy of the auth provider's account details, refreshed on every sign-in
+export const users = pgTable("users", {
+  id: uuid("id").primaryKey(), // Same id as the auth provider's user
+  email: text("email"),
+  firstName: text("first_name"),
+  lastName: text("last_name"),
+  profileImageUrl: text("profile_image_url"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type UpsertUser = Omit<typeof users.$inferInsert, "createdAt" | "updatedAt">;
+export type User = typeof users.$inferSelect;
+
 // Profiles table (fitness preferences)
 // Note: userId references Supabase auth.users.id (UUID)
 export const profiles = pgTable("profiles", {
@@ -65,8 +83,11 @@ export const profiles = pgTable("profiles", {
   secondaryGoals: jsonb("secondary_goals").$type<PrimaryGoalId[]>(), // New: Optional secondary goals
   goalWeights: jsonb("goal_weights").$type<Record<PrimaryGoalId, number>>(), // New: AI-facing goal weights
   skillScore: integer("skill_score").default(50).notNull(), // 0-100
+  skillBaseline: integer("skill_baseline"), // Skill score the user last set themselves; derived-state replays start here
+  skillBaselineAt: timestamp("skill_baseline_at"), // When it was set; only later sessions move the replayed score
   optimalTimeBlock: text("optimal_time_block").$type<TimeBlock>(),
   timeBlockPerformance: jsonb("time_block_performance").$type<TimeBlockPerformanceMap>(),
+  exerciseConstraints: jsonb("exercise_constraints").$type<ExerciseConstraints>(), // Hard filters: banned exercises, avoided muscles, impact/overhead limits
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -74,39 +95,133 @@ export const profilesRelations = relations(profiles, ({ many }) => ({
   sessions: many(workoutSessions),
 }));
 
-export const insertProfileSchema = createInsertSchema(profiles).omit({
-  id: true,
-  createdAt: true,
+export const exerciseConstraintsSchema = z.object({
+  bannedExerciseIds: z.array(z.string().min(1)).max(100).default([]),
+  avoidedMuscleGroups: z.array(z.string().min(1)).max(20).default([]),
+  noPlyometric: z.boolean().default(false),
+  lowImpact: z.boolean().default(false),
+  limitedOverhead: z.boolean().default(false),
 });
 
+export const insertProfileSchema = createInsertSchema(profiles)
+  .omit({
+    id: true,
+    skillBaseline: true,
+    skillBaselineAt: true,
+    createdAt: true,
+  })
+  .extend({
+    exerciseConstraints: exerciseConstraintsSchema.nullish(),
+  });
+
 export type InsertProfile = z.infer<typeof insertProfileSchema>;
 export type Profile = typeof profiles.$inferSelect;
+// Recorded by the server whenever the user sets their skill score, never sent by the client
+export type SkillBaseline = Pick<Profile, "skillBaseline" | "skillBaselineAt">;
 
 // Workout framework type
-export const workoutFrameworks = ["EMOM", "Tabata", "AMRAP", "Circuit"] as const;
+export const workoutFrameworks = ["EMOM", "Tabata", "AMRAP", "Circuit", "Ladder", "ForTime"] as const;
 export type WorkoutFramework = typeof workoutFrameworks[number];
 
 export const workoutGenerationRequestSchema = sessionIntentSchema.extend({
   framework: z.enum(workoutFrameworks).optional(),
+  seed: z.coerce.number().int().positive().max(2147483647).optional(), // Stored in an integer column
 });
 
 export type WorkoutGenerationRequest = z.infer<typeof workoutGenerationRequestSchema>;
 
-// Workout sessions table
-export const workoutSessions = pgTable("workout_sessions", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: uuid("user_id").notNull(),
-  framework: text("framework").default("EMOM").notNull().$type<WorkoutFramework>(),
-  durationMinutes: integer("duration_minutes").notNull(),
-  difficultyTag: text("difficulty_tag").notNull(), // "beginner", "intermediate", "advanced"
-  focusLabel: text("focus_label").notNull(), // "cardio", "strength", "metcon"
-  perceivedExertion: integer("perceived_exertion"), // 1-5 RPE
-  notes: text("notes"),
-  completed: boolean("completed").default(false).notNull(),
-  timeBlock: text("time_block").notNull().default("morning").$type<TimeBlock>(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
+// Manual workout builder (Workout Lab) - user-ordered exercise slots with custom reps
+export const manualWorkoutSlotSchema = z.object({
+  exerciseId: z.string().min(1),
+  reps: z.coerce.number().int().min(1).max(600), // Seconds for hold exercises
+});
+
+export const manualWorkoutRequestSchema = z.object({
+  framework: z.enum(workoutFrameworks),
+  durationMinutes: z.coerce.number().int().min(4).max(60),
+  workSeconds: z.coerce.number().int().min(10).max(300).optional(), // Tabata/Circuit work interval
+  restSeconds: z.coerce.number().int().min(0).max(300).optional(), // Tabata interval rest / Circuit rest between rounds
+  ladderScheme: z.enum(LADDER_SCHEMES).optional(), // Ladder rep progression; slot reps are the peak rung
+  focusLabel: z.string().trim().max(48).optional(),
+  slots: z.array(manualWorkoutSlotSchema).min(1, "Add at least one exercise").max(20),
+});
+
+export type ManualWorkoutSlot = z.infer<typeof manualWorkoutSlotSchema>;
+export type ManualWorkoutRequest = z.infer<typeof manualWorkoutRequestSchema>;
+
+// Workout interchange format (POST /api/workout/import), documented in docs/workout-interchange-format.md.
+// Exercises are matched by name, so files written outside the app need no catalog ids.
+export const WORKOUT_INTERCHANGE_FORMAT = "hiit-lab-workout";
+export const WORKOUT_INTERCHANGE_VERSION = 1;
+
+export const interchangeExerciseSchema = z
+  .object({
+    name: z.string().trim().min(1).max(64),
+    reps: z.number().int().min(1).max(600).optional(),
+    seconds: z.number().int().min(1).max(600).optional(), // Target for holds
+    muscleGroup: z.string().trim().toLowerCase().max(32).optional(), // Fallback when the name matches nothing
+  })
+  .refine((exercise) => exercise.reps !== undefined || exercise.seconds !== undefined, "Give reps or seconds");
+
+export const workoutInterchangeSchema = z.object({
+  format: z.literal(WORKOUT_INTERCHANGE_FORMAT),
+  version: z.literal(WORKOUT_INTERCHANGE_VERSION),
+  name: z.string().trim().min(1).max(48),
+  author: z.string().trim().max(64).optional(),
+  framework: z.enum(workoutFrameworks),
+  durationMinutes: z.number().int().min(4).max(60), // Time cap for AMRAP, For Time and Ladder
+  workSeconds: z.number().int().min(10).max(300).optional(),
+  restSeconds: z.number().int().min(0).max(300).optional(),
+  ladderScheme: z.enum(LADDER_SCHEMES).optional(),
+  exercises: z.array(interchangeExerciseSchema).min(1, "Add at least one exercise").max(20), // In running order
+});
+
+export type InterchangeExercise = z.infer<typeof interchangeExerciseSchema>;
+export type WorkoutInterchange = z.infer<typeof workoutInterchangeSchema>;
+
+export interface WorkoutImportResult {
+  workout: GeneratedWorkout; // Persisted, so id is set
+  warnings: string[];
+}
+
+// Exercise library filters (GET /api/exercises); equipment is a comma-separated list
+export const exerciseLibraryQuerySchema = z.object({
+  equipment: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").map((item) => item.trim()).filter(Boolean) : undefined)),
+  muscleGroup: z.string().optional(),
+  category: z.enum(EXERCISE_CATEGORIES).optional(),
+  difficulty: z.enum(["beginner", "intermediate", "advanced"]).optional(),
 });
 
+export type ExerciseLibraryQuery = z.infer<typeof exerciseLibraryQuerySchema>;
+
+// Workout sessions table
+export const workoutSessions = pgTable(
+  "workout_sessions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull(),
+    framework: text("framework").default("EMOM").notNull().$type<WorkoutFramework>(),
+    durationMinutes: integer("duration_minutes").notNull(),
+    difficultyTag: text("difficulty_tag").notNull(), // "beginner", "intermediate", "advanced"
+    focusLabel: text("focus_label").notNull(), // "cardio", "strength", "metcon"
+    perceivedExertion: integer("perceived_exertion"), // 1-5 RPE
+    notes: text("notes"),
+    completed: boolean("completed").default(false).notNull(),
+    timeBlock: text("time_block").notNull().default("morning").$type<TimeBlock>(),
+    generatedWorkoutId: uuid("generated_workout_id").references(() => generatedWorkouts.id, { onDelete: 'set null' }),
+    finishSeconds: integer("finish_seconds"), // For Time: seconds to finish all work (null if the time cap hit first)
+    repsAtCap: integer("reps_at_cap"), // For Time: reps completed when the time cap hit
+    amrapRounds: integer("amrap_rounds"), // AMRAP: full rounds completed
+    amrapReps: integer("amrap_reps"), // AMRAP: reps into the unfinished round
+    idempotencyKey: text("idempotency_key"), // Client-generated per completion so retried submissions are not duplicated
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("workout_sessions_user_idempotency_idx").on(table.userId, table.idempotencyKey)]
+);
+
 export const workoutSessionsRelations = relations(workoutSessions, ({ one, many }) => ({
   profile: one(profiles, {
     fields: [workoutSessions.userId],
@@ -123,11 +238,110 @@ export const insertWorkoutSessionSchema = createInsertSchema(workoutSessions)
   .extend({
     framework: z.enum(workoutFrameworks),
     timeBlock: z.enum(timeBlocks),
+    generatedWorkoutId: z.string().uuid().nullish(),
+    finishSeconds: z.coerce.number().int().positive().nullish(),
+    repsAtCap: z.coerce.number().int().min(0).nullish(),
+    amrapRounds: z.coerce.number().int().min(0).max(500).nullish(),
+    amrapReps: z.coerce.number().int().min(0).nullish(),
+    idempotencyKey: z.string().trim().min(8).max(128).nullish(),
   });
 
 export type InsertWorkoutSession = z.infer<typeof insertWorkoutSessionSchema>;
 export type WorkoutSession = typeof workoutSessions.$inferSelect;
 
+// Sessions finished offline sync later but keep the time they were finished, within limits
+export const MAX_SESSION_BACKDATE_DAYS = 7;
+const COMPLETED_AT_CLOCK_SKEW_MS = 5 * 60 * 1000; // Device clocks run slightly ahead; treated as now
+
+export const sessionCompletedAtSchema = z.coerce
+  .date()
+  .refine((date) => date.getTime() <= Date.now() + COMPLETED_AT_CLOCK_SKEW_MS, "Completion time is in the future")
+  .refine(
+    (date) => date.getTime() >= Date.now() - MAX_SESSION_BACKDATE_DAYS * 24 * 60 * 60 * 1000,
+    `Sessions finished more than ${MAX_SESSION_BACKDATE_DAYS} days ago can't be logged`
+  )
+  .transform((date) => new Date(Math.min(date.getTime(), Date.now())));
+
+// Corrections to a logged session; prescribed targets stay as performed
+export const updateWorkoutSessionSchema = z.object({
+  perceivedExertion: z.coerce.number().int().min(1).max(5).optional(),
+  notes: z.string().max(1000).nullable().optional(),
+  rounds: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        actualReps: z.coerce.number().int().min(0).nullable().optional(),
+        actualSeconds: z.coerce.number().int().min(0).nullable().optional(),
+        skipped: z.boolean().optional(),
+      })
+    )
+    .max(500)
+    .optional(),
+});
+
+export type UpdateWorkoutSession = z.infer<typeof updateWorkoutSessionSchema>;
+
+// What saving a session changed, returned by POST /api/workout/session
+export interface SessionSaveSummary {
+  session: WorkoutSession;
+  duplicate: boolean; // A retried idempotency key; nothing was written
+  newPersonalRecords: Array<{
+    exerciseName: string;
+    recordType: PersonalRecordType;
+    bestReps: number | null;
+    bestSeconds: number | null;
+    bestRounds: number | null;
+  }>;
+  masteryChanges: Array<{ exerciseName: string; previousScore: number | null; masteryScore: number }>;
+  skillScore: { previous: number; current: number } | null; // Null when the user has no profile
+}
+
+// Newest-first history pages; the cursor comes from the previous page's nextCursor
+export const workoutHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().max(200).optional(),
+  view: z.enum(["full", "summary"]).default("full"), // summary leaves out rounds and notes
+  framework: z.enum(workoutFrameworks).optional(),
+  focusLabel: z.string().trim().min(1).max(64).optional(),
+  completed: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  from: z.coerce.date().optional(), // Inclusive
+  to: z.coerce.date().optional(), // Inclusive
+});
+
+export type WorkoutHistoryQuery = z.infer<typeof workoutHistoryQuerySchema>;
+export type WorkoutSessionWithRounds = WorkoutSession & { rounds: WorkoutRound[] };
+export type WorkoutSessionSummary = Omit<WorkoutSession, "userId" | "notes" | "idempotencyKey">;
+
+export interface WorkoutHistoryPage<T extends WorkoutSessionSummary = WorkoutSessionWithRounds> {
+  sessions: T[];
+  nextCursor: string | null;
+  totals: { count: number; minutes: number }; // Every session matching the filters, not just this page
+}
+
+export const exportQuerySchema = z.object({
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+// Single session as an activity file for other fitness platforms
+export const sessionExportQuerySchema = z.object({
+  format: z.enum(["tcx", "fit"]).default("tcx"),
+});
+
+// Bump when the shape of WorkoutExport changes so older files can still be read
+export const WORKOUT_EXPORT_VERSION = 1;
+
+export interface WorkoutExport {
+  version: typeof WORKOUT_EXPORT_VERSION;
+  exportedAt: string; // ISO timestamp
+  profile: Profile | null;
+  sessions: WorkoutSessionWithRounds[]; // Newest first
+  personalRecords: PersonalRecord[];
+  mastery: ExerciseMastery[];
+}
+
 // Workout rounds table (individual EMOM rounds)
 export const workoutRounds = pgTable("workout_rounds", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -177,15 +391,21 @@ export const exerciseStats = pgTable(
 export type ExerciseStat = typeof exerciseStats.$inferSelect;
 export type InsertExerciseStat = typeof exerciseStats.$inferInsert;
 
-// Personal records table - Track best performance per exercise
+// Exercise records track single-round bests; benchmark records track For Time and AMRAP results
+export const personalRecordTypes = ["exercise", "benchmark"] as const;
+export type PersonalRecordType = typeof personalRecordTypes[number];
+
+// Personal records table - Track best performance per exercise (and per For Time / AMRAP benchmark)
 export const personalRecords = pgTable(
   "personal_records",
   {
     id: uuid("id").primaryKey().defaultRandom(),
     userId: uuid("user_id").notNull(),
-    exerciseName: text("exercise_name").notNull(),
-    bestReps: integer("best_reps"),
-    bestSeconds: integer("best_seconds"),
+    exerciseName: text("exercise_name").notNull(), // Benchmark name for benchmark records
+    recordType: text("record_type").default("exercise").notNull().$type<PersonalRecordType>(),
+    bestReps: integer("best_reps"), // Benchmark: most reps completed (all reps once finished)
+    bestSeconds: integer("best_seconds"), // Benchmark: fastest finish time (lower is better)
+    bestRounds: integer("best_rounds"), // AMRAP benchmark: full rounds of the best score (bestReps holds the extra reps)
     bestSessionId: uuid("best_session_id").references(() => workoutSessions.id, { onDelete: 'set null' }),
     achievedAt: timestamp("achieved_at").defaultNow().notNull(),
   },
@@ -247,6 +467,21 @@ export const weeklyPeriodization = pgTable(
 export type WeeklyPeriodization = typeof weeklyPeriodization.$inferSelect;
 export type InsertWeeklyPeriodization = typeof weeklyPeriodization.$inferInsert;
 
+// Block periodization: where this week falls in the current mesocycle (derived, not stored)
+export type MesocyclePhase = "accumulation" | "intensification" | "deload";
+
+export interface MesocycleStatus {
+  phase: MesocyclePhase;
+  cycleWeek: number; // 1-based week within the mesocycle
+  cycleLength: number;
+  phaseWeek: number; // 1-based week within the phase
+  phaseLength: number;
+  trainingAgeWeeks: number;
+  repScale: number; // Applied to prescribed reps by every generator
+  durationScale: number; // Applied to session length (minutes, rounds, rungs or chipper volume)
+  explanation: string;
+}
+
 // Framework preferences table - Track user framework preferences
 export const frameworkPreferences = pgTable(
   "framework_preferences",
@@ -266,16 +501,151 @@ export const frameworkPreferences = pgTable(
 export type FrameworkPreference = typeof frameworkPreferences.$inferSelect;
 export type InsertFrameworkPreference = typeof frameworkPreferences.$inferInsert;
 
+// Custom exercises table - User-defined movements merged into the generator candidate pool
+export const customExercises = pgTable(
+  "custom_exercises",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull(),
+    name: text("name").notNull(),
+    muscleGroup: text("muscle_group").notNull(),
+    difficulty: text("difficulty").notNull().$type<ExerciseDifficulty>(),
+    equipment: jsonb("equipment").notNull().$type<EquipmentId[]>(),
+    reps: jsonb("reps").notNull().$type<Record<ExerciseDifficulty, number>>(),
+    isHold: boolean("is_hold").default(false).notNull(),
+    alternatesSides: boolean("alternates_sides").default(false).notNull(),
+    categories: jsonb("categories").notNull().$type<Record<ExerciseCategory, boolean>>(),
+    cues: jsonb("cues").$type<string[]>().default([]).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("custom_exercises_user_name_idx").on(table.userId, table.name)]
+);
+
+const exerciseDifficultySchema = z.enum(["beginner", "intermediate", "advanced"]);
+const exerciseRepTargetSchema = z.coerce.number().int().min(1).max(600);
+
+export const insertCustomExerciseSchema = createInsertSchema(customExercises)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(2, "Name must be at least 2 characters").max(64, "Name should be concise (64 characters max)"),
+    muscleGroup: z.string().trim().min(1).max(32),
+    difficulty: exerciseDifficultySchema,
+    equipment: z
+      .array(z.string())
+      .min(1, "Choose at least one equipment option")
+      .refine((ids) => ids.every((id) => !!getEquipmentById(id as EquipmentId)), "Unknown equipment option"),
+    reps: z.object({
+      beginner: exerciseRepTargetSchema,
+      intermediate: exerciseRepTargetSchema,
+      advanced: exerciseRepTargetSchema,
+    }),
+    categories: z.object({
+      compound: z.boolean(),
+      cardio: z.boolean(),
+      plyometric: z.boolean(),
+      mobility: z.boolean(),
+    }),
+    cues: z.array(z.string().trim().min(1).max(120)).max(5).optional(),
+  });
+
+export type InsertCustomExercise = z.infer<typeof insertCustomExerciseSchema>;
+export type CustomExercise = typeof customExercises.$inferSelect;
+
+// Generated workouts table - Persist each generated plan so preview, runner and save share one workout
+export const generatedWorkouts = pgTable(
+  "generated_workouts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull(),
+    framework: text("framework").notNull().$type<WorkoutFramework>(),
+    seed: integer("seed"),
+    workout: jsonb("workout").notNull().$type<GeneratedWorkout>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("generated_workouts_user_idx").on(table.userId, table.createdAt)]
+);
+
+export type GeneratedWorkoutRecord = typeof generatedWorkouts.$inferSelect;
+export type InsertGeneratedWorkoutRecord = typeof generatedWorkouts.$inferInsert;
+
+// Favorite workouts table - Named personal library of workouts the user wants to run again
+export const favoriteWorkouts = pgTable(
+  "favorite_workouts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull(),
+    name: text("name").notNull(),
+    tags: jsonb("tags").$type<string[]>().default([]).notNull(),
+    framework: text("framework").notNull().$type<WorkoutFramework>(),
+    workout: jsonb("workout").notNull().$type<GeneratedWorkout>(), // Snapshot without actuals
+    sourceSessionId: uuid("source_session_id").references(() => workoutSessions.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("favorite_workouts_user_idx").on(table.userId, table.createdAt)]
+);
+
+// Save from a persisted workout (preview/runner) or from a past session (workout detail)
+export const createFavoriteWorkoutSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(64),
+    tags: z.array(z.string().trim().toLowerCase().min(1).max(24)).max(10).default([]),
+    workoutId: z.string().uuid().optional(),
+    sessionId: z.string().uuid().optional(),
+  })
+  .refine((data) => !!data.workoutId !== !!data.sessionId, "Provide either workoutId or sessionId");
+
+export const favoriteWorkoutQuerySchema = z.object({
+  q: z.string().trim().max(64).optional(),
+  tag: z.string().trim().toLowerCase().max(24).optional(),
+});
+
+export type CreateFavoriteWorkout = z.infer<typeof createFavoriteWorkoutSchema>;
+export type FavoriteWorkout = typeof favoriteWorkouts.$inferSelect;
+export type InsertFavoriteWorkout = typeof favoriteWorkouts.$inferInsert;
+
+// Calendar feeds table - Secret token per user for the public ICS feed of planned workouts
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().unique(),
+  token: text("token").notNull().unique(), // Rotating it invalidates every existing subscription
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+
+// Program enrollments table - One active multi-week program per user (see @shared/programs)
+export const programEnrollments = pgTable("program_enrollments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().unique(),
+  programId: text("program_id").notNull().$type<ProgramId>(),
+  currentDay: integer("current_day").notNull().default(0), // Next program session to train (0-based)
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"), // Set when the last program session is completed
+});
+
+export const programEnrollmentRequestSchema = z.object({
+  programId: z.enum(PROGRAM_IDS),
+});
+
+export type ProgramEnrollment = typeof programEnrollments.$inferSelect;
+
 // Generated workout type (returned by AI workout generators)
 export interface GeneratedWorkout {
+  id?: string; // Set once the workout is persisted in generated_workouts
   framework: WorkoutFramework;
-  durationMinutes: number;
+  durationMinutes: number; // Ladder/ForTime: time cap
   difficultyTag: "beginner" | "intermediate" | "advanced";
   focusLabel: string;
   recommendedTimeBlock?: TimeBlock;
   timeBlockHint?: string;
   rounds: Array<{
     minuteIndex: number;
+    exerciseId?: string; // Stable id from @shared/exercises
     exerciseName: string;
     targetMuscleGroup: string;
     difficulty: string;
@@ -290,7 +660,8 @@ export interface GeneratedWorkout {
   workSeconds?: number; // For Tabata: work duration per interval
   restSeconds?: number; // For Tabata/Circuit: rest duration
   sets?: number; // For Tabata: number of intervals per exercise
-  totalRounds?: number; // For Circuit: number of complete rounds
+  totalRounds?: number; // For Circuit: number of complete rounds; for Ladder: number of rungs
+  ladderScheme?: LadderScheme; // For Ladder: ascending, descending or pyramid rep progression
   intent?: SessionIntent;
   rationale?: {
     framework: string;
@@ -298,4 +669,7 @@ export interface GeneratedWorkout {
     exerciseSelection: string;
     schedule?: string;
   };
+  seed?: number; // Seed used for generation; replaying it with the same inputs yields the same workout
+  source?: "generator" | "builder" | "import"; // How the workout was created (defaults to generator)
+  program?: { programId: ProgramId; dayIndex: number }; // Program session this workout was generated for
 }